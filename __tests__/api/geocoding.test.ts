@@ -0,0 +1,141 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { server } from '../setup/mocks/supabase';
+import { buildAddressQueries, geocodeAddress, resolvePropertyLocation } from '@/lib/api/geocoding';
+
+// Recorded in __tests__/setup/mocks/fixtures/crawler/geocode.json
+const SVENSKFAST_URL = 'https://www.svenskfast.se/bostadsratt/skane/malmo/limhamn/bockgrand-14/';
+const UNKNOWN_URL = 'https://example.com/listing/1';
+
+function mockNominatim(hits: Record<string, { lat: string; lon: string; addresstype: string }>) {
+  const queries: string[] = [];
+  server.use(
+    http.get('*/search', ({ request }) => {
+      const query = new URL(request.url).searchParams.get('q') || '';
+      queries.push(query);
+      return HttpResponse.json(hits[query] ? [hits[query]] : []);
+    })
+  );
+  return queries;
+}
+
+// Step the fake clock through the one-request-per-second Nominatim queue until the call settles
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  let settled = false;
+  promise.then(
+    () => (settled = true),
+    () => (settled = true)
+  );
+  while (!settled) await vi.advanceTimersByTimeAsync(1000);
+  return promise;
+}
+
+describe('Geocoding', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('buildAddressQueries', () => {
+    test('tries the full address before the city', () => {
+      expect(buildAddressQueries({ address: 'Bockgränd 14', postalCode: '216 19', city: 'Limhamn' })).toEqual([
+        'Bockgränd 14, 216 19 Limhamn',
+        'Limhamn',
+      ]);
+    });
+
+    test('uses a bare address or city when that is all there is', () => {
+      expect(buildAddressQueries({ address: 'Bockgränd 14' })).toEqual(['Bockgränd 14']);
+      expect(buildAddressQueries({ city: 'Limhamn' })).toEqual(['Limhamn']);
+      expect(buildAddressQueries(undefined)).toEqual([]);
+    });
+  });
+
+  describe('geocodeAddress', () => {
+    test('maps the Nominatim address type to a precision', async () => {
+      mockNominatim({ 'Storgatan 1': { lat: '55.6', lon: '13.0', addresstype: 'road' } });
+
+      expect(await settle(geocodeAddress('Storgatan 1'))).toEqual({
+        latitude: 55.6,
+        longitude: 13.0,
+        precision: 'street',
+      });
+    });
+
+    test('ignores hits coarser than a town', async () => {
+      mockNominatim({ Skåne: { lat: '55.9', lon: '13.5', addresstype: 'state' } });
+
+      expect(await settle(geocodeAddress('Skåne'))).toBeNull();
+    });
+
+    test('spaces out requests to one per second', async () => {
+      const sentAt: number[] = [];
+      server.use(
+        http.get('*/search', () => {
+          sentAt.push(Date.now());
+          return HttpResponse.json([]);
+        })
+      );
+
+      await settle(Promise.all([geocodeAddress('Malmö'), geocodeAddress('Lund')]));
+
+      expect(sentAt).toHaveLength(2);
+      expect(sentAt[1] - sentAt[0]).toBeGreaterThanOrEqual(1000);
+    });
+  });
+
+  describe('resolvePropertyLocation', () => {
+    test('prefers coordinates published by the listing', async () => {
+      const location = await resolvePropertyLocation({ url: SVENSKFAST_URL, latitude: 55.5, longitude: 13.1 });
+
+      expect(location).toEqual({ latitude: 55.5, longitude: 13.1, geocodeSource: 'listing', geocodePrecision: 'exact' });
+    });
+
+    test('falls back to the crawler geocode of the listing URL', async () => {
+      const location = await resolvePropertyLocation({ url: SVENSKFAST_URL });
+
+      expect(location).toEqual({
+        latitude: 55.57642,
+        longitude: 12.93315,
+        geocodeSource: 'crawler',
+        geocodePrecision: 'address',
+      });
+    });
+
+    test('uses a geocode request the caller already started', async () => {
+      const location = await resolvePropertyLocation(
+        { url: UNKNOWN_URL },
+        Promise.resolve({ latitude: 59.33, longitude: 18.06 })
+      );
+
+      expect(location?.geocodeSource).toBe('crawler');
+    });
+
+    test('geocodes the address text when the crawler has nothing', async () => {
+      const queries = mockNominatim({ Lund: { lat: '55.7047', lon: '13.191', addresstype: 'city' } });
+
+      const location = await settle(
+        resolvePropertyLocation({
+          url: UNKNOWN_URL,
+          propertyData: { address: 'Okänd väg 1', city: 'Lund' },
+        })
+      );
+
+      expect(queries).toEqual(['Okänd väg 1, Lund', 'Lund']);
+      expect(location).toEqual({ latitude: 55.7047, longitude: 13.191, geocodeSource: 'address', geocodePrecision: 'city' });
+    });
+
+    test('leaves the property unpinned when nothing resolves', async () => {
+      mockNominatim({});
+
+      expect(
+        await settle(
+          resolvePropertyLocation({ url: UNKNOWN_URL, propertyData: { city: 'Ingenstans' } })
+        )
+      ).toBeNull();
+    });
+  });
+});
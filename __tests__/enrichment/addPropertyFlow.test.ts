@@ -0,0 +1,91 @@
+import { describe, test, expect, vi } from 'vitest';
+import { fetchPropertyMetadata } from '@/lib/api/properties';
+import { goApiClient } from '@/lib/api/goApiClient';
+import { mapExtractedData } from '@/lib/enrichment/mapExtractedData';
+import { fetchGeocodeData } from '@/lib/api/geocoding';
+
+// anonUser pulls in react-native through the persistence layer
+vi.mock('@/lib/utils/anonUser', () => ({ getAnonId: vi.fn().mockResolvedValue('anon-test') }));
+
+// Served by the crawler mock from __tests__/setup/mocks/fixtures/crawler
+const HEMNET_URL =
+  'https://www.hemnet.se/bostad/lagenhet-3rum-limhamn-malmo-kommun-skansbogatan-2a-21234567';
+const SVENSKFAST_URL = 'https://www.svenskfast.se/bostadsratt/skane/malmo/limhamn/bockgrand-14/';
+
+describe('Add-property flow against the crawler mock', () => {
+  test('OG stage reads the recorded page through the site registry', async () => {
+    const metadata = await fetchPropertyMetadata(`${HEMNET_URL}?utm_source=share`);
+
+    expect(metadata.title).toBe('Skansbogatan 2A, Limhamn, Malmö - 3 rum, 74 m²');
+    expect(metadata.siteName).toBe('Hemnet');
+    expect(metadata.latitude).toBe(55.5832);
+    expect(metadata.longitude).toBe(12.9286);
+    expect(metadata.propertyData).toMatchObject({
+      price: 3295000,
+      area: 74,
+      rooms: 3,
+      city: 'Malmö',
+      source: 'Hemnet',
+      enrichmentStatus: 'og_only',
+    });
+  });
+
+  test('OG stage decodes entities from broker OG tags', async () => {
+    const metadata = await fetchPropertyMetadata(SVENSKFAST_URL);
+
+    expect(metadata.title).toBe('Bockgränd 14, Limhamn');
+    expect(metadata.propertyData).toMatchObject({
+      address: 'Bockgränd 14',
+      city: 'Limhamn',
+      brokerOffice: 'Svensk Fastighetsförmedling Limhamn',
+    });
+  });
+
+  test('unknown pages fall back to the hostname', async () => {
+    const metadata = await fetchPropertyMetadata('https://example.com/listing/1');
+
+    expect(metadata.title).toBe('example.com');
+    expect(metadata.propertyData?.enrichmentStatus).toBe('llm_failed');
+  });
+
+  test('auto-crawl answers processing before completing, then serves the cache', async () => {
+    const first = await goApiClient.enrichPropertyData(SVENSKFAST_URL);
+    expect(first.status).toBe('processing');
+    expect(first.extractedData).toEqual({});
+
+    const second = await goApiClient.enrichPropertyData(SVENSKFAST_URL);
+    expect(second).toMatchObject({ status: 'completed', method: 'llm' });
+
+    const mapped = mapExtractedData(second.extractedData);
+    expect(mapped.propertyData).toMatchObject({
+      price: 4450000,
+      area: 98.5,
+      rooms: 4,
+      monthlyFee: 5250,
+      buildYear: 1989,
+      propertyType: 'Radhus',
+    });
+
+    const third = await goApiClient.enrichPropertyData(SVENSKFAST_URL);
+    expect(third.method).toBe('cached');
+  });
+
+  test('auto-crawl fails for pages that were not recorded', async () => {
+    const response = await goApiClient.enrichPropertyData('https://example.com/listing/1');
+
+    expect(response.status).toBe('failed');
+    expect(response.error).toContain('example.com');
+  });
+
+  test('geocode returns the recorded coordinates', async () => {
+    const geocode = await fetchGeocodeData(SVENSKFAST_URL);
+
+    expect(geocode).toMatchObject({
+      latitude: 55.57642,
+      longitude: 12.93315,
+      postalCode: '216 19',
+      formattedAddress: 'Bockgränd 14, 216 19 Limhamn, Sverige',
+    });
+    expect(await fetchGeocodeData('https://example.com/listing/1')).toBeNull();
+  });
+});
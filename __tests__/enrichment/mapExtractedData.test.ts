@@ -0,0 +1,84 @@
+import { describe, test, expect } from 'vitest';
+import { mapExtractedData } from '@/lib/enrichment/mapExtractedData';
+
+describe('mapExtractedData', () => {
+  test('maps a typical auto-crawl response into PropertyLinkData', () => {
+    const result = mapExtractedData({
+      title: 'Skansbogatan 2A, Malmö',
+      price: '3 495 000 kr',
+      currency: 'kr',
+      address: 'Skansbogatan 2A',
+      city: 'Malmö',
+      rooms: '3 rum',
+      area: '72,5 m²',
+      floor: '3',
+      buildYear: 'Byggt 1962',
+      monthlyFee: '4 250 kr/mån',
+      operatingCost: '12 000 kr/år',
+      elevator: 'Ja',
+      balcony: 'Nej',
+      features: 'Balkong, Hiss; Förråd',
+      latitude: '55.5882',
+      longitude: '13.0214',
+    });
+
+    expect(result.title).toBe('Skansbogatan 2A, Malmö');
+    expect(result.latitude).toBeCloseTo(55.5882);
+    expect(result.longitude).toBeCloseTo(13.0214);
+    expect(result.propertyData).toEqual({
+      price: 3495000,
+      currency: 'SEK',
+      address: 'Skansbogatan 2A',
+      city: 'Malmö',
+      rooms: 3,
+      area: 72.5,
+      floor: 3,
+      buildYear: 1962,
+      monthlyFee: 4250,
+      operatingCost: 12000,
+      elevator: true,
+      balcony: false,
+      features: ['Balkong', 'Hiss', 'Förråd'],
+    });
+  });
+
+  test('drops placeholder values instead of storing them', () => {
+    const result = mapExtractedData({
+      price: 'N/A',
+      monthlyFee: 'null',
+      elevator: '',
+      city: 'Uppgift saknas',
+      area: 'okänd',
+    });
+
+    expect(result.propertyData).toEqual({});
+    expect(result.latitude).toBeUndefined();
+    expect(result.failures).toEqual([{ field: 'area', value: 'okänd' }]);
+  });
+
+  test('falls back to street when address is missing', () => {
+    const result = mapExtractedData({ street: 'Storgatan 1' });
+    expect(result.propertyData.address).toBe('Storgatan 1');
+  });
+
+  test('keeps descriptive floor and feature text', () => {
+    const result = mapExtractedData({
+      floor: 'Högt läge',
+      balcony: 'Balkong i söderläge',
+      features: '["Öppen spis", "Garage"]',
+    });
+
+    expect(result.propertyData.floor).toBe('Högt läge');
+    expect(result.failures).toEqual([{ field: 'floor', value: 'Högt läge' }]);
+    expect(result.propertyData.balcony).toBe('Balkong i söderläge');
+    expect(result.propertyData.features).toEqual(['Öppen spis', 'Garage']);
+  });
+
+  test('ignores out-of-range coordinates and years', () => {
+    const result = mapExtractedData({ latitude: '0', longitude: '200', buildYear: '2999' });
+
+    expect(result.latitude).toBeUndefined();
+    expect(result.longitude).toBeUndefined();
+    expect(result.propertyData.buildYear).toBeUndefined();
+  });
+});
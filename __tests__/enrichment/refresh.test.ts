@@ -0,0 +1,107 @@
+import { describe, test, expect } from 'vitest';
+import { isListingStale, diffListing, pickAcceptedUpdates, formatChangeValue } from '@/lib/enrichment/refresh';
+import type { PropertyLink } from '@/lib/store/propertyLinkStore';
+
+const NOW = Date.parse('2025-06-15T12:00:00Z');
+
+function makeProperty(overrides: Partial<PropertyLink> = {}): PropertyLink {
+  return {
+    id: '1',
+    url: 'https://www.hemnet.se/bostad/lagenhet-3rum-ribersborg-malmo-kommun-nicoloviusgatan-5b-21639575',
+    title: 'Nicoloviusgatan 5B',
+    sharedBy: 'anon',
+    sharedAt: '2025-06-01T12:00:00Z',
+    propertyData: {
+      price: 3495000,
+      monthlyFee: 4250,
+      rooms: 3,
+      elevator: true,
+      enrichmentStatus: 'llm_complete',
+      lastEnriched: '2025-06-10T12:00:00Z',
+    },
+    ...overrides,
+  };
+}
+
+describe('isListingStale', () => {
+  test('is fresh within the stale window', () => {
+    expect(isListingStale(makeProperty(), NOW)).toBe(false);
+  });
+
+  test('is stale after the window', () => {
+    expect(isListingStale(makeProperty(), NOW, 3)).toBe(true);
+  });
+
+  test('is stale when never enriched', () => {
+    expect(isListingStale(makeProperty({ propertyData: { price: 1 } }), NOW)).toBe(true);
+    expect(isListingStale(makeProperty({ propertyData: undefined }), NOW)).toBe(true);
+  });
+
+  test('is not stale while processing', () => {
+    const property = makeProperty({
+      propertyData: { enrichmentStatus: 'llm_processing', enrichmentStartedAt: '2025-06-15T11:58:00Z' },
+    });
+    expect(isListingStale(property, NOW)).toBe(false);
+  });
+
+  test('is stale when processing has timed out', () => {
+    const property = makeProperty({
+      propertyData: { enrichmentStatus: 'llm_processing', enrichmentStartedAt: '2025-06-15T11:00:00Z' },
+    });
+    expect(isListingStale(property, NOW)).toBe(true);
+    expect(isListingStale(makeProperty({ propertyData: { enrichmentStatus: 'llm_processing' } }), NOW)).toBe(true);
+  });
+});
+
+describe('diffListing', () => {
+  test('lists changed fields with before and after values', () => {
+    const changes = diffListing(makeProperty(), {
+      title: 'Nicoloviusgatan 5B, Malmö',
+      propertyData: { price: 3295000, monthlyFee: 4250, rooms: 3 },
+    });
+
+    expect(changes).toEqual([
+      { field: 'title', label: 'Title', before: 'Nicoloviusgatan 5B', after: 'Nicoloviusgatan 5B, Malmö' },
+      { field: 'propertyData.price', label: 'Price', before: 3495000, after: 3295000 },
+    ]);
+  });
+
+  test('ignores fields the refresh did not find', () => {
+    const changes = diffListing(makeProperty(), { propertyData: { monthlyFee: undefined } });
+    expect(changes).toEqual([]);
+  });
+
+  test('reports newly found fields', () => {
+    const changes = diffListing(makeProperty(), { propertyData: { floor: 3, features: ['Balkong'] } });
+    expect(changes.map((c) => c.field)).toEqual(['propertyData.floor', 'propertyData.features']);
+  });
+
+  test('compares arrays by value', () => {
+    const property = makeProperty({ propertyData: { features: ['Balkong', 'Hiss'] } });
+    expect(diffListing(property, { propertyData: { features: ['Balkong', 'Hiss'] } })).toEqual([]);
+  });
+});
+
+describe('pickAcceptedUpdates', () => {
+  test('drops reviewed fields the user did not accept', () => {
+    const updates = {
+      title: 'Nicoloviusgatan 5B, Malmö',
+      images: ['https://bilder.hemnet.se/1.jpg'],
+      propertyData: { price: 3295000, monthlyFee: 4350, currency: 'SEK' },
+    };
+
+    expect(pickAcceptedUpdates(updates, ['propertyData.price'])).toEqual({
+      images: ['https://bilder.hemnet.se/1.jpg'],
+      propertyData: { price: 3295000, currency: 'SEK' },
+    });
+  });
+});
+
+describe('formatChangeValue', () => {
+  test('formats values for display', () => {
+    expect(formatChangeValue(undefined)).toBe('—');
+    expect(formatChangeValue(true)).toBe('Yes');
+    expect(formatChangeValue(['Balkong', 'Hiss'])).toBe('Balkong, Hiss');
+    expect(formatChangeValue('BV')).toBe('BV');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, test, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { extractSiteData, findSite } from '@/lib/enrichment/sites';
+import { mapJsonLd } from '@/lib/enrichment/sites/jsonLd';
+
+interface SiteFixture {
+  url: string;
+  og: Record<string, string[]>;
+  jsonLd?: unknown[];
+  expected: Record<string, unknown>;
+  latitude?: number;
+  longitude?: number;
+}
+
+// Recorded /go/crawler-og responses, one per site
+const FIXTURE_DIR = join(__dirname, 'fixtures', 'sites');
+const fixtures = readdirSync(FIXTURE_DIR)
+  .filter((file) => file.endsWith('.json'))
+  .map((file) => [file.replace('.json', ''), JSON.parse(readFileSync(join(FIXTURE_DIR, file), 'utf8')) as SiteFixture] as const);
+
+describe('Site registry', () => {
+  describe('findSite', () => {
+    test('matches hosts with and without www and subdomains', () => {
+      expect(findSite('https://www.hemnet.se/bostad/1')?.name).toBe('Hemnet');
+      expect(findSite('https://hemnet.se/bostad/1')?.name).toBe('Hemnet');
+      expect(findSite('https://maklare.hemnet.se/x')?.name).toBe('Hemnet');
+    });
+
+    test('returns undefined for unknown or invalid URLs', () => {
+      expect(findSite('https://example.com/listing')).toBeUndefined();
+      expect(findSite('not a url')).toBeUndefined();
+      expect(findSite('https://nothemnet.se/bostad/1')).toBeUndefined();
+    });
+  });
+
+  describe('recorded fixtures', () => {
+    test.each(fixtures)('%s', (_name, fixture) => {
+      const result = extractSiteData(fixture.url, fixture);
+
+      expect(result.failures).toEqual([]);
+      expect(result.propertyData).toEqual(fixture.expected);
+      expect(result.latitude).toBe(fixture.latitude);
+      expect(result.longitude).toBe(fixture.longitude);
+    });
+  });
+
+  describe('extractSiteData', () => {
+    test('reads default OG keys for unknown sites without setting a source', () => {
+      const result = extractSiteData('https://example-maklare.se/objekt/1', {
+        og: { 'street-address': ['Storgatan 1'], locality: ['Lund'] },
+      });
+
+      expect(result.site).toBeUndefined();
+      expect(result.propertyData).toEqual({ address: 'Storgatan 1', city: 'Lund' });
+    });
+
+    test('ignores JSON-LD for sites that do not opt in', () => {
+      const result = extractSiteData('https://www.bjurfors.se/sv/tillsalu/1', {
+        og: {},
+        jsonLd: [{ '@type': 'Apartment', numberOfRooms: 3 }],
+      });
+
+      expect(result.propertyData.rooms).toBeUndefined();
+    });
+
+    test('JSON-LD wins over OG tags', () => {
+      const result = extractSiteData('https://www.booli.se/annons/1', {
+        og: { 'product:price:amount': ['3 000 000'] },
+        jsonLd: [{ '@type': 'Apartment', offers: { '@type': 'Offer', price: 2950000 } }],
+      });
+
+      expect(result.propertyData.price).toBe(2950000);
+    });
+
+    test('reports values that could not be parsed', () => {
+      const result = extractSiteData('https://www.booli.se/annons/1', {
+        og: { 'product:price:amount': ['Pris på begäran'] },
+      });
+
+      expect(result.propertyData.price).toBeUndefined();
+      expect(result.failures).toEqual([{ field: 'price', value: 'Pris på begäran' }]);
+    });
+
+    test('drops out-of-range coordinates', () => {
+      const result = extractSiteData('https://www.bjurfors.se/sv/tillsalu/1', {
+        og: { 'place:location:latitude': ['155.5'], 'place:location:longitude': ['13.1'] },
+      });
+
+      expect(result.latitude).toBeUndefined();
+      expect(result.longitude).toBeUndefined();
+    });
+  });
+
+  describe('mapJsonLd', () => {
+    test('finds the residence inside @graph and mainEntity', () => {
+      expect(
+        mapJsonLd([
+          {
+            '@graph': [
+              { '@type': 'WebPage', mainEntity: { '@type': 'Apartment', numberOfRooms: 2, address: { streetAddress: 'Storgatan 1' } } },
+            ],
+          },
+        ])
+      ).toEqual({ rooms: '2', address: 'Storgatan 1', propertyType: 'Lägenhet' });
+    });
+
+    test('returns nothing when there is no residence or offer', () => {
+      expect(mapJsonLd([{ '@type': 'Organization', name: 'Mäklarbyrån' }])).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, test, expect } from 'vitest';
+import {
+  cleanValue,
+  parseSwedishNumber,
+  parsePrice,
+  parsePeriodicCost,
+  parseArea,
+  parseRooms,
+  parseFloor,
+  parseYesNo,
+  parseBuildYear,
+  parseListingFields,
+} from '@/lib/enrichment/swedishParser';
+
+describe('Swedish listing parser', () => {
+  describe('cleanValue', () => {
+    test('treats placeholders as missing', () => {
+      expect(cleanValue('Uppgift saknas')).toBeUndefined();
+      expect(cleanValue(' N/A ')).toBeUndefined();
+      expect(cleanValue('-')).toBeUndefined();
+      expect(cleanValue(undefined)).toBeUndefined();
+    });
+
+    test('collapses whitespace', () => {
+      expect(cleanValue('  Villa,\n 3 rum ')).toBe('Villa, 3 rum');
+    });
+  });
+
+  describe('parseSwedishNumber', () => {
+    test('handles space, nbsp and dot thousand separators', () => {
+      expect(parseSwedishNumber('3 495 000')).toBe(3495000);
+      expect(parseSwedishNumber('3 495 000 kr')).toBe(3495000);
+      expect(parseSwedishNumber('1.250.000')).toBe(1250000);
+    });
+
+    test('handles decimal commas and points', () => {
+      expect(parseSwedishNumber('72,5')).toBe(72.5);
+      expect(parseSwedishNumber('72.5')).toBe(72.5);
+    });
+
+    test('returns undefined without digits', () => {
+      expect(parseSwedishNumber('okänt')).toBeUndefined();
+    });
+  });
+
+  describe('parsePrice', () => {
+    test('parses amounts with currency', () => {
+      expect(parsePrice('3 495 000 kr')).toBe(3495000);
+      expect(parsePrice('Utgångspris: 2 195 000 kr')).toBe(2195000);
+      expect(parsePrice('4 250 000:-')).toBe(4250000);
+      expect(parsePrice('2,1 milj kr')).toBe(2100000);
+    });
+
+    test('rejects titles so street numbers are not read as prices', () => {
+      expect(parsePrice('Skansbogatan 2A, Malmö - Villa, 3 rum, 98 m²')).toBeUndefined();
+      expect(parsePrice('Pris på begäran')).toBeUndefined();
+    });
+  });
+
+  describe('parsePeriodicCost', () => {
+    test('parses monthly fees', () => {
+      expect(parsePeriodicCost('4 250 kr/mån', 'month')).toBe(4250);
+      expect(parsePeriodicCost('4 250 kr/månad', 'month')).toBe(4250);
+      expect(parsePeriodicCost('4250', 'month')).toBe(4250);
+    });
+
+    test('converts between yearly and monthly amounts', () => {
+      expect(parsePeriodicCost('36 000 kr/år', 'month')).toBe(3000);
+      expect(parsePeriodicCost('2 500 kr/mån', 'year')).toBe(30000);
+      expect(parsePeriodicCost('24 000 kr per år', 'year')).toBe(24000);
+    });
+  });
+
+  describe('parseArea', () => {
+    test('parses areas with units', () => {
+      expect(parseArea('72,5 m²')).toBe(72.5);
+      expect(parseArea('98 kvm')).toBe(98);
+      expect(parseArea('1 250 m2')).toBe(1250);
+      expect(parseArea('64')).toBe(64);
+    });
+
+    test('reads the area from og titles', () => {
+      expect(parseArea('Skansbogatan 2A, Malmö - Villa, 3 rum, 98 m²')).toBe(98);
+      expect(parseArea('Slamstensgatan 26, Limhamn - Villa, 4 rum, 105 m²')).toBe(105);
+    });
+
+    test('ignores titles without an area', () => {
+      expect(parseArea('Blåklinten 9, Kullavik - Tomt')).toBeUndefined();
+    });
+  });
+
+  describe('parseRooms', () => {
+    test('parses room counts', () => {
+      expect(parseRooms('3 rum')).toBe(3);
+      expect(parseRooms('2,5 rok')).toBe(2.5);
+      expect(parseRooms('4 r.o.k')).toBe(4);
+      expect(parseRooms('2')).toBe(2);
+    });
+
+    test('reads rooms from og titles and hemnet slugs', () => {
+      expect(parseRooms('Skansbogatan 2A, Malmö - Villa, 3 rum, 98 m²')).toBe(3);
+      expect(parseRooms('lagenhet-3rum-ribersborg-malmo-kommun')).toBe(3);
+    });
+
+    test('does not read street numbers as rooms', () => {
+      expect(parseRooms('Fårabäcksvägen 96A i Husie')).toBeUndefined();
+    });
+  });
+
+  describe('parseFloor', () => {
+    test('parses floor with total floors', () => {
+      expect(parseFloor('våning 3 av 5')).toEqual({ floor: 3, totalFloors: 5 });
+      expect(parseFloor('Våning 2 av 4, hiss finns')).toEqual({ floor: 2, totalFloors: 4 });
+      expect(parseFloor('3/5')).toEqual({ floor: 3, totalFloors: 5 });
+    });
+
+    test('parses "tr" floors', () => {
+      expect(parseFloor('3 tr')).toEqual({ floor: 3 });
+      expect(parseFloor('1 ½ tr')).toEqual({ floor: 1.5 });
+      expect(parseFloor('½ tr')).toEqual({ floor: 0.5 });
+    });
+
+    test('treats BV as ground floor', () => {
+      expect(parseFloor('BV')).toEqual({ floor: 0 });
+      expect(parseFloor('Bottenvåning av 3')).toEqual({ floor: 0, totalFloors: 3 });
+      expect(parseFloor('Entréplan')).toEqual({ floor: 0 });
+    });
+
+    test('returns undefined for unrelated text', () => {
+      expect(parseFloor('Högt läge')).toBeUndefined();
+    });
+  });
+
+  describe('parseYesNo', () => {
+    test('parses ja/nej answers', () => {
+      expect(parseYesNo('Ja')).toBe(true);
+      expect(parseYesNo('nej')).toBe(false);
+      expect(parseYesNo('Finns')).toBe(true);
+      expect(parseYesNo('Hiss: ja')).toBe(true);
+      expect(parseYesNo('Hiss: saknas')).toBe(false);
+    });
+
+    test('returns undefined for descriptive text', () => {
+      expect(parseYesNo('Balkong i söderläge')).toBeUndefined();
+    });
+  });
+
+  describe('parseBuildYear', () => {
+    test('finds the first plausible year', () => {
+      expect(parseBuildYear('1962')).toBe(1962);
+      expect(parseBuildYear('Byggt 1929, renoverat 2015')).toBe(1929);
+    });
+
+    test('rejects years in the future', () => {
+      expect(parseBuildYear('2999')).toBeUndefined();
+    });
+  });
+
+  describe('parseListingFields', () => {
+    test('parses a full auto-crawl record', () => {
+      const { data, failures } = parseListingFields({
+        price: '3 495 000 kr',
+        area: '72,5 m²',
+        rooms: '3 rum',
+        monthlyFee: '4 250 kr/mån',
+        operatingCost: '18 000 kr/år',
+        floor: 'våning 3 av 5',
+        buildYear: '1962',
+        elevator: 'Ja',
+        balcony: 'Nej',
+        parking: 'Garageplats i kö',
+      });
+
+      expect(data).toEqual({
+        price: 3495000,
+        area: 72.5,
+        rooms: 3,
+        monthlyFee: 4250,
+        operatingCost: 18000,
+        floor: 3,
+        totalFloors: 5,
+        buildYear: 1962,
+        elevator: true,
+        balcony: false,
+        parking: 'Garageplats i kö',
+      });
+      expect(failures).toEqual([]);
+    });
+
+    test('reports fields that could not be parsed', () => {
+      const { data, failures } = parseListingFields({
+        price: 'Pris på begäran',
+        area: 'Stor',
+        floor: 'Högt läge',
+        monthlyFee: 'Uppgift saknas',
+      });
+
+      expect(data).toEqual({ floor: 'Högt läge' });
+      expect(failures).toEqual([
+        { field: 'price', value: 'Pris på begäran' },
+        { field: 'area', value: 'Stor' },
+        { field: 'floor', value: 'Högt läge' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, test, expect } from 'vitest';
+import {
+  cleanText,
+  extractTitleHints,
+  normalizeListingTitle,
+} from '@/lib/enrichment/titleNormalizer';
+import { decodeHtmlEntities } from '@/lib/enrichment/swedishParser';
+
+// Titles and URLs from og_titles.txt
+describe('OG title normaliser', () => {
+  describe('decodeHtmlEntities', () => {
+    test('decodes decimal, hex and named entities', () => {
+      expect(decodeHtmlEntities('Gertrudsvik Sj&#246;stad, V&#228;stervik')).toBe('Gertrudsvik Sjöstad, Västervik');
+      expect(decodeHtmlEntities('Roseng&#xE5;rd, Malm&#xF6;')).toBe('Rosengård, Malmö');
+      expect(decodeHtmlEntities('B&#xFC;low &amp; Lind')).toBe('Bülow & Lind');
+      expect(decodeHtmlEntities('V&auml;ster&aring;s')).toBe('Västerås');
+    });
+
+    test('leaves unknown entities alone', () => {
+      expect(decodeHtmlEntities('a &bogus; b')).toBe('a &bogus; b');
+    });
+  });
+
+  describe('cleanText', () => {
+    test('collapses whitespace and drops empty text', () => {
+      expect(cleanText('Villa till salu i  Malm&#xF6; ')).toBe('Villa till salu i Malmö');
+      expect(cleanText('   ')).toBeUndefined();
+      expect(cleanText(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('normalizeListingTitle', () => {
+    test('strips broker branding per site', () => {
+      expect(
+        normalizeListingTitle(
+          'Bockgr&#228;nd 14, Limhamn | Svensk Fastighetsf&#246;rmedling',
+          'https://www.svenskfast.se/hus/skane/malmo/limhamn/bockgrand-14/449564/'
+        ).title
+      ).toBe('Bockgränd 14, Limhamn');
+      expect(
+        normalizeListingTitle('Notar - Rimfrostgatan 2B, Malmö', 'https://www.notar.se/kopa-bostad/objekt/CMFASTIGHET5N79CERL8FHJGH0S')
+          .title
+      ).toBe('Rimfrostgatan 2B, Malmö');
+      expect(
+        normalizeListingTitle('Tomt 13 - Drivhusgatan 21 - Myresj&#246;hus', 'https://www.myresjohus.se/sok-tomt-bostad/kv-tullstorps-tradgardar/tomt-13-drivhusgatan')
+          .title
+      ).toBe('Tomt 13 - Drivhusgatan 21');
+    });
+
+    test('keeps branding-like text on other sites', () => {
+      expect(normalizeListingTitle('Notar - Rimfrostgatan 2B, Malmö', 'https://www.hemnet.se/bostad/1').title)
+        .toBe('Notar - Rimfrostgatan 2B, Malmö');
+    });
+
+    test('strips "Till salu" prefixes', () => {
+      const hallonqvist = normalizeListingTitle(
+        'Till salu - Birger Jarlsgatan 62 - Limhamn - Hallonqvist fastighetsbyrå AB',
+        'https://hallonqvist.se/till-salu/birger-jarlsgatan-62-goe-ap0/'
+      );
+      expect(hallonqvist.title).toBe('Birger Jarlsgatan 62 - Limhamn');
+      expect(hallonqvist.hints).toEqual({ address: 'Birger Jarlsgatan 62', city: 'Limhamn' });
+
+      const lansfast = normalizeListingTitle(
+        'Villa till salu i  Malm&#xF6; - Bj&#xF6;rkbogatan 47 | L&#xE4;nsf&#xF6;rs&#xE4;kringar Fastighetsf&#xF6;rmedling',
+        'https://www.lansfast.se/till-salu/villa/skane/malmo/malmo/bjorkbogatan-47/cmvilla5mfbb61q45mvtmsp/'
+      );
+      expect(lansfast.title).toBe('Björkbogatan 47');
+      expect(lansfast.hints).toEqual({ propertyType: 'Villa', city: 'Malmö', address: 'Björkbogatan 47' });
+    });
+
+    test('drops titles that are a URL or a locale', () => {
+      const url = 'https://www.husmanhagberg.se/objekt/jagargatan-27-erikslund/OBJ5NLXXNV2LDZVV7FSVY/';
+      expect(normalizeListingTitle(url, url)).toEqual({ title: undefined, hints: {} });
+      expect(normalizeListingTitle('sv_SE', 'https://www.skandiamaklarna.se/hitta-hem/villa/limhamn/gamla-limhamn/119289113/').title)
+        .toBeUndefined();
+    });
+  });
+
+  describe('extractTitleHints', () => {
+    test('reads address, city, type, rooms and area', () => {
+      expect(extractTitleHints('Skansbogatan 2A, Malmö - Villa, 3 rum, 98 m²')).toEqual({
+        address: 'Skansbogatan 2A',
+        city: 'Malmö',
+        propertyType: 'Villa',
+        rooms: 3,
+        area: 98,
+      });
+      expect(extractTitleHints('Blåklinten 9, Kullavik - Tomt')).toEqual({
+        address: 'Blåklinten 9',
+        city: 'Kullavik',
+        propertyType: 'Tomt',
+      });
+    });
+
+    test('takes the last place as the city unless the site puts it first', () => {
+      expect(extractTitleHints('Killevägen 7, Käglinge, Malmö')).toEqual({ address: 'Killevägen 7', city: 'Malmö' });
+      expect(
+        normalizeListingTitle(
+          'Kroksbäcksgatan 4, Malmö, Nya Bellevue - Croisette',
+          'https://croisette.se/obj/sweden/malmo/nya-bellevue-kroksbacksgatan-4-malmo-skane/OBJ13492_2096901537'
+        ).hints
+      ).toEqual({ address: 'Kroksbäcksgatan 4', city: 'Malmö' });
+    });
+
+    test('handles apartment number ranges and "i <district>"', () => {
+      expect(extractTitleHints('Sjöblads väg 31 - 211, Rosengård, Malmö')).toEqual({
+        address: 'Sjöblads väg 31',
+        city: 'Malmö',
+      });
+      expect(extractTitleHints('Fårabäcksvägen 96A i Husie')).toEqual({ address: 'Fårabäcksvägen 96A', city: 'Husie' });
+    });
+
+    test('does not mistake plot numbers or place names for addresses', () => {
+      expect(extractTitleHints('Tomt 13 - Drivhusgatan 21')).toEqual({ address: 'Drivhusgatan 21' });
+      expect(extractTitleHints('Gertrudsvik Sjöstad, Västervik')).toEqual({});
+      expect(extractTitleHints('Tre sovrum samt både gästtoalett och badrum')).toEqual({});
+    });
+  });
+});
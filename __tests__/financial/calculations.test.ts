@@ -2,8 +2,16 @@ import { describe, test, expect } from 'vitest';
 import {
   calculateAmorteringskrav,
   calculateMortgagePayment,
+  generateAmortizationSchedule,
+  summarizeScheduleByYear,
+  validateTranches,
+  blendedInterestRate,
+  calculateRateScenario,
   calculateTotalCost,
+  calculateInterestDeduction,
   calculateAffordability,
+  calculateKalp,
+  estimateNetMonthlyIncome,
   formatCurrencySEK,
   formatNumberSE,
   type SwedishMortgageParams,
@@ -85,13 +93,31 @@ describe('Swedish Financial Calculations', () => {
 
       // Principal: 2.4M SEK (80% LTV)
       // LTV 80% → 2% amortization → 48k SEK/year → 4000 SEK/month
-      // Interest: ~11,458 SEK/month
-      // Total: ~15,458 SEK/month
+      // Interest: 2.4M * 4% / 12 = 8000 SEK/month
+      // Total: 12,000 SEK/month
       expect(result.ltv).toBeCloseTo(80, 1);
       expect(result.amortizationPercent).toBe(2);
       expect(result.monthlyAmortization).toBeCloseTo(4000, 0);
-      expect(result.monthlyInterest).toBeCloseTo(11458, 0);
-      expect(result.monthlyPayment).toBeCloseTo(15458, 0);
+      expect(result.monthlyInterest).toBeCloseTo(8000, 0);
+      expect(result.monthlyPayment).toBeCloseTo(12000, 0);
+    });
+
+    test('does not add amorteringskrav on top of an annuity payment', () => {
+      const result = calculateMortgagePayment({
+        purchasePrice: 3000000,
+        downPaymentPercent: 20,
+        annualInterestRate: 0.04,
+        loanTermYears: 30,
+        propertyType: 'villa',
+        amortizationMethod: 'annuity'
+      });
+
+      // Annuity is ~11,458/month of which 3,458 principal - below the 4,000 requirement,
+      // so the requirement decides the amortization and nothing is counted twice
+      expect(result.monthlyInterest).toBeCloseTo(8000, 0);
+      expect(result.monthlyAmortization).toBeCloseTo(4000, 0);
+      expect(result.monthlyPayment).toBeCloseTo(12000, 0);
+      expect(result.balanceAfterTerm).toBe(0);
     });
 
     test('enforces 85% LTV cap (bolånetak)', () => {
@@ -154,6 +180,102 @@ describe('Swedish Financial Calculations', () => {
     });
   });
 
+  describe('generateAmortizationSchedule', () => {
+    const loan = {
+      principal: 2550000,  // 85% of 3M
+      propertyValue: 3000000,
+      annualInterestRate: 0.04,
+      loanTermYears: 50,
+    };
+
+    test('steps the requirement down from 2% to 1% to 0% as LTV falls', () => {
+      const rows = generateAmortizationSchedule(loan);
+      const firstWithPercent = (percent: number) => rows.find((row) => row.requiredPercent === percent);
+
+      expect(rows).toHaveLength(600);
+      expect(rows[0]).toMatchObject({ interest: 8500, amortization: 4250, payment: 12750, requiredPercent: 2 });
+      // 2% of the original loan until LTV is at most 70%, then 1%
+      expect(firstWithPercent(1)?.openingBalance).toBeLessThanOrEqual(2100000);
+      expect(firstWithPercent(1)?.amortization).toBeCloseTo(2125, 0);
+      // Nothing required at 50% LTV or below; the rest of the loan stays
+      expect(firstWithPercent(0)?.openingBalance).toBeLessThanOrEqual(1500000);
+      expect(rows[rows.length - 1].closingBalance).toBeGreaterThan(1400000);
+      expect(rows[rows.length - 1].amortization).toBe(0);
+    });
+
+    test('straight amortization repays the loan evenly over the term', () => {
+      const rows = generateAmortizationSchedule({ ...loan, loanTermYears: 30, method: 'straight' });
+
+      // 2.55M / 360 = 7083 is above the 2% requirement of 4250
+      expect(rows[0].amortization).toBeCloseTo(7083.33, 1);
+      expect(rows[359].amortization).toBeCloseTo(7083.33, 1);
+      expect(rows[359].closingBalance).toBe(0);
+      expect(rows[359].payment).toBeLessThan(rows[0].payment);
+    });
+
+    test('annuity keeps the payment level and never amortizes less than required', () => {
+      const rows = generateAmortizationSchedule({ ...loan, loanTermYears: 40, method: 'annuity' });
+
+      // Annuity principal (~2,158) is below the requirement at first
+      expect(rows[0].amortization).toBeCloseTo(4250, 0);
+      expect(rows[479].closingBalance).toBe(0);
+      // Once the requirement ends the payment stays flat
+      const lastYears = rows.slice(-24);
+      expect(lastYears[23].payment).toBeCloseTo(lastYears[0].payment, 0);
+    });
+
+    test('summarizes the schedule per year', () => {
+      const years = summarizeScheduleByYear(generateAmortizationSchedule({ ...loan, loanTermYears: 2 }));
+
+      expect(years).toHaveLength(2);
+      expect(years[0]).toMatchObject({ year: 1, amortization: 51000, requiredPercent: 2 });
+      expect(years[0].closingBalance).toBe(2499000);
+      expect(years[1].closingBalance).toBe(2448000);
+    });
+  });
+
+  describe('loan tranches', () => {
+    const tranches = [
+      { sharePercent: 50, annualInterestRate: 0.04, bindingYears: 0 },
+      { sharePercent: 50, annualInterestRate: 0.03, bindingYears: 3 },
+    ];
+    const mortgage: SwedishMortgageParams = {
+      purchasePrice: 3000000,
+      downPaymentPercent: 20,
+      annualInterestRate: blendedInterestRate(tranches),
+      loanTermYears: 50,
+      propertyType: 'brf',
+      tranches,
+    };
+
+    test('blends the tranche rates by share', () => {
+      expect(blendedInterestRate(tranches)).toBeCloseTo(0.035, 6);
+      // 2.4M at 3.5% → 7000 interest the first month
+      expect(calculateMortgagePayment(mortgage).monthlyInterest).toBe(7000);
+    });
+
+    test('moves each tranche to the scenario rate when its binding ends', () => {
+      const scenario = calculateRateScenario(mortgage, 0.02);
+
+      expect(scenario.current).toHaveLength(10);
+      expect(scenario.current.map((year) => year.averageRate)).toEqual(Array(10).fill(3.5));
+      // Rörlig half moves at once, the 3-year half from year 4
+      expect(scenario.stressed[0].averageRate).toBe(4.5);
+      expect(scenario.stressed[3].averageRate).toBe(5.5);
+      expect(scenario.stressedInterest).toBeGreaterThan(scenario.currentInterest);
+      expect(scenario.peakMonthlyPayment).toBe(
+        Math.max(...scenario.stressed.map((year) => year.monthlyPayment))
+      );
+    });
+
+    test('rejects tranches that do not cover the whole loan', () => {
+      expect(() => validateTranches([])).toThrow('at least one tranche');
+      expect(() => validateTranches([{ sharePercent: 60, annualInterestRate: 0.04, bindingYears: 1 }])).toThrow(
+        'Tranche shares must add up to 100%'
+      );
+    });
+  });
+
   describe('calculateTotalCost', () => {
     test('calculates total cost for villa', () => {
       const params: SwedishTotalCostParams = {
@@ -170,8 +292,8 @@ describe('Swedish Financial Calculations', () => {
 
       const result = calculateTotalCost(params);
 
-      // Mortgage: ~15,458 SEK/month
-      expect(result.monthlyMortgage).toBeCloseTo(15458, 0);
+      // Mortgage: 8000 interest + 4000 amortization
+      expect(result.monthlyMortgage).toBeCloseTo(12000, 0);
       // Property tax: 7000/12 = ~583
       expect(result.monthlyPropertyTax).toBeCloseTo(583, 0);
       // Insurance: 5000/12 = ~417
@@ -180,8 +302,8 @@ describe('Swedish Financial Calculations', () => {
       expect(result.monthlyBRF).toBe(0);
       // Maintenance: (3M * 1%) / 12 = 2500
       expect(result.monthlyMaintenance).toBeCloseTo(2500, 0);
-      // Total: 15458 + 583 + 417 + 0 + 2500 = 18958
-      expect(result.totalMonthly).toBeCloseTo(18958, 0);
+      // Total: 12000 + 583 + 417 + 0 + 2500 = 15500
+      expect(result.totalMonthly).toBeCloseTo(15500, 0);
     });
 
     test('calculates total cost for BRF (no maintenance)', () => {
@@ -220,6 +342,66 @@ describe('Swedish Financial Calculations', () => {
       // Default 1%: (2M * 0.01) / 12 = ~1667
       expect(result.monthlyMaintenance).toBeCloseTo(1667, 0);
     });
+
+    test('subtracts ränteavdrag from the net monthly cost', () => {
+      const params: SwedishTotalCostParams = {
+        purchasePrice: 3000000,
+        downPaymentPercent: 20,
+        annualInterestRate: 0.04,
+        loanTermYears: 30,
+        propertyType: 'brf',
+        brfMonthly: 3500
+      };
+
+      const result = calculateTotalCost(params);
+
+      // First year interest is about 95 000 kr as the loan amortizes → 30% back
+      expect(result.monthlyInterestDeduction).toBeCloseTo(2380, -1);
+      expect(result.netMonthly).toBeCloseTo(result.totalMonthly - result.monthlyInterestDeduction, 2);
+
+      const withoutDeduction = calculateTotalCost({
+        ...params,
+        interestDeduction: { enabled: false, borrowerShares: [100] }
+      });
+      expect(withoutDeduction.monthlyInterestDeduction).toBe(0);
+      expect(withoutDeduction.netMonthly).toBe(withoutDeduction.totalMonthly);
+    });
+  });
+
+  describe('calculateInterestDeduction', () => {
+    test('gives 30% back on interest up to 100 000 kr', () => {
+      const result = calculateInterestDeduction({ annualInterest: 80000 });
+
+      expect(result.annualDeduction).toBe(24000);
+      expect(result.monthlyDeduction).toBe(2000);
+      expect(result.effectiveRate).toBe(30);
+    });
+
+    test('gives 21% back on interest above 100 000 kr', () => {
+      // 100 000 * 30% + 50 000 * 21%
+      expect(calculateInterestDeduction({ annualInterest: 150000 }).annualDeduction).toBe(40500);
+    });
+
+    test('applies the limit per borrower when co-borrowers split the interest', () => {
+      const result = calculateInterestDeduction({ annualInterest: 150000, borrowerShares: [50, 50] });
+
+      expect(result.annualDeduction).toBe(45000);
+      expect(result.borrowers).toEqual([
+        { sharePercent: 50, interest: 75000, deduction: 22500 },
+        { sharePercent: 50, interest: 75000, deduction: 22500 },
+      ]);
+
+      // An uneven split pushes one borrower over the limit
+      expect(calculateInterestDeduction({ annualInterest: 150000, borrowerShares: [80, 20] }).annualDeduction).toBe(
+        30000 + 20000 * 0.21 + 30000 * 0.3
+      );
+    });
+
+    test('throws when shares do not add up to 100%', () => {
+      expect(() => calculateInterestDeduction({ annualInterest: 80000, borrowerShares: [60, 30] })).toThrow(
+        'Borrower shares must add up to 100%'
+      );
+    });
   });
 
   describe('calculateAffordability', () => {
@@ -287,6 +469,77 @@ describe('Swedish Financial Calculations', () => {
     });
   });
 
+  describe('calculateKalp', () => {
+    test('estimates net income after kommunalskatt and statlig skatt', () => {
+      expect(estimateNetMonthlyIncome(40000, 0.32)).toBe(27200);
+      // 720 000 kr/year: 20% statlig skatt on what is above 643 100
+      expect(estimateNetMonthlyIncome(60000, 0.32)).toBeCloseTo(39518.33, 2);
+    });
+
+    test('leaves a surplus after living costs and the loan at the kalkylränta', () => {
+      const household = {
+        adultGrossMonthlyIncomes: [40000, 40000],
+        children: 1,
+        housingOperatingCost: 4000,
+        stressTestRate: 7,
+      };
+
+      const result = calculateKalp({ ...household, loanAmount: 3000000 });
+
+      expect(result.netMonthlyIncome).toBe(54400);
+      // 1200 household + 2 × 10 000 + 3800
+      expect(result.livingCosts).toBe(25000);
+      // 4000 + 3M × (7% + 2% amortization) / 12
+      expect(result.housingCost).toBe(26500);
+      expect(result.monthlySurplus).toBe(2900);
+      expect(result.passes).toBe(true);
+      // 25 400 kr available at 9% a year
+      expect(result.maxLoan).toBe(3386000);
+
+      expect(calculateKalp({ ...household, loanAmount: 4000000 }).passes).toBe(false);
+    });
+
+    test('adds amortization when the loan passes 4.5x income', () => {
+      const result = calculateKalp({ adultGrossMonthlyIncomes: [50000], children: 0, stressTestRate: 7 });
+
+      // 3.04M would fit at 2%, but above 2.7M (4.5x) the extra 1% applies
+      expect(result.maxLoan).toBe(2736000);
+    });
+
+    test('caps the loan at 85% of the property value', () => {
+      const result = calculateKalp({
+        adultGrossMonthlyIncomes: [50000],
+        children: 0,
+        stressTestRate: 7,
+        propertyValue: 3000000,
+      });
+
+      expect(result.maxLoan).toBe(2550000);
+    });
+
+    test('counts other loans and car costs and custom norms', () => {
+      const base = { adultGrossMonthlyIncomes: [30000], children: 0, stressTestRate: 7 };
+      const withCosts = calculateKalp({ ...base, otherLoansMonthly: 1500, carCostsMonthly: 2500 });
+
+      expect(withCosts.otherCosts).toBe(4000);
+      expect(withCosts.monthlySurplus).toBe(calculateKalp(base).monthlySurplus - 4000);
+      expect(calculateKalp({ ...base, livingCostNorms: { adult: 12000 } }).livingCosts).toBe(13200);
+    });
+
+    test('gives no loan when costs eat the income', () => {
+      const result = calculateKalp({ adultGrossMonthlyIncomes: [15000], children: 2, stressTestRate: 7 });
+
+      expect(result.maxLoan).toBe(0);
+      expect(result.passes).toBe(false);
+    });
+
+    test('throws without an adult', () => {
+      expect(() => calculateKalp({ adultGrossMonthlyIncomes: [], children: 1, stressTestRate: 7 })).toThrow(
+        'at least one adult'
+      );
+    });
+  });
+
   describe('formatCurrencySEK', () => {
     test('formats as Swedish currency with space separator', () => {
       expect(formatCurrencySEK(3000000)).toBe('3\u00A0000\u00A0000\u00A0kr');
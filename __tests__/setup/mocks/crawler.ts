@@ -0,0 +1,216 @@
+import { http, HttpResponse } from 'msw';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { canonicalizeUrl } from '../../../lib/utils/duplicates';
+import type { AutoCrawlRequest, AutoCrawlResponse, OGMetadataResponse } from '../../../lib/api/goApiClient';
+
+/**
+ * Crawler mock - /go/crawler-og, /go/auto-crawl and /go/geocode-address served from
+ * recorded listing pages in fixtures/crawler, so the add-property flow runs offline.
+ *
+ * Handlers match any origin, so they also catch the hard-coded geocode URL.
+ * Used by the vitest MSW server, by Playwright through mockCrawlerRoutes and by
+ * `yarn mock:crawler` (scripts/mockCrawlerServer.ts) for running the app locally.
+ */
+
+export const CRAWLER_MOCK_URL = 'http://crawler.mock';
+
+const FIXTURE_DIR = join(__dirname, 'fixtures', 'crawler');
+
+// Fact list labels on broker pages → auto-crawl keywords
+const FACT_KEYWORDS: Record<string, string> = {
+  'bostadstyp': 'propertyType',
+  'antal rum': 'rooms',
+  'sovrum': 'bedrooms',
+  'badrum': 'bathrooms',
+  'boarea': 'area',
+  'balkong': 'balcony',
+  'våning': 'floor',
+  'hiss': 'elevator',
+  'byggår': 'buildYear',
+  'avgift': 'monthlyFee',
+  'driftkostnad': 'operatingCost',
+  'utgångspris': 'price',
+  'pris': 'price',
+};
+
+interface CrawlerFixture {
+  url: string;
+  og: Record<string, string[]>;
+  jsonLd: unknown[];
+  facts: Record<string, string>;
+  documentTitle?: string;
+}
+
+function readAttribute(tag: string, name: string): string | undefined {
+  return tag.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`, 'i'))?.[1];
+}
+
+/**
+ * Read a recorded page the way the Go crawler does: meta tags keyed without the
+ * `og:` prefix (values left HTML-encoded), JSON-LD blocks and the fact list
+ */
+export function parseListingHtml(html: string): Omit<CrawlerFixture, 'url'> {
+  const og: Record<string, string[]> = {};
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const key = readAttribute(tag, 'property') ?? readAttribute(tag, 'name');
+    const content = readAttribute(tag, 'content');
+    if (!key || content === undefined) continue;
+    (og[key.replace(/^og:/, '')] ??= []).push(content);
+  }
+
+  const jsonLd: unknown[] = [];
+  for (const [, block] of html.matchAll(/<script[^>]*application\/ld\+json[^>]*>([\s\S]*?)<\/script>/gi)) {
+    try {
+      const parsed = JSON.parse(block);
+      jsonLd.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+    } catch {
+      // Broken JSON-LD is skipped, like the real crawler does
+    }
+  }
+
+  const facts: Record<string, string> = {};
+  for (const [, label, value] of html.matchAll(/<dt>([^<]+)<\/dt>\s*<dd>([^<]+)<\/dd>/gi)) {
+    const keyword = FACT_KEYWORDS[label.trim().toLowerCase()];
+    if (keyword) facts[keyword] ??= value.trim();
+  }
+
+  return { og, jsonLd, facts, documentTitle: html.match(/<title>([^<]*)<\/title>/i)?.[1] };
+}
+
+let fixtures: Map<string, CrawlerFixture> | null = null;
+
+/**
+ * Recorded pages keyed by canonical og:url
+ */
+function loadFixtures(): Map<string, CrawlerFixture> {
+  if (fixtures) return fixtures;
+  fixtures = new Map();
+  for (const file of readdirSync(FIXTURE_DIR).filter((name) => name.endsWith('.html'))) {
+    const page = parseListingHtml(readFileSync(join(FIXTURE_DIR, file), 'utf8'));
+    const url = page.og.url?.[0];
+    if (!url) throw new Error(`Crawler fixture ${file} has no og:url`);
+    fixtures.set(canonicalizeUrl(url), { url, ...page });
+  }
+  return fixtures;
+}
+
+function findFixture(url: unknown): CrawlerFixture | undefined {
+  return typeof url === 'string' ? loadFixtures().get(canonicalizeUrl(url)) : undefined;
+}
+
+/** URLs of all recorded listings, e.g. to paste in an e2e test */
+export function getCrawlerFixtureUrls(): string[] {
+  return [...loadFixtures().values()].map((fixture) => fixture.url);
+}
+
+function toOGResponse(fixture: CrawlerFixture): OGMetadataResponse {
+  const first = (key: string) => fixture.og[key]?.[0];
+  return {
+    title: first('title') ?? fixture.documentTitle ?? '',
+    description: first('description'),
+    image: first('image'),
+    url: first('url'),
+    siteName: first('site_name'),
+    address: first('street-address'),
+    city: first('locality'),
+    og: fixture.og,
+    ...(fixture.jsonLd.length > 0 ? { jsonLd: fixture.jsonLd } : {}),
+  };
+}
+
+/**
+ * What the LLM extraction returns for a page: the fact list plus the OG basics
+ */
+function toExtractedData(fixture: CrawlerFixture, keywords: string[]): Record<string, string> {
+  const first = (key: string) => fixture.og[key]?.[0];
+  const data: Record<string, string | undefined> = {
+    title: first('title'),
+    description: first('description'),
+    address: first('street-address'),
+    city: first('locality') ?? first('office-city'),
+    postalCode: first('postal-code'),
+    ...fixture.facts,
+  };
+  return Object.fromEntries(
+    Object.entries(data).filter(
+      (entry): entry is [string, string] => entry[1] !== undefined && (keywords.length === 0 || keywords.includes(entry[0]))
+    )
+  );
+}
+
+export interface CrawlerMockOptions {
+  /** `processing` answers /go/auto-crawl gives per URL before completing */
+  processingPolls?: number;
+}
+
+// Remaining `processing` answers per canonical URL
+const pendingPolls = new Map<string, number>();
+// URLs whose extraction completed, answered from cache afterwards
+const completed = new Set<string>();
+
+/**
+ * Forget auto-crawl progress so the next request starts processing again
+ */
+export function resetCrawlerMock(): void {
+  pendingPolls.clear();
+  completed.clear();
+}
+
+const CORS_HEADERS = { 'Access-Control-Allow-Origin': '*' };
+
+export function createCrawlerHandlers({ processingPolls = 1 }: CrawlerMockOptions = {}) {
+  return [
+    http.post('*/go/crawler-og', async ({ request }) => {
+      const { url } = (await request.json()) as { url?: string };
+      const fixture = findFixture(url);
+      if (!fixture) {
+        return HttpResponse.json({ title: '', error: `No recorded page for ${url}` }, { headers: CORS_HEADERS });
+      }
+      return HttpResponse.json(toOGResponse(fixture), { headers: CORS_HEADERS });
+    }),
+
+    http.post('*/go/auto-crawl', async ({ request }) => {
+      const { url, keywords = [] } = (await request.json()) as AutoCrawlRequest;
+      const fixture = findFixture(url);
+      const base = { url, extractedData: {}, cachedSelectors: {} };
+
+      if (!fixture) {
+        const failed: AutoCrawlResponse = { ...base, method: 'llm', status: 'failed', error: `No recorded page for ${url}` };
+        return HttpResponse.json(failed, { headers: CORS_HEADERS });
+      }
+
+      const key = canonicalizeUrl(url);
+      if (!completed.has(key)) {
+        const remaining = pendingPolls.get(key) ?? processingPolls;
+        if (remaining > 0) {
+          pendingPolls.set(key, remaining - 1);
+          const processing: AutoCrawlResponse = { ...base, method: 'processing', status: 'processing' };
+          return HttpResponse.json(processing, { headers: CORS_HEADERS });
+        }
+      }
+
+      const response: AutoCrawlResponse = {
+        ...base,
+        extractedData: toExtractedData(fixture, keywords),
+        method: completed.has(key) ? 'cached' : 'llm',
+        status: 'completed',
+      };
+      completed.add(key);
+      pendingPolls.delete(key);
+      return HttpResponse.json(response, { headers: CORS_HEADERS });
+    }),
+
+    http.post('*/go/geocode-address', async ({ request }) => {
+      const { url } = (await request.json()) as { url?: string };
+      const recorded = JSON.parse(readFileSync(join(FIXTURE_DIR, 'geocode.json'), 'utf8'));
+      const result = typeof url === 'string' ? recorded[canonicalizeUrl(url)] : undefined;
+      if (!result) {
+        return HttpResponse.json({ error: `No recorded geocode for ${url}` }, { status: 404, headers: CORS_HEADERS });
+      }
+      return HttpResponse.json(result, { headers: CORS_HEADERS });
+    }),
+  ];
+}
+
+export const crawlerHandlers = createCrawlerHandlers();
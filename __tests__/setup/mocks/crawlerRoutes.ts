@@ -0,0 +1,50 @@
+import type { Page } from '@playwright/test';
+import { getResponse } from 'msw';
+import { createCrawlerHandlers, CrawlerMockOptions, resetCrawlerMock } from './crawler';
+
+/**
+ * Serve the crawler mock to a Playwright page: browser requests to any
+ * `/go/crawler-og`, `/go/auto-crawl` or `/go/geocode-address` are answered by the
+ * same MSW handlers the vitest server uses.
+ */
+export async function mockCrawlerRoutes(page: Page, options?: CrawlerMockOptions): Promise<void> {
+  resetCrawlerMock();
+  const handlers = createCrawlerHandlers(options);
+
+  await page.route(/\/go\/(crawler-og|auto-crawl|geocode-address)$/, async (route) => {
+    const request = route.request();
+
+    // Cross-origin POSTs with a JSON body are preflighted
+    if (request.method() === 'OPTIONS') {
+      await route.fulfill({
+        status: 204,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type',
+        },
+      });
+      return;
+    }
+
+    const response = await getResponse(
+      handlers,
+      new Request(request.url(), {
+        method: request.method(),
+        headers: request.headers(),
+        body: request.postData() ?? undefined,
+      })
+    );
+
+    if (!response) {
+      await route.fallback();
+      return;
+    }
+
+    await route.fulfill({
+      status: response.status,
+      headers: Object.fromEntries(response.headers.entries()),
+      body: await response.text(),
+    });
+  });
+}
@@ -1,5 +1,6 @@
 import { http, HttpResponse } from 'msw';
 import { setupServer } from 'msw/node';
+import { crawlerHandlers } from './crawler';
 
 const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL || 'http://localhost:54321';
 
@@ -59,4 +60,4 @@ export const handlers = [
   }),
 ];
 
-export const server = setupServer(...handlers);
+export const server = setupServer(...handlers, ...crawlerHandlers);
@@ -1,6 +1,7 @@
 import { afterEach, beforeAll, afterAll } from 'vitest';
 import { cleanup } from '@testing-library/react';
 import { server } from './mocks/supabase';
+import { resetCrawlerMock } from './mocks/crawler';
 import { vi } from 'vitest';
 
 // Set environment variables for Supabase before any imports
@@ -88,6 +89,7 @@ afterAll(() => server.close());
 afterEach(() => {
   // Reset MSW handlers
   server.resetHandlers();
+  resetCrawlerMock();
 
   // Cleanup React Testing Library
   cleanup();
@@ -0,0 +1,81 @@
+import { describe, test, expect } from 'vitest';
+import { categoryFromOsmTags, parseAmenities, summarizeAmenities } from '@/lib/utils/amenities';
+
+const PROPERTY = { latitude: 55.5900, longitude: 13.0000 };
+
+const GEOJSON_EXTRACT = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      id: 'node/1',
+      geometry: { type: 'Point', coordinates: [13.0020, 55.5905] },
+      properties: { highway: 'bus_stop', name: 'Södervärn' },
+    },
+    {
+      type: 'Feature',
+      id: 'way/2',
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[[13.004, 55.592], [13.008, 55.592], [13.008, 55.594], [13.004, 55.594], [13.004, 55.592]]],
+      },
+      // osmtogeojson nests the tags
+      properties: { tags: { leisure: 'park', name: 'Folkets park' } },
+    },
+    {
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [13.0300, 55.6000] },
+      properties: { category: 'school', name: 'Rönnenskolan' },
+    },
+    {
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [13.001, 55.591] },
+      properties: { amenity: 'bench' },
+    },
+  ],
+};
+
+describe('Amenities', () => {
+  test('classifies OSM tags', () => {
+    expect(categoryFromOsmTags({ shop: 'supermarket' })).toBe('grocery');
+    expect(categoryFromOsmTags({ railway: 'tram_stop' })).toBe('transit');
+    expect(categoryFromOsmTags({ amenity: 'school' })).toBe('school');
+    expect(categoryFromOsmTags({ amenity: 'bench' })).toBeUndefined();
+  });
+
+  test('reads GeoJSON extracts and skips unrelated features', () => {
+    const amenities = parseAmenities(GEOJSON_EXTRACT);
+
+    expect(amenities.map((amenity) => amenity.category)).toEqual(['transit', 'park', 'school']);
+    expect(amenities[0]).toMatchObject({ id: 'node/1', name: 'Södervärn' });
+    // Areas become the middle of their outline
+    expect(amenities[1].longitude).toBeCloseTo(13.0056, 3);
+  });
+
+  test('reads Overpass JSON', () => {
+    const amenities = parseAmenities({
+      elements: [
+        { type: 'node', id: 7, lat: 55.59, lon: 13.0, tags: { shop: 'convenience', name: 'Pressbyrån' } },
+        { type: 'way', id: 8, center: { lat: 55.6, lon: 13.01 }, tags: { leisure: 'park' } },
+        { type: 'way', id: 9, tags: { leisure: 'park' } },
+      ],
+    });
+
+    expect(amenities.map((amenity) => amenity.id)).toEqual(['node/7', 'way/8']);
+  });
+
+  test('rejects files that are not amenity data', () => {
+    expect(() => parseAmenities({ hello: 'world' })).toThrow('Unsupported amenity file');
+  });
+
+  test('counts nearby amenities and finds the nearest per category', () => {
+    const summary = summarizeAmenities(PROPERTY, parseAmenities(GEOJSON_EXTRACT));
+
+    expect(summary.transit).toMatchObject({ count: 1, nearestName: 'Södervärn' });
+    expect(summary.transit.nearestKm).toBeLessThan(0.2);
+    // The school is further than the nearby radius but still the nearest one
+    expect(summary.school.count).toBe(0);
+    expect(summary.school.nearestKm).toBeGreaterThan(1);
+    expect(summary.grocery).toEqual({ count: 0 });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'vitest';
+import { clusterPoints, formatPriceRange, getClusterRegion } from '@/lib/utils/clustering';
+
+// Two apartments in Limhamn and one in central Malmö
+const LIMHAMN_A = { latitude: 55.5832, longitude: 12.9286, price: 3295000 };
+const LIMHAMN_B = { latitude: 55.5764, longitude: 12.9332, price: 4450000 };
+const CENTRUM = { latitude: 55.6050, longitude: 13.0038 };
+
+describe('Map clustering', () => {
+  describe('clusterPoints', () => {
+    test('groups nearby points when zoomed out', () => {
+      const clusters = clusterPoints([LIMHAMN_A, LIMHAMN_B, CENTRUM], { longitudeDelta: 0.5 });
+
+      const limhamn = clusters.find((cluster) => cluster.points.includes(LIMHAMN_A));
+      expect(limhamn?.points).toEqual([LIMHAMN_A, LIMHAMN_B]);
+      expect(limhamn).toMatchObject({ minPrice: 3295000, maxPrice: 4450000 });
+      expect(limhamn?.latitude).toBeCloseTo(55.5798);
+      expect(clusters.find((cluster) => cluster.points.includes(CENTRUM))?.points).toHaveLength(1);
+    });
+
+    test('shows every point on its own when zoomed in', () => {
+      const clusters = clusterPoints([LIMHAMN_A, LIMHAMN_B], { longitudeDelta: 0.005 });
+
+      expect(clusters.map((cluster) => cluster.points)).toEqual([[LIMHAMN_A], [LIMHAMN_B]]);
+    });
+
+    test('leaves the price range empty when nothing has a price', () => {
+      const [cluster] = clusterPoints([CENTRUM], { longitudeDelta: 0.5 });
+
+      expect(cluster.minPrice).toBeUndefined();
+      expect(cluster.maxPrice).toBeUndefined();
+    });
+  });
+
+  test('getClusterRegion fits the points of a cluster', () => {
+    const [cluster] = clusterPoints([LIMHAMN_A, LIMHAMN_B], { longitudeDelta: 0.5 });
+    const region = getClusterRegion(cluster);
+
+    expect(region.latitude).toBeCloseTo(55.5798);
+    expect(region.longitudeDelta).toBeCloseTo((12.9332 - 12.9286) * 1.5);
+    // Points on the same spot still get a usable region
+    expect(getClusterRegion({ ...cluster, points: [LIMHAMN_A] }).latitudeDelta).toBe(0.005);
+  });
+
+  test('formatPriceRange shortens prices for map labels', () => {
+    expect(formatPriceRange(3295000, 4450000)).toBe('3,3–4,5 mkr');
+    expect(formatPriceRange(850000, 1200000)).toBe('850 tkr–1,2 mkr');
+    expect(formatPriceRange(3295000, 3310000)).toBe('3,3 mkr');
+    expect(formatPriceRange(undefined, undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createSpeedBasedRoutingProvider,
+  estimateCommutes,
+  estimatePropertyCommutes,
+  fastestEstimate,
+  formatCommuteTime,
+  formatDistance,
+  reachableAreaPolygon,
+  reachableRadiusKm,
+  RoutingProvider,
+  straightLineDistanceKm,
+} from '@/lib/utils/commute';
+import type { SavedPlace } from '@/lib/types/savedPlace';
+
+const MALMO_C = { latitude: 55.6094, longitude: 13.0007 };
+const LUND_C = { latitude: 55.7047, longitude: 13.1910 };
+
+const WORK: SavedPlace = {
+  id: 'p1',
+  spaceId: null,
+  name: 'Jobbet',
+  kind: 'work',
+  ...LUND_C,
+  createdBy: 'anon',
+  createdAt: '2026-01-01T00:00:00Z',
+};
+
+describe('Commute estimates', () => {
+  test('measures straight-line distance', () => {
+    expect(straightLineDistanceKm(MALMO_C, LUND_C)).toBeCloseTo(16.0, 0);
+    expect(straightLineDistanceKm(MALMO_C, MALMO_C)).toBe(0);
+  });
+
+  test('estimates every mode offline with the speed-based provider', async () => {
+    const [commute] = await estimateCommutes(MALMO_C, [WORK], createSpeedBasedRoutingProvider());
+    const minutes = Object.fromEntries(commute.estimates.map((estimate) => [estimate.mode, estimate.minutes]));
+
+    expect(commute).toMatchObject({ placeId: 'p1', placeName: 'Jobbet', kind: 'work' });
+    expect(minutes.walk).toBeGreaterThan(minutes.bike);
+    expect(minutes.bike).toBeGreaterThan(minutes.transit);
+    expect(fastestEstimate(commute)?.mode).toBe('transit');
+  });
+
+  test('uses a plugged-in provider and leaves out modes it cannot estimate', async () => {
+    const provider: RoutingProvider = {
+      name: 'fake',
+      estimate: async (_from, _to, mode) =>
+        mode === 'transit' ? null : { mode, minutes: mode === 'walk' ? 90 : 30, distanceKm: 7 },
+    };
+    const commutes = await estimatePropertyCommutes(
+      [{ id: 'a', ...MALMO_C }, { id: 'unpinned' }],
+      [WORK],
+      provider
+    );
+
+    expect(Object.keys(commutes)).toEqual(['a']);
+    expect(commutes.a[0].estimates.map((estimate) => estimate.mode)).toEqual(['walk', 'bike']);
+  });
+
+  test('shades the area reachable in time around a place', () => {
+    expect(reachableRadiusKm(30, 'walk')).toBeCloseTo(2, 1);
+    // Transit spends its overhead before going anywhere
+    expect(reachableRadiusKm(5, 'transit')).toBe(0);
+    expect(reachableAreaPolygon(MALMO_C, 5, 'transit')).toEqual([]);
+
+    const polygon = reachableAreaPolygon(MALMO_C, 30, 'bike', 12);
+    expect(polygon).toHaveLength(12);
+    for (const [longitude, latitude] of polygon) {
+      expect(straightLineDistanceKm(MALMO_C, { latitude, longitude })).toBeCloseTo(reachableRadiusKm(30, 'bike'), 1);
+    }
+  });
+
+  test('formats distances and times', () => {
+    expect(formatDistance(0.85)).toBe('850 m');
+    expect(formatDistance(3.24)).toBe('3,2 km');
+    expect(formatDistance(16.2)).toBe('16 km');
+    expect(formatCommuteTime(25)).toBe('25 min');
+    expect(formatCommuteTime(65)).toBe('1 h 5 min');
+    expect(formatCommuteTime(120)).toBe('2 h');
+  });
+});
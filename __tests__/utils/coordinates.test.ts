@@ -0,0 +1,44 @@
+import { describe, test, expect } from 'vitest';
+import { isUserVerified, listingCoordinateUpdate, userPin } from '@/lib/utils/coordinates';
+
+const LISTING = { latitude: 55.5832, longitude: 12.9286 };
+
+describe('Pin coordinates', () => {
+  test('userPin marks the pin as placed by a user', () => {
+    const pin = userPin(55.6, 13.0);
+
+    expect(pin).toEqual({ latitude: 55.6, longitude: 13.0, geocodeSource: 'user', geocodePrecision: 'exact' });
+    expect(isUserVerified(pin)).toBe(true);
+  });
+
+  describe('listingCoordinateUpdate', () => {
+    test('pins properties that have no coordinates', () => {
+      expect(listingCoordinateUpdate({}, LISTING)).toEqual({
+        ...LISTING,
+        geocodeSource: 'listing',
+        geocodePrecision: 'exact',
+      });
+    });
+
+    test('replaces geocoded guesses with the listing coordinates', () => {
+      const geocoded = { latitude: 55.6, longitude: 13.0, geocodeSource: 'address' as const, geocodePrecision: 'city' as const };
+
+      expect(listingCoordinateUpdate(geocoded, LISTING)).toMatchObject({ ...LISTING, geocodeSource: 'listing' });
+    });
+
+    test('never moves a pin the user placed', () => {
+      expect(listingCoordinateUpdate(userPin(55.6, 13.0), LISTING)).toEqual({});
+    });
+
+    test('keeps coordinates that already came from the listing', () => {
+      const fromListing = { latitude: 55.6, longitude: 13.0, geocodeSource: 'listing' as const, geocodePrecision: 'exact' as const };
+
+      expect(listingCoordinateUpdate(fromListing, LISTING)).toEqual({});
+    });
+
+    test('ignores missing or invalid coordinates', () => {
+      expect(listingCoordinateUpdate({}, undefined)).toEqual({});
+      expect(listingCoordinateUpdate({}, { latitude: 155, longitude: 13 })).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, test, expect } from 'vitest';
+import {
+  canonicalizeUrl,
+  normalizeAddress,
+  isSameAddress,
+  findUrlDuplicate,
+  findListingDuplicate,
+  findDuplicate,
+} from '@/lib/utils/duplicates';
+import type { PropertyLink, PropertyLinkData } from '@/lib/store/propertyLinkStore';
+
+function property(id: string, url: string, propertyData?: PropertyLinkData, otherUrls: string[] = []): PropertyLink {
+  return {
+    id,
+    url,
+    sources: [url, ...otherUrls].map((sourceUrl) => ({
+      siteName: new URL(sourceUrl).hostname,
+      url: sourceUrl,
+      firstSeen: '2026-01-01T00:00:00Z',
+      lastSeen: '2026-01-01T00:00:00Z',
+    })),
+    title: `Property ${id}`,
+    sharedBy: 'anon',
+    sharedAt: '2026-01-01T00:00:00Z',
+    propertyData,
+  };
+}
+
+const existing = [
+  property('1', 'https://www.hemnet.se/bostad/lagenhet-3rum-malmo-skansbogatan-2a-21547000', {
+    address: 'Skansbogatan 2A',
+    city: 'Malmö',
+    area: 98,
+    price: 4_250_000,
+  }),
+  property('2', 'https://www.booli.se/annons/5512345', {
+    address: 'Vasagatan 12',
+    area: 54,
+    price: 2_900_000,
+  }, ['https://www.fastighetsbyran.com/sv/sverige/objekt/?objektID=2058-4417']),
+];
+
+describe('canonicalizeUrl', () => {
+  test('strips tracking params, fragment, www and trailing slash', () => {
+    expect(
+      canonicalizeUrl('http://www.Hemnet.se/bostad/villa-123/?utm_source=facebook&utm_medium=social&fbclid=abc#bilder')
+    ).toBe('https://hemnet.se/bostad/villa-123');
+  });
+
+  test('keeps and sorts meaningful params', () => {
+    expect(canonicalizeUrl('https://www.fastighetsbyran.com/sv/sverige/objekt/?utm_campaign=x&objektID=2058-4417'))
+      .toBe('https://fastighetsbyran.com/sv/sverige/objekt?objektID=2058-4417');
+    expect(canonicalizeUrl('https://example.se/listing?b=2&a=1')).toBe('https://example.se/listing?a=1&b=2');
+  });
+
+  test('keeps generic params that may identify the listing', () => {
+    expect(canonicalizeUrl('https://example.se/objekt?ref=4417&source=maklare&gclid=xyz'))
+      .toBe('https://example.se/objekt?ref=4417&source=maklare');
+  });
+
+  test('returns unparseable input trimmed', () => {
+    expect(canonicalizeUrl('  not a url ')).toBe('not a url');
+  });
+});
+
+describe('normalizeAddress', () => {
+  test('drops city, diacritics and apartment numbers, joins house letter', () => {
+    expect(normalizeAddress('Skånsbogatan 2 A, Malmö')).toBe('skansbogatan 2a');
+    expect(normalizeAddress('Vasagatan 12 lgh 1102')).toBe('vasagatan 12');
+  });
+});
+
+describe('isSameAddress', () => {
+  test('tolerates typos but not a different house number', () => {
+    expect(isSameAddress('Skansbogatan 2A', 'Skånsbogatan 2 A, Malmö')).toBe(true);
+    expect(isSameAddress('Drottninggatan 5', 'Drotninggatan 5')).toBe(true);
+    expect(isSameAddress('Skansbogatan 2A', 'Skansbogatan 2B')).toBe(false);
+    expect(isSameAddress('Skansbogatan 2', 'Skansbogatan')).toBe(false);
+    expect(isSameAddress('Vasagatan 12', 'Kungsgatan 12')).toBe(false);
+  });
+});
+
+describe('findUrlDuplicate', () => {
+  test('matches the listing URL and other sources in canonical form', () => {
+    expect(
+      findUrlDuplicate('https://hemnet.se/bostad/lagenhet-3rum-malmo-skansbogatan-2a-21547000/?utm_source=app', existing)
+        ?.property.id
+    ).toBe('1');
+    expect(
+      findUrlDuplicate('https://fastighetsbyran.com/sv/sverige/objekt?objektID=2058-4417', existing)?.property.id
+    ).toBe('2');
+    expect(findUrlDuplicate('https://www.booli.se/annons/999', existing)).toBeNull();
+  });
+
+  test('ignores temporary cards', () => {
+    const temp = property('temp-1', 'https://www.booli.se/annons/999');
+    expect(findUrlDuplicate('https://www.booli.se/annons/999', [temp])).toBeNull();
+  });
+});
+
+describe('findListingDuplicate', () => {
+  test('matches the same home on another site', () => {
+    const match = findListingDuplicate(
+      {
+        url: 'https://www.svenskfast.se/bostad/malmo/skansbogatan-2a',
+        propertyData: { address: 'Skånsbogatan 2 A, Malmö', area: 98.5, price: 4_195_000 },
+      },
+      existing
+    );
+    expect(match?.property.id).toBe('1');
+    expect(match?.reason).toBe('listing');
+    expect(match?.matchedOn).toEqual(['address', 'area', 'price']);
+  });
+
+  test('rejects a different apartment in the same building', () => {
+    expect(
+      findListingDuplicate(
+        { url: 'https://www.booli.se/annons/1', propertyData: { address: 'Skansbogatan 2A', area: 61, price: 2_700_000 } },
+        existing
+      )
+    ).toBeNull();
+  });
+
+  test('needs area or price to back up the address', () => {
+    expect(
+      findListingDuplicate({ url: 'https://www.booli.se/annons/1', propertyData: { address: 'Vasagatan 12' } }, existing)
+    ).toBeNull();
+    expect(
+      findListingDuplicate({ url: 'https://www.booli.se/annons/1', propertyData: { address: 'Vasagatan 12', price: 2_950_000 } }, existing)
+        ?.matchedOn
+    ).toEqual(['address', 'price']);
+  });
+});
+
+describe('findDuplicate', () => {
+  test('prefers a URL match', () => {
+    expect(
+      findDuplicate({ url: 'https://booli.se/annons/5512345/', propertyData: { address: 'Skansbogatan 2A', area: 98 } }, existing)
+    ).toMatchObject({ reason: 'url', property: { id: '2' } });
+  });
+});
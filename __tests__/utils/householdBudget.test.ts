@@ -0,0 +1,98 @@
+import { describe, test, expect } from 'vitest';
+import {
+  calculateAffordabilitySummary,
+  evaluatePropertyBudget,
+  evaluatePropertyLinkBudgets,
+  householdKalpParams,
+  monthlyRunningCost,
+} from '@/lib/utils/householdBudget';
+import type { HouseholdProfile } from '@/lib/types/household';
+import type { PropertyLink } from '@/lib/store/propertyLinkStore';
+
+// Two adults at 45 000 kr: 61 200 kr net, 21 200 kr living costs, 40 000 kr left for housing
+const HOUSEHOLD: HouseholdProfile = {
+  id: 'h1',
+  spaceId: null,
+  ownerId: 'anna@example.com',
+  members: [
+    { name: 'Anna', grossMonthlyIncome: 45000 },
+    { name: 'Erik', grossMonthlyIncome: 45000 },
+  ],
+  children: 0,
+  savings: 800_000,
+  otherLoansMonthly: 0,
+  carCostsMonthly: 0,
+  stressTestRate: 7,
+  updatedBy: 'anna@example.com',
+  updatedAt: '2026-01-01T00:00:00Z',
+};
+
+describe('householdKalpParams', () => {
+  test('uses default tax and kalkylränta when the profile has none', () => {
+    const params = householdKalpParams({ ...HOUSEHOLD, stressTestRate: undefined });
+    expect(params).toMatchObject({ adultGrossMonthlyIncomes: [45000, 45000], municipalTaxRate: 0.32, stressTestRate: 7 });
+  });
+
+  test('returns null without any income', () => {
+    expect(householdKalpParams({ ...HOUSEHOLD, members: [{ name: 'Anna', grossMonthlyIncome: 0 }] })).toBeNull();
+  });
+});
+
+describe('evaluatePropertyBudget', () => {
+  test('is within budget when the loan passes KALP', () => {
+    // 2.2M loan at 7% + 2% amortization = 16 500 kr, plus the avgift
+    const budget = evaluatePropertyBudget(HOUSEHOLD, { price: 3_000_000, monthlyCost: 4000 });
+    expect(budget.status).toBe('within');
+    expect(budget.loanNeeded).toBe(2_200_000);
+    expect(budget.monthlySurplus).toBe(19500);
+  });
+
+  test('is over budget when the savings do not cover 15% kontantinsats', () => {
+    expect(evaluatePropertyBudget(HOUSEHOLD, { price: 6_000_000 })).toEqual({
+      status: 'over',
+      loanNeeded: 5_200_000,
+      reason: 'down-payment',
+    });
+  });
+
+  test('is over budget when the running costs break KALP', () => {
+    // 4.2M loan costs 31 500 kr, so 4 000 kr avgift fits but 10 000 kr does not
+    expect(evaluatePropertyBudget(HOUSEHOLD, { price: 5_000_000, monthlyCost: 4000 }).status).toBe('within');
+    const budget = evaluatePropertyBudget(HOUSEHOLD, { price: 5_000_000, monthlyCost: 10000 });
+    expect(budget).toMatchObject({ status: 'over', reason: 'kalp' });
+    expect(budget.monthlySurplus).toBeLessThan(0);
+  });
+
+  test('is unknown without a price', () => {
+    expect(evaluatePropertyBudget(HOUSEHOLD, {}).status).toBe('unknown');
+  });
+});
+
+describe('evaluatePropertyLinkBudgets', () => {
+  test('uses avgift plus driftkostnad per month', () => {
+    expect(monthlyRunningCost({ monthlyFee: 3000, operatingCost: 24000 })).toBe(5000);
+
+    const links = [
+      { id: 'a', url: 'https://example.com/a', propertyData: { price: 3_000_000, monthlyFee: 4000 } },
+      { id: 'b', url: 'https://example.com/b', propertyData: { price: 9_000_000 } },
+    ] as PropertyLink[];
+    const budgets = evaluatePropertyLinkBudgets(HOUSEHOLD, links);
+    expect(budgets.a.status).toBe('within');
+    expect(budgets.b.status).toBe('over');
+    expect(evaluatePropertyLinkBudgets(null, links)).toEqual({});
+  });
+});
+
+describe('calculateAffordabilitySummary', () => {
+  test('limits the price by the loan and by the kontantinsats', () => {
+    const summary = calculateAffordabilitySummary(HOUSEHOLD)!;
+    // Stops below 4.5x income, where amorteringskrav adds another percent
+    expect(summary.maxLoan).toBeGreaterThan(4_800_000);
+    expect(summary.maxLoan).toBeLessThanOrEqual(4_860_000);
+    // 800 000 kr is 15% of 5.33M
+    expect(summary.maxPrice).toBe(5_333_333);
+
+    const moreSavings = calculateAffordabilitySummary({ ...HOUSEHOLD, savings: 2_000_000 })!;
+    expect(moreSavings.maxPrice).toBe(moreSavings.maxLoan + 2_000_000);
+  });
+});
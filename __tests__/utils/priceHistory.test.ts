@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'vitest';
+import { getPriceChange, getPriceSeries, groupPriceHistory } from '@/lib/utils/priceHistory';
+import type { PricePoint } from '@/lib/types/property';
+
+function point(id: string, recordedAt: string, price?: number, monthlyFee?: number, propertyId = '1'): PricePoint {
+  return { id, propertyId, price, monthlyFee, recordedAt };
+}
+
+describe('getPriceSeries', () => {
+  test('sorts oldest first and collapses repeated values', () => {
+    const history = [
+      point('c', '2026-03-01T00:00:00Z', 3_950_000, 4200),
+      point('a', '2026-01-01T00:00:00Z', 4_250_000, 4100),
+      point('b', '2026-02-01T00:00:00Z', 4_250_000, 4200),
+    ];
+
+    expect(getPriceSeries(history, 'price')).toEqual([
+      { value: 4_250_000, recordedAt: '2026-01-01T00:00:00Z' },
+      { value: 3_950_000, recordedAt: '2026-03-01T00:00:00Z' },
+    ]);
+    expect(getPriceSeries(history, 'monthlyFee').map((p) => p.value)).toEqual([4100, 4200]);
+  });
+
+  test('skips rows without a value for the field', () => {
+    const history = [point('a', '2026-01-01T00:00:00Z', undefined, 3000), point('b', '2026-02-01T00:00:00Z', 2_000_000)];
+    expect(getPriceSeries(history)).toEqual([{ value: 2_000_000, recordedAt: '2026-02-01T00:00:00Z' }]);
+  });
+});
+
+describe('getPriceChange', () => {
+  test('returns null when the price never changed', () => {
+    expect(getPriceChange([])).toBeNull();
+    expect(
+      getPriceChange([point('a', '2026-01-01T00:00:00Z', 3_000_000, 4000), point('b', '2026-02-01T00:00:00Z', 3_000_000, 4500)])
+    ).toBeNull();
+  });
+
+  test('reports the latest drop against the previous and original price', () => {
+    const change = getPriceChange([
+      point('a', '2026-01-01T00:00:00Z', 4_000_000),
+      point('b', '2026-02-01T00:00:00Z', 4_200_000),
+      point('c', '2026-03-01T00:00:00Z', 3_990_000),
+    ]);
+
+    expect(change).toEqual({
+      currentPrice: 3_990_000,
+      previousPrice: 4_200_000,
+      originalPrice: 4_000_000,
+      change: -210_000,
+      changePercent: -5,
+      direction: 'down',
+      changedAt: '2026-03-01T00:00:00Z',
+    });
+  });
+
+  test('reports a raise', () => {
+    const change = getPriceChange([point('a', '2026-01-01T00:00:00Z', 3_000_000), point('b', '2026-02-01T00:00:00Z', 3_100_000)]);
+    expect(change?.direction).toBe('up');
+    expect(change?.changePercent).toBe(3.3);
+  });
+});
+
+describe('groupPriceHistory', () => {
+  test('groups rows by property ID', () => {
+    const grouped = groupPriceHistory([
+      point('a', '2026-01-01T00:00:00Z', 1, undefined, '1'),
+      point('b', '2026-01-01T00:00:00Z', 2, undefined, '2'),
+      point('c', '2026-02-01T00:00:00Z', 3, undefined, '1'),
+    ]);
+
+    expect(Object.keys(grouped).sort()).toEqual(['1', '2']);
+    expect(grouped['1'].map((p) => p.id)).toEqual(['a', 'c']);
+  });
+});
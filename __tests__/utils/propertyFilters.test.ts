@@ -0,0 +1,130 @@
+import { describe, test, expect } from 'vitest';
+import {
+  countActiveFilters,
+  filterPropertyLinks,
+  filtersFromParams,
+  filtersToParams,
+  filterTableProperties,
+  fromPropertyLink,
+  matchesFilters,
+  PropertyFilters,
+} from '@/lib/utils/propertyFilters';
+import type { PropertyLink } from '@/lib/store/propertyLinkStore';
+import type { Property } from '@/lib/api/properties-table';
+import type { SearchArea } from '@/lib/types/searchArea';
+
+function link(id: string, propertyData: PropertyLink['propertyData']): PropertyLink {
+  return { id, url: `https://example.com/${id}`, sharedBy: 'anon', sharedAt: '2026-01-01T00:00:00Z', propertyData };
+}
+
+const LIMHAMN = link('1', {
+  price: 3295000,
+  rooms: 3,
+  area: 74,
+  monthlyFee: 4120,
+  propertyType: 'Bostadsrätt',
+  elevator: 'Ja',
+  balcony: true,
+  energyClass: 'c',
+  buildYear: 1962,
+});
+const RADHUS = link('2', {
+  price: 4450000,
+  rooms: 4,
+  area: 98.5,
+  monthlyFee: 5250,
+  propertyType: 'Radhus',
+  tenureType: 'Bostadsrätt',
+  elevator: 'Nej',
+  buildYear: 1989,
+});
+const UNENRICHED = link('3', undefined);
+
+describe('Property filters', () => {
+  test('reads listing wording into filter values', () => {
+    expect(fromPropertyLink(LIMHAMN)).toMatchObject({
+      propertyType: 'lagenhet',
+      tenureType: 'bostadsratt',
+      elevator: true,
+      energyClass: 'C',
+    });
+    expect(fromPropertyLink(RADHUS)).toMatchObject({ propertyType: 'radhus', tenureType: 'bostadsratt', elevator: false });
+  });
+
+  test('filters on ranges, types and features', () => {
+    const byIds = (filters: PropertyFilters) =>
+      filterPropertyLinks([LIMHAMN, RADHUS], filters).map((property) => property.id);
+
+    expect(byIds({ maxPrice: 4000000 })).toEqual(['1']);
+    expect(byIds({ minRooms: 4 })).toEqual(['2']);
+    expect(byIds({ minArea: 80, maxArea: 120 })).toEqual(['2']);
+    expect(byIds({ maxMonthlyFee: 5000 })).toEqual(['1']);
+    expect(byIds({ propertyTypes: ['radhus', 'villa'] })).toEqual(['2']);
+    expect(byIds({ tenureTypes: ['bostadsratt'] })).toEqual(['1', '2']);
+    expect(byIds({ hasElevator: true })).toEqual(['1']);
+    expect(byIds({ energyClasses: ['A', 'B'] })).toEqual(['2']);
+    expect(byIds({ minBuiltYear: 1980 })).toEqual(['2']);
+  });
+
+  test('keeps properties that are missing the filtered value', () => {
+    expect(matchesFilters(fromPropertyLink(UNENRICHED), { maxPrice: 1000000, hasBalcony: true })).toBe(true);
+  });
+
+  test('keeps only pinned properties inside the selected search areas', () => {
+    const limhamn: SearchArea = {
+      id: 'a1',
+      spaceId: null,
+      name: 'Limhamn',
+      polygon: [[12.90, 55.57], [12.95, 55.57], [12.95, 55.60], [12.90, 55.60]],
+      createdBy: 'anon',
+      createdAt: '2026-01-01T00:00:00Z',
+    };
+    const pinned = { ...LIMHAMN, latitude: 55.5832, longitude: 12.9286 };
+    const elsewhere = { ...RADHUS, latitude: 55.6050, longitude: 13.0038 };
+    const ids = (filters: PropertyFilters, areas = [limhamn]) =>
+      filterPropertyLinks([pinned, elsewhere, UNENRICHED], filters, areas).map((property) => property.id);
+
+    expect(ids({ searchAreaIds: ['a1'] })).toEqual(['1']);
+    // A deleted or not yet loaded area doesn't hide anything
+    expect(ids({ searchAreaIds: ['a1'] }, [])).toEqual(['1', '2', '3']);
+  });
+
+  test('filters rows from the properties table', () => {
+    const rows: Property[] = [
+      { id: 1, url: 'a', price: 2500000, tenureType: 'Äganderätt', propertyType: 'Villa', hasBalcony: false },
+      { id: 2, url: 'b', price: 2500000, tenureType: 'Bostadsrätt', propertyType: 'Lägenhet', hasBalcony: true },
+    ];
+
+    expect(filterTableProperties(rows, { tenureTypes: ['aganderatt'] }).map((row) => row.id)).toEqual([1]);
+    expect(filterTableProperties(rows, { hasBalcony: true }).map((row) => row.id)).toEqual([2]);
+  });
+
+  test('countActiveFilters ignores cleared values', () => {
+    expect(countActiveFilters({})).toBe(0);
+    expect(countActiveFilters({ minPrice: 1, propertyTypes: [], hasElevator: true, maxArea: undefined })).toBe(2);
+  });
+
+  describe('URL params', () => {
+    test('round-trips filters through query params', () => {
+      const filters: PropertyFilters = {
+        minPrice: 2000000,
+        maxMonthlyFee: 5000,
+        propertyTypes: ['lagenhet', 'radhus'],
+        energyClasses: ['A', 'B'],
+        hasBalcony: true,
+      };
+      const params = filtersToParams(filters);
+
+      expect(params).toMatchObject({ minPrice: '2000000', maxFee: '5000', type: 'lagenhet,radhus', balcony: '1' });
+      expect(params.maxPrice).toBeUndefined();
+      expect(filtersFromParams(params)).toEqual(filters);
+    });
+
+    test('ignores values that do not parse', () => {
+      expect(filtersFromParams({ minPrice: 'abc', type: 'slott,villa', energy: 'b,x', elevator: '0', place: '12' })).toEqual({
+        propertyTypes: ['villa'],
+        energyClasses: ['B'],
+      });
+    });
+  });
+});
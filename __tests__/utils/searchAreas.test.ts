@@ -0,0 +1,36 @@
+import { describe, test, expect } from 'vitest';
+import { findSearchAreas, isPointInPolygon, toGeoJsonRing } from '@/lib/utils/searchAreas';
+import type { AreaPoint, SearchArea } from '@/lib/types/searchArea';
+
+// Rough box around Limhamn and an L-shape around Möllevången/Södervärn
+const LIMHAMN: AreaPoint[] = [[12.90, 55.57], [12.95, 55.57], [12.95, 55.60], [12.90, 55.60]];
+const L_SHAPE: AreaPoint[] = [[13.00, 55.58], [13.03, 55.58], [13.03, 55.59], [13.01, 55.59], [13.01, 55.60], [13.00, 55.60]];
+
+function area(id: string, name: string, polygon: AreaPoint[]): SearchArea {
+  return { id, spaceId: null, name, polygon, createdBy: 'anon', createdAt: '2026-01-01T00:00:00Z' };
+}
+
+describe('Search areas', () => {
+  test('isPointInPolygon handles concave polygons', () => {
+    expect(isPointInPolygon(55.5832, 12.9286, LIMHAMN)).toBe(true);
+    expect(isPointInPolygon(55.585, 13.02, L_SHAPE)).toBe(true);
+    // In the notch of the L
+    expect(isPointInPolygon(55.595, 13.02, L_SHAPE)).toBe(false);
+  });
+
+  test('findSearchAreas lists every area a property is in', () => {
+    const westOfLimhamn = LIMHAMN.map(([lng, lat]): AreaPoint => [lng - 0.02, lat]);
+    const areas = [area('1', 'Limhamn', LIMHAMN), area('2', 'Västra Limhamn', westOfLimhamn)];
+
+    expect(findSearchAreas({ latitude: 55.5832, longitude: 12.9286 }, areas).map((a) => a.name)).toEqual([
+      'Limhamn',
+      'Västra Limhamn',
+    ]);
+    expect(findSearchAreas({ latitude: 55.5832, longitude: 12.945 }, areas).map((a) => a.name)).toEqual(['Limhamn']);
+    expect(findSearchAreas({}, areas)).toEqual([]);
+  });
+
+  test('toGeoJsonRing closes the ring', () => {
+    expect(toGeoJsonRing(LIMHAMN)).toEqual([...LIMHAMN, LIMHAMN[0]]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'vitest';
+import {
+  siteNameFromUrl,
+  upsertSource,
+  getPropertySources,
+  countListingFields,
+  pickRichestSource,
+} from '@/lib/utils/sources';
+import type { PropertyLink } from '@/lib/store/propertyLinkStore';
+import type { PropertySource } from '@/lib/types/property';
+
+const hemnet: PropertySource = {
+  siteName: 'Hemnet',
+  url: 'https://hemnet.se/bostad/lagenhet-3rum-malmo-21547000',
+  firstSeen: '2026-01-01T00:00:00.000Z',
+  lastSeen: '2026-01-01T00:00:00.000Z',
+  price: 4_250_000,
+};
+
+describe('siteNameFromUrl', () => {
+  test('uses the hostname without www', () => {
+    expect(siteNameFromUrl('https://www.booli.se/annons/5512345')).toBe('booli.se');
+    expect(siteNameFromUrl('not a url')).toBe('not a url');
+  });
+});
+
+describe('upsertSource', () => {
+  test('appends a new site as pasted with first and last seen set', () => {
+    const sources = upsertSource(
+      [hemnet],
+      { url: 'https://www.booli.se/annons/5512345/?utm_source=app', price: 4_195_000 },
+      '2026-02-01T00:00:00.000Z'
+    );
+
+    expect(sources).toHaveLength(2);
+    expect(sources[1]).toEqual({
+      siteName: 'booli.se',
+      url: 'https://www.booli.se/annons/5512345/?utm_source=app',
+      firstSeen: '2026-02-01T00:00:00.000Z',
+      lastSeen: '2026-02-01T00:00:00.000Z',
+      price: 4_195_000,
+    });
+  });
+
+  test('updates last seen and price of a known site', () => {
+    const sources = upsertSource(
+      [hemnet],
+      { url: 'https://www.hemnet.se/bostad/lagenhet-3rum-malmo-21547000/', price: 3_995_000 },
+      '2026-03-01T00:00:00.000Z'
+    );
+
+    expect(sources).toEqual([
+      { ...hemnet, lastSeen: '2026-03-01T00:00:00.000Z', price: 3_995_000 },
+    ]);
+  });
+
+  test('keeps the previous price when none was read', () => {
+    expect(upsertSource([hemnet], { url: hemnet.url }, '2026-03-01T00:00:00.000Z')[0].price).toBe(4_250_000);
+  });
+});
+
+describe('getPropertySources', () => {
+  const property: PropertyLink = {
+    id: '1',
+    url: 'https://www.hemnet.se/bostad/villa-1',
+    sharedBy: 'anon',
+    sharedAt: '2026-01-01T00:00:00.000Z',
+    propertyData: { price: 5_000_000 },
+  };
+
+  test('falls back to the listing URL', () => {
+    expect(getPropertySources(property)).toEqual([
+      {
+        siteName: 'hemnet.se',
+        url: 'https://www.hemnet.se/bostad/villa-1',
+        firstSeen: '2026-01-01T00:00:00.000Z',
+        lastSeen: '2026-01-01T00:00:00.000Z',
+        price: 5_000_000,
+      },
+    ]);
+  });
+
+  test('returns stored sources', () => {
+    expect(getPropertySources({ ...property, sources: [hemnet] })).toEqual([hemnet]);
+  });
+});
+
+describe('pickRichestSource', () => {
+  test('counts filled fields and ignores empty ones', () => {
+    expect(countListingFields({ price: 1, address: '', features: [], monthlyFee: 3000 })).toBe(2);
+    expect(countListingFields(undefined)).toBe(0);
+  });
+
+  test('picks the extraction with the most fields, preferring earlier sources on ties', () => {
+    const hemnetResult = { url: 'hemnet', propertyData: { price: 1, area: 50 } };
+    const brokerResult = { url: 'broker', propertyData: { price: 1, area: 50, monthlyFee: 3000, buildYear: 1932 } };
+    const booliResult = { url: 'booli', propertyData: { price: 1, rooms: 2 } };
+
+    expect(pickRichestSource([hemnetResult, brokerResult, booliResult])?.url).toBe('broker');
+    expect(pickRichestSource([hemnetResult, booliResult])?.url).toBe('hemnet');
+    expect(pickRichestSource([])).toBeNull();
+  });
+});
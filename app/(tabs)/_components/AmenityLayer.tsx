@@ -0,0 +1,44 @@
+import { useMemo } from 'react';
+import { Layer, Source } from 'react-map-gl/maplibre';
+import type { LayerProps } from 'react-map-gl/maplibre';
+import { Amenity } from '../../../lib/types/amenity';
+import { amenitiesToGeoJson } from '../../../lib/utils/amenities';
+import { AMENITY_LABELS } from '../../../components/property/NearbyAmenities';
+
+const amenityPointsLayer: LayerProps = {
+  id: 'amenity-points',
+  type: 'circle',
+  // Thousands of points are only readable from neighbourhood level
+  minzoom: 12,
+  paint: {
+    'circle-color': [
+      'match',
+      ['get', 'category'],
+      'school', AMENITY_LABELS.school.color,
+      'grocery', AMENITY_LABELS.grocery.color,
+      'transit', AMENITY_LABELS.transit.color,
+      'park', AMENITY_LABELS.park.color,
+      '#6b7280',
+    ],
+    'circle-radius': ['interpolate', ['linear'], ['zoom'], 12, 3, 16, 6],
+    'circle-stroke-width': 1,
+    'circle-stroke-color': '#ffffff',
+  },
+};
+
+interface AmenityLayerProps {
+  amenities: Amenity[];
+}
+
+/**
+ * Imported schools, grocery stores, transit stops and parks as colored dots
+ */
+export function AmenityLayer({ amenities }: AmenityLayerProps) {
+  const data = useMemo(() => amenitiesToGeoJson(amenities), [amenities]);
+
+  return (
+    <Source id="amenities" type="geojson" data={data}>
+      <Layer {...amenityPointsLayer} />
+    </Source>
+  );
+}
@@ -0,0 +1,257 @@
+import { ReactNode, useEffect, useMemo, useState } from 'react';
+import { Layer, Marker, Source, useMap } from 'react-map-gl/maplibre';
+import type { LayerProps } from 'react-map-gl/maplibre';
+import type { GeoJSONSource } from 'maplibre-gl';
+import { Property } from '../../../lib/api/properties-table';
+import { PropertyLink } from '../../../lib/store/propertyLinkStore';
+import { PriceChange } from '../../../lib/utils/priceHistory';
+import type { PropertyBudget } from '../../../lib/types/household';
+import { formatPriceRange } from '../../../lib/utils/clustering';
+import { PropertyMarker } from './PropertyMarker';
+
+const SOURCE_ID = 'properties';
+export const PROPERTY_POINTS_LAYER_ID = 'property-points';
+
+// From this zoom every property gets its thumbnail marker
+export const THUMBNAIL_ZOOM = 14;
+
+// Stand-ins for a missing price in the cluster min/max reducers
+const NO_MIN_PRICE = 1e12;
+const NO_MAX_PRICE = 0;
+
+const clusterHaloLayer: LayerProps = {
+  id: 'property-cluster-halo',
+  type: 'circle',
+  source: SOURCE_ID,
+  filter: ['has', 'point_count'],
+  paint: {
+    'circle-color': '#10b981',
+    'circle-opacity': 0.25,
+    'circle-radius': ['step', ['get', 'point_count'], 28, 10, 36, 50, 46],
+  },
+};
+
+// Unclustered links get their own pin marker instead of a dot
+const pointsLayer: LayerProps = {
+  id: PROPERTY_POINTS_LAYER_ID,
+  type: 'circle',
+  source: SOURCE_ID,
+  filter: ['all', ['!', ['has', 'point_count']], ['==', ['get', 'kind'], 'table']],
+  maxzoom: THUMBNAIL_ZOOM,
+  paint: {
+    // Red when over the household budget
+    'circle-color': ['match', ['get', 'budget'], 'over', '#dc2626', '#10b981'],
+    'circle-radius': 7,
+    'circle-stroke-width': 2,
+    'circle-stroke-color': '#ffffff',
+  },
+};
+
+interface VisibleCluster {
+  id: number;
+  longitude: number;
+  latitude: number;
+  count: number;
+  priceRange: string | null;
+}
+
+export type PinnedPropertyLink = PropertyLink & { latitude: number; longitude: number };
+
+interface PropertyClustersProps {
+  properties: Property[];
+  // The user's property links, clustered together with the table rows
+  links: PinnedPropertyLink[];
+  renderLink: (link: PinnedPropertyLink) => ReactNode;
+  priceChanges: Record<string, PriceChange>;
+  // Household budget per property id, empty without a household profile
+  budgets: Record<string, PropertyBudget>;
+}
+
+/**
+ * Properties from the table and the user's property links as one clustered
+ * MapLibre GeoJSON source. Clusters show a count and price range and zoom in
+ * when clicked. Unclustered links are drawn with `renderLink`; unclustered table
+ * properties are dots until THUMBNAIL_ZOOM, then PropertyMarker thumbnails for
+ * the ones in view.
+ */
+export function PropertyClusters({ properties, links, renderLink, priceChanges, budgets }: PropertyClustersProps) {
+  const { current: mapRef } = useMap();
+  const [clusters, setClusters] = useState<VisibleCluster[]>([]);
+  const [thumbnailIds, setThumbnailIds] = useState<Set<number>>(new Set());
+  const [unclusteredLinkIds, setUnclusteredLinkIds] = useState<Set<string>>(new Set());
+
+  const data = useMemo<GeoJSON.FeatureCollection<GeoJSON.Point>>(
+    () => ({
+      type: 'FeatureCollection',
+      features: [
+        ...properties
+          .filter((property) => property.latitude != null && property.longitude != null)
+          .map((property) => ({
+            type: 'Feature' as const,
+            geometry: { type: 'Point' as const, coordinates: [property.longitude!, property.latitude!] },
+            properties: {
+              kind: 'table',
+              id: property.id,
+              price: property.price ?? null,
+              budget: budgets[property.id.toString()]?.status ?? 'unknown',
+            },
+          })),
+        ...links.map((link) => ({
+          type: 'Feature' as const,
+          geometry: { type: 'Point' as const, coordinates: [link.longitude, link.latitude] },
+          properties: {
+            kind: 'link',
+            id: link.id,
+            price: link.propertyData?.price ?? null,
+          },
+        })),
+      ],
+    }),
+    [properties, links, budgets]
+  );
+
+  useEffect(() => {
+    if (!mapRef) return;
+    const map = mapRef.getMap();
+
+    const update = () => {
+      if (!map.getSource(SOURCE_ID) || !map.isSourceLoaded(SOURCE_ID)) return;
+      const bounds = map.getBounds();
+
+      // Features come per tile, so clusters on tile edges show up more than once
+      const seen = new Map<number, VisibleCluster>();
+      for (const feature of map.querySourceFeatures(SOURCE_ID, { filter: ['has', 'point_count'] })) {
+        const { cluster_id, point_count, minPrice, maxPrice } = feature.properties;
+        const [longitude, latitude] = (feature.geometry as GeoJSON.Point).coordinates;
+        if (seen.has(cluster_id) || !bounds.contains([longitude, latitude])) continue;
+        seen.set(cluster_id, {
+          id: cluster_id,
+          longitude,
+          latitude,
+          count: point_count,
+          priceRange: formatPriceRange(
+            minPrice < NO_MIN_PRICE ? minPrice : undefined,
+            maxPrice > NO_MAX_PRICE ? maxPrice : undefined
+          ),
+        });
+      }
+      setClusters([...seen.values()]);
+
+      setUnclusteredLinkIds(
+        new Set(
+          map
+            .querySourceFeatures(SOURCE_ID, {
+              filter: ['all', ['!', ['has', 'point_count']], ['==', ['get', 'kind'], 'link']],
+            })
+            .map((feature) => String(feature.properties.id))
+        )
+      );
+
+      setThumbnailIds(
+        map.getZoom() >= THUMBNAIL_ZOOM
+          ? new Set(
+              properties
+                .filter((property) => property.latitude != null && property.longitude != null)
+                .filter((property) => bounds.contains([property.longitude!, property.latitude!]))
+                .map((property) => property.id)
+            )
+          : new Set()
+      );
+    };
+
+    const handleSourceData = (e: { sourceId?: string; isSourceLoaded?: boolean }) => {
+      if (e.sourceId === SOURCE_ID && e.isSourceLoaded) update();
+    };
+
+    map.on('moveend', update);
+    map.on('sourcedata', handleSourceData);
+    update();
+    return () => {
+      map.off('moveend', update);
+      map.off('sourcedata', handleSourceData);
+    };
+  }, [mapRef, properties, links]);
+
+  const expandCluster = async (cluster: VisibleCluster) => {
+    if (!mapRef) return;
+    const source = mapRef.getSource(SOURCE_ID) as GeoJSONSource | undefined;
+    if (!source) return;
+
+    try {
+      const zoom = await source.getClusterExpansionZoom(cluster.id);
+      mapRef.easeTo({ center: [cluster.longitude, cluster.latitude], zoom, duration: 500 });
+    } catch (error) {
+      console.error('Failed to expand cluster:', error);
+    }
+  };
+
+  return (
+    <>
+      <Source
+        id={SOURCE_ID}
+        type="geojson"
+        data={data}
+        cluster
+        clusterMaxZoom={THUMBNAIL_ZOOM - 1}
+        clusterRadius={60}
+        clusterProperties={{
+          minPrice: ['min', ['coalesce', ['get', 'price'], NO_MIN_PRICE]],
+          maxPrice: ['max', ['coalesce', ['get', 'price'], NO_MAX_PRICE]],
+        }}
+      >
+        <Layer {...clusterHaloLayer} />
+        <Layer {...pointsLayer} />
+      </Source>
+
+      {clusters.map((cluster) => (
+        <Marker
+          key={`cluster-${cluster.id}`}
+          longitude={cluster.longitude}
+          latitude={cluster.latitude}
+          anchor="center"
+          onClick={(e) => {
+            // Keep the click from reaching the map (place mode)
+            e.originalEvent.stopPropagation();
+            expandCluster(cluster);
+          }}
+        >
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              backgroundColor: '#10b981',
+              color: 'white',
+              borderRadius: '9999px',
+              border: '3px solid white',
+              boxShadow: '0 2px 6px rgba(0,0,0,0.3)',
+              padding: '4px 10px',
+              minWidth: '36px',
+              cursor: 'pointer',
+              lineHeight: 1.2,
+            }}
+            title={`${cluster.count} properties`}
+          >
+            <span style={{ fontSize: '14px', fontWeight: '700' }}>{cluster.count}</span>
+            {cluster.priceRange && (
+              <span style={{ fontSize: '10px', whiteSpace: 'nowrap' }}>{cluster.priceRange}</span>
+            )}
+          </div>
+        </Marker>
+      ))}
+
+      {links.filter((link) => unclusteredLinkIds.has(link.id)).map(renderLink)}
+
+      {properties
+        .filter((property) => thumbnailIds.has(property.id))
+        .map((property) => (
+          <PropertyMarker
+            key={`property-table-${property.id}`}
+            property={property}
+            priceChange={priceChanges[property.id.toString()]}
+            budget={budgets[property.id.toString()]}
+          />
+        ))}
+    </>
+  );
+}
@@ -1,12 +1,20 @@
 import { useState } from 'react';
 import { Marker, Popup } from 'react-map-gl/maplibre';
 import { Property } from '../../../lib/api/properties-table';
+import { PriceChange } from '../../../lib/utils/priceHistory';
+import type { PropertyBudget } from '../../../lib/types/household';
 
 interface PropertyMarkerProps {
   property: Property;
+  priceChange?: PriceChange;
+  budget?: PropertyBudget;
 }
 
-export function PropertyMarker({ property }: PropertyMarkerProps) {
+export function PropertyMarker({ property, priceChange, budget }: PropertyMarkerProps) {
+  const priceDropped = priceChange?.direction === 'down';
+  const overBudget = budget?.status === 'over';
+  // Red frame when over the household budget
+  const markerColor = overBudget ? '#dc2626' : '#10b981';
   const [showPopup, setShowPopup] = useState(false);
 
   if (!property.latitude || !property.longitude) {
@@ -44,7 +52,7 @@ export function PropertyMarker({ property }: PropertyMarkerProps) {
                 width: '50px',
                 height: '50px',
                 borderRadius: '8px',
-                border: '3px solid #10b981',
+                border: `3px solid ${markerColor}`,
                 boxShadow: '0 4px 8px rgba(0,0,0,0.3)',
                 overflow: 'hidden',
                 backgroundColor: '#fff',
@@ -68,7 +76,7 @@ export function PropertyMarker({ property }: PropertyMarkerProps) {
             // Fallback to colored pin marker if no image
             <div
               style={{
-                backgroundColor: '#10b981',
+                backgroundColor: markerColor,
                 borderRadius: '50% 50% 50% 0',
                 width: '30px',
                 height: '30px',
@@ -87,7 +95,7 @@ export function PropertyMarker({ property }: PropertyMarkerProps) {
                 top: '55px',
                 left: '50%',
                 transform: 'translateX(-50%)',
-                backgroundColor: '#10b981',
+                backgroundColor: priceDropped ? '#15803d' : markerColor,
                 color: 'white',
                 padding: '2px 6px',
                 borderRadius: '4px',
@@ -97,6 +105,7 @@ export function PropertyMarker({ property }: PropertyMarkerProps) {
                 boxShadow: '0 2px 4px rgba(0,0,0,0.2)',
               }}
             >
+              {priceDropped && '▼ '}
               {formatPrice(property.price)}
             </div>
           )}
@@ -143,6 +152,32 @@ export function PropertyMarker({ property }: PropertyMarkerProps) {
               </div>
             )}
 
+            {/* Price drop */}
+            {priceDropped && priceChange && (
+              <div style={{ fontSize: '12px', fontWeight: '600', color: '#15803d', marginBottom: '8px' }}>
+                ▼ Price dropped {Math.abs(priceChange.changePercent)}% (was {formatPrice(priceChange.previousPrice)})
+              </div>
+            )}
+
+            {/* Household budget */}
+            {budget && budget.status !== 'unknown' && (
+              <div
+                style={{
+                  fontSize: '12px',
+                  fontWeight: '600',
+                  color: overBudget ? '#dc2626' : '#15803d',
+                  marginBottom: '8px',
+                }}
+              >
+                {overBudget
+                  ? budget.reason === 'down-payment'
+                    ? '✕ Over budget - savings short of 15% down payment'
+                    : '✕ Over budget'
+                  : '✓ Within budget'}
+                {!!budget.monthlySurplus && ` · ${formatPrice(budget.monthlySurplus)} left per month`}
+              </div>
+            )}
+
             {/* Key details grid */}
             <div
               style={{
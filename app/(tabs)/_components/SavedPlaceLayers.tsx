@@ -0,0 +1,90 @@
+import { useMemo } from 'react';
+import { Layer, Marker, Source } from 'react-map-gl/maplibre';
+import type { LayerProps } from 'react-map-gl/maplibre';
+import { SavedPlace } from '../../../lib/types/savedPlace';
+import { LatLng, reachableAreaPolygon } from '../../../lib/utils/commute';
+import { toGeoJsonRing } from '../../../lib/utils/searchAreas';
+import { placeKindIcon, ReachableOverlay } from '../../../components/places';
+
+const reachableFillLayer: LayerProps = {
+  id: 'reachable-area-fill',
+  type: 'fill',
+  paint: {
+    'fill-color': '#0d9488',
+    'fill-opacity': 0.12,
+  },
+};
+
+const reachableOutlineLayer: LayerProps = {
+  id: 'reachable-area-outline',
+  type: 'line',
+  paint: {
+    'line-color': '#0d9488',
+    'line-width': 1.5,
+    'line-dasharray': [3, 2],
+  },
+};
+
+const placeMarkerStyle: React.CSSProperties = {
+  backgroundColor: 'white',
+  border: '2px solid #0d9488',
+  borderRadius: '9999px',
+  width: '30px',
+  height: '30px',
+  fontSize: '16px',
+  lineHeight: '26px',
+  textAlign: 'center',
+  boxShadow: '0 2px 4px rgba(0,0,0,0.3)',
+};
+
+interface SavedPlaceLayersProps {
+  places: SavedPlace[];
+  // Area reachable from each place, null to hide
+  reachable: ReachableOverlay | null;
+  // Point picked for a new place, not saved yet
+  draft: LatLng | null;
+}
+
+/**
+ * Saved places (work, school, family) as round markers, with the area reachable
+ * from each of them shaded in teal
+ */
+export function SavedPlaceLayers({ places, reachable, draft }: SavedPlaceLayersProps) {
+  const reachableData = useMemo<GeoJSON.FeatureCollection<GeoJSON.Polygon>>(
+    () => ({
+      type: 'FeatureCollection',
+      features: reachable
+        ? places
+            .map((place) => reachableAreaPolygon(place, reachable.minutes, reachable.mode))
+            .filter((polygon) => polygon.length > 0)
+            .map((polygon) => ({
+              type: 'Feature',
+              geometry: { type: 'Polygon', coordinates: [toGeoJsonRing(polygon)] },
+              properties: {},
+            }))
+        : [],
+    }),
+    [places, reachable]
+  );
+
+  return (
+    <>
+      <Source id="reachable-areas" type="geojson" data={reachableData}>
+        <Layer {...reachableFillLayer} />
+        <Layer {...reachableOutlineLayer} />
+      </Source>
+      {places.map((place) => (
+        <Marker key={`place-${place.id}`} longitude={place.longitude} latitude={place.latitude}>
+          <div style={placeMarkerStyle} title={place.name}>
+            {placeKindIcon(place.kind)}
+          </div>
+        </Marker>
+      ))}
+      {draft && (
+        <Marker longitude={draft.longitude} latitude={draft.latitude}>
+          <div style={{ ...placeMarkerStyle, borderStyle: 'dashed' }}>📍</div>
+        </Marker>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,110 @@
+import { useMemo } from 'react';
+import { Layer, Source } from 'react-map-gl/maplibre';
+import type { LayerProps } from 'react-map-gl/maplibre';
+import { AreaPoint, SearchArea } from '../../../lib/types/searchArea';
+import { toGeoJsonRing } from '../../../lib/utils/searchAreas';
+
+const areaFillLayer: LayerProps = {
+  id: 'search-area-fill',
+  type: 'fill',
+  paint: {
+    'fill-color': '#7c3aed',
+    'fill-opacity': ['case', ['get', 'selected'], 0.18, 0.08],
+  },
+};
+
+const areaOutlineLayer: LayerProps = {
+  id: 'search-area-outline',
+  type: 'line',
+  paint: {
+    'line-color': '#7c3aed',
+    'line-width': ['case', ['get', 'selected'], 3, 1.5],
+  },
+};
+
+const draftLineLayer: LayerProps = {
+  id: 'search-area-draft-line',
+  type: 'line',
+  filter: ['==', ['geometry-type'], 'LineString'],
+  paint: {
+    'line-color': '#7c3aed',
+    'line-width': 2,
+    'line-dasharray': [2, 1],
+  },
+};
+
+const draftCornerLayer: LayerProps = {
+  id: 'search-area-draft-corners',
+  type: 'circle',
+  filter: ['==', ['geometry-type'], 'Point'],
+  paint: {
+    'circle-color': '#ffffff',
+    'circle-radius': 5,
+    'circle-stroke-width': 2,
+    'circle-stroke-color': '#7c3aed',
+  },
+};
+
+interface SearchAreaLayersProps {
+  areas: SearchArea[];
+  // Areas picked in the filter panel are drawn stronger
+  selectedIds?: string[];
+  // Corners of the area being drawn, null when not drawing
+  draft: AreaPoint[] | null;
+}
+
+/**
+ * Saved search areas as purple polygons, plus the outline of the one being drawn
+ */
+export function SearchAreaLayers({ areas, selectedIds, draft }: SearchAreaLayersProps) {
+  const areaData = useMemo<GeoJSON.FeatureCollection<GeoJSON.Polygon>>(
+    () => ({
+      type: 'FeatureCollection',
+      features: areas.map((area) => ({
+        type: 'Feature',
+        geometry: { type: 'Polygon', coordinates: [toGeoJsonRing(area.polygon)] },
+        properties: { id: area.id, name: area.name, selected: !!selectedIds?.includes(area.id) },
+      })),
+    }),
+    [areas, selectedIds]
+  );
+
+  const draftData = useMemo<GeoJSON.FeatureCollection>(
+    () => ({
+      type: 'FeatureCollection',
+      features: [
+        ...(draft && draft.length > 1
+          ? [
+              {
+                type: 'Feature' as const,
+                // Closed once there are enough corners for an area
+                geometry: { type: 'LineString' as const, coordinates: draft.length > 2 ? toGeoJsonRing(draft) : draft },
+                properties: {},
+              },
+            ]
+          : []),
+        ...(draft || []).map((point) => ({
+          type: 'Feature' as const,
+          geometry: { type: 'Point' as const, coordinates: point },
+          properties: {},
+        })),
+      ],
+    }),
+    [draft]
+  );
+
+  return (
+    <>
+      <Source id="search-areas" type="geojson" data={areaData}>
+        <Layer {...areaFillLayer} />
+        <Layer {...areaOutlineLayer} />
+      </Source>
+      {draft && (
+        <Source id="search-area-draft" type="geojson" data={draftData}>
+          <Layer {...draftLineLayer} />
+          <Layer {...draftCornerLayer} />
+        </Source>
+      )}
+    </>
+  );
+}
@@ -2,6 +2,7 @@ import { Platform, View, Text, Pressable, ScrollView, TextInput } from 'react-na
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { useState } from 'react';
+import { KalpCalculator } from '../../components/financial/KalpCalculator';
 
 export default function BolanTab() {
   const router = useRouter();
@@ -135,6 +136,11 @@ export default function BolanTab() {
               </div>
             )}
           </div>
+
+          {/* What the household can borrow */}
+          <div className="mt-8">
+            <KalpCalculator />
+          </div>
         </div>
       </div>
     );
@@ -239,6 +245,11 @@ export default function BolanTab() {
             </View>
           )}
         </View>
+
+        {/* What the household can borrow */}
+        <View className="mt-8 mb-8">
+          <KalpCalculator />
+        </View>
       </ScrollView>
     </SafeAreaView>
   );
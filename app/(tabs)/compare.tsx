@@ -3,6 +3,7 @@ import { Platform, ScrollView, View, Text, Pressable } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useProperties } from '../../lib/query/useProperties';
 import { useComparison } from '../../lib/query/useComparison';
+import { SpaceSwitcher } from '../../components/spaces';
 
 export default function CompareTab() {
   const { properties } = useProperties();
@@ -23,6 +24,9 @@ export default function CompareTab() {
     }
   };
 
+  const formatKr = (value: number) => `${Math.round(value).toLocaleString('sv-SE')} kr`;
+  const formatIncrease = (rateIncrease: number) => `+${Math.round(rateIncrease * 1000) / 10} p.e.`;
+
   // Get property display data
   const getPropertyDisplay = (propertyId: string) => {
     const property = properties.find(p => p.id === propertyId);
@@ -51,6 +55,9 @@ export default function CompareTab() {
                 {showSelector ? 'Dölj' : 'Välj'} Bostäder ({selectedPropertyIds.length})
               </button>
             </div>
+            <div className="mt-3">
+              <SpaceSwitcher allowCreate={false} />
+            </div>
           </div>
         </div>
 
@@ -123,6 +130,24 @@ export default function CompareTab() {
                       <span className="font-medium">{comparison.property.propertyData?.monthlyFee ? `${comparison.property.propertyData.monthlyFee} kr/mån` : '-'}</span>
                     </div>
                   </div>
+                  {comparison.metrics.loanCost && (
+                    <div className="space-y-2 text-sm mt-4 pt-4 border-t border-gray-200">
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Bolån</span>
+                        <span className="font-medium">{formatKr(comparison.metrics.loanCost.monthlyPayment)}/mån</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Vid {formatIncrease(comparison.metrics.loanCost.rateIncrease)}</span>
+                        <span className="font-medium text-red-600">{formatKr(comparison.metrics.loanCost.stressedMonthlyPayment)}/mån</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Ränta 10 år</span>
+                        <span className="font-medium">
+                          {formatKr(comparison.metrics.loanCost.interest)} – {formatKr(comparison.metrics.loanCost.stressedInterest)}
+                        </span>
+                      </div>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -138,6 +163,9 @@ export default function CompareTab() {
       <View className="bg-white px-6 py-4 border-b border-gray-200">
         <Text className="text-2xl font-bold text-gray-900">Jämför Bostäder</Text>
         <Text className="text-sm text-gray-600 mt-1">Jämför bostäder sida vid sida</Text>
+        <View className="mt-3">
+          <SpaceSwitcher allowCreate={false} />
+        </View>
         <Pressable
           onPress={() => setShowSelector(!showSelector)}
           className="mt-3 bg-blue-600 py-2 px-4 rounded-lg self-start"
@@ -204,6 +232,24 @@ export default function CompareTab() {
                     <Text className="font-medium">{comparison.property.propertyData?.area ? `${comparison.property.propertyData.area} m²` : '-'}</Text>
                   </View>
                 </View>
+                {comparison.metrics.loanCost && (
+                  <View className="space-y-2 mt-3 pt-3 border-t border-gray-200">
+                    <View className="flex-row justify-between">
+                      <Text className="text-gray-500">Bolån</Text>
+                      <Text className="font-medium">{formatKr(comparison.metrics.loanCost.monthlyPayment)}/mån</Text>
+                    </View>
+                    <View className="flex-row justify-between">
+                      <Text className="text-gray-500">Vid {formatIncrease(comparison.metrics.loanCost.rateIncrease)}</Text>
+                      <Text className="font-medium text-red-600">{formatKr(comparison.metrics.loanCost.stressedMonthlyPayment)}/mån</Text>
+                    </View>
+                    <View className="flex-row justify-between">
+                      <Text className="text-gray-500">Ränta 10 år</Text>
+                      <Text className="font-medium">
+                        {formatKr(comparison.metrics.loanCost.interest)} – {formatKr(comparison.metrics.loanCost.stressedInterest)}
+                      </Text>
+                    </View>
+                  </View>
+                )}
               </View>
             ))}
           </View>
@@ -8,12 +8,23 @@ import { FinancialCalculatorForm } from '../../../../components/financial/Financ
 import { FinancialResults } from '../../../../components/financial/FinancialResults';
 import { PropertyReactions } from '../../../../components/property/PropertyReactions';
 import { PropertyComments } from '../../../../components/property/PropertyComments';
+import { PropertyEnrichmentBadge } from '../../../../components/PropertyEnrichmentBadge';
+import { ListingChanges } from '../../../../components/property/ListingChanges';
+import { PriceHistoryChart } from '../../../../components/property/PriceHistoryChart';
+import { PropertySources } from '../../../../components/property/PropertySources';
+import { NearbyAmenities } from '../../../../components/property/NearbyAmenities';
+import { useListingRefresh } from '../../../../lib/query/useEnrichment';
+import { ListingRefresh } from '../../../../lib/enrichment/orchestrator';
 
 export default function PropertyDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const { property, isLoading } = useProperty(id);
   const [showCalculator, setShowCalculator] = useState(false);
+  const [pendingRefresh, setPendingRefresh] = useState<ListingRefresh | null>(null);
+  const [acceptedFields, setAcceptedFields] = useState<string[]>([]);
+  const [refreshMessage, setRefreshMessage] = useState<string | null>(null);
+  const { previewRefreshAsync, isFetchingRefresh, applyRefresh, isApplyingRefresh } = useListingRefresh();
 
   // Get financial results
   const financialResults = property?.financialData?.results || null;
@@ -54,6 +65,46 @@ export default function PropertyDetailScreen() {
     return `${price.toLocaleString('sv-SE')} ${currency || 'kr'}`;
   };
 
+  const lastEnriched = property.propertyData?.lastEnriched
+    ? `Updated ${new Date(property.propertyData.lastEnriched).toLocaleDateString()}`
+    : 'Never refreshed';
+
+  // Fetch the listing again and show what changed before writing anything
+  const handleRefresh = async () => {
+    setRefreshMessage(null);
+    try {
+      const refresh = await previewRefreshAsync(property);
+      if (refresh.changes.length === 0) {
+        // Nothing to review — just record that the listing was checked
+        applyRefresh({ property, refresh, acceptedFields: [] });
+        setRefreshMessage('Listing is up to date.');
+      } else {
+        setAcceptedFields(refresh.changes.map((change) => change.field));
+        setPendingRefresh(refresh);
+      }
+    } catch (err: any) {
+      setRefreshMessage(err.message || 'Failed to refresh listing');
+    }
+  };
+
+  const handleApplyRefresh = () => {
+    if (!pendingRefresh) return;
+    applyRefresh(
+      { property, refresh: pendingRefresh, acceptedFields },
+      {
+        onSuccess: () => {
+          setPendingRefresh(null);
+          setRefreshMessage('Listing updated.');
+        },
+      }
+    );
+  };
+
+  const toggleAcceptedField = (field: string) =>
+    setAcceptedFields((fields) =>
+      fields.includes(field) ? fields.filter((f) => f !== field) : [...fields, field]
+    );
+
   if (Platform.OS === 'web') {
     return (
       <div className="h-screen bg-gray-100 overflow-y-auto">
@@ -69,6 +120,11 @@ export default function PropertyDetailScreen() {
             <h1 className="text-3xl font-bold text-gray-900">
               {property.title || 'Property Details'}
             </h1>
+            {property.propertyData?.enrichmentStatus && (
+              <div className="mt-2 flex">
+                <PropertyEnrichmentBadge status={property.propertyData.enrichmentStatus} size="small" />
+              </div>
+            )}
           </div>
         </div>
 
@@ -139,19 +195,117 @@ export default function PropertyDetailScreen() {
                       </Text>
                     </div>
                   )}
+
+                  {!!property.propertyData.monthlyFee && (
+                    <div>
+                      <Text className="text-sm text-gray-500">Monthly Fee</Text>
+                      <Text className="text-base text-gray-900">
+                        {formatPrice(property.propertyData.monthlyFee, property.propertyData.currency)}/mo
+                      </Text>
+                    </div>
+                  )}
+
+                  {!!property.propertyData.operatingCost && (
+                    <div>
+                      <Text className="text-sm text-gray-500">Operating Cost</Text>
+                      <Text className="text-base text-gray-900">
+                        {formatPrice(property.propertyData.operatingCost, property.propertyData.currency)}
+                      </Text>
+                    </div>
+                  )}
+
+                  {property.propertyData.floor != null && (
+                    <div>
+                      <Text className="text-sm text-gray-500">Floor</Text>
+                      <Text className="text-base text-gray-900">
+                        {property.propertyData.floor}
+                        {property.propertyData.elevator === true && ' (elevator)'}
+                      </Text>
+                    </div>
+                  )}
+
+                  {property.propertyData.buildYear && (
+                    <div>
+                      <Text className="text-sm text-gray-500">Built</Text>
+                      <Text className="text-base text-gray-900">
+                        {property.propertyData.buildYear}
+                      </Text>
+                    </div>
+                  )}
                 </div>
               )}
 
-              {/* View Listing Button */}
-              <button
-                onClick={() => Linking.openURL(property.url)}
-                className="bg-blue-600 hover:bg-blue-700 text-white font-semibold px-6 py-3 rounded-lg transition-colors"
-              >
-                View Original Listing
-              </button>
+              {/* View Listing / Refresh Buttons */}
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  onClick={() => Linking.openURL(property.url)}
+                  className="bg-blue-600 hover:bg-blue-700 text-white font-semibold px-6 py-3 rounded-lg transition-colors"
+                >
+                  View Original Listing
+                </button>
+                <button
+                  onClick={handleRefresh}
+                  disabled={isFetchingRefresh || isApplyingRefresh}
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-800 font-semibold px-6 py-3 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {isFetchingRefresh ? 'Refreshing...' : 'Refresh Listing'}
+                </button>
+                <span className="text-xs text-gray-500">{lastEnriched}</span>
+              </div>
+              {refreshMessage && (
+                <p className="text-sm text-gray-600 mt-3">{refreshMessage}</p>
+              )}
             </div>
           </div>
 
+          {/* Refresh Review */}
+          {pendingRefresh && (
+            <div className="bg-white rounded-xl shadow-md p-6 mb-6 border-2 border-blue-200">
+              <h2 className="text-xl font-bold text-gray-900 mb-1">Review Changes</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                The listing has changed since it was saved. Untick anything you want to keep as it is.
+              </p>
+              <ListingChanges
+                changes={pendingRefresh.changes}
+                acceptedFields={acceptedFields}
+                onToggleField={toggleAcceptedField}
+              />
+              <div className="flex gap-3 mt-5">
+                <button
+                  onClick={handleApplyRefresh}
+                  disabled={isApplyingRefresh}
+                  className="bg-blue-600 hover:bg-blue-700 text-white font-semibold px-5 py-2 rounded-lg disabled:opacity-50"
+                >
+                  {isApplyingRefresh ? 'Saving...' : 'Apply Changes'}
+                </button>
+                <button
+                  onClick={() => setPendingRefresh(null)}
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold px-5 py-2 rounded-lg"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Sources Section */}
+          <div className="bg-white rounded-xl shadow-md p-6 mb-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Listed On</h2>
+            <PropertySources property={property} />
+          </div>
+
+          {/* Price History Section */}
+          <div className="bg-white rounded-xl shadow-md p-6 mb-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Price History</h2>
+            <PriceHistoryChart propertyId={id} currency={property.propertyData?.currency} />
+          </div>
+
+          {/* Nearby Amenities Section */}
+          <div className="bg-white rounded-xl shadow-md p-6 mb-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Nearby</h2>
+            <NearbyAmenities property={property} />
+          </div>
+
           {/* Reactions & Comments Section */}
           <div className="bg-white rounded-xl shadow-md p-6 mb-6">
             <PropertyReactions propertyId={id} />
@@ -198,6 +352,8 @@ export default function PropertyDetailScreen() {
                     mortgage={property.financialData?.mortgage}
                     totalCost={property.financialData?.totalCost}
                     affordability={property.financialData?.affordability}
+                    interestDeduction={property.financialData?.interestDeduction}
+                    rateScenario={property.financialData?.rateScenario}
                   />
                 </div>
               </>
@@ -220,6 +376,11 @@ export default function PropertyDetailScreen() {
           <Text className="text-2xl font-bold text-gray-900">
             {property.title || 'Property Details'}
           </Text>
+          {property.propertyData?.enrichmentStatus && (
+            <View className="mt-2 flex-row">
+              <PropertyEnrichmentBadge status={property.propertyData.enrichmentStatus} size="small" />
+            </View>
+          )}
         </View>
 
         {/* Content */}
@@ -280,10 +441,29 @@ export default function PropertyDetailScreen() {
                       </Text>
                     </View>
                   )}
+
+                  {!!property.propertyData.monthlyFee && (
+                    <View>
+                      <Text className="text-sm text-gray-500">Monthly Fee</Text>
+                      <Text className="text-base text-gray-900">
+                        {formatPrice(property.propertyData.monthlyFee, property.propertyData.currency)}/mo
+                      </Text>
+                    </View>
+                  )}
+
+                  {property.propertyData.floor != null && (
+                    <View>
+                      <Text className="text-sm text-gray-500">Floor</Text>
+                      <Text className="text-base text-gray-900">
+                        {property.propertyData.floor}
+                        {property.propertyData.elevator === true && ' (elevator)'}
+                      </Text>
+                    </View>
+                  )}
                 </View>
               )}
 
-              {/* View Listing Button */}
+              {/* View Listing / Refresh Buttons */}
               <Pressable
                 onPress={() => Linking.openURL(property.url)}
                 className="bg-blue-600 px-6 py-3 rounded-lg"
@@ -292,7 +472,71 @@ export default function PropertyDetailScreen() {
                   View Original Listing
                 </Text>
               </Pressable>
+              <Pressable
+                onPress={handleRefresh}
+                disabled={isFetchingRefresh || isApplyingRefresh}
+                className="bg-gray-100 px-6 py-3 rounded-lg mt-2"
+                style={{ opacity: isFetchingRefresh || isApplyingRefresh ? 0.5 : 1 }}
+              >
+                <Text className="text-gray-800 font-semibold text-center">
+                  {isFetchingRefresh ? 'Refreshing...' : 'Refresh Listing'}
+                </Text>
+              </Pressable>
+              <Text className="text-xs text-gray-500 text-center mt-2">{lastEnriched}</Text>
+              {refreshMessage && (
+                <Text className="text-sm text-gray-600 text-center mt-2">{refreshMessage}</Text>
+              )}
+            </View>
+          </View>
+
+          {/* Refresh Review */}
+          {pendingRefresh && (
+            <View className="bg-white rounded-xl shadow-md p-4 mb-4 border-2 border-blue-200">
+              <Text className="text-lg font-bold text-gray-900 mb-1">Review Changes</Text>
+              <Text className="text-sm text-gray-500 mb-4">
+                The listing has changed since it was saved. Untick anything you want to keep as it is.
+              </Text>
+              <ListingChanges
+                changes={pendingRefresh.changes}
+                acceptedFields={acceptedFields}
+                onToggleField={toggleAcceptedField}
+              />
+              <View className="flex-row gap-3 mt-4">
+                <Pressable
+                  onPress={handleApplyRefresh}
+                  disabled={isApplyingRefresh}
+                  className="flex-1 bg-blue-600 py-2 rounded-lg"
+                >
+                  <Text className="text-white font-semibold text-center">
+                    {isApplyingRefresh ? 'Saving...' : 'Apply Changes'}
+                  </Text>
+                </Pressable>
+                <Pressable
+                  onPress={() => setPendingRefresh(null)}
+                  className="flex-1 bg-gray-100 py-2 rounded-lg"
+                >
+                  <Text className="text-gray-700 font-semibold text-center">Discard</Text>
+                </Pressable>
+              </View>
             </View>
+          )}
+
+          {/* Sources Section */}
+          <View className="bg-white rounded-xl shadow-md p-4 mb-4">
+            <Text className="text-lg font-bold text-gray-900 mb-3">Listed On</Text>
+            <PropertySources property={property} />
+          </View>
+
+          {/* Price History Section */}
+          <View className="bg-white rounded-xl shadow-md p-4 mb-4">
+            <Text className="text-lg font-bold text-gray-900 mb-3">Price History</Text>
+            <PriceHistoryChart propertyId={id} currency={property.propertyData?.currency} />
+          </View>
+
+          {/* Nearby Amenities Section */}
+          <View className="bg-white rounded-xl shadow-md p-4 mb-4">
+            <Text className="text-lg font-bold text-gray-900 mb-3">Nearby</Text>
+            <NearbyAmenities property={property} />
           </View>
 
           {/* Reactions & Comments Section */}
@@ -341,6 +585,8 @@ export default function PropertyDetailScreen() {
                     mortgage={property.financialData?.mortgage}
                     totalCost={property.financialData?.totalCost}
                     affordability={property.financialData?.affordability}
+                    interestDeduction={property.financialData?.interestDeduction}
+                    rateScenario={property.financialData?.rateScenario}
                   />
                 </View>
               </>
@@ -0,0 +1,22 @@
+import { test, expect } from '@playwright/test';
+import { mockCrawlerRoutes } from '../../../../../__tests__/setup/mocks/crawlerRoutes';
+
+const LISTING_URL =
+  'https://www.hemnet.se/bostad/lagenhet-3rum-limhamn-malmo-kommun-skansbogatan-2a-21234567';
+
+test.describe('Add property', () => {
+  test.beforeEach(async ({ page }) => {
+    await mockCrawlerRoutes(page);
+  });
+
+  test('pasting a listing link adds a card from the recorded page', async ({ page }) => {
+    await page.goto('/home/properties');
+
+    await page.getByPlaceholder('https://www.hemnet.se/bostad/...').fill(LISTING_URL);
+    await page.keyboard.press('Enter');
+
+    // Title is cleaned by the site registry, price comes from the page's JSON-LD
+    await expect(page.getByText('Skansbogatan 2A, Limhamn, Malmö - 3 rum, 74 m²')).toBeVisible();
+    await expect(page.getByText(/3\s295\s000/)).toBeVisible();
+  });
+});
@@ -8,6 +8,9 @@
  * Endpoint: /go/crawler-og - Fetches OG metadata from property listing URLs
  */
 
+import { normalizeListingTitle, cleanText } from '@/lib/enrichment/titleNormalizer';
+import { extractSiteData } from '@/lib/enrichment/sites';
+
 const CRAWLER_BASE_URL = process.env.EXPO_PUBLIC_CRAWLER_API_URL || '';
 
 /**
@@ -88,27 +91,30 @@ export async function fetchOGData(url: string): Promise<OGData> {
     const og: RawOGMetadata = data.og || {};
 
     console.log('OG data:', data);
+    const { title, hints } = normalizeListingTitle(data.title, url);
+    // Per-site OG keys and JSON-LD (see lib/enrichment/sites)
+    const site = extractSiteData(url, data);
     
     return {
-      title: data.title,
-      description: data.description,
+      title,
+      description: cleanText(data.description),
       image: data.image,
       url: data.url,
-      address: data.address,
-      city: data.city,
-      latitude: og.latitude?.[0] ? parseFloat(og.latitude[0]) : undefined,
-      longitude: og.longitude?.[0] ? parseFloat(og.longitude[0]) : undefined,
-      postalCode: og['postal-code']?.[0],
-      country: og['country-name']?.[0],
-      officeName: og['office-name']?.[0],
-      officeRegion: og['office-region']?.[0],
-      siteName: og['site_name']?.[0],
-      price: data.price,
-      currency: data.currency,
-      area: data.area,
+      address: site.propertyData.address ?? cleanText(data.address) ?? hints.address,
+      city: site.propertyData.city ?? cleanText(data.city) ?? hints.city,
+      latitude: site.latitude,
+      longitude: site.longitude,
+      postalCode: site.propertyData.postalCode,
+      country: site.propertyData.country,
+      officeName: site.propertyData.brokerOffice,
+      officeRegion: cleanText(og['office-region']?.[0]),
+      siteName: cleanText(og['site_name']?.[0]) ?? site.site?.name,
+      price: site.propertyData.price ?? data.price,
+      currency: site.propertyData.currency ?? data.currency,
+      area: site.propertyData.area ?? data.area ?? hints.area,
       areaUnit: data.areaUnit,
-      bedrooms: data.bedrooms,
-      bathrooms: data.bathrooms,
+      bedrooms: site.propertyData.bedrooms ?? data.bedrooms,
+      bathrooms: site.propertyData.bathrooms ?? data.bathrooms,
     };
   } catch (error) {
     console.error('Failed to fetch OG data:', error);
@@ -116,52 +122,6 @@ export async function fetchOGData(url: string): Promise<OGData> {
   }
 }
 
-/**
- * Fetch geocoding data for a property listing URL
- * 
- * @param url - The property listing URL
- * @returns Geocoded location data including coordinates and formatted address
- * 
- * @example
- * const data = await fetchGeocodeData('https://www.bjurfors.se/sv/tillsalu/...');
- * console.log(data.latitude, data.longitude);
- */
-export async function fetchGeocodeData(url: string): Promise<GeocodeData | null> {
-  const GEOCODE_URL = 'https://qv7xxqjd4d.execute-api.eu-north-1.amazonaws.com/go/geocode-address';
-  
-  try {
-    const response = await fetch(GEOCODE_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ url }),
-    });
-
-    if (!response.ok) {
-      console.warn(`Geocoding failed with HTTP ${response.status}`);
-      return null;
-    }
-
-    const data = await response.json();
-    
-    console.log('Geocode data:', data);
-    
-    return {
-      latitude: data.latitude,
-      longitude: data.longitude,
-      address: data.address,
-      city: data.city,
-      postalCode: data.postalCode || data.postal_code,
-      country: data.country,
-      formattedAddress: data.formattedAddress || data.formatted_address,
-    };
-  } catch (error) {
-    console.warn('Failed to fetch geocode data:', error);
-    return null;
-  }
-}
-
 function extractFallbackData(url: string): OGData {
   try {
     const urlObj = new URL(url);
@@ -1,15 +1,28 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Platform, View, Text, Pressable, ScrollView, TextInput, Image, Linking, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
-import { useQueryClient } from '@tanstack/react-query';
 import { Loader2 } from 'lucide-react-native';
 import { PropertyLink } from '@/lib/store/propertyLinkStore';
 import { useProperties } from '@/lib/query/useProperties';
+import { useAddListing } from '@/lib/query/useAddListing';
 import { usePropertyRealtimeSubscription } from '@/lib/query/useRealtimeSubscriptions';
-import { useAuth } from '@/lib/query/useAuth';
-import { fetchPropertyMetadata, insertPropertyWithMetadata } from '@/lib/api/properties';
-import { fetchGeocodeData } from './api';
+import { usePriceChanges } from '@/lib/query/usePriceHistory';
+import { usePropertyFilters } from '@/lib/query/usePropertyFilters';
+import { useSearchAreas } from '@/lib/query/useSearchAreas';
+import { useHouseholdProfile } from '@/lib/query/useHouseholdProfile';
+import { PriceChange } from '@/lib/utils/priceHistory';
+import { hasValidCoordinates } from '@/lib/utils/coordinates';
+import { filterPropertyLinks } from '@/lib/utils/propertyFilters';
+import { findSearchAreas } from '@/lib/utils/searchAreas';
+import { evaluatePropertyLinkBudgets } from '@/lib/utils/householdBudget';
+import type { PropertyBudget } from '@/lib/types/household';
+import { SpaceSwitcher } from '@/components/spaces';
+import { PropertyFilterPanel, useFilterUrlSync } from '@/components/filters';
+import { HouseholdBudgetSummary, HouseholdProfilePanel, BUDGET_STATUS_LABELS } from '@/components/household';
+import { PropertyEnrichmentBadge } from '@/components/PropertyEnrichmentBadge';
+import { StaleListingsRefresh } from '@/components/property/StaleListingsRefresh';
+import { DuplicateListingPrompt } from '@/components/property/DuplicateListingPrompt';
 
 function extractDomain(url: string): string {
   try {
@@ -19,21 +32,53 @@ function extractDomain(url: string): string {
   }
 }
 
-function PropertyCard({ property, onRemove }: { property: PropertyLink; onRemove: () => void }) {
+function PropertyCard({
+  property,
+  priceChange,
+  budget,
+  areaNames,
+  onRemove,
+}: {
+  property: PropertyLink;
+  priceChange?: PriceChange;
+  // Within/over the household budget, missing until a household profile is saved
+  budget?: PropertyBudget;
+  // Saved search areas the property lies in
+  areaNames: string[];
+  onRemove: () => void;
+}) {
   const router = useRouter();
   const isTemp = property.id.startsWith('temp-');
   const hasMeta = !!property.title;
+  // Saved but no location could be resolved — let the user pin it by hand
+  const isUnpinned = !isTemp && !hasValidCoordinates(property);
 
   const handlePress = () => {
     if (isTemp) return;
     router.push(`/home/properties/${property.id}`);
   };
 
+  const handlePlaceOnMap = () => {
+    router.push(`/map?place=${property.id}`);
+  };
+
   const formatPrice = (price?: number, currency?: string) => {
     if (!price) return null;
     return `${price.toLocaleString('sv-SE')} ${currency || 'kr'}`;
   };
 
+  const priceDropLabel = priceChange?.direction === 'down'
+    ? `▼ Sänkt ${Math.abs(priceChange.changePercent).toLocaleString('sv-SE')} %`
+    : null;
+
+  const budgetLabel = budget && budget.status !== 'unknown' ? BUDGET_STATUS_LABELS[budget.status] : null;
+  const budgetTitle = budget?.reason === 'down-payment'
+    ? 'Sparpengarna räcker inte till 15 % kontantinsats'
+    : budget?.monthlySurplus !== undefined
+      ? `Kvar att leva på: ${Math.round(budget.monthlySurplus).toLocaleString('sv-SE')} kr/mån`
+      : undefined;
+  const isOverBudget = budget?.status === 'over';
+
   if (Platform.OS === 'web') {
     return (
       <div
@@ -94,20 +139,65 @@ function PropertyCard({ property, onRemove }: { property: PropertyLink; onRemove
               {!hasMeta && (
                 <p className="text-gray-400 text-xs mt-1 truncate">{property.url}</p>
               )}
+              {!isTemp && property.propertyData?.enrichmentStatus && (
+                <div className="mt-1.5 flex">
+                  <PropertyEnrichmentBadge status={property.propertyData.enrichmentStatus} size="small" />
+                </div>
+              )}
               {property.propertyData?.address && (
                 <p className="text-gray-500 text-xs mt-1">
                   📍 {property.propertyData.address}
                   {property.propertyData.city && `, ${property.propertyData.city}`}
                 </p>
               )}
+              {areaNames.length > 0 && (
+                <div className="mt-1.5 flex flex-wrap gap-1">
+                  {areaNames.map((name) => (
+                    <span key={name} className="bg-purple-100 text-purple-800 text-xs font-medium px-2 py-0.5 rounded-full">
+                      {name}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {isUnpinned && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handlePlaceOnMap();
+                  }}
+                  className="text-blue-600 hover:text-blue-800 text-xs font-medium mt-1"
+                >
+                  Placera på kartan
+                </button>
+              )}
             </div>
 
             <div className="flex items-center justify-between mt-2">
-              {property.propertyData?.price && (
-                <span className="bg-blue-100 text-blue-800 text-sm font-semibold px-3 py-1 rounded-full">
-                  {formatPrice(property.propertyData.price, property.propertyData.currency)}
-                </span>
-              )}
+              <div className="flex items-center gap-2">
+                {property.propertyData?.price && (
+                  <span className="bg-blue-100 text-blue-800 text-sm font-semibold px-3 py-1 rounded-full">
+                    {formatPrice(property.propertyData.price, property.propertyData.currency)}
+                  </span>
+                )}
+                {priceDropLabel && (
+                  <span
+                    className="bg-green-100 text-green-800 text-xs font-semibold px-2 py-1 rounded-full"
+                    title={`Tidigare ${formatPrice(priceChange?.previousPrice, property.propertyData?.currency)}`}
+                  >
+                    {priceDropLabel}
+                  </span>
+                )}
+                {budgetLabel && (
+                  <span
+                    className={`text-xs font-semibold px-2 py-1 rounded-full ${
+                      isOverBudget ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                    }`}
+                    title={budgetTitle}
+                  >
+                    {budgetLabel}
+                  </span>
+                )}
+              </div>
               <div className="flex items-center gap-3 text-xs text-gray-500">
                 {property.propertyData?.area && (
                   <span>{property.propertyData.area} {property.propertyData.areaUnit || 'm²'}</span>
@@ -192,9 +282,28 @@ function PropertyCard({ property, onRemove }: { property: PropertyLink; onRemove
                 {property.url}
               </Text>
             ) : null}
+            {!isTemp && property.propertyData?.enrichmentStatus && (
+              <View className="mt-1.5 flex-row">
+                <PropertyEnrichmentBadge status={property.propertyData.enrichmentStatus} size="small" />
+              </View>
+            )}
+            {areaNames.length > 0 && (
+              <View className="mt-1.5 flex-row flex-wrap gap-1">
+                {areaNames.map((name) => (
+                  <View key={name} className="bg-purple-100 px-2 py-0.5 rounded-full">
+                    <Text className="text-purple-800 text-xs font-medium">{name}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+            {isUnpinned && (
+              <Pressable onPress={handlePlaceOnMap} className="mt-1 self-start">
+                <Text className="text-blue-600 text-xs font-medium">Placera på kartan</Text>
+              </Pressable>
+            )}
           </View>
 
-          <View className="flex-row items-center justify-between mt-2">
+          <View className="flex-row items-center gap-2 mt-2">
             {property.propertyData?.price && (
               <View className="bg-blue-100 px-2 py-1 rounded-full">
                 <Text className="text-blue-800 text-xs font-semibold">
@@ -202,6 +311,18 @@ function PropertyCard({ property, onRemove }: { property: PropertyLink; onRemove
                 </Text>
               </View>
             )}
+            {priceDropLabel && (
+              <View className="bg-green-100 px-2 py-1 rounded-full">
+                <Text className="text-green-800 text-xs font-semibold">{priceDropLabel}</Text>
+              </View>
+            )}
+            {budgetLabel && (
+              <View className={`px-2 py-1 rounded-full ${isOverBudget ? 'bg-red-100' : 'bg-green-100'}`}>
+                <Text className={`text-xs font-semibold ${isOverBudget ? 'text-red-800' : 'text-green-800'}`}>
+                  {budgetLabel}
+                </Text>
+              </View>
+            )}
           </View>
         </View>
 
@@ -248,92 +369,56 @@ function LoadingCard() {
 
 export default function PropertiesScreen() {
   const router = useRouter();
-  const queryClient = useQueryClient();
   const [url, setUrl] = useState('');
-  const [error, setError] = useState<string | null>(null);
-  const { user } = useAuth();
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const [isHouseholdOpen, setIsHouseholdOpen] = useState(false);
+  const { properties, isLoading: isLoadingProperties, deleteProperty } = useProperties();
   const {
-    properties,
-    isLoading: isLoadingProperties,
-    deleteProperty,
-  } = useProperties();
+    addListing,
+    error,
+    notice,
+    duplicate,
+    mergeDuplicate,
+    isMergingDuplicate,
+    addDuplicateAnyway,
+    dismissDuplicate,
+  } = useAddListing();
+  const { priceChanges } = usePriceChanges(properties.map((p) => p.id));
+  const { filters, activeFilterCount } = usePropertyFilters();
+  const { searchAreas } = useSearchAreas();
+  const { profile } = useHouseholdProfile();
+  const budgets = useMemo(() => evaluatePropertyLinkBudgets(profile, properties), [profile, properties]);
+  const visibleProperties = filterPropertyLinks(properties, filters, searchAreas);
+  const filterResultLabel = `${visibleProperties.length} av ${properties.length} visas`;
 
   usePropertyRealtimeSubscription();
+  useFilterUrlSync();
 
-  const handleAddProperty = async () => {
+  const handleAddProperty = () => {
     if (!url.trim()) return;
-    setError(null);
-
     const trimmedUrl = url.trim();
     setUrl('');
-
-    const tempId = `temp-${Date.now()}`;
-    const sharedBy = user?.email || 'anon';
-
-    // 1. Show card immediately in the list
-    queryClient.setQueryData<PropertyLink[]>(['properties'], (old) => [
-      {
-        id: tempId,
-        url: trimmedUrl,
-        title: undefined,
-        sharedBy,
-        sharedAt: new Date().toISOString(),
-      },
-      ...(old || []),
-    ]);
-
-    // 2. Start geocode in parallel
-    const geocodePromise = fetchGeocodeData(trimmedUrl).catch(() => null);
-
-    try {
-      // 3. Fetch OG metadata — card populates when this resolves
-      const metadata = await fetchPropertyMetadata(trimmedUrl);
-
-      // 4. Update card with OG data
-      queryClient.setQueryData<PropertyLink[]>(['properties'], (old) =>
-        (old || []).map((p) =>
-          p.id === tempId
-            ? {
-                ...p,
-                title: metadata.title,
-                description: metadata.description,
-                image: metadata.image,
-                images: metadata.images,
-                propertyData: metadata.propertyData,
-              }
-            : p
-        )
-      );
-
-      // 5. Wait for geocode
-      const geocodeData = await geocodePromise;
-
-      // 6. Save to DB with pre-fetched metadata
-      const saved = await insertPropertyWithMetadata({
-        url: trimmedUrl,
-        sharedBy,
-        latitude: geocodeData?.latitude,
-        longitude: geocodeData?.longitude,
-        title: metadata.title,
-        description: metadata.description,
-        image: metadata.image,
-        images: metadata.images,
-        propertyData: metadata.propertyData,
-      });
-
-      // 7. Replace temp entry with real DB entry
-      queryClient.setQueryData<PropertyLink[]>(['properties'], (old) =>
-        (old || []).map((p) => (p.id === tempId ? saved : p))
-      );
-    } catch (err: any) {
-      console.error('Error adding property:', err);
-      queryClient.setQueryData<PropertyLink[]>(['properties'], (old) =>
-        (old || []).filter((p) => p.id !== tempId)
-      );
-      setError(err.message || 'Failed to add property');
-    }
+    addListing(trimmedUrl);
   };
 
+  const duplicatePrompt = duplicate && (
+    <DuplicateListingPrompt
+      match={duplicate.match}
+      url={duplicate.source.url}
+      isMerging={isMergingDuplicate}
+      onOpen={() => router.push(`/home/properties/${duplicate.match.property.id}`)}
+      onMerge={mergeDuplicate}
+      onAddAnyway={addDuplicateAnyway}
+      onCancel={dismissDuplicate}
+    />
+  );
+
+  const householdPanel = isHouseholdOpen && (
+    <View className="bg-white rounded-xl shadow-md p-4 mb-4">
+      <HouseholdProfilePanel onSaved={() => setIsHouseholdOpen(false)} />
+    </View>
+  );
+
   const handlePaste = async () => {
     if (Platform.OS === 'web') {
       try {
@@ -363,6 +448,9 @@ export default function PropertiesScreen() {
             <p className="text-sm text-gray-600 mt-1">
               Klistra in länkar till bostäder ni är intresserade av
             </p>
+            <div className="mt-3">
+              <SpaceSwitcher />
+            </div>
           </div>
         </div>
 
@@ -403,11 +491,43 @@ export default function PropertiesScreen() {
             {error && (
               <p className="mt-2 text-sm text-red-600">{error}</p>
             )}
+            {notice && (
+              <p className="mt-2 text-sm text-green-700">{notice}</p>
+            )}
+            {duplicatePrompt}
           </div>
 
+          {/* Bulk refresh of stale listings */}
+          <StaleListingsRefresh properties={properties} />
+
+          {/* What the household can afford */}
+          <HouseholdBudgetSummary budgets={budgets} onEdit={() => setIsHouseholdOpen(!isHouseholdOpen)} />
+          {householdPanel}
+
           {/* Loading state */}
           {isLoadingProperties && properties.length === 0 && <LoadingCard />}
 
+          {/* Filters */}
+          {properties.length > 0 && (
+            <div className="mb-4">
+              <button
+                onClick={() => setIsFilterOpen(!isFilterOpen)}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  activeFilterCount > 0
+                    ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                    : 'bg-white hover:bg-gray-50 text-gray-700 shadow-sm'
+                }`}
+              >
+                {activeFilterCount > 0 ? `Filter (${activeFilterCount})` : 'Filter'}
+              </button>
+              {isFilterOpen && (
+                <div className="bg-white rounded-xl shadow-md p-4 mt-3">
+                  <PropertyFilterPanel resultLabel={filterResultLabel} />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Property List */}
           <div className="space-y-4">
             {properties.length === 0 && !isLoadingProperties ? (
@@ -420,11 +540,18 @@ export default function PropertiesScreen() {
                   Klistra in en länk från Hemnet, Booli eller annan bostadssajt för att komma igång
                 </p>
               </div>
+            ) : visibleProperties.length === 0 ? (
+              <div className="bg-white rounded-xl shadow-md p-8 text-center">
+                <p className="text-gray-600">Inga bostäder matchar filtren</p>
+              </div>
             ) : (
-              properties.map((property) => (
+              visibleProperties.map((property) => (
                 <PropertyCard
                   key={property.id}
                   property={property}
+                  priceChange={priceChanges[property.id]}
+                  budget={budgets[property.id]}
+                  areaNames={findSearchAreas(property, searchAreas).map((area) => area.name)}
                   onRemove={() => deleteProperty(property.id)}
                 />
               ))
@@ -448,6 +575,9 @@ export default function PropertiesScreen() {
           <Text className="text-sm text-gray-600 mt-1">
             Klistra in länkar till bostäder ni är intresserade av
           </Text>
+          <View className="mt-3">
+            <SpaceSwitcher />
+          </View>
         </View>
 
         {/* Content */}
@@ -482,11 +612,41 @@ export default function PropertiesScreen() {
             {error && (
               <Text className="mt-2 text-sm text-red-600">{error}</Text>
             )}
+            {notice && (
+              <Text className="mt-2 text-sm text-green-700">{notice}</Text>
+            )}
+            {duplicatePrompt}
           </View>
 
+          {/* Bulk refresh of stale listings */}
+          <StaleListingsRefresh properties={properties} />
+
+          {/* What the household can afford */}
+          <HouseholdBudgetSummary budgets={budgets} onEdit={() => setIsHouseholdOpen(!isHouseholdOpen)} />
+          {householdPanel}
+
           {/* Loading state */}
           {isLoadingProperties && properties.length === 0 && <LoadingCard />}
 
+          {/* Filters */}
+          {properties.length > 0 && (
+            <View className="mb-4">
+              <Pressable
+                onPress={() => setIsFilterOpen(!isFilterOpen)}
+                className={`self-start px-4 py-2 rounded-lg ${activeFilterCount > 0 ? 'bg-blue-600' : 'bg-white'}`}
+              >
+                <Text className={`font-medium ${activeFilterCount > 0 ? 'text-white' : 'text-gray-700'}`}>
+                  {activeFilterCount > 0 ? `Filter (${activeFilterCount})` : 'Filter'}
+                </Text>
+              </Pressable>
+              {isFilterOpen && (
+                <View className="bg-white rounded-xl shadow-md p-4 mt-3">
+                  <PropertyFilterPanel resultLabel={filterResultLabel} />
+                </View>
+              )}
+            </View>
+          )}
+
           {/* Property List */}
           {properties.length === 0 && !isLoadingProperties ? (
             <View className="bg-white rounded-xl shadow-md p-8 items-center">
@@ -498,11 +658,18 @@ export default function PropertiesScreen() {
                 Klistra in en länk från Hemnet, Booli eller annan bostadssajt
               </Text>
             </View>
+          ) : visibleProperties.length === 0 ? (
+            <View className="bg-white rounded-xl shadow-md p-6 items-center">
+              <Text className="text-gray-600">Inga bostäder matchar filtren</Text>
+            </View>
           ) : (
-            properties.map((property) => (
+            visibleProperties.map((property) => (
               <PropertyCard
                 key={property.id}
                 property={property}
+                priceChange={priceChanges[property.id]}
+                budget={budgets[property.id]}
+                areaNames={findSearchAreas(property, searchAreas).map((area) => area.name)}
                 onRemove={() => deleteProperty(property.id)}
               />
             ))
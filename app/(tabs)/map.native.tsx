@@ -1,9 +1,36 @@
 import { View, Text, StyleSheet, ActivityIndicator, Pressable, TextInput, ScrollView } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useState, useRef, useEffect } from 'react';
-import MapView, { Marker, PROVIDER_GOOGLE } from 'react-native-maps';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import MapView, {
+  Marker,
+  Polygon,
+  Polyline,
+  PROVIDER_GOOGLE,
+  MapPressEvent,
+  MarkerDragStartEndEvent,
+  Region,
+} from 'react-native-maps';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useMapPlaces } from '../../lib/query/useMapPlaces';
-import type { PropertyData, Place } from './mapStore';
+import { useProperties } from '../../lib/query/useProperties';
+import { useAddListing } from '../../lib/query/useAddListing';
+import { usePriceChanges } from '../../lib/query/usePriceHistory';
+import { usePropertyFilters } from '../../lib/query/usePropertyFilters';
+import { useSearchAreas } from '../../lib/query/useSearchAreas';
+import { useSavedPlaces } from '../../lib/query/useSavedPlaces';
+import { useHouseholdProfile } from '../../lib/query/useHouseholdProfile';
+import type { AreaPoint } from '../../lib/types/searchArea';
+import { hasValidCoordinates, userPin } from '../../lib/utils/coordinates';
+import { LatLng, reachableAreaPolygon } from '../../lib/utils/commute';
+import { filterPropertyLinks } from '../../lib/utils/propertyFilters';
+import { evaluatePropertyLinkBudgets } from '../../lib/utils/householdBudget';
+import { clusterPoints, formatPriceRange, getClusterRegion } from '../../lib/utils/clustering';
+import { useIdentity } from '../../lib/query/useIdentity';
+import { SpaceSwitcher } from '../../components/spaces';
+import { PropertyFilterPanel } from '../../components/filters';
+import { SavedPlacesPanel, ReachableOverlay, placeKindIcon } from '../../components/places';
+import { DuplicateListingPrompt } from '../../components/property/DuplicateListingPrompt';
+import type { Place } from './mapStore';
 import { fitMapToMarkersNative } from './utils/fitMapToMarkersNative';
 
 // Malmö city center coordinates
@@ -14,101 +41,156 @@ const MALMO_CENTER = {
   longitudeDelta: 0.05,
 };
 
-// Dammfri area in Malmö (near Pildammsparken)
-const PROPERTY_LOCATION = {
-  latitude: 55.5925,
-  longitude: 13.0015,
-};
-
-const MOCK_PROPERTY_DATA: PropertyData = {
-  address: {
-    street: "Roskildevägen 9B",
-    area: "Dammfri",
-    city: "Malmö"
-  },
-  property_type: "Lägenhet",
-  rooms: {
-    total: 4,
-    bedrooms: 3
-  },
-  area: {
-    living_space: 106.5,
-    unit: "m²"
-  },
-  status: "Snart till salu",
-  floor: {
-    current: 2,
-    total: 6
-  },
-  built_year: 1964,
-  energy_class: "D",
-  monthly_fee: {
-    amount: 6992,
-    currency: "kr"
-  },
-  highlights: [
-    "Stilfullt renovera fyra med stor gårdsvänd balkong",
-    "Stor balkong i sydväst",
-    "Smakfullt renoverat",
-    "Genomgående planlösning",
-    "Smakfull interiör",
-    "Kvalitativa materialval",
-    "Vinkyl & arbetsbänk i kompositsten",
-    "Sociala sällskapsytor",
-    "Enhetlig interiör",
-    "Genomtänkt förvaring",
-    "Badrum & WC",
-    "Egen tvättutrustning",
-    "Möjlighet till parkeringsplats",
-    "Hiss i huset",
-    "Övernattningsrum i brf",
-    "Attraktiv adress",
-    "Inivid Pildammsparken",
-    "Promenad till Triangeln",
-    "Matbutiker & service",
-    "Brett restaurangutbud",
-    "Goda kommunikationer"
-  ]
-};
-
 export default function MapScreen() {
   const mapRef = useRef<MapView>(null);
-  const { places, isLoading, error, addPlace } = useMapPlaces();
+  const { places, isLoading, error } = useMapPlaces();
+  const { properties, isLoading: isPropertyLoading, updateProperty } = useProperties();
+  const router = useRouter();
+  // ?place=<id> comes from "Placera på kartan" on the property list
+  const { place: placeParam } = useLocalSearchParams<{ place?: string }>();
+  const [placingId, setPlacingId] = useState<string | null>(null);
+  // Edit mode makes the pins of your own properties draggable
+  const [isEditingPins, setIsEditingPins] = useState(false);
+  const { sharedBy, isOwnProperty } = useIdentity();
   const [isPanelOpen, setIsPanelOpen] = useState(false);
   const [url, setUrl] = useState('');
-  const [isLoadingProperty, setIsLoadingProperty] = useState(false);
+  const {
+    addListing,
+    isAdding: isLoadingProperty,
+    error: addError,
+    notice: addNotice,
+    duplicate,
+    mergeDuplicate,
+    isMergingDuplicate,
+    addDuplicateAnyway,
+    dismissDuplicate,
+  } = useAddListing();
   const [selectedProperty, setSelectedProperty] = useState<Place | null>(null);
+  const [region, setRegion] = useState<Region>(MALMO_CENTER);
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  // Corners of the search area being drawn; null when not drawing
+  const [draftArea, setDraftArea] = useState<AreaPoint[] | null>(null);
+  const [draftAreaName, setDraftAreaName] = useState('');
+  const [isPlacesOpen, setIsPlacesOpen] = useState(false);
+  // Picking a point for a new saved place; the point stays null until tapped
+  const [isPickingPlace, setIsPickingPlace] = useState(false);
+  const [draftPlace, setDraftPlace] = useState<LatLng | null>(null);
+  const [reachable, setReachable] = useState<ReachableOverlay | null>(null);
+  const { filters, setFilters, activeFilterCount } = usePropertyFilters();
+  const { searchAreas, createSearchAreaAsync, isCreatingSearchArea } = useSearchAreas();
+  const { savedPlaces } = useSavedPlaces();
+  const { profile: householdProfile } = useHouseholdProfile();
   const insets = useSafeAreaInsets();
 
+  // Property links from the active space (blue pins)
+  const validPropertyLinks = useMemo(
+    () =>
+      filterPropertyLinks(properties, filters, searchAreas).filter(hasValidCoordinates) as (typeof properties[0] & {
+        latitude: number;
+        longitude: number;
+      })[],
+    [properties, filters, searchAreas]
+  );
+  const { priceChanges } = usePriceChanges(properties.map((property) => property.id));
+  const budgets = useMemo(
+    () => evaluatePropertyLinkBudgets(householdProfile, properties),
+    [householdProfile, properties]
+  );
+
+  // Nearby pins are grouped until zoomed in; editing needs every pin on its own
+  const linkClusters = useMemo(
+    () =>
+      clusterPoints(
+        validPropertyLinks.map((link) => ({
+          latitude: link.latitude,
+          longitude: link.longitude,
+          price: link.propertyData?.price,
+          link,
+        })),
+        isEditingPins ? { longitudeDelta: 0 } : region
+      ),
+    [validPropertyLinks, region, isEditingPins]
+  );
+
   useEffect(() => {
-    if (isLoading || places.length === 0) return;
-    fitMapToMarkersNative(mapRef, places);
-  }, [isLoading, places]);
+    if (isLoading || isPropertyLoading) return;
+    const allMarkers = [...places, ...validPropertyLinks];
+    if (allMarkers.length === 0) return;
+    fitMapToMarkersNative(mapRef, allMarkers);
+  }, [isLoading, isPropertyLoading, places, validPropertyLinks]);
 
   const handleSubmit = () => {
     if (!url.trim()) return;
 
-    setIsLoadingProperty(true);
+    // Same pipeline and duplicate checks as the property list; the pin appears once saved
     setSelectedProperty(null);
+    addListing(url);
+    setUrl('');
+  };
 
-    // Simulate loading for 3 seconds
-    setTimeout(() => {
-      const newProperty: Place = {
-        id: `property_${Date.now()}`,
-        title: MOCK_PROPERTY_DATA.address.street,
-        description: `${MOCK_PROPERTY_DATA.property_type} - ${MOCK_PROPERTY_DATA.rooms.total} rum, ${MOCK_PROPERTY_DATA.area.living_space} ${MOCK_PROPERTY_DATA.area.unit}`,
-        latitude: PROPERTY_LOCATION.latitude,
-        longitude: PROPERTY_LOCATION.longitude,
-        propertyData: MOCK_PROPERTY_DATA,
-        url: url,
-        created_at: new Date().toISOString(),
-      };
-      
-      addPlace(newProperty);
-      setSelectedProperty(newProperty);
-      setIsLoadingProperty(false);
-      setUrl('');
-    }, 3000);
+  useEffect(() => {
+    if (!placeParam) return;
+    setPlacingId(placeParam);
+    setIsEditingPins(false);
+    setDraftArea(null);
+    setIsPickingPlace(false);
+    setDraftPlace(null);
+  }, [placeParam]);
+
+  const placingLink = placingId ? properties.find((property) => property.id === placingId) : undefined;
+
+  const stopPlacing = () => {
+    setPlacingId(null);
+    if (placeParam) router.setParams({ place: undefined });
+  };
+
+  const stopPickingPlace = () => {
+    setIsPickingPlace(false);
+    setDraftPlace(null);
+  };
+
+  const togglePlaces = () => {
+    if (isPlacesOpen) stopPickingPlace();
+    setIsPlacesOpen(!isPlacesOpen);
+    setIsFilterOpen(false);
+  };
+
+  const stopDrawingArea = () => {
+    setDraftArea(null);
+    setDraftAreaName('');
+  };
+
+  const handleSaveArea = async () => {
+    if (!draftArea || draftArea.length < 3 || !draftAreaName.trim()) return;
+
+    try {
+      const area = await createSearchAreaAsync({ name: draftAreaName, polygon: draftArea, createdBy: sharedBy });
+      // Show what's inside the new area right away
+      setFilters({ ...filters, searchAreaIds: [...(filters.searchAreaIds || []), area.id] });
+      stopDrawingArea();
+    } catch (error) {
+      console.error('Error saving search area:', error);
+    }
+  };
+
+  // In place mode a tap on the map pins the property there; while drawing it adds a corner
+  const handleMapPress = (e: MapPressEvent) => {
+    const { latitude, longitude } = e.nativeEvent.coordinate;
+    if (placingLink) {
+      updateProperty({ id: placingLink.id, updates: userPin(latitude, longitude) });
+      stopPlacing();
+    } else if (draftArea) {
+      setDraftArea([...draftArea, [longitude, latitude]]);
+    } else if (isPickingPlace) {
+      setDraftPlace({ latitude, longitude });
+    }
+  };
+
+  const toLatLng = ([longitude, latitude]: AreaPoint) => ({ latitude, longitude });
+
+  const handlePinDragEnd = (id: string, e: MarkerDragStartEndEvent) => {
+    const { latitude, longitude } = e.nativeEvent.coordinate;
+    updateProperty({ id, updates: userPin(latitude, longitude) });
   };
 
   const handleMarkerPress = (place: Place) => {
@@ -141,7 +223,62 @@ export default function MapScreen() {
             mapType="satellite"
             showsUserLocation={false}
             showsMyLocationButton={false}
+            onPress={handleMapPress}
+            onRegionChangeComplete={setRegion}
           >
+            {/* Saved search areas (purple) */}
+            {searchAreas.map((area) => {
+              const isSelected = !!filters.searchAreaIds?.includes(area.id);
+              return (
+                <Polygon
+                  key={`area-${area.id}`}
+                  coordinates={area.polygon.map(toLatLng)}
+                  strokeColor="#7c3aed"
+                  strokeWidth={isSelected ? 3 : 1.5}
+                  fillColor={isSelected ? 'rgba(124, 58, 237, 0.18)' : 'rgba(124, 58, 237, 0.08)'}
+                />
+              );
+            })}
+
+            {draftArea && draftArea.length > 1 && (
+              <Polyline
+                coordinates={(draftArea.length > 2 ? [...draftArea, draftArea[0]] : draftArea).map(toLatLng)}
+                strokeColor="#7c3aed"
+                strokeWidth={2}
+                lineDashPattern={[6, 4]}
+              />
+            )}
+
+            {/* Area reachable from each saved place (teal) */}
+            {reachable &&
+              savedPlaces.map((place) => {
+                const polygon = reachableAreaPolygon(place, reachable.minutes, reachable.mode);
+                return polygon.length > 0 ? (
+                  <Polygon
+                    key={`reachable-${place.id}`}
+                    coordinates={polygon.map(toLatLng)}
+                    strokeColor="#0d9488"
+                    strokeWidth={1.5}
+                    fillColor="rgba(13, 148, 136, 0.12)"
+                  />
+                ) : null;
+              })}
+
+            {savedPlaces.map((place) => (
+              <Marker
+                key={`saved-place-${place.id}`}
+                coordinate={{ latitude: place.latitude, longitude: place.longitude }}
+                title={place.name}
+                tracksViewChanges={false}
+              >
+                <View style={styles.savedPlace}>
+                  <Text style={styles.savedPlaceIcon}>{placeKindIcon(place.kind)}</Text>
+                </View>
+              </Marker>
+            ))}
+
+            {draftPlace && <Marker coordinate={draftPlace} pinColor="#0d9488" />}
+
             {places.map((place) => (
               <Marker
                 key={place.id}
@@ -155,6 +292,52 @@ export default function MapScreen() {
                 onPress={() => handleMarkerPress(place)}
               />
             ))}
+
+            {linkClusters.map((cluster) => {
+              if (cluster.points.length > 1) {
+                const priceRange = formatPriceRange(cluster.minPrice, cluster.maxPrice);
+                return (
+                  <Marker
+                    key={cluster.id}
+                    coordinate={{ latitude: cluster.latitude, longitude: cluster.longitude }}
+                    onPress={() => mapRef.current?.animateToRegion(getClusterRegion(cluster), 500)}
+                    tracksViewChanges={false}
+                  >
+                    <View style={styles.cluster}>
+                      <Text style={styles.clusterCount}>{cluster.points.length}</Text>
+                      {priceRange && <Text style={styles.clusterPrice}>{priceRange}</Text>}
+                    </View>
+                  </Marker>
+                );
+              }
+
+              const { link } = cluster.points[0];
+              const priceDropped = priceChanges[link.id]?.direction === 'down';
+              const isDraggable = isEditingPins && isOwnProperty(link);
+              const budgetStatus = budgets[link.id]?.status;
+              const budgetNote = budgetStatus === 'within' ? 'Within budget · ' : budgetStatus === 'over' ? 'Over budget · ' : '';
+              return (
+                <Marker
+                  key={`property-${link.id}`}
+                  coordinate={{
+                    latitude: link.latitude,
+                    longitude: link.longitude,
+                  }}
+                  title={link.propertyData?.address || link.title || link.url}
+                  description={
+                    priceDropped
+                      ? `${budgetNote}▼ Price dropped ${Math.abs(priceChanges[link.id].changePercent)}% · ${link.url}`
+                      : `${budgetNote}${link.url}`
+                  }
+                  // Orange while draggable, red over the household budget, green for listings whose asking price was lowered
+                  pinColor={
+                    isDraggable ? '#f97316' : budgetStatus === 'over' ? '#dc2626' : priceDropped ? '#15803d' : '#3b82f6'
+                  }
+                  draggable={isDraggable}
+                  onDragEnd={(e) => handlePinDragEnd(link.id, e)}
+                />
+              );
+            })}
           </MapView>
           
         </>
@@ -169,6 +352,127 @@ export default function MapScreen() {
         </View>
       )}
 
+      {/* Space Switcher */}
+      <View style={[styles.spaceSwitcher, { top: insets.top + 20 }]}>
+        <SpaceSwitcher allowCreate={false} />
+      </View>
+
+      {/* Edit pins toggle */}
+      {validPropertyLinks.length > 0 && !placingLink && !draftArea && (
+        <Pressable
+          style={[styles.editPinsButton, isEditingPins && styles.editPinsButtonActive, { top: insets.top + 76 }]}
+          onPress={() => setIsEditingPins(!isEditingPins)}
+        >
+          <Text style={[styles.editPinsText, isEditingPins && styles.editPinsTextActive]}>
+            {isEditingPins ? '✓ Done' : '✥ Move pins'}
+          </Text>
+        </Pressable>
+      )}
+
+      {/* Draw search area toggle */}
+      {!placingLink && !isEditingPins && !draftArea && !isFilterOpen && !isPlacesOpen && (
+        <Pressable style={[styles.editPinsButton, { top: insets.top + 188 }]} onPress={() => setDraftArea([])}>
+          <Text style={[styles.editPinsText, styles.drawAreaText]}>⬡ Draw area</Text>
+        </Pressable>
+      )}
+
+      {/* Draw mode banner */}
+      {draftArea && (
+        <View style={[styles.placingBanner, { top: insets.top + 80 }]}>
+          {draftArea.length < 3 ? (
+            <Text style={styles.placingText}>Tap the map to add corners ({draftArea.length}/3)</Text>
+          ) : (
+            <>
+              <TextInput
+                style={styles.areaNameInput}
+                value={draftAreaName}
+                onChangeText={setDraftAreaName}
+                onSubmitEditing={handleSaveArea}
+                placeholder="Area name"
+                placeholderTextColor="#9ca3af"
+                maxLength={80}
+              />
+              <Pressable
+                onPress={handleSaveArea}
+                disabled={!draftAreaName.trim() || isCreatingSearchArea}
+                style={[styles.saveAreaButton, (!draftAreaName.trim() || isCreatingSearchArea) && styles.scrapeButtonDisabled]}
+              >
+                <Text style={styles.saveAreaText}>{isCreatingSearchArea ? 'Saving...' : 'Save'}</Text>
+              </Pressable>
+            </>
+          )}
+          {draftArea.length > 0 && (
+            <Pressable onPress={() => setDraftArea(draftArea.slice(0, -1))} style={styles.placingCancel}>
+              <Text style={styles.placingCancelText}>Undo</Text>
+            </Pressable>
+          )}
+          <Pressable onPress={stopDrawingArea} style={styles.placingCancel}>
+            <Text style={styles.placingCancelText}>Cancel</Text>
+          </Pressable>
+        </View>
+      )}
+
+      {/* Filter toggle */}
+      {!placingLink && (
+        <Pressable
+          style={[styles.editPinsButton, activeFilterCount > 0 && styles.filterButtonActive, { top: insets.top + 132 }]}
+          onPress={() => {
+            setIsFilterOpen(!isFilterOpen);
+            setIsPlacesOpen(false);
+            stopPickingPlace();
+          }}
+        >
+          <Text style={[styles.editPinsText, activeFilterCount > 0 && styles.editPinsTextActive]}>
+            {isFilterOpen ? '✕ Filters' : activeFilterCount > 0 ? `Filters (${activeFilterCount})` : 'Filters'}
+          </Text>
+        </Pressable>
+      )}
+
+      {isFilterOpen && !placingLink && (
+        <View style={[styles.filterPanel, { top: insets.top + 188 }]}>
+          <PropertyFilterPanel
+            resultLabel={`${validPropertyLinks.length} av ${properties.filter(hasValidCoordinates).length} på kartan`}
+          />
+        </View>
+      )}
+
+      {/* Saved places toggle */}
+      {!placingLink && !isEditingPins && !draftArea && !isFilterOpen && (
+        <Pressable
+          style={[styles.editPinsButton, isPlacesOpen && styles.placesButtonActive, { top: insets.top + 244 }]}
+          onPress={togglePlaces}
+        >
+          <Text style={[styles.editPinsText, styles.placesText, isPlacesOpen && styles.editPinsTextActive]}>
+            {isPlacesOpen ? '✕ Places' : '★ Places'}
+          </Text>
+        </Pressable>
+      )}
+
+      {isPlacesOpen && !placingLink && !isEditingPins && !draftArea && (
+        <View style={[styles.filterPanel, { top: insets.top + 300 }]}>
+          <SavedPlacesPanel
+            draftPoint={draftPlace}
+            isPicking={isPickingPlace}
+            onStartPicking={() => setIsPickingPlace(true)}
+            onStopPicking={stopPickingPlace}
+            reachable={reachable}
+            onReachableChange={setReachable}
+          />
+        </View>
+      )}
+
+      {/* Place mode banner */}
+      {placingLink && (
+        <View style={[styles.placingBanner, { top: insets.top + 80 }]}>
+          <Text style={styles.placingText} numberOfLines={2}>
+            Tap the map to place {placingLink.propertyData?.address || placingLink.title || 'the property'}
+          </Text>
+          <Pressable onPress={stopPlacing} style={styles.placingCancel}>
+            <Text style={styles.placingCancelText}>Cancel</Text>
+          </Pressable>
+        </View>
+      )}
+
       {/* Add Property Button */}
       <Pressable
         style={[styles.addButton, { top: insets.top + 20 }]}
@@ -206,16 +510,30 @@ export default function MapScreen() {
                 disabled={isLoadingProperty || !url.trim()}
               >
                 <Text style={styles.scrapeButtonText}>
-                  {isLoadingProperty ? 'Loading...' : 'Scrape'}
+                  {isLoadingProperty ? 'Loading...' : 'Add'}
                 </Text>
               </Pressable>
             </View>
 
+            {addError && <Text style={styles.addError}>{addError}</Text>}
+            {addNotice && <Text style={styles.addNotice}>{addNotice}</Text>}
+            {duplicate && (
+              <DuplicateListingPrompt
+                match={duplicate.match}
+                url={duplicate.source.url}
+                isMerging={isMergingDuplicate}
+                onOpen={() => router.push(`/home/properties/${duplicate.match.property.id}`)}
+                onMerge={mergeDuplicate}
+                onAddAnyway={addDuplicateAnyway}
+                onCancel={dismissDuplicate}
+              />
+            )}
+
             {/* Loading State */}
             {isLoadingProperty && (
               <View style={styles.loadingPropertyContainer}>
                 <ActivityIndicator size="large" color="#3b82f6" />
-                <Text style={styles.loadingPropertyText}>Scraping property data...</Text>
+                <Text style={styles.loadingPropertyText}>Fetching listing data...</Text>
               </View>
             )}
 
@@ -374,6 +692,156 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6b7280',
   },
+  spaceSwitcher: {
+    position: 'absolute',
+    top: 20,
+    left: 20,
+    maxWidth: '55%',
+    backgroundColor: '#ffffff',
+    padding: 8,
+    borderRadius: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  editPinsButton: {
+    position: 'absolute',
+    right: 20,
+    backgroundColor: '#ffffff',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  cluster: {
+    alignItems: 'center',
+    backgroundColor: '#3b82f6',
+    borderRadius: 9999,
+    borderWidth: 3,
+    borderColor: '#ffffff',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    minWidth: 36,
+  },
+  clusterCount: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  clusterPrice: {
+    color: '#ffffff',
+    fontSize: 10,
+  },
+  editPinsButtonActive: {
+    backgroundColor: '#f97316',
+  },
+  drawAreaText: {
+    color: '#6d28d9',
+  },
+  placesText: {
+    color: '#0f766e',
+  },
+  placesButtonActive: {
+    backgroundColor: '#0d9488',
+  },
+  savedPlace: {
+    backgroundColor: '#ffffff',
+    borderColor: '#0d9488',
+    borderWidth: 2,
+    borderRadius: 15,
+    width: 30,
+    height: 30,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  savedPlaceIcon: {
+    fontSize: 16,
+  },
+  areaNameInput: {
+    flex: 1,
+    color: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    fontSize: 13,
+  },
+  saveAreaButton: {
+    backgroundColor: '#7c3aed',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+  },
+  saveAreaText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  filterButtonActive: {
+    backgroundColor: '#2563eb',
+  },
+  filterPanel: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    maxHeight: '55%',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  editPinsText: {
+    color: '#1f2937',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  editPinsTextActive: {
+    color: '#ffffff',
+  },
+  placingBanner: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#1f2937',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  placingText: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  placingCancel: {
+    borderWidth: 1,
+    borderColor: '#4b5563',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  placingCancelText: {
+    color: '#d1d5db',
+    fontSize: 12,
+  },
   addButton: {
     position: 'absolute',
     top: 20,
@@ -446,6 +914,16 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  addError: {
+    marginTop: 8,
+    color: '#dc2626',
+    fontSize: 14,
+  },
+  addNotice: {
+    marginTop: 8,
+    color: '#15803d',
+    fontSize: 14,
+  },
   loadingPropertyContainer: {
     alignItems: 'center',
     paddingVertical: 40,
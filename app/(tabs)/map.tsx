@@ -1,6 +1,7 @@
 import { View, Text, StyleSheet, Pressable, TextInput, ScrollView, ActivityIndicator } from 'react-native';
 import { useState } from 'react';
 import { useAuth } from '../../lib/query/useAuth';
+import { useIdentity } from '../../lib/query/useIdentity';
 import { useProperties } from '../../lib/query/useProperties';
 
 // Fallback map component (used when platform-specific file not available)
@@ -9,6 +10,7 @@ export default function MapTab() {
   const [url, setUrl] = useState('');
 
   const { user } = useAuth();
+  const { sharedBy } = useIdentity();
   const {
     properties: propertyLinks,
     addProperty: addPropertyLink,
@@ -20,15 +22,8 @@ export default function MapTab() {
     if (!url.trim()) return;
 
     try {
-      const sharedBy = user?.email || 'anon';
-      const lat = Math.random() * 180 - 90;
-      const lng = Math.random() * 360 - 180;
-      addPropertyLink({
-        url,
-        sharedBy,
-        latitude: lat,
-        longitude: lng,
-      });
+      // Coordinates are resolved from the listing; links that can't be located stay unpinned
+      addPropertyLink({ url, sharedBy });
       setUrl('');
     } catch (error) {
       console.error('Error adding link:', error);
@@ -1,11 +1,36 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import Map, { Marker } from 'react-map-gl/maplibre';
-import type { MapRef } from 'react-map-gl/maplibre';
+import type { MapRef, MapLayerMouseEvent, MarkerDragEvent } from 'react-map-gl/maplibre';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useAuth } from '../../lib/query/useAuth';
+import { useIdentity } from '../../lib/query/useIdentity';
 import { useProperties } from '../../lib/query/useProperties';
+import { useAddListing } from '../../lib/query/useAddListing';
 import { usePropertiesTable } from '../../lib/query/usePropertiesTable';
-import { hasValidCoordinates } from '../../lib/utils/coordinates';
-import { PropertyMarker } from './_components/PropertyMarker';
+import { usePriceChanges } from '../../lib/query/usePriceHistory';
+import { usePropertyFilters } from '../../lib/query/usePropertyFilters';
+import { useSearchAreas } from '../../lib/query/useSearchAreas';
+import { useSavedPlaces } from '../../lib/query/useSavedPlaces';
+import { useAmenities } from '../../lib/query/useAmenities';
+import { useHouseholdProfile } from '../../lib/query/useHouseholdProfile';
+import type { AreaPoint } from '../../lib/types/searchArea';
+import type { LatLng } from '../../lib/utils/commute';
+import { hasValidCoordinates, isUserVerified, userPin } from '../../lib/utils/coordinates';
+import { filterPropertyLinks, filterTableProperties } from '../../lib/utils/propertyFilters';
+import { evaluatePropertyLinkBudgets, evaluateTablePropertyBudgets } from '../../lib/utils/householdBudget';
+import { SpaceSwitcher } from '../../components/spaces';
+import { PropertyFilterPanel, useFilterUrlSync } from '../../components/filters';
+import { SavedPlacesPanel, ReachableOverlay } from '../../components/places';
+import { DuplicateListingPrompt } from '../../components/property/DuplicateListingPrompt';
+import {
+  PropertyClusters,
+  PinnedPropertyLink,
+  PROPERTY_POINTS_LAYER_ID,
+  THUMBNAIL_ZOOM,
+} from './_components/PropertyClusters';
+import { SearchAreaLayers } from './_components/SearchAreaLayers';
+import { SavedPlaceLayers } from './_components/SavedPlaceLayers';
+import { AmenityLayer } from './_components/AmenityLayer';
 import { fitMapToMarkers } from './utils/fitMapToMarkers';
 import 'maplibre-gl/dist/maplibre-gl.css';
 
@@ -18,12 +43,29 @@ const INITIAL_VIEW_STATE = {
 
 export default function MapScreen() {
   const mapRef = useRef<MapRef>(null);
+  const router = useRouter();
+  // ?place=<id> comes from "Placera på kartan" on the property list
+  const { place: placeParam } = useLocalSearchParams<{ place?: string }>();
   const [isPanelOpen, setIsPanelOpen] = useState(false);
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  // Corners of the search area being drawn; null when not drawing
+  const [draftArea, setDraftArea] = useState<AreaPoint[] | null>(null);
+  const [draftAreaName, setDraftAreaName] = useState('');
+  const [isPlacesOpen, setIsPlacesOpen] = useState(false);
+  // Picking a point for a new saved place; the point stays null until clicked
+  const [isPickingPlace, setIsPickingPlace] = useState(false);
+  const [draftPlace, setDraftPlace] = useState<LatLng | null>(null);
+  const [reachable, setReachable] = useState<ReachableOverlay | null>(null);
+  const [showAmenities, setShowAmenities] = useState(false);
   const [url, setUrl] = useState('');
+  const [placingId, setPlacingId] = useState<string | null>(null);
+  // Edit mode makes the pins of your own properties draggable
+  const [isEditingPins, setIsEditingPins] = useState(false);
   const { user } = useAuth();
+  const { sharedBy, isOwnProperty } = useIdentity();
   const {
     properties: propertyLinks,
-    addPropertyAsync,
+    updateProperty,
     deleteProperty: removePropertyLink,
     isLoading: isPropertyLoading,
   } = useProperties();
@@ -31,28 +73,209 @@ export default function MapScreen() {
     properties: propertiesFromTable,
     isLoading: isPropertiesTableLoading,
   } = usePropertiesTable();
+  const {
+    addListing,
+    isAdding,
+    error: addError,
+    notice: addNotice,
+    duplicate,
+    mergeDuplicate,
+    isMergingDuplicate,
+    addDuplicateAnyway,
+    dismissDuplicate,
+  } = useAddListing();
+  const { priceChanges } = usePriceChanges(propertyLinks.map((link) => link.id));
+  const { filters, setFilters, activeFilterCount } = usePropertyFilters();
+  const { searchAreas, createSearchAreaAsync, isCreatingSearchArea } = useSearchAreas();
+  const { savedPlaces } = useSavedPlaces();
+  const { amenities } = useAmenities();
+  const { profile: householdProfile } = useHouseholdProfile();
+  // Memoized: KALP runs per property, and new objects would rebuild the clustered
+  // GeoJSON source on every render
+  const linkBudgets = useMemo(
+    () => evaluatePropertyLinkBudgets(householdProfile, propertyLinks),
+    [householdProfile, propertyLinks]
+  );
+  const tableBudgets = useMemo(
+    () => evaluateTablePropertyBudgets(householdProfile, propertiesFromTable),
+    [householdProfile, propertiesFromTable]
+  );
+  useFilterUrlSync();
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!url.trim()) return;
 
-    try {
-      const sharedBy = user?.email || 'anon';
-      const lat = Math.random() * 180 - 90;
-      const lng = Math.random() * 360 - 180;
+    // Coordinates are resolved from the listing; links that can't be located stay unpinned
+    addListing(url);
+    setUrl('');
+  };
+
+  useEffect(() => {
+    if (!placeParam) return;
+    setPlacingId(placeParam);
+    setIsEditingPins(false);
+    setDraftArea(null);
+    setIsPickingPlace(false);
+    setDraftPlace(null);
+  }, [placeParam]);
+
+  const placingLink = placingId ? propertyLinks.find((link) => link.id === placingId) : undefined;
+
+  const stopPlacing = () => {
+    setPlacingId(null);
+    if (placeParam) router.setParams({ place: undefined });
+  };
+
+  const stopPickingPlace = () => {
+    setIsPickingPlace(false);
+    setDraftPlace(null);
+  };
+
+  const stopDrawingArea = () => {
+    setDraftArea(null);
+    setDraftAreaName('');
+  };
 
-      await addPropertyAsync({ url, sharedBy, latitude: lat, longitude: lng });
-      setUrl('');
+  const handleSaveArea = async () => {
+    if (!draftArea || draftArea.length < 3 || !draftAreaName.trim()) return;
+
+    try {
+      const area = await createSearchAreaAsync({ name: draftAreaName, polygon: draftArea, createdBy: sharedBy });
+      // Show what's inside the new area right away
+      setFilters({ ...filters, searchAreaIds: [...(filters.searchAreaIds || []), area.id] });
+      stopDrawingArea();
     } catch (error) {
-      console.error('Error adding link:', error);
+      console.error('Error saving search area:', error);
     }
   };
 
+  // In place mode a click on the map pins the property there
+  const handleMapClick = (e: MapLayerMouseEvent) => {
+    if (placingLink) {
+      updateProperty({ id: placingLink.id, updates: userPin(e.lngLat.lat, e.lngLat.lng) });
+      stopPlacing();
+      return;
+    }
+
+    // While drawing a search area each click adds a corner
+    if (draftArea) {
+      setDraftArea([...draftArea, [e.lngLat.lng, e.lngLat.lat]]);
+      return;
+    }
+
+    // Picking a saved place moves the draft marker to the click
+    if (isPickingPlace) {
+      setDraftPlace({ latitude: e.lngLat.lat, longitude: e.lngLat.lng });
+      return;
+    }
+
+    // A dot for a single property zooms in far enough to show its thumbnail
+    const point = e.features?.find((feature) => feature.layer.id === PROPERTY_POINTS_LAYER_ID);
+    if (point) {
+      const [longitude, latitude] = (point.geometry as GeoJSON.Point).coordinates;
+      mapRef.current?.easeTo({ center: [longitude, latitude], zoom: THUMBNAIL_ZOOM, duration: 500 });
+    }
+  };
+
+  const handlePinDragEnd = (id: string, e: MarkerDragEvent) => {
+    updateProperty({ id, updates: userPin(e.lngLat.lat, e.lngLat.lng) });
+  };
+
   const isLoading = isPropertyLoading;
   const currentLinks = propertyLinks;
 
-  // Filter links with valid coordinates to prevent type errors
-  const validPropertyLinks = propertyLinks.filter(hasValidCoordinates) as Array<typeof propertyLinks[0] & { latitude: number; longitude: number }>;
+  // Filter links with valid coordinates to prevent type errors. Memoized like the
+  // budgets, since the links feed the clustered GeoJSON source
+  const validPropertyLinks = useMemo(
+    () => filterPropertyLinks(propertyLinks, filters, searchAreas).filter(hasValidCoordinates) as PinnedPropertyLink[],
+    [propertyLinks, filters, searchAreas]
+  );
+  const visibleTableProperties = filterTableProperties(propertiesFromTable, filters, searchAreas);
+  const clusteredLinks = useMemo(() => (isEditingPins ? [] : validPropertyLinks), [isEditingPins, validPropertyLinks]);
+
+  // Blue pin of a property link; orange while draggable
+  const renderLinkPin = (link: PinnedPropertyLink) => {
+    const isDraggable = isEditingPins && isOwnProperty(link);
+    const budgetStatus = linkBudgets[link.id]?.status;
+    return (
+      <Marker
+        key={`property-${link.id}`}
+        longitude={link.longitude}
+        latitude={link.latitude}
+        anchor="bottom"
+        draggable={isDraggable}
+        onDragEnd={(e) => handlePinDragEnd(link.id, e)}
+      >
+        <div
+          style={{
+            // Orange while draggable; verified pins get a darker border
+            backgroundColor: isDraggable ? '#f97316' : '#3b82f6',
+            borderRadius: '50% 50% 50% 0',
+            width: '30px',
+            height: '30px',
+            transform: 'rotate(-45deg)',
+            border: isUserVerified(link) ? '3px solid #1e3a8a' : '3px solid white',
+            boxShadow: '0 2px 4px rgba(0,0,0,0.3)',
+            cursor: isDraggable ? 'grab' : 'pointer',
+          }}
+          title={
+            isUserVerified(link)
+              ? `${link.title || link.url} (placed by hand)`
+              : link.title || link.url
+          }
+        >
+          {/* Price dropped indicator */}
+          {priceChanges[link.id]?.direction === 'down' && (
+            <div
+              style={{
+                position: 'absolute',
+                top: '-6px',
+                right: '-6px',
+                transform: 'rotate(45deg)',
+                backgroundColor: '#15803d',
+                color: 'white',
+                borderRadius: '9999px',
+                width: '16px',
+                height: '16px',
+                fontSize: '9px',
+                lineHeight: '16px',
+                textAlign: 'center',
+                border: '2px solid white',
+              }}
+            >
+              ▼
+            </div>
+          )}
+
+          {/* Household budget indicator */}
+          {(budgetStatus === 'within' || budgetStatus === 'over') && (
+            <div
+              style={{
+                position: 'absolute',
+                top: '-6px',
+                left: '-6px',
+                transform: 'rotate(45deg)',
+                backgroundColor: budgetStatus === 'within' ? '#15803d' : '#dc2626',
+                color: 'white',
+                borderRadius: '9999px',
+                width: '16px',
+                height: '16px',
+                fontSize: '10px',
+                fontWeight: '700',
+                lineHeight: '16px',
+                textAlign: 'center',
+                border: '2px solid white',
+              }}
+              title={budgetStatus === 'within' ? 'Within budget' : 'Over budget'}
+            >
+              {budgetStatus === 'within' ? '✓' : '!'}
+            </div>
+          )}
+        </div>
+      </Marker>
+    );
+  };
 
   // Fit map to show all markers whenever data finishes loading
   useEffect(() => {
@@ -69,35 +292,31 @@ export default function MapScreen() {
         initialViewState={INITIAL_VIEW_STATE}
         style={{ width: '100%', height: '100%' }}
         mapStyle="https://basemaps.cartocdn.com/gl/positron-gl-style/style.json"
+        cursor={placingLink || draftArea || isPickingPlace ? 'crosshair' : undefined}
+        interactiveLayerIds={[PROPERTY_POINTS_LAYER_ID]}
+        onClick={handleMapClick}
       >
-        {/* Markers for property links (blue) */}
-        {validPropertyLinks.map((link) => (
-          <Marker
-            key={`property-${link.id}`}
-            longitude={link.longitude}
-            latitude={link.latitude}
-            anchor="bottom"
-          >
-            <div
-              style={{
-                backgroundColor: '#3b82f6',
-                borderRadius: '50% 50% 50% 0',
-                width: '30px',
-                height: '30px',
-                transform: 'rotate(-45deg)',
-                border: '3px solid white',
-                boxShadow: '0 2px 4px rgba(0,0,0,0.3)',
-                cursor: 'pointer',
-              }}
-              title={link.title || link.url}
-            />
-          </Marker>
-        ))}
-
-        {/* Markers for properties from database table (green with images) */}
-        {propertiesFromTable.map((property) => (
-          <PropertyMarker key={`property-table-${property.id}`} property={property} />
-        ))}
+        {/* Saved search areas (purple), below the markers */}
+        <SearchAreaLayers areas={searchAreas} selectedIds={filters.searchAreaIds} draft={draftArea} />
+
+        {/* Imported schools, shops, transit stops and parks */}
+        {showAmenities && <AmenityLayer amenities={amenities} />}
+
+        {/* Saved places with the area reachable from them (teal) */}
+        <SavedPlaceLayers places={savedPlaces} reachable={reachable} draft={draftPlace} />
+
+        {/* Editing needs every link pin on its own, outside the clusters */}
+        {isEditingPins && validPropertyLinks.map(renderLinkPin)}
+
+        {/* Property links (blue pins) and properties from the database table, clustered together;
+            table properties become green image markers when zoomed in */}
+        <PropertyClusters
+          properties={visibleTableProperties}
+          links={clusteredLinks}
+          renderLink={renderLinkPin}
+          priceChanges={priceChanges}
+          budgets={tableBudgets}
+        />
       </Map>
 
       {/* Add Property Button */}
@@ -122,6 +341,347 @@ export default function MapScreen() {
         {isPanelOpen ? '✕ Close' : '+ Add Property'}
       </button>
 
+      {/* Edit pins toggle */}
+      {validPropertyLinks.length > 0 && !placingLink && !draftArea && (
+        <button
+          onClick={() => setIsEditingPins(!isEditingPins)}
+          style={{
+            position: 'absolute',
+            top: '76px',
+            left: '20px',
+            backgroundColor: isEditingPins ? '#f97316' : 'white',
+            color: isEditingPins ? 'white' : '#1f2937',
+            border: 'none',
+            borderRadius: '8px',
+            padding: '10px 14px',
+            fontSize: '14px',
+            fontWeight: '600',
+            cursor: 'pointer',
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+            zIndex: 1000,
+          }}
+        >
+          {isEditingPins ? '✓ Done' : '✥ Move pins'}
+        </button>
+      )}
+
+      {/* Draw search area toggle */}
+      {!placingLink && !isEditingPins && !draftArea && !isPickingPlace && (
+        <button
+          onClick={() => setDraftArea([])}
+          style={{
+            position: 'absolute',
+            top: '132px',
+            left: '20px',
+            backgroundColor: 'white',
+            color: '#6d28d9',
+            border: 'none',
+            borderRadius: '8px',
+            padding: '10px 14px',
+            fontSize: '14px',
+            fontWeight: '600',
+            cursor: 'pointer',
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+            zIndex: 1000,
+          }}
+        >
+          ⬡ Draw area
+        </button>
+      )}
+
+      {/* Saved places toggle */}
+      {!placingLink && !isEditingPins && !draftArea && (
+        <button
+          onClick={() => {
+            if (isPlacesOpen) stopPickingPlace();
+            setIsPlacesOpen(!isPlacesOpen);
+          }}
+          style={{
+            position: 'absolute',
+            top: '188px',
+            left: '20px',
+            backgroundColor: isPlacesOpen ? '#0d9488' : 'white',
+            color: isPlacesOpen ? 'white' : '#0f766e',
+            border: 'none',
+            borderRadius: '8px',
+            padding: '10px 14px',
+            fontSize: '14px',
+            fontWeight: '600',
+            cursor: 'pointer',
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+            zIndex: 1000,
+          }}
+        >
+          {isPlacesOpen ? '✕ Places' : '★ Places'}
+        </button>
+      )}
+
+      {isPlacesOpen && !placingLink && !isEditingPins && !draftArea && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '244px',
+            left: '20px',
+            width: '320px',
+            maxHeight: 'calc(100vh - 272px)',
+            overflowY: 'auto',
+            backgroundColor: 'white',
+            borderRadius: '12px',
+            padding: '16px',
+            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+            zIndex: 1000,
+          }}
+        >
+          <SavedPlacesPanel
+            draftPoint={draftPlace}
+            isPicking={isPickingPlace}
+            onStartPicking={() => setIsPickingPlace(true)}
+            onStopPicking={stopPickingPlace}
+            reachable={reachable}
+            onReachableChange={setReachable}
+          />
+        </div>
+      )}
+
+      {/* Amenities toggle, once a dataset has been imported on a property page */}
+      {amenities.length > 0 && (
+        <button
+          onClick={() => setShowAmenities(!showAmenities)}
+          style={{
+            position: 'absolute',
+            bottom: '40px',
+            left: '20px',
+            backgroundColor: showAmenities ? '#1f2937' : 'white',
+            color: showAmenities ? 'white' : '#1f2937',
+            border: 'none',
+            borderRadius: '8px',
+            padding: '10px 14px',
+            fontSize: '14px',
+            fontWeight: '600',
+            cursor: 'pointer',
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+            zIndex: 998,
+          }}
+        >
+          {showAmenities ? '✕ Amenities' : '◉ Amenities'}
+        </button>
+      )}
+
+      {/* Draw mode banner */}
+      {draftArea && (
+        <div
+          style={{
+            position: 'absolute',
+            bottom: '24px',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            backgroundColor: '#1f2937',
+            color: 'white',
+            borderRadius: '8px',
+            padding: '10px 16px',
+            fontSize: '14px',
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+            zIndex: 1000,
+          }}
+        >
+          {draftArea.length < 3 ? (
+            <span>Click the map to add corners ({draftArea.length}/3)</span>
+          ) : (
+            <>
+              <input
+                value={draftAreaName}
+                onChange={(e) => setDraftAreaName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveArea()}
+                placeholder="Name, e.g. Limhamn by the sea"
+                maxLength={80}
+                autoFocus
+                style={{
+                  padding: '6px 10px',
+                  border: '1px solid #4b5563',
+                  borderRadius: '6px',
+                  backgroundColor: '#111827',
+                  color: 'white',
+                  fontSize: '13px',
+                  outline: 'none',
+                }}
+              />
+              <button
+                onClick={handleSaveArea}
+                disabled={!draftAreaName.trim() || isCreatingSearchArea}
+                style={{
+                  backgroundColor: !draftAreaName.trim() || isCreatingSearchArea ? '#4b5563' : '#7c3aed',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '6px',
+                  padding: '6px 12px',
+                  fontSize: '13px',
+                  fontWeight: '600',
+                  cursor: !draftAreaName.trim() || isCreatingSearchArea ? 'not-allowed' : 'pointer',
+                }}
+              >
+                {isCreatingSearchArea ? 'Saving...' : 'Save area'}
+              </button>
+            </>
+          )}
+          {draftArea.length > 0 && (
+            <button
+              onClick={() => setDraftArea(draftArea.slice(0, -1))}
+              style={{
+                backgroundColor: 'transparent',
+                color: '#d1d5db',
+                border: '1px solid #4b5563',
+                borderRadius: '6px',
+                padding: '4px 10px',
+                fontSize: '12px',
+                cursor: 'pointer',
+              }}
+            >
+              Undo
+            </button>
+          )}
+          <button
+            onClick={stopDrawingArea}
+            style={{
+              backgroundColor: 'transparent',
+              color: '#d1d5db',
+              border: '1px solid #4b5563',
+              borderRadius: '6px',
+              padding: '4px 10px',
+              fontSize: '12px',
+              cursor: 'pointer',
+            }}
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {isEditingPins && !placingLink && (
+        <div
+          style={{
+            position: 'absolute',
+            bottom: '24px',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            backgroundColor: '#1f2937',
+            color: 'white',
+            borderRadius: '8px',
+            padding: '10px 16px',
+            fontSize: '14px',
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+            zIndex: 1000,
+          }}
+        >
+          Drag an orange pin to where the property really is
+        </div>
+      )}
+
+      {/* Place mode banner */}
+      {placingLink && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '76px',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '12px',
+            backgroundColor: '#1f2937',
+            color: 'white',
+            borderRadius: '8px',
+            padding: '10px 16px',
+            fontSize: '14px',
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+            zIndex: 1000,
+          }}
+        >
+          <span>
+            Click on the map to place <strong>{placingLink.propertyData?.address || placingLink.title || 'the property'}</strong>
+          </span>
+          <button
+            onClick={stopPlacing}
+            style={{
+              backgroundColor: 'transparent',
+              color: '#d1d5db',
+              border: '1px solid #4b5563',
+              borderRadius: '6px',
+              padding: '4px 10px',
+              fontSize: '12px',
+              cursor: 'pointer',
+            }}
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {/* Space Switcher */}
+      <div
+        style={{
+          position: 'absolute',
+          top: '20px',
+          right: '20px',
+          maxWidth: '60%',
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          padding: '8px',
+          boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+          zIndex: 1000,
+        }}
+      >
+        <SpaceSwitcher allowCreate={false} />
+      </div>
+
+      {/* Filter toggle */}
+      <button
+        onClick={() => setIsFilterOpen(!isFilterOpen)}
+        style={{
+          position: 'absolute',
+          top: '76px',
+          right: '20px',
+          backgroundColor: activeFilterCount > 0 ? '#2563eb' : 'white',
+          color: activeFilterCount > 0 ? 'white' : '#1f2937',
+          border: 'none',
+          borderRadius: '8px',
+          padding: '10px 14px',
+          fontSize: '14px',
+          fontWeight: '600',
+          cursor: 'pointer',
+          boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+          zIndex: 1000,
+        }}
+      >
+        {isFilterOpen ? '✕ Filters' : activeFilterCount > 0 ? `Filters (${activeFilterCount})` : 'Filters'}
+      </button>
+
+      {isFilterOpen && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '132px',
+            right: '20px',
+            width: '340px',
+            maxHeight: 'calc(100vh - 160px)',
+            overflowY: 'auto',
+            backgroundColor: 'white',
+            borderRadius: '12px',
+            padding: '16px',
+            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+            zIndex: 1000,
+          }}
+        >
+          <PropertyFilterPanel
+            resultLabel={`${validPropertyLinks.length + visibleTableProperties.length} av ${
+              propertyLinks.filter(hasValidCoordinates).length + propertiesFromTable.length
+            } på kartan`}
+          />
+        </div>
+      )}
+
       {/* Bottom Panel */}
       {isPanelOpen && (
         <div
@@ -176,9 +736,22 @@ export default function MapScreen() {
                   cursor: isLoading || !url.trim() ? 'not-allowed' : 'pointer',
                 }}
               >
-                {isLoading ? 'Loading...' : 'Add'}
+                {isLoading ? 'Loading...' : isAdding ? 'Adding...' : 'Add'}
               </button>
             </div>
+            {addError && <p style={{ margin: '8px 0 0 0', color: '#dc2626', fontSize: '14px' }}>{addError}</p>}
+            {addNotice && <p style={{ margin: '8px 0 0 0', color: '#15803d', fontSize: '14px' }}>{addNotice}</p>}
+            {duplicate && (
+              <DuplicateListingPrompt
+                match={duplicate.match}
+                url={duplicate.source.url}
+                isMerging={isMergingDuplicate}
+                onOpen={() => router.push(`/home/properties/${duplicate.match.property.id}`)}
+                onMerge={mergeDuplicate}
+                onAddAnyway={addDuplicateAnyway}
+                onCancel={dismissDuplicate}
+              />
+            )}
           </form>
 
           {/* Optional Sign-In Info */}
@@ -277,6 +850,29 @@ export default function MapScreen() {
                               <h4 style={{ margin: 0, fontSize: '14px', fontWeight: '600', color: '#1f2937' }}>
                                 {link.title || 'Property Link'}
                               </h4>
+                              {!hasValidCoordinates(link) && !link.id.startsWith('temp-') && (
+                                <button
+                                  onClick={() => {
+                                    setPlacingId(link.id);
+                                    setIsEditingPins(false);
+                                    setDraftArea(null);
+                                    setIsPanelOpen(false);
+                                  }}
+                                  style={{
+                                    backgroundColor: '#3b82f6',
+                                    color: 'white',
+                                    border: 'none',
+                                    borderRadius: '4px',
+                                    padding: '4px 8px',
+                                    fontSize: '12px',
+                                    cursor: 'pointer',
+                                    marginLeft: 'auto',
+                                    flexShrink: 0
+                                  }}
+                                >
+                                  Place on map
+                                </button>
+                              )}
                               <button
                                 onClick={() => removePropertyLink(link.id)}
                                 style={{
@@ -1,12 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { Platform, View, Text, TextInput, Pressable, ScrollView, ActivityIndicator } from 'react-native';
+import { Platform, View, Text, TextInput, Pressable, ScrollView, ActivityIndicator, Linking, Share } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { useAuth } from '../../lib/query/useAuth';
+import { useIdentity } from '../../lib/query/useIdentity';
+import { useSpaces } from '../../lib/query/useSpaces';
+import { useSpaceInvites } from '../../lib/query/useSpaceInvites';
+import { SpaceSwitcher, SpaceInviteList } from '../../components/spaces';
 
 export default function ProfileTab() {
   const [fullName, setFullName] = useState('');
   const [friendEmail, setFriendEmail] = useState('');
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [inviteError, setInviteError] = useState<string | null>(null);
   const router = useRouter();
   
   const { 
@@ -14,6 +20,9 @@ export default function ProfileTab() {
     signOut, 
     isLoading,
   } = useAuth();
+  const { displayName, setDisplayName } = useIdentity();
+  const { activeSpace } = useSpaces();
+  const { createInviteAsync, isCreatingInvite } = useSpaceInvites(activeSpace?.id);
 
   useEffect(() => {
     if (!user) {
@@ -21,9 +30,43 @@ export default function ProfileTab() {
     }
   }, [user]);
 
-  const handleUpdateProfile = async () => {
-    // TODO: Implement profile update with Supabase profiles table
-    console.log('Profile update:', { fullName });
+  const handleUpdateProfile = () => {
+    if (!fullName.trim()) return;
+    setDisplayName(fullName);
+  };
+
+  // Invite by email: create the invite and hand the link to the mail client
+  const handleInviteFriend = async () => {
+    const email = friendEmail.trim();
+    if (!email || !activeSpace) return;
+    setInviteError(null);
+    try {
+      const { link } = await createInviteAsync({ email });
+      setInviteLink(link);
+      setFriendEmail('');
+      const subject = encodeURIComponent(`Gå med i ${activeSpace.name}`);
+      const body = encodeURIComponent(`Jag har bjudit in dig till "${activeSpace.name}":\n${link}`);
+      await Linking.openURL(`mailto:${email}?subject=${subject}&body=${body}`);
+    } catch (error: any) {
+      setInviteError(error?.message || 'Kunde inte skapa inbjudan');
+    }
+  };
+
+  // Shareable link: anyone with it can join until it expires or is revoked
+  const handleShareLink = async () => {
+    if (!activeSpace) return;
+    setInviteError(null);
+    try {
+      const { link } = await createInviteAsync({});
+      setInviteLink(link);
+      if (Platform.OS === 'web') {
+        await navigator.clipboard.writeText(link);
+      } else {
+        await Share.share({ message: link });
+      }
+    } catch (error: any) {
+      setInviteError(error?.message || 'Kunde inte skapa inbjudan');
+    }
   };
 
   const handleSignOut = () => {
@@ -67,7 +110,7 @@ export default function ProfileTab() {
                   type="text"
                   value={fullName}
                   onChange={(e) => setFullName(e.target.value)}
-                  placeholder="Ange ditt namn"
+                  placeholder={displayName || 'Ange ditt namn'}
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
@@ -84,19 +127,53 @@ export default function ProfileTab() {
           {/* Friends Card */}
           <div className="bg-white rounded-xl shadow-lg p-8">
             <h2 className="text-xl font-bold text-gray-900 mb-4">Lägg till vänner</h2>
-            
-            <div className="flex gap-2">
-              <input
-                type="email"
-                value={friendEmail}
-                onChange={(e) => setFriendEmail(e.target.value)}
-                placeholder="Väns e-post"
-                className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-              />
-              <button className="bg-green-600 hover:bg-green-700 text-white font-semibold px-6 py-3 rounded-lg transition-colors">
-                Lägg till
-              </button>
+
+            <div className="mb-4">
+              <SpaceSwitcher />
             </div>
+
+            {activeSpace ? (
+              <>
+                <div className="flex gap-2">
+                  <input
+                    type="email"
+                    value={friendEmail}
+                    onChange={(e) => setFriendEmail(e.target.value)}
+                    placeholder="Väns e-post"
+                    className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                  <button
+                    onClick={handleInviteFriend}
+                    disabled={!friendEmail.trim() || isCreatingInvite}
+                    className="bg-green-600 hover:bg-green-700 disabled:bg-gray-300 text-white font-semibold px-6 py-3 rounded-lg transition-colors"
+                  >
+                    Lägg till
+                  </button>
+                </div>
+
+                <button
+                  onClick={handleShareLink}
+                  disabled={isCreatingInvite}
+                  className="mt-3 text-sm text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  Kopiera inbjudningslänk
+                </button>
+
+                {inviteLink && (
+                  <p className="mt-2 text-xs text-gray-500 break-all">{inviteLink}</p>
+                )}
+                {inviteError && (
+                  <p className="mt-2 text-sm text-red-600">{inviteError}</p>
+                )}
+
+                <h3 className="text-sm font-semibold text-gray-700 mt-6 mb-2">
+                  Inbjudningar till {activeSpace.name}
+                </h3>
+                <SpaceInviteList spaceId={activeSpace.id} />
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">Välj eller skapa en grupp att bjuda in vänner till.</p>
+            )}
           </div>
 
           {/* Sign Out */}
@@ -128,7 +205,7 @@ export default function ProfileTab() {
             <TextInput
               value={fullName}
               onChangeText={setFullName}
-              placeholder="Ange ditt namn"
+              placeholder={displayName || 'Ange ditt namn'}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg"
             />
           </View>
@@ -144,20 +221,49 @@ export default function ProfileTab() {
         {/* Friends Card */}
         <View className="bg-white p-6 rounded-xl shadow-lg mb-6">
           <Text className="text-xl font-bold text-gray-900 mb-4">Lägg till vänner</Text>
-          
-          <View className="flex-row gap-2">
-            <TextInput
-              value={friendEmail}
-              onChangeText={setFriendEmail}
-              placeholder="Väns e-post"
-              keyboardType="email-address"
-              autoCapitalize="none"
-              className="flex-1 px-4 py-3 border border-gray-300 rounded-lg"
-            />
-            <Pressable className="bg-green-600 px-4 py-3 rounded-lg">
-              <Text className="text-white font-semibold">Lägg till</Text>
-            </Pressable>
+
+          <View className="mb-4">
+            <SpaceSwitcher />
           </View>
+
+          {activeSpace ? (
+            <>
+              <View className="flex-row gap-2">
+                <TextInput
+                  value={friendEmail}
+                  onChangeText={setFriendEmail}
+                  placeholder="Väns e-post"
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  className="flex-1 px-4 py-3 border border-gray-300 rounded-lg"
+                />
+                <Pressable
+                  onPress={handleInviteFriend}
+                  disabled={!friendEmail.trim() || isCreatingInvite}
+                  className={`px-4 py-3 rounded-lg ${
+                    !friendEmail.trim() || isCreatingInvite ? 'bg-gray-300' : 'bg-green-600'
+                  }`}
+                >
+                  <Text className="text-white font-semibold">Lägg till</Text>
+                </Pressable>
+              </View>
+
+              <Pressable onPress={handleShareLink} disabled={isCreatingInvite} className="mt-3">
+                <Text className="text-sm text-blue-600 font-medium">Dela inbjudningslänk</Text>
+              </Pressable>
+
+              {inviteError && (
+                <Text className="mt-2 text-sm text-red-600">{inviteError}</Text>
+              )}
+
+              <Text className="text-sm font-semibold text-gray-700 mt-6 mb-2">
+                Inbjudningar till {activeSpace.name}
+              </Text>
+              <SpaceInviteList spaceId={activeSpace.id} />
+            </>
+          ) : (
+            <Text className="text-sm text-gray-600">Välj eller skapa en grupp att bjuda in vänner till.</Text>
+          )}
         </View>
 
         {/* Sign Out */}
@@ -38,6 +38,7 @@ export default function RootLayout() {
         <Stack.Screen name="kanban" options={{ title: 'Kanban' }} />
         <Stack.Screen name="kanban/[projectId]" options={{ title: 'Kanban Project' }} />
         <Stack.Screen name="auth" options={{ title: 'Authentication' }} />
+        <Stack.Screen name="invite/[token]" options={{ title: 'Inbjudan' }} />
         <Stack.Screen name="profile/index" options={{ title: 'Profil', headerShown: true }} />
         <Stack.Screen name="bidding" options={{ title: 'Bidding Strategy' }} />
         <Stack.Screen name="compare/index" options={{ title: 'Compare Properties' }} />
@@ -1,6 +1,14 @@
 import React from 'react';
 import { View, Text, Image, Pressable } from 'react-native';
 import { PropertyComparison } from '../../../lib/types/property';
+import { CommuteMode } from '../../../lib/types/savedPlace';
+import { formatCommuteTime, formatDistance } from '../../../lib/utils/commute';
+
+const MODE_ICONS: Record<CommuteMode, string> = {
+  walk: '🚶',
+  bike: '🚲',
+  transit: '🚆',
+};
 
 interface ComparisonCardProps {
   comparison: PropertyComparison;
@@ -95,6 +103,35 @@ export function ComparisonCard({
         </View>
       </View>
 
+      {/* Commute to saved places */}
+      {metrics.commutes && metrics.commutes.length > 0 && (
+        <View className="p-4 border-b border-gray-200">
+          <View className="flex-row items-center justify-between mb-2">
+            <Text className="text-sm font-semibold text-gray-900">Commute</Text>
+            {metrics.commuteRank === 1 && highlightBest && (
+              <Text className="text-xs font-semibold text-green-600">Shortest</Text>
+            )}
+          </View>
+          {metrics.commutes.map((commute) => (
+            <View key={commute.placeId} className="mb-2">
+              <View className="flex-row justify-between">
+                <Text className="text-xs font-semibold text-gray-700 flex-1" numberOfLines={1}>
+                  {commute.placeName}
+                </Text>
+                <Text className="text-xs text-gray-500">{formatDistance(commute.straightLineKm)}</Text>
+              </View>
+              <View className="flex-row gap-3 mt-1">
+                {commute.estimates.map((estimate) => (
+                  <Text key={estimate.mode} className="text-xs text-gray-700">
+                    {MODE_ICONS[estimate.mode]} {formatCommuteTime(estimate.minutes)}
+                  </Text>
+                ))}
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
       {/* Pros & Cons */}
       <View className="p-4">
         <Text className="text-sm font-semibold text-gray-900 mb-2">Pros</Text>
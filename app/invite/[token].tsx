@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, Pressable, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useAuth } from '../../lib/query/useAuth';
+import { useSpaceInvite } from '../../lib/query/useSpaceInvites';
+
+export default function InviteScreen() {
+  const { token } = useLocalSearchParams<{ token: string }>();
+  const router = useRouter();
+  const [displayName, setDisplayName] = useState('');
+
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const {
+    preview,
+    isExpired,
+    isLoading,
+    acceptInvite,
+    isAcceptingInvite,
+    acceptError,
+  } = useSpaceInvite(token);
+
+  const handleAccept = () => {
+    acceptInvite(
+      { displayName },
+      { onSuccess: () => router.replace('/home/properties') }
+    );
+  };
+
+  if (isLoading || isAuthLoading) {
+    return (
+      <View className="flex-1 justify-center items-center bg-gray-50">
+        <ActivityIndicator size="large" color="#3b82f6" />
+      </View>
+    );
+  }
+
+  const unavailableReason = !preview
+    ? 'Inbjudan är ogiltig.'
+    : preview.status === 'revoked'
+      ? 'Inbjudan har återkallats.'
+      : preview.status === 'accepted'
+        ? 'Inbjudan har redan använts.'
+        : isExpired
+          ? 'Inbjudan har gått ut.'
+          : null;
+
+  return (
+    <View className="flex-1 justify-center px-6 bg-gray-50">
+      <View className="bg-white p-8 rounded-lg shadow-lg">
+        {unavailableReason ? (
+          <>
+            <Text className="text-2xl font-bold text-center mb-4 text-gray-800">
+              Kan inte gå med
+            </Text>
+            <Text className="text-gray-600 text-center mb-6">
+              {unavailableReason} Be om en ny länk.
+            </Text>
+          </>
+        ) : (
+          <>
+            <Text className="text-sm text-gray-500 text-center mb-1">Du har blivit inbjuden till</Text>
+            <Text className="text-3xl font-bold text-center mb-6 text-gray-800">
+              {preview!.spaceName}
+            </Text>
+
+            {acceptError && (
+              <View className="bg-red-100 border border-red-400 px-4 py-3 rounded mb-4">
+                <Text className="text-red-700">
+                  {acceptError.message === 'Invite was sent to another email address'
+                    ? 'Inbjudan skickades till en annan e-postadress. Logga in med den adressen för att gå med.'
+                    : acceptError.message || 'Kunde inte gå med'}
+                </Text>
+              </View>
+            )}
+
+            <View className="mb-4">
+              <Text className="text-gray-700 text-sm font-medium mb-2">Ditt namn i gruppen</Text>
+              <TextInput
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                placeholder="Valfritt"
+                value={displayName}
+                onChangeText={setDisplayName}
+              />
+            </View>
+
+            <Pressable
+              onPress={handleAccept}
+              disabled={isAcceptingInvite}
+              className={`py-3 rounded-lg mb-3 ${isAcceptingInvite ? 'bg-gray-300' : 'bg-blue-600'}`}
+            >
+              <Text className="text-white text-center font-semibold">
+                {isAcceptingInvite ? 'Går med...' : user ? 'Gå med' : 'Gå med utan konto'}
+              </Text>
+            </Pressable>
+
+            {!user && (
+              <Pressable onPress={() => router.push('/auth')} className="py-2">
+                <Text className="text-blue-600 text-center">Logga in först</Text>
+              </Pressable>
+            )}
+          </>
+        )}
+
+        <Pressable onPress={() => router.replace('/home/properties')} className="py-2">
+          <Text className="text-gray-500 text-center">Till bostadslistan</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,239 @@
+import { View, Text, Pressable, TextInput, ScrollView } from 'react-native';
+import { usePropertyFilters } from '../../lib/query/usePropertyFilters';
+import { useSearchAreas } from '../../lib/query/useSearchAreas';
+import { useIdentity } from '../../lib/query/useIdentity';
+import {
+  ENERGY_CLASSES,
+  PROPERTY_TYPE_OPTIONS,
+  TENURE_TYPE_OPTIONS,
+  PropertyFilters,
+} from '../../lib/utils/propertyFilters';
+
+const ROOM_OPTIONS = [1, 2, 3, 4, 5];
+
+type NumberField = {
+  [K in keyof PropertyFilters]-?: PropertyFilters[K] extends number | undefined ? K : never;
+}[keyof PropertyFilters];
+
+interface PropertyFilterPanelProps {
+  // Shown next to the reset button, e.g. "12 av 40 visas"
+  resultLabel?: string;
+}
+
+/**
+ * Filter form for the map and the property list.
+ * Changes apply immediately and are stored, so every screen shows the same selection.
+ */
+export function PropertyFilterPanel({ resultLabel }: PropertyFilterPanelProps) {
+  const { filters, setFilters, clearFilters, activeFilterCount } = usePropertyFilters();
+  const { searchAreas, deleteSearchArea } = useSearchAreas();
+  const { isOwnProperty } = useIdentity();
+
+  const update = (changes: Partial<PropertyFilters>) => setFilters({ ...filters, ...changes });
+
+  const toggleInList = <T,>(list: T[] | undefined, value: T): T[] | undefined => {
+    const next = list?.includes(value) ? list.filter((item) => item !== value) : [...(list || []), value];
+    return next.length > 0 ? next : undefined;
+  };
+
+  const chipClass = (isActive: boolean) =>
+    `px-3 py-1.5 rounded-full border ${
+      isActive ? 'bg-blue-600 border-blue-600' : 'bg-white border-gray-300'
+    }`;
+
+  const chipTextClass = (isActive: boolean) =>
+    `text-sm font-medium ${isActive ? 'text-white' : 'text-gray-700'}`;
+
+  const numberInput = (field: NumberField, placeholder: string) => (
+    <TextInput
+      value={filters[field]?.toString() ?? ''}
+      onChangeText={(text) => {
+        const digits = text.replace(/\D/g, '');
+        update({ [field]: digits ? Number(digits) : undefined });
+      }}
+      placeholder={placeholder}
+      placeholderTextColor="#9ca3af"
+      keyboardType="number-pad"
+      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm"
+    />
+  );
+
+  const section = (title: string, children: React.ReactNode) => (
+    <View className="mb-4">
+      <Text className="text-sm font-semibold text-gray-700 mb-2">{title}</Text>
+      {children}
+    </View>
+  );
+
+  const removeSearchArea = (id: string) => {
+    deleteSearchArea(id);
+    if (filters.searchAreaIds?.includes(id)) {
+      update({ searchAreaIds: toggleInList(filters.searchAreaIds, id) });
+    }
+  };
+
+  return (
+    <ScrollView>
+      {searchAreas.length > 0 &&
+        section(
+          'Sökområden',
+          <View className="flex-row flex-wrap gap-2">
+            {searchAreas.map((area) => {
+              const isActive = !!filters.searchAreaIds?.includes(area.id);
+              // Open areas can only be deleted by whoever drew them
+              const canDelete = !!area.spaceId || isOwnProperty({ sharedBy: area.createdBy, anonId: area.anonId });
+              return (
+                <View key={area.id} className="flex-row items-center gap-1">
+                  <Pressable
+                    onPress={() => update({ searchAreaIds: toggleInList(filters.searchAreaIds, area.id) })}
+                    className={chipClass(isActive)}
+                  >
+                    <Text className={chipTextClass(isActive)}>{area.name}</Text>
+                  </Pressable>
+                  {canDelete && (
+                    <Pressable
+                      onPress={() => removeSearchArea(area.id)}
+                      className="px-1"
+                      accessibilityLabel={`Ta bort ${area.name}`}
+                    >
+                      <Text className="text-gray-400">✕</Text>
+                    </Pressable>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+      {section(
+        'Pris (kr)',
+        <View className="flex-row gap-2 items-center">
+          {numberInput('minPrice', 'Från')}
+          <Text className="text-gray-500">–</Text>
+          {numberInput('maxPrice', 'Till')}
+        </View>
+      )}
+
+      {section(
+        'Antal rum, minst',
+        <View className="flex-row flex-wrap gap-2">
+          {ROOM_OPTIONS.map((rooms) => {
+            const isActive = filters.minRooms === rooms;
+            return (
+              <Pressable
+                key={rooms}
+                onPress={() => update({ minRooms: isActive ? undefined : rooms })}
+                className={chipClass(isActive)}
+              >
+                <Text className={chipTextClass(isActive)}>{rooms}+</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      )}
+
+      {section(
+        'Boarea (m²)',
+        <View className="flex-row gap-2 items-center">
+          {numberInput('minArea', 'Från')}
+          <Text className="text-gray-500">–</Text>
+          {numberInput('maxArea', 'Till')}
+        </View>
+      )}
+
+      {section('Max avgift (kr/mån)', <View className="flex-row">{numberInput('maxMonthlyFee', 'T.ex. 5000')}</View>)}
+
+      {section(
+        'Bostadstyp',
+        <View className="flex-row flex-wrap gap-2">
+          {PROPERTY_TYPE_OPTIONS.map((option) => {
+            const isActive = !!filters.propertyTypes?.includes(option.key);
+            return (
+              <Pressable
+                key={option.key}
+                onPress={() => update({ propertyTypes: toggleInList(filters.propertyTypes, option.key) })}
+                className={chipClass(isActive)}
+              >
+                <Text className={chipTextClass(isActive)}>{option.label}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      )}
+
+      {section(
+        'Upplåtelseform',
+        <View className="flex-row flex-wrap gap-2">
+          {TENURE_TYPE_OPTIONS.map((option) => {
+            const isActive = !!filters.tenureTypes?.includes(option.key);
+            return (
+              <Pressable
+                key={option.key}
+                onPress={() => update({ tenureTypes: toggleInList(filters.tenureTypes, option.key) })}
+                className={chipClass(isActive)}
+              >
+                <Text className={chipTextClass(isActive)}>{option.label}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      )}
+
+      {section(
+        'Måste ha',
+        <View className="flex-row flex-wrap gap-2">
+          <Pressable
+            onPress={() => update({ hasElevator: filters.hasElevator ? undefined : true })}
+            className={chipClass(!!filters.hasElevator)}
+          >
+            <Text className={chipTextClass(!!filters.hasElevator)}>Hiss</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => update({ hasBalcony: filters.hasBalcony ? undefined : true })}
+            className={chipClass(!!filters.hasBalcony)}
+          >
+            <Text className={chipTextClass(!!filters.hasBalcony)}>Balkong</Text>
+          </Pressable>
+        </View>
+      )}
+
+      {section(
+        'Energiklass',
+        <View className="flex-row flex-wrap gap-2">
+          {ENERGY_CLASSES.map((energyClass) => {
+            const isActive = !!filters.energyClasses?.includes(energyClass);
+            return (
+              <Pressable
+                key={energyClass}
+                onPress={() => update({ energyClasses: toggleInList(filters.energyClasses, energyClass) })}
+                className={chipClass(isActive)}
+              >
+                <Text className={chipTextClass(isActive)}>{energyClass}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      )}
+
+      {section(
+        'Byggår',
+        <View className="flex-row gap-2 items-center">
+          {numberInput('minBuiltYear', 'Från')}
+          <Text className="text-gray-500">–</Text>
+          {numberInput('maxBuiltYear', 'Till')}
+        </View>
+      )}
+
+      <View className="flex-row items-center justify-between">
+        {resultLabel ? <Text className="text-sm text-gray-500">{resultLabel}</Text> : <View />}
+        <Pressable
+          onPress={clearFilters}
+          disabled={activeFilterCount === 0}
+          className={`px-4 py-2 rounded-lg ${activeFilterCount === 0 ? 'bg-gray-200' : 'bg-gray-700'}`}
+        >
+          <Text className="text-white font-semibold">Rensa filter</Text>
+        </Pressable>
+      </View>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,2 @@
+export { PropertyFilterPanel } from './PropertyFilterPanel';
+export { useFilterUrlSync } from './useFilterUrlSync';
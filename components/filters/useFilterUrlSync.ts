@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { Platform } from 'react-native';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import { usePropertyFilters } from '../../lib/query/usePropertyFilters';
+import { filtersFromParams, filtersToParams, hasFilterParams } from '../../lib/utils/propertyFilters';
+
+/**
+ * Web only: keep the filters in the URL so a filtered view can be shared.
+ * Filters in the URL a screen is opened with replace the stored ones; after that
+ * the URL follows the filters.
+ */
+export function useFilterUrlSync() {
+  const params = useLocalSearchParams();
+  const router = useRouter();
+  const { filters, isLoading, setFilters } = usePropertyFilters();
+  const hasReadUrl = useRef(false);
+
+  // Only the URL the screen opened with counts; the ref keeps later param changes out
+  useEffect(() => {
+    if (Platform.OS !== 'web' || isLoading || hasReadUrl.current) return;
+    hasReadUrl.current = true;
+    if (hasFilterParams(params)) setFilters(filtersFromParams(params));
+  }, [isLoading, params, setFilters]);
+
+  // On focus too, since tabs share one filter state but each has its own URL
+  useFocusEffect(
+    useCallback(() => {
+      if (Platform.OS !== 'web' || isLoading || !hasReadUrl.current) return;
+      router.setParams(filtersToParams(filters));
+    }, [filters, isLoading, router])
+  );
+}
@@ -0,0 +1,114 @@
+import { useMemo, useState } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import type { FinancialData } from '../../lib/store/propertyLinkStore';
+import {
+  formatNumberSE,
+  generateAmortizationSchedule,
+  summarizeScheduleByYear,
+} from '../../lib/financial/calculations';
+
+interface AmortizationScheduleProps {
+  mortgage: NonNullable<FinancialData['mortgage']>;
+}
+
+const CHART_HEIGHT = 120;
+// Years shown before "Show all years"
+const COLLAPSED_YEARS = 10;
+
+function formatKr(value: number) {
+  return `${formatNumberSE(Math.round(value))} kr`;
+}
+
+/**
+ * Year-by-year repayment plan: stacked interest/amortization bars and a table
+ * showing how the balance, LTV and amorteringskrav step down over the term
+ */
+export function AmortizationSchedule({ mortgage }: AmortizationScheduleProps) {
+  const [showAllYears, setShowAllYears] = useState(false);
+
+  const years = useMemo(() => {
+    const principal = mortgage.purchasePrice * (1 - mortgage.downPaymentPercent / 100);
+    if (principal <= 0 || mortgage.purchasePrice <= 0 || mortgage.loanTermYears <= 0) return [];
+    return summarizeScheduleByYear(
+      generateAmortizationSchedule({
+        principal,
+        propertyValue: mortgage.purchasePrice,
+        annualInterestRate: mortgage.annualInterestRate,
+        loanTermYears: mortgage.loanTermYears,
+        method: mortgage.amortizationMethod,
+        tranches: mortgage.tranches,
+      })
+    );
+  }, [mortgage]);
+
+  if (years.length === 0) return null;
+
+  const maxPayment = Math.max(...years.map((year) => year.payment)) || 1;
+  const visibleYears = showAllYears ? years : years.slice(0, COLLAPSED_YEARS);
+
+  return (
+    <View className="bg-white dark:bg-gray-800 rounded-lg p-4 mb-4 border border-gray-200 dark:border-gray-700">
+      <Text className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-3">
+        Repayment Plan
+      </Text>
+
+      {/* Chart - one stacked bar per year */}
+      <View className="flex-row items-end" style={{ height: CHART_HEIGHT, gap: 1 }}>
+        {years.map((year) => (
+          <View key={year.year} className="flex-1 justify-end">
+            <View
+              className="w-full bg-blue-500"
+              style={{ height: (year.amortization / maxPayment) * CHART_HEIGHT }}
+            />
+            <View
+              className="w-full bg-orange-400"
+              style={{ height: (year.interest / maxPayment) * CHART_HEIGHT }}
+            />
+          </View>
+        ))}
+      </View>
+      <View className="flex-row justify-between mt-1 mb-2">
+        <Text className="text-[10px] text-gray-500">Year 1</Text>
+        <Text className="text-[10px] text-gray-500">Year {years.length}</Text>
+      </View>
+      <View className="flex-row gap-4 mb-4">
+        <View className="flex-row items-center gap-1">
+          <View className="w-3 h-3 rounded-sm bg-orange-400" />
+          <Text className="text-xs text-gray-600 dark:text-gray-400">Interest</Text>
+        </View>
+        <View className="flex-row items-center gap-1">
+          <View className="w-3 h-3 rounded-sm bg-blue-500" />
+          <Text className="text-xs text-gray-600 dark:text-gray-400">Amortization</Text>
+        </View>
+      </View>
+
+      {/* Table */}
+      <View className="flex-row py-1 border-b border-gray-200 dark:border-gray-700">
+        <Text className="w-10 text-xs font-semibold text-gray-600 dark:text-gray-400">Year</Text>
+        <Text className="flex-1 text-xs font-semibold text-gray-600 dark:text-gray-400 text-right">Interest</Text>
+        <Text className="flex-1 text-xs font-semibold text-gray-600 dark:text-gray-400 text-right">Amortization</Text>
+        <Text className="flex-1 text-xs font-semibold text-gray-600 dark:text-gray-400 text-right">Balance</Text>
+        <Text className="w-12 text-xs font-semibold text-gray-600 dark:text-gray-400 text-right">LTV</Text>
+        <Text className="w-12 text-xs font-semibold text-gray-600 dark:text-gray-400 text-right">Krav</Text>
+      </View>
+      {visibleYears.map((year) => (
+        <View key={year.year} className="flex-row py-1 border-b border-gray-100 dark:border-gray-700">
+          <Text className="w-10 text-xs text-gray-900 dark:text-white">{year.year}</Text>
+          <Text className="flex-1 text-xs text-gray-900 dark:text-white text-right">{formatKr(year.interest)}</Text>
+          <Text className="flex-1 text-xs text-gray-900 dark:text-white text-right">{formatKr(year.amortization)}</Text>
+          <Text className="flex-1 text-xs text-gray-900 dark:text-white text-right">{formatKr(year.closingBalance)}</Text>
+          <Text className="w-12 text-xs text-gray-900 dark:text-white text-right">{Math.round(year.ltv)}%</Text>
+          <Text className="w-12 text-xs text-gray-900 dark:text-white text-right">{year.requiredPercent}%</Text>
+        </View>
+      ))}
+
+      {years.length > COLLAPSED_YEARS && (
+        <Pressable onPress={() => setShowAllYears(!showAllYears)} className="mt-2">
+          <Text className="text-sm text-blue-600 dark:text-blue-400 text-center">
+            {showAllYears ? 'Show first 10 years' : `Show all ${years.length} years`}
+          </Text>
+        </Pressable>
+      )}
+    </View>
+  );
+}
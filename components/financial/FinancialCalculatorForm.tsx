@@ -1,10 +1,35 @@
-import { View, Text, TextInput, Pressable, ScrollView, Platform } from 'react-native';
-import { useState } from 'react';
-import { DollarSign, Home, Calculator, ChevronDown, ChevronUp } from 'lucide-react-native';
+import { View, Text, TextInput, Pressable, ScrollView } from 'react-native';
+import { useEffect, useRef, useState } from 'react';
+import { Wallet, Home, Calculator, ChevronDown, ChevronUp, Percent } from 'lucide-react-native';
 import { type FinancialData } from '../../lib/store/propertyLinkStore';
 import { useProperties } from '../../lib/query/useProperties';
-import { calculateMortgagePayment, calculateTotalCost, calculateAffordability } from '../../lib/financial/calculations';
-import type { MortgageParams, TotalCostParams, DTIParams } from '../../lib/financial/calculations';
+import { useHouseholdProfile } from '../../lib/query/useHouseholdProfile';
+import {
+  calculateMortgagePayment,
+  calculateTotalCost,
+  calculateKalp,
+  calculateInterestDeduction,
+  blendedInterestRate,
+  validateTranches,
+} from '../../lib/financial/calculations';
+import type { AmortizationMethod, LoanTranche } from '../../lib/financial/calculations';
+import { LoanTranchesInput, type TrancheInput } from './LoanTranchesInput';
+import {
+  KalpHouseholdInputs,
+  kalpInputFromAffordability,
+  mergeKalpInputFromProfile,
+  parseKalpHousehold,
+  type KalpHouseholdInput,
+} from './KalpHouseholdInputs';
+
+const AMORTIZATION_OPTIONS: { key: AmortizationMethod; label: string }[] = [
+  { key: 'requirement', label: 'Amorteringskrav' },
+  { key: 'straight', label: 'Rak' },
+  { key: 'annuity', label: 'Annuitet' },
+];
+
+// Rate increases (percentage points) to test once binding periods end
+const RATE_SCENARIO_OPTIONS = [1, 2, 3];
 
 interface FinancialCalculatorFormProps {
   propertyId: string;
@@ -18,27 +43,48 @@ export function FinancialCalculatorForm({
   onCalculate
 }: FinancialCalculatorFormProps) {
   const { updateFinancialData } = useProperties();
+  const { profile } = useHouseholdProfile();
 
   // Loading state
   const [isCalculating, setIsCalculating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Section visibility
-  const [showAdditionalCosts, setShowAdditionalCosts] = useState(false);
-  const [showAffordability, setShowAffordability] = useState(false);
+  const [showAdditionalCosts, setShowAdditionalCosts] = useState(!!initialData?.totalCost);
+  const [showAffordability, setShowAffordability] = useState(!!initialData?.affordability);
 
-  // Mortgage inputs
+  // Mortgage inputs (rates are stored as decimals, entered as percent)
+  const initialMortgage = initialData?.mortgage;
   const [purchasePrice, setPurchasePrice] = useState(
-    initialData?.mortgage?.principal?.toString() || ''
+    initialMortgage?.purchasePrice?.toString() || ''
   );
   const [downPayment, setDownPayment] = useState(
-    initialData?.mortgage?.downPayment?.toString() || ''
+    initialMortgage
+      ? Math.round(initialMortgage.purchasePrice * initialMortgage.downPaymentPercent / 100).toString()
+      : ''
   );
   const [interestRate, setInterestRate] = useState(
-    initialData?.mortgage?.annualInterestRate?.toString() || ''
+    initialMortgage ? (initialMortgage.annualInterestRate * 100).toString() : ''
   );
   const [loanTerm, setLoanTerm] = useState<number>(
-    initialData?.mortgage?.loanTermYears || 30
+    initialMortgage?.loanTermYears || 50
+  );
+  const [propertyType, setPropertyType] = useState<'villa' | 'brf'>(
+    initialMortgage?.propertyType || 'brf'
+  );
+  const [amortizationMethod, setAmortizationMethod] = useState<AmortizationMethod>(
+    initialMortgage?.amortizationMethod || 'requirement'
+  );
+  // Empty when the whole loan is at one rate
+  const [tranches, setTranches] = useState<TrancheInput[]>(
+    initialMortgage?.tranches?.map((tranche) => ({
+      sharePercent: tranche.sharePercent.toString(),
+      rate: (tranche.annualInterestRate * 100).toString(),
+      bindingYears: tranche.bindingYears,
+    })) || []
+  );
+  const [rateIncrease, setRateIncrease] = useState<number>(
+    initialData?.rateScenario ? initialData.rateScenario.rateIncrease * 100 : 2
   );
 
   // Additional costs inputs
@@ -48,113 +94,164 @@ export function FinancialCalculatorForm({
   const [insurance, setInsurance] = useState(
     initialData?.totalCost?.insuranceAnnual?.toString() || ''
   );
-  const [hoaMonthly, setHoaMonthly] = useState(
-    initialData?.totalCost?.hoaMonthly?.toString() || ''
-  );
-  const [pmiMonthly, setPmiMonthly] = useState(
-    initialData?.totalCost?.pmiMonthly?.toString() || ''
+  const [brfMonthly, setBrfMonthly] = useState(
+    initialData?.totalCost?.brfMonthly?.toString() || ''
   );
   const [maintenanceRate, setMaintenanceRate] = useState(
-    initialData?.totalCost?.maintenanceRate?.toString() || '1'
+    initialData?.totalCost?.maintenanceRate !== undefined
+      ? (initialData.totalCost.maintenanceRate * 100).toString()
+      : '1'
   );
 
-  // Affordability inputs
-  const [grossIncome, setGrossIncome] = useState(
-    initialData?.affordability?.grossMonthlyIncome?.toString() || ''
+  // Ränteavdrag inputs - the first borrower's share, the second pays the rest
+  const [deductionEnabled, setDeductionEnabled] = useState(
+    initialData?.interestDeduction?.enabled ?? true
+  );
+  const [borrowerCount, setBorrowerCount] = useState(
+    initialData?.interestDeduction?.borrowerShares.length === 2 ? 2 : 1
   );
-  const [otherDebts, setOtherDebts] = useState(
-    initialData?.affordability?.monthlyOtherDebts?.toString() || ''
+  const [firstBorrowerShare, setFirstBorrowerShare] = useState(
+    initialData?.interestDeduction?.borrowerShares.length === 2
+      ? initialData.interestDeduction.borrowerShares[0].toString()
+      : '50'
   );
 
+  // Affordability inputs (KALP household)
+  const [household, setHousehold] = useState<KalpHouseholdInput>(
+    kalpInputFromAffordability(initialData?.affordability)
+  );
+
+  // Start from the household profile on properties without their own household
+  // settings; only empty fields are filled, so nothing typed is overwritten
+  const appliedProfileId = useRef<string | null>(null);
+  useEffect(() => {
+    if (!profile || initialData?.affordability || appliedProfileId.current === profile.id) return;
+    appliedProfileId.current = profile.id;
+
+    setHousehold((current) => mergeKalpInputFromProfile(current, profile));
+    setShowAffordability(true);
+    if (profile.savings > 0) {
+      setDownPayment((current) => current || Math.round(profile.savings).toString());
+    }
+    if (profile.interestRate !== undefined) {
+      setInterestRate((current) => current || (Math.round(profile.interestRate! * 10000) / 100).toString());
+    }
+    if (!initialData?.interestDeduction && profile.members.length === 2) {
+      setBorrowerCount(2);
+    }
+  }, [profile, initialData]);
+
   // Calculate down payment percentage
   const downPaymentPercent = purchasePrice && downPayment
     ? ((parseFloat(downPayment) / parseFloat(purchasePrice)) * 100).toFixed(1)
     : '0';
 
-  // Check if PMI should be hidden (down payment >= 20%)
-  const hidePMI = parseFloat(downPaymentPercent) >= 20;
-
   const handleCalculate = async () => {
     setIsCalculating(true);
     setError(null);
 
     try {
       // Validate required fields
-      if (!purchasePrice || !downPayment || !interestRate) {
+      if (!purchasePrice || !downPayment || (tranches.length === 0 && !interestRate)) {
         throw new Error('Please fill in all mortgage fields');
       }
 
-      const principal = parseFloat(purchasePrice) - parseFloat(downPayment);
-
-      // Build inputs object
-      const inputs: {
-        mortgage?: MortgageParams;
-        totalCost?: TotalCostParams;
-        affordability?: DTIParams;
-      } = {};
+      let loanTranches: LoanTranche[] | undefined;
+      if (tranches.length > 0) {
+        if (tranches.some((tranche) => !tranche.rate || !tranche.sharePercent)) {
+          throw new Error('Please fill in the share and rate of every loan part');
+        }
+        loanTranches = tranches.map((tranche) => ({
+          sharePercent: parseFloat(tranche.sharePercent),
+          annualInterestRate: parseFloat(tranche.rate) / 100,
+          bindingYears: tranche.bindingYears,
+        }));
+        validateTranches(loanTranches);
+      }
 
-      // Mortgage params (required)
-      inputs.mortgage = {
-        principal,
-        annualInterestRate: parseFloat(interestRate),
+      const mortgage: NonNullable<FinancialData['mortgage']> = {
+        purchasePrice: parseFloat(purchasePrice),
+        downPaymentPercent: (parseFloat(downPayment) / parseFloat(purchasePrice)) * 100,
+        annualInterestRate: loanTranches ? blendedInterestRate(loanTranches) : parseFloat(interestRate) / 100,
         loanTermYears: loanTerm,
-        downPayment: parseFloat(downPayment),
+        propertyType,
+        amortizationMethod,
+        tranches: loanTranches,
       };
 
-      // Total cost params (optional)
-      if (showAdditionalCosts) {
-        const monthlyPayment = 0; // Will be calculated
-        inputs.totalCost = {
-          monthlyMortgagePayment: monthlyPayment,
-          propertyTaxAnnual: propertyTax ? parseFloat(propertyTax) : undefined,
-          insuranceAnnual: insurance ? parseFloat(insurance) : undefined,
-          hoaMonthly: hoaMonthly ? parseFloat(hoaMonthly) : undefined,
-          pmiMonthly: (pmiMonthly && !hidePMI) ? parseFloat(pmiMonthly) : undefined,
-          maintenanceRate: maintenanceRate ? parseFloat(maintenanceRate) / 100 : 0.01,
-          homeValue: parseFloat(purchasePrice),
-        };
-      }
-
-      // Affordability params (optional)
-      if (showAffordability && grossIncome) {
-        const monthlyPayment = 0; // Will be calculated
-        inputs.affordability = {
-          monthlyMortgagePayment: monthlyPayment,
-          grossMonthlyIncome: parseFloat(grossIncome),
-          monthlyOtherDebts: otherDebts ? parseFloat(otherDebts) : 0,
-        };
-      }
-
-      // Calculate results
-      let results: any = {};
-
-      if (inputs.mortgage) {
-        const mortgageResult = calculateMortgagePayment(inputs.mortgage);
-        results.monthlyPayment = mortgageResult.monthlyPayment;
-        results.totalInterest = mortgageResult.totalInterest;
-        results.totalPaid = mortgageResult.totalPaid;
-      }
+      // Total cost inputs (optional)
+      const totalCost: FinancialData['totalCost'] = showAdditionalCosts
+        ? {
+            ...mortgage,
+            propertyTaxAnnual: propertyTax ? parseFloat(propertyTax) : undefined,
+            insuranceAnnual: insurance ? parseFloat(insurance) : undefined,
+            brfMonthly: brfMonthly ? parseFloat(brfMonthly) : undefined,
+            maintenanceRate: maintenanceRate ? parseFloat(maintenanceRate) / 100 : undefined,
+          }
+        : undefined;
+
+      const firstShare = Math.min(100, Math.max(0, parseFloat(firstBorrowerShare) || 0));
+      const interestDeduction: FinancialData['interestDeduction'] = {
+        enabled: deductionEnabled,
+        borrowerShares: borrowerCount === 2 ? [firstShare, 100 - firstShare] : [100],
+      };
 
-      if (inputs.totalCost) {
-        const totalCostResult = calculateTotalCost(inputs.totalCost);
-        results.totalMonthly = totalCostResult.totalMonthly;
-      }
+      const mortgageResult = calculateMortgagePayment(mortgage);
+      const totalCostResult = totalCost ? calculateTotalCost({ ...totalCost, interestDeduction }) : null;
+      const monthlyInterestDeduction = deductionEnabled
+        ? calculateInterestDeduction({
+            annualInterest: mortgageResult.firstYearInterest,
+            borrowerShares: interestDeduction.borrowerShares,
+          }).monthlyDeduction
+        : 0;
+
+      const results: NonNullable<FinancialData['results']> = {
+        monthlyPayment: mortgageResult.monthlyPayment,
+        monthlyInterest: mortgageResult.monthlyInterest,
+        monthlyAmortization: mortgageResult.monthlyAmortization,
+        amortizationPercent: mortgageResult.amortizationPercent,
+        totalInterest: mortgageResult.totalInterest,
+        balanceAfterTerm: mortgageResult.balanceAfterTerm,
+        totalMonthly: totalCostResult?.totalMonthly,
+        firstYearInterest: mortgageResult.firstYearInterest,
+        monthlyInterestDeduction,
+        netMonthlyPayment: mortgageResult.monthlyPayment - monthlyInterestDeduction,
+        netTotalMonthly: totalCostResult?.netMonthly,
+        ltv: mortgageResult.ltv,
+        calculatedAt: new Date().toISOString(),
+      };
 
-      if (inputs.affordability) {
-        const affordabilityResult = calculateAffordability(inputs.affordability);
-        results.dtiRatio = affordabilityResult.dtiRatio;
-        results.canAfford = affordabilityResult.canAfford;
+      // Affordability inputs (optional) - KALP with the loan at the kalkylränta
+      let affordability: FinancialData['affordability'];
+      if (showAffordability) {
+        const kalpHousehold = parseKalpHousehold(household);
+        const kalp = calculateKalp({
+          ...kalpHousehold,
+          loanAmount: mortgage.purchasePrice * (1 - mortgage.downPaymentPercent / 100),
+          propertyValue: mortgage.purchasePrice,
+          // Fee, tax, insurance and upkeep - everything but the loan itself
+          housingOperatingCost: totalCostResult ? totalCostResult.totalMonthly - totalCostResult.monthlyMortgage : 0,
+        });
+        affordability = {
+          grossMonthlyIncome: kalpHousehold.adultGrossMonthlyIncomes.reduce((sum, income) => sum + income, 0),
+          monthlyHousingCost: kalp.housingCost,
+          monthlyOtherDebts: kalpHousehold.otherLoansMonthly ?? 0,
+          stressTestRate: kalpHousehold.stressTestRate,
+          adultIncomes: kalpHousehold.adultGrossMonthlyIncomes,
+          children: kalpHousehold.children,
+          municipalTaxRate: kalpHousehold.municipalTaxRate,
+          carCostsMonthly: kalpHousehold.carCostsMonthly,
+        };
+        results.kalp = kalp;
       }
 
-      // Build FinancialData object
       const financialData: FinancialData = {
-        mortgage: inputs.mortgage,
-        totalCost: inputs.totalCost,
-        affordability: inputs.affordability,
-        results: {
-          ...results,
-          calculatedAt: new Date().toISOString()
-        }
+        mortgage,
+        totalCost,
+        rateScenario: { rateIncrease: rateIncrease / 100 },
+        interestDeduction,
+        affordability,
+        results,
       };
 
       // Save to database
@@ -190,15 +287,15 @@ export function FinancialCalculatorForm({
             Purchase Price
           </Text>
           <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
-            <Text className="text-gray-500 dark:text-gray-400 mr-2">$</Text>
             <TextInput
               className="flex-1 text-gray-900 dark:text-white"
               value={purchasePrice}
               onChangeText={setPurchasePrice}
               keyboardType="numeric"
-              placeholder="500000"
+              placeholder="3500000"
               placeholderTextColor="#9ca3af"
             />
+            <Text className="text-gray-500 dark:text-gray-400 ml-2">kr</Text>
           </View>
         </View>
 
@@ -213,35 +310,57 @@ export function FinancialCalculatorForm({
             </Text>
           </View>
           <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
-            <Text className="text-gray-500 dark:text-gray-400 mr-2">$</Text>
             <TextInput
               className="flex-1 text-gray-900 dark:text-white"
               value={downPayment}
               onChangeText={setDownPayment}
               keyboardType="numeric"
-              placeholder="100000"
+              placeholder="525000"
               placeholderTextColor="#9ca3af"
             />
+            <Text className="text-gray-500 dark:text-gray-400 ml-2">kr</Text>
           </View>
         </View>
 
-        {/* Interest Rate */}
-        <View className="mb-4">
-          <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Interest Rate (Annual)
-          </Text>
-          <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
-            <TextInput
-              className="flex-1 text-gray-900 dark:text-white"
-              value={interestRate}
-              onChangeText={setInterestRate}
-              keyboardType="decimal-pad"
-              placeholder="6.0"
-              placeholderTextColor="#9ca3af"
-            />
-            <Text className="text-gray-500 dark:text-gray-400 ml-2">%</Text>
+        {/* Interest Rate - one rate, or parts with their own binding periods */}
+        {tranches.length > 0 ? (
+          <View className="mb-4">
+            <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Loan Parts
+            </Text>
+            <LoanTranchesInput tranches={tranches} onChange={setTranches} />
           </View>
-        </View>
+        ) : (
+          <View className="mb-4">
+            <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Interest Rate (Annual)
+            </Text>
+            <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
+              <TextInput
+                className="flex-1 text-gray-900 dark:text-white"
+                value={interestRate}
+                onChangeText={setInterestRate}
+                keyboardType="decimal-pad"
+                placeholder="3.5"
+                placeholderTextColor="#9ca3af"
+              />
+              <Text className="text-gray-500 dark:text-gray-400 ml-2">%</Text>
+            </View>
+            <Pressable
+              onPress={() =>
+                setTranches([
+                  { sharePercent: '50', rate: interestRate, bindingYears: 0 },
+                  { sharePercent: '50', rate: interestRate, bindingYears: 3 },
+                ])
+              }
+              className="mt-2"
+            >
+              <Text className="text-sm text-blue-600 dark:text-blue-400">
+                Split across binding periods
+              </Text>
+            </Pressable>
+          </View>
+        )}
 
         {/* Loan Term */}
         <View className="mb-4">
@@ -249,7 +368,7 @@ export function FinancialCalculatorForm({
             Loan Term
           </Text>
           <View className="flex-row gap-2">
-            {[15, 20, 30].map((term) => (
+            {[30, 40, 50].map((term) => (
               <Pressable
                 key={term}
                 onPress={() => setLoanTerm(term)}
@@ -272,6 +391,185 @@ export function FinancialCalculatorForm({
             ))}
           </View>
         </View>
+
+        {/* Property Type */}
+        <View className="mb-4">
+          <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Property Type
+          </Text>
+          <View className="flex-row gap-2">
+            {(['brf', 'villa'] as const).map((type) => (
+              <Pressable
+                key={type}
+                onPress={() => setPropertyType(type)}
+                className={`flex-1 py-2 px-4 rounded-lg border-2 ${
+                  propertyType === type
+                    ? 'bg-blue-500 border-blue-500'
+                    : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600'
+                }`}
+              >
+                <Text
+                  className={`text-center font-medium ${
+                    propertyType === type
+                      ? 'text-white'
+                      : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  {type === 'brf' ? 'Bostadsrätt' : 'Villa'}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+
+        {/* Amortization */}
+        <View className="mb-4">
+          <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Amortization
+          </Text>
+          <View className="flex-row gap-2">
+            {AMORTIZATION_OPTIONS.map((option) => (
+              <Pressable
+                key={option.key}
+                onPress={() => setAmortizationMethod(option.key)}
+                className={`flex-1 py-2 px-2 rounded-lg border-2 ${
+                  amortizationMethod === option.key
+                    ? 'bg-blue-500 border-blue-500'
+                    : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600'
+                }`}
+              >
+                <Text
+                  className={`text-center font-medium ${
+                    amortizationMethod === option.key
+                      ? 'text-white'
+                      : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  {option.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <Text className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {amortizationMethod === 'requirement'
+              ? 'Only what amorteringskrav requires: 2% above 70% LTV, 1% above 50%'
+              : amortizationMethod === 'straight'
+                ? 'Same amortization every month until the loan is repaid'
+                : 'Same monthly payment until the loan is repaid'}
+          </Text>
+        </View>
+
+        {/* Rate Scenario */}
+        <View className="mb-4">
+          <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Rate Scenario After Binding Ends
+          </Text>
+          <View className="flex-row gap-2">
+            {RATE_SCENARIO_OPTIONS.map((increase) => (
+              <Pressable
+                key={increase}
+                onPress={() => setRateIncrease(increase)}
+                className={`flex-1 py-2 px-4 rounded-lg border-2 ${
+                  rateIncrease === increase
+                    ? 'bg-blue-500 border-blue-500'
+                    : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600'
+                }`}
+              >
+                <Text
+                  className={`text-center font-medium ${
+                    rateIncrease === increase
+                      ? 'text-white'
+                      : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  +{increase} pp
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      </View>
+
+      {/* Ränteavdrag Section */}
+      <View className="bg-white dark:bg-gray-800 rounded-lg p-4 mb-4 border border-gray-200 dark:border-gray-700">
+        <View className="flex-row items-center justify-between mb-2">
+          <View className="flex-row items-center">
+            <Percent size={20} color="#3b82f6" className="mr-2" />
+            <Text className="text-lg font-bold text-gray-900 dark:text-white">
+              Ränteavdrag
+            </Text>
+          </View>
+          <Pressable
+            onPress={() => setDeductionEnabled(!deductionEnabled)}
+            className={`py-1 px-3 rounded-full ${
+              deductionEnabled ? 'bg-blue-500' : 'bg-gray-200 dark:bg-gray-700'
+            }`}
+          >
+            <Text className={deductionEnabled ? 'text-white font-medium' : 'text-gray-700 dark:text-gray-300 font-medium'}>
+              {deductionEnabled ? 'On' : 'Off'}
+            </Text>
+          </Pressable>
+        </View>
+        <Text className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          30% of interest back up to 100 000 kr per borrower and year, 21% above
+        </Text>
+
+        {deductionEnabled && (
+          <>
+            {/* Borrowers */}
+            <View className="mb-4">
+              <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Borrowers
+              </Text>
+              <View className="flex-row gap-2">
+                {[1, 2].map((count) => (
+                  <Pressable
+                    key={count}
+                    onPress={() => setBorrowerCount(count)}
+                    className={`flex-1 py-2 px-4 rounded-lg border-2 ${
+                      borrowerCount === count
+                        ? 'bg-blue-500 border-blue-500'
+                        : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600'
+                    }`}
+                  >
+                    <Text
+                      className={`text-center font-medium ${
+                        borrowerCount === count
+                          ? 'text-white'
+                          : 'text-gray-700 dark:text-gray-300'
+                      }`}
+                    >
+                      {count === 1 ? 'One borrower' : 'Two borrowers'}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+
+            {/* Interest split */}
+            {borrowerCount === 2 && (
+              <View className="mb-2">
+                <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Borrower 1 Share of Interest
+                </Text>
+                <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
+                  <TextInput
+                    className="flex-1 text-gray-900 dark:text-white"
+                    value={firstBorrowerShare}
+                    onChangeText={setFirstBorrowerShare}
+                    keyboardType="decimal-pad"
+                    placeholder="50"
+                    placeholderTextColor="#9ca3af"
+                  />
+                  <Text className="text-gray-500 dark:text-gray-400 ml-2">%</Text>
+                </View>
+                <Text className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Borrower 2 pays {Math.max(0, 100 - (parseFloat(firstBorrowerShare) || 0))}%
+                </Text>
+              </View>
+            )}
+          </>
+        )}
       </View>
 
       {/* Additional Costs Section (Collapsible) */}
@@ -281,7 +579,7 @@ export function FinancialCalculatorForm({
           className="flex-row items-center justify-between mb-2"
         >
           <View className="flex-row items-center">
-            <DollarSign size={20} color="#3b82f6" className="mr-2" />
+            <Wallet size={20} color="#3b82f6" className="mr-2" />
             <Text className="text-lg font-bold text-gray-900 dark:text-white">
               Additional Costs
             </Text>
@@ -304,7 +602,6 @@ export function FinancialCalculatorForm({
                 Property Tax (Annual)
               </Text>
               <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
-                <Text className="text-gray-500 dark:text-gray-400 mr-2">$</Text>
                 <TextInput
                   className="flex-1 text-gray-900 dark:text-white"
                   value={propertyTax}
@@ -313,6 +610,7 @@ export function FinancialCalculatorForm({
                   placeholder="5500"
                   placeholderTextColor="#9ca3af"
                 />
+                <Text className="text-gray-500 dark:text-gray-400 ml-2">kr</Text>
               </View>
             </View>
 
@@ -322,7 +620,6 @@ export function FinancialCalculatorForm({
                 Insurance (Annual)
               </Text>
               <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
-                <Text className="text-gray-500 dark:text-gray-400 mr-2">$</Text>
                 <TextInput
                   className="flex-1 text-gray-900 dark:text-white"
                   value={insurance}
@@ -331,64 +628,49 @@ export function FinancialCalculatorForm({
                   placeholder="1500"
                   placeholderTextColor="#9ca3af"
                 />
+                <Text className="text-gray-500 dark:text-gray-400 ml-2">kr</Text>
               </View>
             </View>
 
-            {/* HOA Monthly */}
-            <View className="mb-4">
-              <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                HOA (Monthly)
-              </Text>
-              <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
-                <Text className="text-gray-500 dark:text-gray-400 mr-2">$</Text>
-                <TextInput
-                  className="flex-1 text-gray-900 dark:text-white"
-                  value={hoaMonthly}
-                  onChangeText={setHoaMonthly}
-                  keyboardType="numeric"
-                  placeholder="200"
-                  placeholderTextColor="#9ca3af"
-                />
-              </View>
-            </View>
-
-            {/* PMI (hidden if down payment >= 20%) */}
-            {!hidePMI && (
+            {/* BRF fee */}
+            {propertyType === 'brf' && (
               <View className="mb-4">
                 <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  PMI (Monthly)
+                  BRF Fee (Monthly)
                 </Text>
                 <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
-                  <Text className="text-gray-500 dark:text-gray-400 mr-2">$</Text>
                   <TextInput
                     className="flex-1 text-gray-900 dark:text-white"
-                    value={pmiMonthly}
-                    onChangeText={setPmiMonthly}
+                    value={brfMonthly}
+                    onChangeText={setBrfMonthly}
                     keyboardType="numeric"
-                    placeholder="150"
+                    placeholder="4200"
                     placeholderTextColor="#9ca3af"
                   />
+                  <Text className="text-gray-500 dark:text-gray-400 ml-2">kr</Text>
                 </View>
               </View>
             )}
 
-            {/* Maintenance Rate */}
-            <View className="mb-4">
-              <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Maintenance Rate (% of home value)
-              </Text>
-              <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
-                <TextInput
-                  className="flex-1 text-gray-900 dark:text-white"
-                  value={maintenanceRate}
-                  onChangeText={setMaintenanceRate}
-                  keyboardType="decimal-pad"
-                  placeholder="1.0"
-                  placeholderTextColor="#9ca3af"
-                />
-                <Text className="text-gray-500 dark:text-gray-400 ml-2">%</Text>
+            {/* Maintenance Rate (included in the BRF fee for apartments) */}
+            {propertyType === 'villa' && (
+              <View className="mb-4">
+                <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Maintenance Rate (% of home value)
+                </Text>
+                <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
+                  <TextInput
+                    className="flex-1 text-gray-900 dark:text-white"
+                    value={maintenanceRate}
+                    onChangeText={setMaintenanceRate}
+                    keyboardType="decimal-pad"
+                    placeholder="1.0"
+                    placeholderTextColor="#9ca3af"
+                  />
+                  <Text className="text-gray-500 dark:text-gray-400 ml-2">%</Text>
+                </View>
               </View>
-            </View>
+            )}
           </View>
         )}
       </View>
@@ -402,7 +684,7 @@ export function FinancialCalculatorForm({
           <View className="flex-row items-center">
             <Calculator size={20} color="#3b82f6" className="mr-2" />
             <Text className="text-lg font-bold text-gray-900 dark:text-white">
-              Affordability Check
+              Affordability (KALP)
             </Text>
             <Text className="text-xs text-gray-500 dark:text-gray-400 ml-2">
               (Optional)
@@ -417,41 +699,12 @@ export function FinancialCalculatorForm({
 
         {showAffordability && (
           <View className="mt-4">
-            {/* Gross Monthly Income */}
-            <View className="mb-4">
-              <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Gross Monthly Income
-              </Text>
-              <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
-                <Text className="text-gray-500 dark:text-gray-400 mr-2">$</Text>
-                <TextInput
-                  className="flex-1 text-gray-900 dark:text-white"
-                  value={grossIncome}
-                  onChangeText={setGrossIncome}
-                  keyboardType="numeric"
-                  placeholder="8000"
-                  placeholderTextColor="#9ca3af"
-                />
-              </View>
-            </View>
-
-            {/* Monthly Other Debts */}
-            <View className="mb-4">
-              <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Monthly Other Debts
+            {profile && !initialData?.affordability && (
+              <Text className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                Filled in from the household profile
               </Text>
-              <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
-                <Text className="text-gray-500 dark:text-gray-400 mr-2">$</Text>
-                <TextInput
-                  className="flex-1 text-gray-900 dark:text-white"
-                  value={otherDebts}
-                  onChangeText={setOtherDebts}
-                  keyboardType="numeric"
-                  placeholder="500"
-                  placeholderTextColor="#9ca3af"
-                />
-              </View>
-            </View>
+            )}
+            <KalpHouseholdInputs value={household} onChange={setHousehold} />
           </View>
         )}
       </View>
@@ -1,62 +1,44 @@
 import { View, Text } from 'react-native';
 import { CheckCircle, XCircle, AlertCircle } from 'lucide-react-native';
 import type { FinancialData } from '../../lib/store/propertyLinkStore';
+import { calculateInterestDeduction, formatCurrencySEK } from '../../lib/financial/calculations';
+import { AmortizationSchedule } from './AmortizationSchedule';
+import { RateScenarioTimeline } from './RateScenarioTimeline';
+import { KalpSummary } from './KalpSummary';
 
 interface FinancialResultsProps {
   results: FinancialData['results'] | null;
   mortgage?: FinancialData['mortgage'];
   totalCost?: FinancialData['totalCost'];
   affordability?: FinancialData['affordability'];
+  interestDeduction?: FinancialData['interestDeduction'];
+  rateScenario?: FinancialData['rateScenario'];
 }
 
 export function FinancialResults({
   results,
   mortgage,
   totalCost,
-  affordability
+  affordability,
+  interestDeduction,
+  rateScenario
 }: FinancialResultsProps) {
-  // Helper function to format currency
-  const formatCurrency = (value: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(value);
-  };
-
   // Helper function to format percentage
   const formatPercentage = (value: number): string => {
     return `${value.toFixed(1)}%`;
   };
 
-  // Helper function to get DTI color and icon
-  const getDTIStatus = (dti: number, type: 'front' | 'back') => {
-    const frontEndThresholds = { green: 28, yellow: 36 };
-    const backEndThresholds = { green: 36, yellow: 43 };
-
-    const thresholds = type === 'front' ? frontEndThresholds : backEndThresholds;
-
-    if (dti <= thresholds.green) {
+  // Helper function to get ratio color and icon (housing ≤ 50%, all debts ≤ 60%)
+  const getRatioStatus = (ratio: number, limit: number) => {
+    if (ratio <= limit - 10) {
       return { color: 'text-green-600 dark:text-green-400', bg: 'bg-green-50 dark:bg-green-900/20', icon: CheckCircle, iconColor: '#10b981' };
-    } else if (dti <= thresholds.yellow) {
+    } else if (ratio <= limit) {
       return { color: 'text-yellow-600 dark:text-yellow-400', bg: 'bg-yellow-50 dark:bg-yellow-900/20', icon: AlertCircle, iconColor: '#f59e0b' };
     } else {
       return { color: 'text-red-600 dark:text-red-400', bg: 'bg-red-50 dark:bg-red-900/20', icon: XCircle, iconColor: '#ef4444' };
     }
   };
 
-  // Helper function to calculate total interest and total payments
-  const calculateTotals = () => {
-    if (!results?.monthlyPayment || !mortgage) return null;
-
-    const totalMonths = mortgage.loanTermYears * 12;
-    const totalPayments = results.monthlyPayment * totalMonths;
-    const totalInterest = totalPayments - mortgage.principal;
-
-    return { totalPayments, totalInterest };
-  };
-
   // If no results, show placeholder
   if (!results) {
     return (
@@ -68,7 +50,13 @@ export function FinancialResults({
     );
   }
 
-  const totals = calculateTotals();
+  // Per-borrower split of the ränteavdrag, for the breakdown under the payment
+  const deduction = results.firstYearInterest && interestDeduction?.enabled !== false
+    ? calculateInterestDeduction({
+        annualInterest: results.firstYearInterest,
+        borrowerShares: interestDeduction?.borrowerShares,
+      })
+    : null;
 
   return (
     <View>
@@ -82,37 +70,75 @@ export function FinancialResults({
           {/* Monthly Payment - Large and prominent */}
           <View className="mb-4">
             <Text className="text-4xl font-bold text-gray-900 dark:text-white">
-              {formatCurrency(results.monthlyPayment)}
+              {formatCurrencySEK(results.monthlyPayment)}
             </Text>
             <Text className="text-sm text-gray-500 dark:text-gray-400 mt-1">
               per month
+              {!!results.monthlyInterestDeduction && results.netMonthlyPayment !== undefined &&
+                ` · ${formatCurrencySEK(results.netMonthlyPayment)} after ränteavdrag`}
             </Text>
           </View>
 
-          {/* Total Payments and Interest */}
-          {totals && (
-            <View className="space-y-2">
+          {/* First month split and totals over the term */}
+          <View className="space-y-2">
+            {results.monthlyInterest !== undefined && results.monthlyAmortization !== undefined && (
               <View className="flex-row justify-between py-2 border-t border-gray-200 dark:border-gray-700">
                 <Text className="text-sm text-gray-600 dark:text-gray-400">
-                  Total Payments ({mortgage?.loanTermYears} years)
+                  Interest / Amortization ({results.amortizationPercent ?? 0}% krav)
                 </Text>
                 <Text className="text-sm font-semibold text-gray-900 dark:text-white">
-                  {formatCurrency(totals.totalPayments)}
+                  {formatCurrencySEK(results.monthlyInterest)} / {formatCurrencySEK(results.monthlyAmortization)}
                 </Text>
               </View>
+            )}
+            {results.totalInterest !== undefined && (
               <View className="flex-row justify-between py-2">
                 <Text className="text-sm text-gray-600 dark:text-gray-400">
-                  Total Interest
+                  Total Interest ({mortgage?.loanTermYears} years)
                 </Text>
                 <Text className="text-sm font-semibold text-gray-900 dark:text-white">
-                  {formatCurrency(totals.totalInterest)}
+                  {formatCurrencySEK(results.totalInterest)}
                 </Text>
               </View>
-            </View>
-          )}
+            )}
+            {deduction && deduction.annualDeduction > 0 && (
+              <View className="py-2">
+                <View className="flex-row justify-between">
+                  <Text className="text-sm text-gray-600 dark:text-gray-400">
+                    Ränteavdrag (year 1, {formatPercentage(deduction.effectiveRate)})
+                  </Text>
+                  <Text className="text-sm font-semibold text-green-600 dark:text-green-400">
+                    −{formatCurrencySEK(deduction.monthlyDeduction)}/month
+                  </Text>
+                </View>
+                {deduction.borrowers.length > 1 &&
+                  deduction.borrowers.map((borrower, index) => (
+                    <Text key={index} className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Borrower {index + 1} ({borrower.sharePercent}%): {formatCurrencySEK(borrower.deduction)}/year
+                    </Text>
+                  ))}
+              </View>
+            )}
+            {!!results.balanceAfterTerm && (
+              <View className="flex-row justify-between py-2">
+                <Text className="text-sm text-gray-600 dark:text-gray-400">
+                  Left to Pay After Term
+                </Text>
+                <Text className="text-sm font-semibold text-gray-900 dark:text-white">
+                  {formatCurrencySEK(results.balanceAfterTerm)}
+                </Text>
+              </View>
+            )}
+          </View>
         </View>
       )}
 
+      {/* Year-by-year repayment plan */}
+      {mortgage && <AmortizationSchedule mortgage={mortgage} />}
+
+      {/* Cost timeline if rates rise after binding */}
+      {mortgage && <RateScenarioTimeline mortgage={mortgage} rateScenario={rateScenario} />}
+
       {/* Total Monthly Cost Section */}
       {results.totalMonthly !== undefined && totalCost && (
         <View className="bg-white dark:bg-gray-800 rounded-lg p-4 mb-4 border border-gray-200 dark:border-gray-700">
@@ -127,61 +153,50 @@ export function FinancialResults({
                 Mortgage Payment
               </Text>
               <Text className="text-sm text-gray-900 dark:text-white">
-                {formatCurrency(results.monthlyPayment || 0)}
+                {formatCurrencySEK(results.monthlyPayment || 0)}
               </Text>
             </View>
 
-            {totalCost.propertyTaxAnnual && (
+            {!!totalCost.propertyTaxAnnual && (
               <View className="flex-row justify-between">
                 <Text className="text-sm text-gray-600 dark:text-gray-400">
                   Property Tax
                 </Text>
                 <Text className="text-sm text-gray-900 dark:text-white">
-                  {formatCurrency(totalCost.propertyTaxAnnual / 12)}
+                  {formatCurrencySEK(totalCost.propertyTaxAnnual / 12)}
                 </Text>
               </View>
             )}
 
-            {totalCost.insuranceAnnual && (
+            {!!totalCost.insuranceAnnual && (
               <View className="flex-row justify-between">
                 <Text className="text-sm text-gray-600 dark:text-gray-400">
                   Insurance
                 </Text>
                 <Text className="text-sm text-gray-900 dark:text-white">
-                  {formatCurrency(totalCost.insuranceAnnual / 12)}
-                </Text>
-              </View>
-            )}
-
-            {totalCost.hoaMonthly && (
-              <View className="flex-row justify-between">
-                <Text className="text-sm text-gray-600 dark:text-gray-400">
-                  HOA
-                </Text>
-                <Text className="text-sm text-gray-900 dark:text-white">
-                  {formatCurrency(totalCost.hoaMonthly)}
+                  {formatCurrencySEK(totalCost.insuranceAnnual / 12)}
                 </Text>
               </View>
             )}
 
-            {totalCost.pmiMonthly && (
+            {!!totalCost.brfMonthly && (
               <View className="flex-row justify-between">
                 <Text className="text-sm text-gray-600 dark:text-gray-400">
-                  PMI
+                  BRF Fee
                 </Text>
                 <Text className="text-sm text-gray-900 dark:text-white">
-                  {formatCurrency(totalCost.pmiMonthly)}
+                  {formatCurrencySEK(totalCost.brfMonthly)}
                 </Text>
               </View>
             )}
 
-            {totalCost.maintenanceRate && totalCost.homeValue && (
+            {totalCost.propertyType === 'villa' && !!totalCost.maintenanceRate && (
               <View className="flex-row justify-between">
                 <Text className="text-sm text-gray-600 dark:text-gray-400">
                   Maintenance ({formatPercentage(totalCost.maintenanceRate * 100)})
                 </Text>
                 <Text className="text-sm text-gray-900 dark:text-white">
-                  {formatCurrency((totalCost.homeValue * totalCost.maintenanceRate) / 12)}
+                  {formatCurrencySEK((totalCost.purchasePrice * totalCost.maintenanceRate) / 12)}
                 </Text>
               </View>
             )}
@@ -191,68 +206,98 @@ export function FinancialResults({
           <View className="pt-3 border-t-2 border-gray-300 dark:border-gray-600">
             <View className="flex-row justify-between items-center">
               <Text className="text-base font-semibold text-gray-900 dark:text-white">
-                Total Monthly
+                Total Monthly (Gross)
               </Text>
               <Text className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-                {formatCurrency(results.totalMonthly)}
+                {formatCurrencySEK(results.totalMonthly)}
               </Text>
             </View>
             <Text className="text-sm text-gray-500 dark:text-gray-400 mt-1 text-right">
-              {formatCurrency(results.totalMonthly * 12)}/year
+              {formatCurrencySEK(results.totalMonthly * 12)}/year
             </Text>
           </View>
+
+          {/* Net of ränteavdrag */}
+          {!!results.monthlyInterestDeduction && results.netTotalMonthly !== undefined && (
+            <View className="pt-3 mt-3 border-t border-gray-200 dark:border-gray-700">
+              <View className="flex-row justify-between">
+                <Text className="text-sm text-gray-600 dark:text-gray-400">
+                  Ränteavdrag
+                </Text>
+                <Text className="text-sm text-green-600 dark:text-green-400">
+                  −{formatCurrencySEK(results.monthlyInterestDeduction)}
+                </Text>
+              </View>
+              <View className="flex-row justify-between items-center mt-1">
+                <Text className="text-base font-semibold text-gray-900 dark:text-white">
+                  Net Monthly
+                </Text>
+                <Text className="text-2xl font-bold text-green-600 dark:text-green-400">
+                  {formatCurrencySEK(results.netTotalMonthly)}
+                </Text>
+              </View>
+            </View>
+          )}
         </View>
       )}
 
-      {/* Affordability Section */}
-      {results.frontEndDTI !== undefined && results.backEndDTI !== undefined && affordability && (
+      {/* Affordability Section - KALP */}
+      {results.kalp && affordability && (
         <View className="bg-white dark:bg-gray-800 rounded-lg p-4 mb-4 border border-gray-200 dark:border-gray-700">
           <Text className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-3">
-            Affordability Analysis
+            Kvar att leva på at {affordability.stressTestRate}% Kalkylränta
+          </Text>
+          <KalpSummary kalp={results.kalp} stressTestRate={affordability.stressTestRate} />
+        </View>
+      )}
+
+      {/* Affordability Section - ratios saved before KALP */}
+      {!results.kalp && results.housingCostRatio !== undefined && results.totalDebtRatio !== undefined && affordability && (
+        <View className="bg-white dark:bg-gray-800 rounded-lg p-4 mb-4 border border-gray-200 dark:border-gray-700">
+          <Text className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-3">
+            Affordability at {affordability.stressTestRate}% Kalkylränta
           </Text>
 
-          {/* Front-End DTI */}
           <View className="mb-3">
             {(() => {
-              const status = getDTIStatus(results.frontEndDTI, 'front');
+              const status = getRatioStatus(results.housingCostRatio, 50);
               const Icon = status.icon;
               return (
                 <View className={`${status.bg} rounded-lg p-3 border border-gray-200 dark:border-gray-700`}>
                   <View className="flex-row items-center justify-between mb-1">
                     <Text className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                      Front-End DTI
+                      Housing Cost Ratio
                     </Text>
                     <Icon size={20} color={status.iconColor} />
                   </View>
                   <Text className={`text-2xl font-bold ${status.color}`}>
-                    {formatPercentage(results.frontEndDTI)}
+                    {formatPercentage(results.housingCostRatio)}
                   </Text>
                   <Text className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                    Housing costs / Gross income
+                    Housing costs / Gross income (≤50%)
                   </Text>
                 </View>
               );
             })()}
           </View>
 
-          {/* Back-End DTI */}
           <View className="mb-3">
             {(() => {
-              const status = getDTIStatus(results.backEndDTI, 'back');
+              const status = getRatioStatus(results.totalDebtRatio, 60);
               const Icon = status.icon;
               return (
                 <View className={`${status.bg} rounded-lg p-3 border border-gray-200 dark:border-gray-700`}>
                   <View className="flex-row items-center justify-between mb-1">
                     <Text className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                      Back-End DTI
+                      Total Debt Ratio
                     </Text>
                     <Icon size={20} color={status.iconColor} />
                   </View>
                   <Text className={`text-2xl font-bold ${status.color}`}>
-                    {formatPercentage(results.backEndDTI)}
+                    {formatPercentage(results.totalDebtRatio)}
                   </Text>
                   <Text className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                    All debts / Gross income
+                    All debts / Gross income (≤60%)
                   </Text>
                 </View>
               );
@@ -261,12 +306,12 @@ export function FinancialResults({
 
           {/* Affordability Badge */}
           <View className={`rounded-lg p-4 ${
-            results.canAfford
+            results.canAffordStandard
               ? 'bg-green-50 dark:bg-green-900/20 border-2 border-green-500'
               : 'bg-red-50 dark:bg-red-900/20 border-2 border-red-500'
           }`}>
             <View className="flex-row items-center justify-center">
-              {results.canAfford ? (
+              {results.canAffordStandard ? (
                 <>
                   <CheckCircle size={24} color="#10b981" className="mr-2" />
                   <Text className="text-lg font-bold text-green-700 dark:text-green-400">
@@ -283,46 +328,6 @@ export function FinancialResults({
               )}
             </View>
           </View>
-
-          {/* Loan Type Qualifications */}
-          <View className="mt-4 space-y-2">
-            <Text className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-2">
-              Loan Type Guidelines:
-            </Text>
-
-            <View className="flex-row items-center justify-between">
-              <Text className="text-xs text-gray-600 dark:text-gray-400">
-                Conventional (≤28% / ≤36%)
-              </Text>
-              {results.frontEndDTI <= 28 && results.backEndDTI <= 36 ? (
-                <CheckCircle size={16} color="#10b981" />
-              ) : (
-                <XCircle size={16} color="#ef4444" />
-              )}
-            </View>
-
-            <View className="flex-row items-center justify-between">
-              <Text className="text-xs text-gray-600 dark:text-gray-400">
-                FHA (≤31% / ≤43%)
-              </Text>
-              {results.frontEndDTI <= 31 && results.backEndDTI <= 43 ? (
-                <CheckCircle size={16} color="#10b981" />
-              ) : (
-                <XCircle size={16} color="#ef4444" />
-              )}
-            </View>
-
-            <View className="flex-row items-center justify-between">
-              <Text className="text-xs text-gray-600 dark:text-gray-400">
-                Ideal (≤28% / ≤36%)
-              </Text>
-              {results.frontEndDTI <= 28 && results.backEndDTI <= 36 ? (
-                <CheckCircle size={16} color="#10b981" />
-              ) : (
-                <XCircle size={16} color="#ef4444" />
-              )}
-            </View>
-          </View>
         </View>
       )}
 
@@ -0,0 +1,94 @@
+import { useMemo, useState } from 'react';
+import { View, Text, TextInput } from 'react-native';
+import { calculateKalp, DEFAULT_STRESS_TEST_RATE, formatCurrencySEK } from '../../lib/financial/calculations';
+import {
+  KalpHouseholdInputs,
+  kalpInputFromAffordability,
+  parseKalpHousehold,
+} from './KalpHouseholdInputs';
+import { KalpSummary } from './KalpSummary';
+
+// Bolånetak: at most 85% of the price can be borrowed
+const MAX_LTV = 0.85;
+
+/**
+ * Standalone KALP calculator: how much the household can borrow before picking a
+ * property, and what is left each month for a given loan
+ */
+export function KalpCalculator() {
+  const [household, setHousehold] = useState(() => kalpInputFromAffordability());
+  const [monthlyFee, setMonthlyFee] = useState('');
+  const [loanAmount, setLoanAmount] = useState('');
+
+  const kalp = useMemo(() => {
+    try {
+      return calculateKalp({
+        ...parseKalpHousehold(household),
+        housingOperatingCost: parseFloat(monthlyFee) || 0,
+        loanAmount: parseFloat(loanAmount) || 0,
+      });
+    } catch {
+      // No income yet
+      return null;
+    }
+  }, [household, monthlyFee, loanAmount]);
+
+  const stressTestRate = parseFloat(household.stressTestRate) || DEFAULT_STRESS_TEST_RATE;
+
+  return (
+    <View className="bg-white dark:bg-gray-800 rounded-xl p-4 border border-gray-200 dark:border-gray-700">
+      <Text className="text-xl font-bold text-gray-900 dark:text-white mb-1">KALP – What Can We Borrow?</Text>
+      <Text className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Kvar att leva på the way banks calculate it: net income minus living costs, other loans and the
+        mortgage at the kalkylränta
+      </Text>
+
+      <KalpHouseholdInputs value={household} onChange={setHousehold} />
+
+      <View className="mb-4">
+        <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Monthly Fee or Running Costs
+        </Text>
+        <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
+          <TextInput
+            className="flex-1 text-gray-900 dark:text-white"
+            value={monthlyFee}
+            onChangeText={setMonthlyFee}
+            keyboardType="numeric"
+            placeholder="4000"
+            placeholderTextColor="#9ca3af"
+          />
+          <Text className="text-gray-500 dark:text-gray-400 ml-2">kr</Text>
+        </View>
+      </View>
+
+      <View className="mb-4">
+        <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Loan to Test (Optional)
+        </Text>
+        <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
+          <TextInput
+            className="flex-1 text-gray-900 dark:text-white"
+            value={loanAmount}
+            onChangeText={setLoanAmount}
+            keyboardType="numeric"
+            placeholder="3000000"
+            placeholderTextColor="#9ca3af"
+          />
+          <Text className="text-gray-500 dark:text-gray-400 ml-2">kr</Text>
+        </View>
+      </View>
+
+      {kalp && (
+        <View className="pt-4 border-t border-gray-200 dark:border-gray-700">
+          <KalpSummary kalp={kalp} stressTestRate={stressTestRate} showSurplus={!!parseFloat(loanAmount)} />
+          {kalp.maxLoan > 0 && (
+            <Text className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+              With 15% kontantinsats that is a price up to {formatCurrencySEK(kalp.maxLoan / MAX_LTV)}
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
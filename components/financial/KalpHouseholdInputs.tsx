@@ -0,0 +1,187 @@
+import { View, Text, TextInput, Pressable } from 'react-native';
+import { DEFAULT_MUNICIPAL_TAX_RATE, DEFAULT_STRESS_TEST_RATE, type KalpParams } from '../../lib/financial/calculations';
+import type { FinancialData } from '../../lib/store/propertyLinkStore';
+import type { HouseholdProfile } from '../../lib/types/household';
+
+const CHILDREN_OPTIONS = [0, 1, 2, 3, 4];
+
+/**
+ * The household as typed into the form; amounts and rates are strings
+ */
+export interface KalpHouseholdInput {
+  adultIncomes: string[];       // Gross monthly income per adult
+  children: number;
+  municipalTaxRate: string;     // Percent
+  otherLoans: string;
+  carCosts: string;
+  stressTestRate: string;       // Percent
+}
+
+/**
+ * Form values from stored affordability settings, or an empty one-adult household
+ */
+export function kalpInputFromAffordability(affordability?: FinancialData['affordability']): KalpHouseholdInput {
+  const adultIncomes = affordability?.adultIncomes ?? (affordability ? [affordability.grossMonthlyIncome] : []);
+  return {
+    adultIncomes: adultIncomes.length > 0 ? adultIncomes.map((income) => income.toString()) : [''],
+    children: affordability?.children ?? 0,
+    municipalTaxRate: ((affordability?.municipalTaxRate ?? DEFAULT_MUNICIPAL_TAX_RATE) * 100).toString(),
+    otherLoans: affordability?.monthlyOtherDebts ? affordability.monthlyOtherDebts.toString() : '',
+    carCosts: affordability?.carCostsMonthly ? affordability.carCostsMonthly.toString() : '',
+    stressTestRate: (affordability?.stressTestRate ?? DEFAULT_STRESS_TEST_RATE).toString(),
+  };
+}
+
+/**
+ * Form values from the saved household profile
+ */
+export function kalpInputFromProfile(profile: HouseholdProfile): KalpHouseholdInput {
+  return {
+    adultIncomes: profile.members.length > 0
+      ? profile.members.map((member) => member.grossMonthlyIncome.toString())
+      : [''],
+    children: profile.children,
+    municipalTaxRate: ((profile.municipalTaxRate ?? DEFAULT_MUNICIPAL_TAX_RATE) * 100).toString(),
+    otherLoans: profile.otherLoansMonthly ? profile.otherLoansMonthly.toString() : '',
+    carCosts: profile.carCostsMonthly ? profile.carCostsMonthly.toString() : '',
+    stressTestRate: (profile.stressTestRate ?? DEFAULT_STRESS_TEST_RATE).toString(),
+  };
+}
+
+/**
+ * Fill the fields still empty (or at their defaults) from the household profile,
+ * keeping everything already typed
+ */
+export function mergeKalpInputFromProfile(current: KalpHouseholdInput, profile: HouseholdProfile): KalpHouseholdInput {
+  const blank = kalpInputFromAffordability();
+  const fromProfile = kalpInputFromProfile(profile);
+  const pick = <K extends keyof KalpHouseholdInput>(key: K): KalpHouseholdInput[K] =>
+    current[key] === blank[key] ? fromProfile[key] : current[key];
+
+  return {
+    adultIncomes: current.adultIncomes.every((income) => !income.trim())
+      ? fromProfile.adultIncomes
+      : current.adultIncomes,
+    children: pick('children'),
+    municipalTaxRate: pick('municipalTaxRate'),
+    otherLoans: pick('otherLoans'),
+    carCosts: pick('carCosts'),
+    stressTestRate: pick('stressTestRate'),
+  };
+}
+
+/**
+ * KALP parameters for the household, without the loan and housing costs
+ *
+ * @throws Error if no adult has an income
+ */
+export function parseKalpHousehold(
+  input: KalpHouseholdInput
+): Pick<KalpParams, 'adultGrossMonthlyIncomes' | 'children' | 'municipalTaxRate' | 'otherLoansMonthly' | 'carCostsMonthly' | 'stressTestRate'> {
+  const adultGrossMonthlyIncomes = input.adultIncomes.map((income) => parseFloat(income) || 0);
+  if (!adultGrossMonthlyIncomes.some((income) => income > 0)) {
+    throw new Error('Please fill in the household income');
+  }
+  return {
+    adultGrossMonthlyIncomes,
+    children: input.children,
+    municipalTaxRate: (parseFloat(input.municipalTaxRate) || DEFAULT_MUNICIPAL_TAX_RATE * 100) / 100,
+    otherLoansMonthly: parseFloat(input.otherLoans) || 0,
+    carCostsMonthly: parseFloat(input.carCosts) || 0,
+    stressTestRate: parseFloat(input.stressTestRate) || DEFAULT_STRESS_TEST_RATE,
+  };
+}
+
+interface KalpHouseholdInputsProps {
+  value: KalpHouseholdInput;
+  onChange: (value: KalpHouseholdInput) => void;
+}
+
+/**
+ * Household inputs for the KALP calculation: income per adult, children,
+ * other loans, car costs, kommunalskatt and kalkylränta
+ */
+export function KalpHouseholdInputs({ value, onChange }: KalpHouseholdInputsProps) {
+  const update = (changes: Partial<KalpHouseholdInput>) => onChange({ ...value, ...changes });
+
+  const setAdults = (count: number) =>
+    update({
+      adultIncomes: count === 1 ? value.adultIncomes.slice(0, 1) : [value.adultIncomes[0] ?? '', value.adultIncomes[1] ?? ''],
+    });
+
+  const field = (
+    label: string,
+    fieldValue: string,
+    onChangeText: (text: string) => void,
+    placeholder: string,
+    unit: string
+  ) => (
+    <View className="mb-4">
+      <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</Text>
+      <View className="flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2">
+        <TextInput
+          className="flex-1 text-gray-900 dark:text-white"
+          value={fieldValue}
+          onChangeText={onChangeText}
+          keyboardType={unit === '%' ? 'decimal-pad' : 'numeric'}
+          placeholder={placeholder}
+          placeholderTextColor="#9ca3af"
+        />
+        <Text className="text-gray-500 dark:text-gray-400 ml-2">{unit}</Text>
+      </View>
+    </View>
+  );
+
+  const chipClass = (isActive: boolean) =>
+    `flex-1 py-2 rounded-lg border-2 ${
+      isActive ? 'bg-blue-500 border-blue-500' : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600'
+    }`;
+
+  const chipTextClass = (isActive: boolean) =>
+    `text-center font-medium ${isActive ? 'text-white' : 'text-gray-700 dark:text-gray-300'}`;
+
+  return (
+    <View>
+      {/* Adults */}
+      <View className="mb-4">
+        <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Adults</Text>
+        <View className="flex-row gap-2">
+          {[1, 2].map((count) => (
+            <Pressable key={count} onPress={() => setAdults(count)} className={chipClass(value.adultIncomes.length === count)}>
+              <Text className={chipTextClass(value.adultIncomes.length === count)}>{count}</Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      {value.adultIncomes.map((income, index) => (
+        <View key={index}>
+          {field(
+            value.adultIncomes.length > 1 ? `Gross Monthly Income, Adult ${index + 1}` : 'Gross Monthly Income',
+            income,
+            (text) => update({ adultIncomes: value.adultIncomes.map((item, i) => (i === index ? text : item)) }),
+            '40000',
+            'kr'
+          )}
+        </View>
+      ))}
+
+      {/* Children */}
+      <View className="mb-4">
+        <Text className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Children</Text>
+        <View className="flex-row gap-2">
+          {CHILDREN_OPTIONS.map((count) => (
+            <Pressable key={count} onPress={() => update({ children: count })} className={chipClass(value.children === count)}>
+              <Text className={chipTextClass(value.children === count)}>{count}</Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      {field('Other Loans (Monthly)', value.otherLoans, (otherLoans) => update({ otherLoans }), '2000', 'kr')}
+      {field('Car Costs (Monthly)', value.carCosts, (carCosts) => update({ carCosts }), '3000', 'kr')}
+      {field('Municipal Tax (Kommunalskatt)', value.municipalTaxRate, (municipalTaxRate) => update({ municipalTaxRate }), '32', '%')}
+      {field('Stress Test Rate (Kalkylränta)', value.stressTestRate, (stressTestRate) => update({ stressTestRate }), '7', '%')}
+    </View>
+  );
+}
@@ -0,0 +1,58 @@
+import { View, Text } from 'react-native';
+import { formatCurrencySEK, type KalpResult } from '../../lib/financial/calculations';
+
+interface KalpSummaryProps {
+  kalp: KalpResult;
+  stressTestRate: number;
+  // Hide the surplus when no loan was tested, only the maximum is meaningful then
+  showSurplus?: boolean;
+}
+
+/**
+ * KALP outcome: maximum loan, surplus for the tested loan and the monthly budget behind it
+ */
+export function KalpSummary({ kalp, stressTestRate, showSurplus = true }: KalpSummaryProps) {
+  const row = (label: string, value: number, sign = '') => (
+    <View className="flex-row justify-between">
+      <Text className="text-sm text-gray-600 dark:text-gray-400">{label}</Text>
+      <Text className="text-sm text-gray-900 dark:text-white">
+        {sign}
+        {formatCurrencySEK(value)}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View>
+      <View className="flex-row gap-3 mb-3">
+        <View className="flex-1 bg-blue-50 dark:bg-blue-900/20 rounded-lg p-3">
+          <Text className="text-xs text-gray-600 dark:text-gray-400">Maximum loan</Text>
+          <Text className="text-xl font-bold text-blue-700 dark:text-blue-400">{formatCurrencySEK(kalp.maxLoan)}</Text>
+        </View>
+        {showSurplus && (
+          <View
+            className={`flex-1 rounded-lg p-3 ${
+              kalp.passes ? 'bg-green-50 dark:bg-green-900/20' : 'bg-red-50 dark:bg-red-900/20'
+            }`}
+          >
+            <Text className="text-xs text-gray-600 dark:text-gray-400">Kvar att leva på</Text>
+            <Text
+              className={`text-xl font-bold ${
+                kalp.passes ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'
+              }`}
+            >
+              {formatCurrencySEK(kalp.monthlySurplus)}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      <View className="space-y-1">
+        {row('Net income', kalp.netMonthlyIncome)}
+        {row('Living costs', kalp.livingCosts, '−')}
+        {kalp.otherCosts > 0 && row('Other loans and car', kalp.otherCosts, '−')}
+        {showSurplus && row(`Housing at ${stressTestRate}%`, kalp.housingCost, '−')}
+      </View>
+    </View>
+  );
+}
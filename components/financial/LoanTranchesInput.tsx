@@ -0,0 +1,120 @@
+import { View, Text, TextInput, Pressable } from 'react-native';
+
+export const BINDING_OPTIONS = [
+  { years: 0, label: 'Rörlig' },
+  { years: 1, label: '1 år' },
+  { years: 3, label: '3 år' },
+  { years: 5, label: '5 år' },
+];
+
+/**
+ * A tranche as typed into the form; rates and shares are percent strings
+ */
+export interface TrancheInput {
+  sharePercent: string;
+  rate: string;
+  bindingYears: number;
+}
+
+interface LoanTranchesInputProps {
+  tranches: TrancheInput[];
+  onChange: (tranches: TrancheInput[]) => void;
+}
+
+/**
+ * Rows of loan parts, each with its share of the loan, rate and binding period
+ */
+export function LoanTranchesInput({ tranches, onChange }: LoanTranchesInputProps) {
+  const totalShare = tranches.reduce((sum, tranche) => sum + (parseFloat(tranche.sharePercent) || 0), 0);
+
+  const update = (index: number, changes: Partial<TrancheInput>) =>
+    onChange(tranches.map((tranche, i) => (i === index ? { ...tranche, ...changes } : tranche)));
+
+  const add = () => {
+    const usedYears = tranches.map((tranche) => tranche.bindingYears);
+    const nextBinding = BINDING_OPTIONS.find((option) => !usedYears.includes(option.years))?.years ?? 0;
+    onChange([
+      ...tranches,
+      { sharePercent: Math.max(0, 100 - totalShare).toString(), rate: '', bindingYears: nextBinding },
+    ]);
+  };
+
+  return (
+    <View>
+      {tranches.map((tranche, index) => (
+        <View key={index} className="mb-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700">
+          <View className="flex-row items-center justify-between mb-2">
+            <Text className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Part {index + 1}
+            </Text>
+            <Pressable onPress={() => onChange(tranches.filter((_, i) => i !== index))}>
+              <Text className="text-gray-400">✕</Text>
+            </Pressable>
+          </View>
+
+          <View className="flex-row gap-2 mb-2">
+            {BINDING_OPTIONS.map((option) => (
+              <Pressable
+                key={option.years}
+                onPress={() => update(index, { bindingYears: option.years })}
+                className={`flex-1 py-1 rounded-lg border ${
+                  tranche.bindingYears === option.years
+                    ? 'bg-blue-500 border-blue-500'
+                    : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600'
+                }`}
+              >
+                <Text
+                  className={`text-center text-xs font-medium ${
+                    tranche.bindingYears === option.years
+                      ? 'text-white'
+                      : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  {option.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <View className="flex-row gap-2">
+            <View className="flex-1 flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 bg-white dark:bg-gray-800">
+              <TextInput
+                className="flex-1 text-gray-900 dark:text-white"
+                value={tranche.sharePercent}
+                onChangeText={(sharePercent) => update(index, { sharePercent })}
+                keyboardType="decimal-pad"
+                placeholder="50"
+                placeholderTextColor="#9ca3af"
+              />
+              <Text className="text-gray-500 dark:text-gray-400 ml-2">% of loan</Text>
+            </View>
+            <View className="flex-1 flex-row items-center border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 bg-white dark:bg-gray-800">
+              <TextInput
+                className="flex-1 text-gray-900 dark:text-white"
+                value={tranche.rate}
+                onChangeText={(rate) => update(index, { rate })}
+                keyboardType="decimal-pad"
+                placeholder="3.5"
+                placeholderTextColor="#9ca3af"
+              />
+              <Text className="text-gray-500 dark:text-gray-400 ml-2">% rate</Text>
+            </View>
+          </View>
+        </View>
+      ))}
+
+      <View className="flex-row items-center justify-between">
+        <Pressable onPress={add}>
+          <Text className="text-sm text-blue-600 dark:text-blue-400">+ Add part</Text>
+        </Pressable>
+        <Text
+          className={`text-xs ${
+            Math.abs(totalShare - 100) > 0.01 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+          }`}
+        >
+          {totalShare}% of the loan
+        </Text>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,103 @@
+import { useMemo } from 'react';
+import { View, Text } from 'react-native';
+import type { FinancialData } from '../../lib/store/propertyLinkStore';
+import { calculateRateScenario, formatCurrencySEK } from '../../lib/financial/calculations';
+import { BINDING_OPTIONS } from './LoanTranchesInput';
+
+interface RateScenarioTimelineProps {
+  mortgage: NonNullable<FinancialData['mortgage']>;
+  rateScenario?: FinancialData['rateScenario'];
+}
+
+const DEFAULT_RATE_INCREASE = 0.02;
+
+function bindingLabel(years: number) {
+  return BINDING_OPTIONS.find((option) => option.years === years)?.label ?? `${years} år`;
+}
+
+/**
+ * Monthly cost over the next ten years at today's rates next to the cost when
+ * rates rise as each binding period ends
+ */
+export function RateScenarioTimeline({ mortgage, rateScenario }: RateScenarioTimelineProps) {
+  const rateIncrease = rateScenario?.rateIncrease ?? DEFAULT_RATE_INCREASE;
+
+  const scenario = useMemo(() => {
+    try {
+      return calculateRateScenario(mortgage, rateIncrease);
+    } catch {
+      // Stored data from before the loan was valid - nothing to show
+      return null;
+    }
+  }, [mortgage, rateIncrease]);
+
+  if (!scenario || scenario.current.length === 0) return null;
+
+  const increaseLabel = `+${Math.round(rateIncrease * 1000) / 10} pp`;
+  const extraInterest = scenario.stressedInterest - scenario.currentInterest;
+
+  return (
+    <View className="bg-white dark:bg-gray-800 rounded-lg p-4 mb-4 border border-gray-200 dark:border-gray-700">
+      <Text className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-3">
+        Rate Scenario ({increaseLabel} after binding)
+      </Text>
+
+      {mortgage.tranches && mortgage.tranches.length > 0 && (
+        <View className="mb-3">
+          {mortgage.tranches.map((tranche, index) => (
+            <Text key={index} className="text-xs text-gray-600 dark:text-gray-400">
+              {tranche.sharePercent}% {bindingLabel(tranche.bindingYears)} at{' '}
+              {(tranche.annualInterestRate * 100).toFixed(2)}%
+            </Text>
+          ))}
+        </View>
+      )}
+
+      <View className="flex-row py-1 border-b border-gray-200 dark:border-gray-700">
+        <Text className="w-10 text-xs font-semibold text-gray-600 dark:text-gray-400">Year</Text>
+        <Text className="w-12 text-xs font-semibold text-gray-600 dark:text-gray-400 text-right">Rate</Text>
+        <Text className="flex-1 text-xs font-semibold text-gray-600 dark:text-gray-400 text-right">Monthly</Text>
+        <Text className="w-12 text-xs font-semibold text-gray-600 dark:text-gray-400 text-right">Rate</Text>
+        <Text className="flex-1 text-xs font-semibold text-gray-600 dark:text-gray-400 text-right">
+          {increaseLabel}
+        </Text>
+      </View>
+      {scenario.current.map((year, index) => {
+        const stressed = scenario.stressed[index];
+        return (
+          <View key={year.year} className="flex-row py-1 border-b border-gray-100 dark:border-gray-700">
+            <Text className="w-10 text-xs text-gray-900 dark:text-white">{year.year}</Text>
+            <Text className="w-12 text-xs text-gray-900 dark:text-white text-right">{year.averageRate}%</Text>
+            <Text className="flex-1 text-xs text-gray-900 dark:text-white text-right">
+              {formatCurrencySEK(year.monthlyPayment)}
+            </Text>
+            <Text className="w-12 text-xs text-gray-900 dark:text-white text-right">{stressed.averageRate}%</Text>
+            <Text
+              className={`flex-1 text-xs text-right ${
+                stressed.monthlyPayment > year.monthlyPayment
+                  ? 'text-red-600 dark:text-red-400'
+                  : 'text-gray-900 dark:text-white'
+              }`}
+            >
+              {formatCurrencySEK(stressed.monthlyPayment)}
+            </Text>
+          </View>
+        );
+      })}
+
+      <View className="flex-row justify-between pt-3">
+        <Text className="text-sm text-gray-600 dark:text-gray-400">
+          Interest over {scenario.current.length} years
+        </Text>
+        <Text className="text-sm font-semibold text-gray-900 dark:text-white">
+          {formatCurrencySEK(scenario.currentInterest)} → {formatCurrencySEK(scenario.stressedInterest)}
+        </Text>
+      </View>
+      {extraInterest > 0 && (
+        <Text className="text-xs text-red-600 dark:text-red-400 text-right mt-1">
+          +{formatCurrencySEK(extraInterest)} if rates rise
+        </Text>
+      )}
+    </View>
+  );
+}
@@ -1,2 +1,8 @@
 export { FinancialCalculatorForm } from './FinancialCalculatorForm';
 export { FinancialResults } from './FinancialResults';
+export { AmortizationSchedule } from './AmortizationSchedule';
+export { LoanTranchesInput } from './LoanTranchesInput';
+export { RateScenarioTimeline } from './RateScenarioTimeline';
+export { KalpHouseholdInputs } from './KalpHouseholdInputs';
+export { KalpSummary } from './KalpSummary';
+export { KalpCalculator } from './KalpCalculator';
@@ -0,0 +1,77 @@
+import { useMemo } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { useHouseholdProfile } from '../../lib/query/useHouseholdProfile';
+import { calculateAffordabilitySummary } from '../../lib/utils/householdBudget';
+import { formatCurrencySEK } from '../../lib/financial/calculations';
+import type { BudgetStatus, PropertyBudget } from '../../lib/types/household';
+
+export const BUDGET_STATUS_LABELS: Record<Exclude<BudgetStatus, 'unknown'>, string> = {
+  within: 'Inom budget',
+  over: 'Över budget',
+};
+
+interface HouseholdBudgetSummaryProps {
+  // Budget per saved property, from evaluatePropertyLinkBudgets
+  budgets: Record<string, PropertyBudget>;
+  onEdit: () => void;
+}
+
+/**
+ * "Vad har vi råd med?" - the household's maximum loan and price and how many
+ * saved properties are within or over budget
+ */
+export function HouseholdBudgetSummary({ budgets, onEdit }: HouseholdBudgetSummaryProps) {
+  const { profile, isLoading } = useHouseholdProfile();
+  const summary = useMemo(() => (profile ? calculateAffordabilitySummary(profile) : null), [profile]);
+
+  if (isLoading) return null;
+
+  const statuses = Object.values(budgets).map((budget) => budget.status);
+  const withinCount = statuses.filter((status) => status === 'within').length;
+  const overCount = statuses.filter((status) => status === 'over').length;
+
+  return (
+    <View className="bg-white rounded-xl shadow-md p-4 mb-4">
+      <View className="flex-row items-center justify-between mb-2">
+        <Text className="text-base font-semibold text-gray-900">Vad har vi råd med?</Text>
+        <Pressable onPress={onEdit}>
+          <Text className="text-sm font-medium text-blue-600">{profile ? 'Ändra hushåll' : 'Fyll i hushåll'}</Text>
+        </Pressable>
+      </View>
+
+      {!summary ? (
+        <Text className="text-sm text-gray-500">
+          Fyll i inkomst och sparpengar en gång, så räknas lånelöfte och budget ut för varje bostad.
+        </Text>
+      ) : (
+        <View>
+          <View className="flex-row gap-3 mb-2">
+            <View className="flex-1">
+              <Text className="text-xs text-gray-500">Maxpris</Text>
+              <Text className="text-lg font-bold text-gray-900">{formatCurrencySEK(summary.maxPrice)}</Text>
+            </View>
+            <View className="flex-1">
+              <Text className="text-xs text-gray-500">Maxlån</Text>
+              <Text className="text-lg font-bold text-gray-900">{formatCurrencySEK(summary.maxLoan)}</Text>
+            </View>
+          </View>
+          <View className="flex-row flex-wrap gap-2">
+            <View className="bg-green-100 px-2 py-1 rounded-full">
+              <Text className="text-green-800 text-xs font-semibold">
+                {withinCount} {BUDGET_STATUS_LABELS.within.toLowerCase()}
+              </Text>
+            </View>
+            <View className="bg-red-100 px-2 py-1 rounded-full">
+              <Text className="text-red-800 text-xs font-semibold">
+                {overCount} {BUDGET_STATUS_LABELS.over.toLowerCase()}
+              </Text>
+            </View>
+          </View>
+          <Text className="text-xs text-gray-500 mt-2">
+            Maxpris före avgift och drift, med 15 % kontantinsats av sparpengarna
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { View, Text, Pressable, TextInput } from 'react-native';
+import { useHouseholdProfile } from '../../lib/query/useHouseholdProfile';
+import { DEFAULT_MUNICIPAL_TAX_RATE, DEFAULT_STRESS_TEST_RATE } from '../../lib/financial/calculations';
+import type { HouseholdProfile } from '../../lib/types/household';
+
+const CHILDREN_OPTIONS = [0, 1, 2, 3, 4];
+
+// The profile as typed into the form; amounts and rates are strings
+interface HouseholdForm {
+  members: { name: string; income: string }[];
+  children: number;
+  savings: string;
+  otherLoans: string;
+  carCosts: string;
+  municipalTaxRate: string;     // Percent
+  interestRate: string;         // Percent
+  stressTestRate: string;       // Percent
+}
+
+const amountText = (value?: number) => (value ? value.toString() : '');
+const percentText = (value?: number) => (value !== undefined ? (Math.round(value * 10000) / 100).toString() : '');
+
+function profileToForm(profile: HouseholdProfile | null): HouseholdForm {
+  return {
+    members: profile?.members.length
+      ? profile.members.map((member) => ({ name: member.name, income: amountText(member.grossMonthlyIncome) }))
+      : [{ name: '', income: '' }],
+    children: profile?.children ?? 0,
+    savings: amountText(profile?.savings),
+    otherLoans: amountText(profile?.otherLoansMonthly),
+    carCosts: amountText(profile?.carCostsMonthly),
+    municipalTaxRate: percentText(profile?.municipalTaxRate ?? DEFAULT_MUNICIPAL_TAX_RATE),
+    interestRate: percentText(profile?.interestRate),
+    stressTestRate: (profile?.stressTestRate ?? DEFAULT_STRESS_TEST_RATE).toString(),
+  };
+}
+
+interface HouseholdProfilePanelProps {
+  // Called once the profile has been saved
+  onSaved?: () => void;
+}
+
+/**
+ * The household's income, savings, loans and preferred rates, shared by the
+ * space. The calculator starts from it and the list and map judge every
+ * property against it.
+ */
+export function HouseholdProfilePanel({ onSaved }: HouseholdProfilePanelProps) {
+  const { profile, saveHouseholdProfileAsync, isSavingHouseholdProfile } = useHouseholdProfile();
+  const [form, setForm] = useState<HouseholdForm>(() => profileToForm(profile));
+  const [error, setError] = useState<string | null>(null);
+
+  // Refill when the profile loads or the space changes
+  useEffect(() => {
+    setForm(profileToForm(profile));
+  }, [profile]);
+
+  const update = (changes: Partial<HouseholdForm>) => setForm({ ...form, ...changes });
+
+  const updateMember = (index: number, changes: Partial<HouseholdForm['members'][0]>) =>
+    update({ members: form.members.map((member, i) => (i === index ? { ...member, ...changes } : member)) });
+
+  const setMemberCount = (count: number) =>
+    update({
+      members: count === 1 ? form.members.slice(0, 1) : [form.members[0], form.members[1] ?? { name: '', income: '' }],
+    });
+
+  const handleSave = async () => {
+    setError(null);
+    const members = form.members.map((member) => ({
+      name: member.name,
+      grossMonthlyIncome: parseFloat(member.income) || 0,
+    }));
+    if (!members.some((member) => member.grossMonthlyIncome > 0)) {
+      setError('Fyll i inkomsten för minst en person');
+      return;
+    }
+
+    try {
+      await saveHouseholdProfileAsync({
+        members,
+        children: form.children,
+        savings: parseFloat(form.savings) || 0,
+        otherLoansMonthly: parseFloat(form.otherLoans) || 0,
+        carCostsMonthly: parseFloat(form.carCosts) || 0,
+        municipalTaxRate: form.municipalTaxRate ? parseFloat(form.municipalTaxRate) / 100 : undefined,
+        interestRate: form.interestRate ? parseFloat(form.interestRate) / 100 : undefined,
+        stressTestRate: parseFloat(form.stressTestRate) || undefined,
+      });
+      onSaved?.();
+    } catch (err: any) {
+      setError(err.message || 'Kunde inte spara hushållet');
+    }
+  };
+
+  const chipClass = (isActive: boolean) =>
+    `px-3 py-1.5 rounded-full border ${
+      isActive ? 'bg-blue-600 border-blue-600' : 'bg-white border-gray-300'
+    }`;
+
+  const chipTextClass = (isActive: boolean) =>
+    `text-sm font-medium ${isActive ? 'text-white' : 'text-gray-700'}`;
+
+  const section = (title: string, children: React.ReactNode) => (
+    <View className="mb-4">
+      <Text className="text-sm font-semibold text-gray-700 mb-2">{title}</Text>
+      {children}
+    </View>
+  );
+
+  const numberInput = (value: string, onChangeText: (text: string) => void, placeholder: string, unit: string) => (
+    <View className="flex-row items-center border border-gray-300 rounded-lg px-3 py-2 bg-white">
+      <TextInput
+        className="flex-1 text-sm text-gray-900"
+        value={value}
+        onChangeText={onChangeText}
+        keyboardType={unit === '%' ? 'decimal-pad' : 'numeric'}
+        placeholder={placeholder}
+        placeholderTextColor="#9ca3af"
+      />
+      <Text className="text-sm text-gray-500 ml-2">{unit}</Text>
+    </View>
+  );
+
+  return (
+    <View>
+      {section(
+        'Vuxna',
+        <View>
+          <View className="flex-row gap-2 mb-2">
+            {[1, 2].map((count) => (
+              <Pressable key={count} onPress={() => setMemberCount(count)} className={chipClass(form.members.length === count)}>
+                <Text className={chipTextClass(form.members.length === count)}>{count}</Text>
+              </Pressable>
+            ))}
+          </View>
+          {form.members.map((member, index) => (
+            <View key={index} className="flex-row gap-2 mb-2">
+              <TextInput
+                value={member.name}
+                onChangeText={(name) => updateMember(index, { name })}
+                placeholder={`Person ${index + 1}`}
+                placeholderTextColor="#9ca3af"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm"
+              />
+              <View className="flex-1">
+                {numberInput(member.income, (income) => updateMember(index, { income }), 'Bruttolön', 'kr/mån')}
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {section(
+        'Barn',
+        <View className="flex-row flex-wrap gap-2">
+          {CHILDREN_OPTIONS.map((count) => (
+            <Pressable key={count} onPress={() => update({ children: count })} className={chipClass(form.children === count)}>
+              <Text className={chipTextClass(form.children === count)}>{count}</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      {section('Sparat till kontantinsats', numberInput(form.savings, (savings) => update({ savings }), '750000', 'kr'))}
+
+      {section(
+        'Andra kostnader',
+        <View className="flex-row gap-2">
+          <View className="flex-1">
+            {numberInput(form.otherLoans, (otherLoans) => update({ otherLoans }), 'Lån', 'kr/mån')}
+          </View>
+          <View className="flex-1">
+            {numberInput(form.carCosts, (carCosts) => update({ carCosts }), 'Bil', 'kr/mån')}
+          </View>
+        </View>
+      )}
+
+      {section(
+        'Räntor och skatt',
+        <View className="gap-2">
+          <View className="flex-row items-center gap-2">
+            <Text className="text-sm text-gray-600 w-28">Bolåneränta</Text>
+            <View className="flex-1">
+              {numberInput(form.interestRate, (interestRate) => update({ interestRate }), '3.5', '%')}
+            </View>
+          </View>
+          <View className="flex-row items-center gap-2">
+            <Text className="text-sm text-gray-600 w-28">Kalkylränta</Text>
+            <View className="flex-1">
+              {numberInput(form.stressTestRate, (stressTestRate) => update({ stressTestRate }), '7', '%')}
+            </View>
+          </View>
+          <View className="flex-row items-center gap-2">
+            <Text className="text-sm text-gray-600 w-28">Kommunalskatt</Text>
+            <View className="flex-1">
+              {numberInput(form.municipalTaxRate, (municipalTaxRate) => update({ municipalTaxRate }), '32', '%')}
+            </View>
+          </View>
+        </View>
+      )}
+
+      {error && <Text className="text-sm text-red-600 mb-2">{error}</Text>}
+
+      <Pressable
+        onPress={handleSave}
+        disabled={isSavingHouseholdProfile}
+        className={`px-4 py-2 rounded-lg self-start ${isSavingHouseholdProfile ? 'bg-gray-300' : 'bg-blue-600'}`}
+      >
+        <Text className="text-white font-semibold">{isSavingHouseholdProfile ? 'Sparar...' : 'Spara hushåll'}</Text>
+      </Pressable>
+    </View>
+  );
+}
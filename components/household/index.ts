@@ -0,0 +1,2 @@
+export { HouseholdProfilePanel } from './HouseholdProfilePanel';
+export { HouseholdBudgetSummary, BUDGET_STATUS_LABELS } from './HouseholdBudgetSummary';
@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { View, Text, Pressable, TextInput, ScrollView } from 'react-native';
+import { useIdentity } from '../../lib/query/useIdentity';
+import { useSavedPlaces } from '../../lib/query/useSavedPlaces';
+import { CommuteMode, SavedPlaceKind } from '../../lib/types/savedPlace';
+import { COMMUTE_MODES, LatLng } from '../../lib/utils/commute';
+
+export const PLACE_KIND_OPTIONS: { key: SavedPlaceKind; label: string; icon: string }[] = [
+  { key: 'work', label: 'Jobb', icon: '💼' },
+  { key: 'school', label: 'Skola', icon: '🎒' },
+  { key: 'family', label: 'Familj', icon: '🏡' },
+  { key: 'other', label: 'Annat', icon: '📍' },
+];
+
+export const COMMUTE_MODE_LABELS: Record<CommuteMode, string> = {
+  walk: 'Gång',
+  bike: 'Cykel',
+  transit: 'Kollektivt',
+};
+
+const REACHABLE_MINUTES = [15, 30, 45];
+
+/**
+ * What the map shades around each saved place, null when the overlay is off
+ */
+export interface ReachableOverlay {
+  mode: CommuteMode;
+  minutes: number;
+}
+
+export function placeKindIcon(kind: SavedPlaceKind): string {
+  return PLACE_KIND_OPTIONS.find((option) => option.key === kind)?.icon ?? '📍';
+}
+
+interface SavedPlacesPanelProps {
+  // Point picked on the map for a new place, null until the user has picked one
+  draftPoint: LatLng | null;
+  isPicking: boolean;
+  onStartPicking: () => void;
+  // Leaves pick mode, also called after a place is saved
+  onStopPicking: () => void;
+  reachable: ReachableOverlay | null;
+  onReachableChange: (overlay: ReachableOverlay | null) => void;
+}
+
+/**
+ * Important places of the space (work, school, family) for commute estimates.
+ * New places are picked on the map; the panel only asks for a name and kind.
+ */
+export function SavedPlacesPanel({
+  draftPoint,
+  isPicking,
+  onStartPicking,
+  onStopPicking,
+  reachable,
+  onReachableChange,
+}: SavedPlacesPanelProps) {
+  const { sharedBy } = useIdentity();
+  const { savedPlaces, deleteSavedPlace, createSavedPlaceAsync, isCreatingSavedPlace } = useSavedPlaces();
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<SavedPlaceKind>('work');
+
+  const chipClass = (isActive: boolean) =>
+    `px-3 py-1.5 rounded-full border ${
+      isActive ? 'bg-blue-600 border-blue-600' : 'bg-white border-gray-300'
+    }`;
+
+  const chipTextClass = (isActive: boolean) =>
+    `text-sm font-medium ${isActive ? 'text-white' : 'text-gray-700'}`;
+
+  const section = (title: string, children: React.ReactNode) => (
+    <View className="mb-4">
+      <Text className="text-sm font-semibold text-gray-700 mb-2">{title}</Text>
+      {children}
+    </View>
+  );
+
+  const stopPicking = () => {
+    setName('');
+    onStopPicking();
+  };
+
+  const handleSave = async () => {
+    if (!draftPoint || !name.trim()) return;
+
+    try {
+      await createSavedPlaceAsync({ name, kind, ...draftPoint, createdBy: sharedBy });
+      stopPicking();
+    } catch (error) {
+      console.error('Error saving place:', error);
+    }
+  };
+
+  const reachableMode = reachable?.mode ?? 'bike';
+  const reachableMinutes = reachable?.minutes ?? 30;
+
+  return (
+    <ScrollView>
+      {section(
+        'Viktiga platser',
+        <View>
+          {savedPlaces.length === 0 && !isPicking && (
+            <Text className="text-sm text-gray-500 mb-2">
+              Lägg till jobb, skola eller familj för att se restider från varje bostad.
+            </Text>
+          )}
+          {savedPlaces.map((place) => (
+            <View key={place.id} className="flex-row items-center justify-between py-1">
+              <Text className="text-sm text-gray-800 flex-1" numberOfLines={1}>
+                {placeKindIcon(place.kind)} {place.name}
+              </Text>
+              <Pressable
+                onPress={() => deleteSavedPlace(place.id)}
+                className="px-1"
+                accessibilityLabel={`Ta bort ${place.name}`}
+              >
+                <Text className="text-gray-400">✕</Text>
+              </Pressable>
+            </View>
+          ))}
+
+          {!isPicking ? (
+            <Pressable onPress={onStartPicking} className="mt-2 px-4 py-2 rounded-lg bg-blue-600 self-start">
+              <Text className="text-white font-semibold">+ Lägg till plats</Text>
+            </Pressable>
+          ) : !draftPoint ? (
+            <View className="flex-row items-center justify-between mt-2">
+              <Text className="text-sm text-gray-600 flex-1">Välj platsen på kartan</Text>
+              <Pressable onPress={stopPicking} className="px-3 py-1.5 rounded-lg bg-gray-200">
+                <Text className="text-gray-700 font-medium">Avbryt</Text>
+              </Pressable>
+            </View>
+          ) : (
+            <View className="mt-2">
+              <TextInput
+                value={name}
+                onChangeText={setName}
+                onSubmitEditing={handleSave}
+                placeholder="T.ex. Jobbet"
+                placeholderTextColor="#9ca3af"
+                className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm mb-2"
+                autoFocus
+              />
+              <View className="flex-row flex-wrap gap-2 mb-2">
+                {PLACE_KIND_OPTIONS.map((option) => (
+                  <Pressable key={option.key} onPress={() => setKind(option.key)} className={chipClass(kind === option.key)}>
+                    <Text className={chipTextClass(kind === option.key)}>
+                      {option.icon} {option.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              <View className="flex-row gap-2">
+                <Pressable
+                  onPress={handleSave}
+                  disabled={!name.trim() || isCreatingSavedPlace}
+                  className={`px-4 py-2 rounded-lg ${
+                    !name.trim() || isCreatingSavedPlace ? 'bg-gray-300' : 'bg-blue-600'
+                  }`}
+                >
+                  <Text className="text-white font-semibold">{isCreatingSavedPlace ? 'Sparar...' : 'Spara'}</Text>
+                </Pressable>
+                <Pressable onPress={stopPicking} className="px-4 py-2 rounded-lg bg-gray-200">
+                  <Text className="text-gray-700 font-medium">Avbryt</Text>
+                </Pressable>
+              </View>
+            </View>
+          )}
+        </View>
+      )}
+
+      {savedPlaces.length > 0 &&
+        section(
+          'Nåbart område',
+          <View>
+            <View className="flex-row flex-wrap gap-2 mb-2">
+              {COMMUTE_MODES.map((mode) => {
+                const isActive = reachable?.mode === mode;
+                return (
+                  <Pressable
+                    key={mode}
+                    onPress={() => onReachableChange(isActive ? null : { mode, minutes: reachableMinutes })}
+                    className={chipClass(isActive)}
+                  >
+                    <Text className={chipTextClass(isActive)}>{COMMUTE_MODE_LABELS[mode]}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <View className="flex-row flex-wrap gap-2">
+              {REACHABLE_MINUTES.map((minutes) => {
+                const isActive = reachable?.minutes === minutes;
+                return (
+                  <Pressable
+                    key={minutes}
+                    onPress={() => onReachableChange({ mode: reachableMode, minutes })}
+                    className={chipClass(isActive)}
+                  >
+                    <Text className={chipTextClass(isActive)}>{minutes} min</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+        )}
+    </ScrollView>
+  );
+}
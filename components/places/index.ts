@@ -0,0 +1,2 @@
+export { SavedPlacesPanel, PLACE_KIND_OPTIONS, COMMUTE_MODE_LABELS, placeKindIcon } from './SavedPlacesPanel';
+export type { ReachableOverlay } from './SavedPlacesPanel';
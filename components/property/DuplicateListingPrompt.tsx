@@ -0,0 +1,85 @@
+import { View, Text, Pressable } from 'react-native';
+import { DuplicateMatch, DuplicateField } from '../../lib/utils/duplicates';
+
+interface DuplicateListingPromptProps {
+  match: DuplicateMatch;
+  url: string;
+  isMerging?: boolean;
+  onOpen: () => void;
+  onMerge: () => void;
+  onAddAnyway: () => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Record<DuplicateField, string> = {
+  url: 'länk',
+  address: 'adress',
+  area: 'boarea',
+  price: 'pris',
+};
+
+function extractDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace('www.', '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Shown when a pasted link matches a property that is already in the list.
+ * Same URL: point to the existing property. Same home on another site: offer to
+ * save the link as an alternate source instead of adding a second card.
+ */
+export function DuplicateListingPrompt({
+  match,
+  url,
+  isMerging,
+  onOpen,
+  onMerge,
+  onAddAnyway,
+  onCancel,
+}: DuplicateListingPromptProps) {
+  const existing = match.property;
+  const name = existing.propertyData?.address || existing.title || existing.url;
+  const isSameUrl = match.reason === 'url';
+
+  return (
+    <View className="bg-amber-50 border border-amber-200 rounded-xl p-4 mt-3">
+      <Text className="text-sm font-semibold text-amber-900">
+        {isSameUrl ? 'Den här länken finns redan i listan' : 'Bostaden verkar redan finnas i listan'}
+      </Text>
+      <Text className="text-sm text-amber-800 mt-1">
+        {isSameUrl
+          ? name
+          : `${extractDomain(url)} matchar ${name} (${match.matchedOn.map((field) => FIELD_LABELS[field]).join(', ')})`}
+      </Text>
+
+      <View className="flex-row flex-wrap gap-2 mt-3">
+        {!isSameUrl && (
+          <Pressable
+            onPress={onMerge}
+            disabled={isMerging}
+            className="bg-blue-600 px-4 py-2 rounded-lg"
+            style={{ opacity: isMerging ? 0.5 : 1 }}
+          >
+            <Text className="text-white font-semibold text-sm">
+              {isMerging ? 'Sparar…' : 'Lägg till som alternativ källa'}
+            </Text>
+          </Pressable>
+        )}
+        <Pressable onPress={onOpen} className="bg-white border border-amber-200 px-4 py-2 rounded-lg">
+          <Text className="text-amber-900 font-semibold text-sm">Visa bostaden</Text>
+        </Pressable>
+        {!isSameUrl && (
+          <Pressable onPress={onAddAnyway} className="bg-white border border-amber-200 px-4 py-2 rounded-lg">
+            <Text className="text-amber-900 font-semibold text-sm">Lägg till ändå</Text>
+          </Pressable>
+        )}
+        <Pressable onPress={onCancel} className="px-4 py-2 rounded-lg">
+          <Text className="text-gray-600 font-semibold text-sm">Avbryt</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,59 @@
+import { View, Text, Pressable } from 'react-native';
+import { FieldChange, formatChangeValue } from '../../lib/enrichment/refresh';
+
+interface ListingChangesProps {
+  changes: FieldChange[];
+  // With these, every change gets a checkbox so the user can pick what to apply
+  acceptedFields?: readonly string[];
+  onToggleField?: (field: string) => void;
+}
+
+/**
+ * Before → after list of the fields a listing refresh would change
+ */
+export function ListingChanges({ changes, acceptedFields, onToggleField }: ListingChangesProps) {
+  if (changes.length === 0) {
+    return (
+      <Text className="text-sm text-gray-500 dark:text-gray-400">
+        No changes since the last update.
+      </Text>
+    );
+  }
+
+  return (
+    <View className="gap-2">
+      {changes.map((change) => {
+        const accepted = !onToggleField || !!acceptedFields?.includes(change.field);
+        return (
+          <Pressable
+            key={change.field}
+            onPress={() => onToggleField?.(change.field)}
+            disabled={!onToggleField}
+            className="flex-row items-start gap-2"
+          >
+            {onToggleField && (
+              <View
+                className={`w-5 h-5 rounded border-2 items-center justify-center ${
+                  accepted ? 'bg-blue-500 border-blue-500' : 'border-gray-300'
+                }`}
+              >
+                {accepted && <Text className="text-white text-xs">✓</Text>}
+              </View>
+            )}
+            <Text className="w-28 text-sm font-medium text-gray-600 dark:text-gray-400">
+              {change.label}
+            </Text>
+            <View className="flex-1" style={{ opacity: accepted ? 1 : 0.5 }}>
+              <Text className="text-sm text-gray-400 line-through" numberOfLines={2}>
+                {formatChangeValue(change.before)}
+              </Text>
+              <Text className="text-sm font-semibold text-gray-900 dark:text-white" numberOfLines={2}>
+                {formatChangeValue(change.after)}
+              </Text>
+            </View>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
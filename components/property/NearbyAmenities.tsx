@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { View, Text, Pressable, TextInput, Platform } from 'react-native';
+import { useAmenities } from '../../lib/query/useAmenities';
+import { PropertyLink } from '../../lib/store/propertyLinkStore';
+import { AmenityCategory } from '../../lib/types/amenity';
+import { AMENITY_CATEGORIES, NEARBY_RADIUS_KM, summarizeAmenities } from '../../lib/utils/amenities';
+import { formatDistance } from '../../lib/utils/commute';
+import { hasValidCoordinates } from '../../lib/utils/coordinates';
+
+export const AMENITY_LABELS: Record<AmenityCategory, { label: string; icon: string; color: string }> = {
+  school: { label: 'Schools', icon: '🏫', color: '#f59e0b' },
+  grocery: { label: 'Grocery stores', icon: '🛒', color: '#ef4444' },
+  transit: { label: 'Transit stops', icon: '🚏', color: '#2563eb' },
+  park: { label: 'Parks', icon: '🌳', color: '#16a34a' },
+};
+
+interface NearbyAmenitiesProps {
+  property: PropertyLink;
+}
+
+/**
+ * Schools, grocery stores, transit stops and parks around a property, from the
+ * imported amenity dataset. Offers the import itself while there is none.
+ */
+export function NearbyAmenities({ property }: NearbyAmenitiesProps) {
+  const { amenities, importAmenities, isImportingAmenities, importError, clearAmenities } = useAmenities();
+  const [sourceUrl, setSourceUrl] = useState('');
+
+  const importFromUrl = () => {
+    if (!sourceUrl.trim()) return;
+    importAmenities({ url: sourceUrl.trim() }, { onSuccess: () => setSourceUrl('') });
+  };
+
+  const importFromFile = (file: File | undefined) => {
+    if (file) importAmenities({ file });
+  };
+
+  if (amenities.length === 0) {
+    return (
+      <View>
+        <Text className="text-sm text-gray-600 mb-3">
+          Import a GeoJSON or Overpass export of the area (schools, shops, stops and parks) to see what is nearby.
+        </Text>
+        {Platform.OS === 'web' && (
+          <input
+            type="file"
+            accept=".geojson,.json,application/geo+json,application/json"
+            onChange={(e) => importFromFile(e.target.files?.[0])}
+            disabled={isImportingAmenities}
+            className="mb-3 text-sm"
+          />
+        )}
+        <View className="flex-row gap-2">
+          <TextInput
+            value={sourceUrl}
+            onChangeText={setSourceUrl}
+            onSubmitEditing={importFromUrl}
+            placeholder="https://…/amenities.geojson"
+            placeholderTextColor="#9ca3af"
+            autoCapitalize="none"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm"
+          />
+          <Pressable
+            onPress={importFromUrl}
+            disabled={!sourceUrl.trim() || isImportingAmenities}
+            className={`px-4 py-2 rounded-lg ${!sourceUrl.trim() || isImportingAmenities ? 'bg-gray-300' : 'bg-blue-600'}`}
+          >
+            <Text className="text-white font-semibold">{isImportingAmenities ? 'Importing...' : 'Import'}</Text>
+          </Pressable>
+        </View>
+        {importError && <Text className="text-sm text-red-600 mt-2">{importError.message}</Text>}
+      </View>
+    );
+  }
+
+  if (!hasValidCoordinates(property)) {
+    return <Text className="text-sm text-gray-500">Place the property on the map to see what is nearby.</Text>;
+  }
+
+  const summary = summarizeAmenities(property, amenities);
+
+  return (
+    <View className="gap-3">
+      {AMENITY_CATEGORIES.map((category, index) => {
+        const { count, nearestKm, nearestName } = summary[category];
+        const { label, icon } = AMENITY_LABELS[category];
+        return (
+          <View
+            key={category}
+            className={`flex-row items-center justify-between gap-3 ${index > 0 ? 'border-t border-gray-100 pt-3' : ''}`}
+          >
+            <View className="flex-1 min-w-0">
+              <Text className="text-base font-semibold text-gray-900">
+                {icon} {label}
+              </Text>
+              <Text className="text-xs text-gray-500 mt-0.5" numberOfLines={1}>
+                {nearestKm !== undefined
+                  ? `Nearest ${formatDistance(nearestKm)}${nearestName ? ` · ${nearestName}` : ''}`
+                  : 'None in the dataset'}
+              </Text>
+            </View>
+            <Text className="text-sm font-semibold text-gray-900">
+              {count} within {formatDistance(NEARBY_RADIUS_KM)}
+            </Text>
+          </View>
+        );
+      })}
+      <Pressable onPress={clearAmenities} className="self-start">
+        <Text className="text-xs text-gray-500 underline">Remove imported amenities ({amenities.length})</Text>
+      </Pressable>
+    </View>
+  );
+}
@@ -0,0 +1,105 @@
+import { View, Text } from 'react-native';
+import { usePriceHistory } from '../../lib/query/usePriceHistory';
+import { PriceSeriesPoint } from '../../lib/utils/priceHistory';
+
+interface PriceHistoryChartProps {
+  propertyId: string;
+  currency?: string;
+}
+
+const CHART_HEIGHT = 120;
+
+function formatAmount(value: number, currency?: string) {
+  return `${value.toLocaleString('sv-SE')} ${currency || 'kr'}`;
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString('sv-SE', { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Bar chart of one price series; bars are green after a drop and red after a raise
+ */
+function SeriesBars({ series, currency }: { series: PriceSeriesPoint[]; currency?: string }) {
+  const values = series.map((point) => point.value);
+  const max = Math.max(...values);
+  // Start the axis a bit below the lowest value so small changes stay visible
+  const min = Math.min(...values) * 0.9;
+  const range = max - min || 1;
+
+  return (
+    <View className="flex-row items-end gap-2" style={{ height: CHART_HEIGHT + 36 }}>
+      {series.map((point, index) => {
+        const previous = series[index - 1]?.value;
+        const color =
+          previous == null ? 'bg-gray-300' : point.value < previous ? 'bg-green-500' : 'bg-red-400';
+
+        return (
+          <View key={point.recordedAt} className="flex-1 items-center justify-end">
+            <Text className="text-[10px] text-gray-600 mb-1" numberOfLines={1}>
+              {formatAmount(point.value, currency)}
+            </Text>
+            <View
+              className={`w-full rounded-t ${color}`}
+              style={{ height: Math.max(4, ((point.value - min) / range) * CHART_HEIGHT) }}
+            />
+            <Text className="text-[10px] text-gray-500 mt-1">{formatDate(point.recordedAt)}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+/**
+ * Price history for a property: asking price chart, latest change and monthly fee changes
+ */
+export function PriceHistoryChart({ propertyId, currency }: PriceHistoryChartProps) {
+  const { priceSeries, monthlyFeeSeries, priceChange, isLoading } = usePriceHistory(propertyId);
+
+  if (isLoading) {
+    return <Text className="text-sm text-gray-500">Loading price history...</Text>;
+  }
+
+  if (priceSeries.length < 2 && monthlyFeeSeries.length < 2) {
+    return (
+      <Text className="text-sm text-gray-500">
+        No price changes recorded yet. Refresh the listing to check for a new price.
+      </Text>
+    );
+  }
+
+  return (
+    <View className="gap-4">
+      {priceChange && (
+        <View className="flex-row items-center gap-2">
+          <Text
+            className={`text-sm font-semibold ${
+              priceChange.direction === 'down' ? 'text-green-700' : 'text-red-600'
+            }`}
+          >
+            {priceChange.direction === 'down' ? '▼' : '▲'}{' '}
+            {formatAmount(Math.abs(priceChange.change), currency)} ({priceChange.changePercent > 0 ? '+' : ''}
+            {priceChange.changePercent}%)
+          </Text>
+          <Text className="text-xs text-gray-500">
+            since {formatDate(priceChange.changedAt)} · first listed at {formatAmount(priceChange.originalPrice, currency)}
+          </Text>
+        </View>
+      )}
+
+      {priceSeries.length >= 2 && <SeriesBars series={priceSeries} currency={currency} />}
+
+      {monthlyFeeSeries.length >= 2 && (
+        <View>
+          <Text className="text-sm font-medium text-gray-600 mb-1">Monthly fee</Text>
+          {monthlyFeeSeries.map((point) => (
+            <Text key={point.recordedAt} className="text-xs text-gray-600">
+              {formatDate(point.recordedAt)}: {formatAmount(point.value, currency)}/mo
+            </Text>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
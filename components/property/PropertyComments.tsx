@@ -2,8 +2,7 @@ import { View, Text, TextInput, Pressable, Platform, ScrollView } from 'react-na
 import { useState, useRef } from 'react';
 import { useComments } from '../../lib/query/useComments';
 import { useCommentsRealtimeSubscription } from '../../lib/query/useRealtimeSubscriptions';
-import { useAuth } from '../../lib/query/useAuth';
-import { getAnonUserInfo } from '../../lib/utils/anonUser';
+import { useIdentity } from '../../lib/query/useIdentity';
 import { PropertyComment } from '../../lib/types/property';
 import { CommentItem } from './CommentItem';
 import { Send } from 'lucide-react-native';
@@ -20,24 +19,17 @@ export function PropertyComments({ propertyId }: PropertyCommentsProps) {
     deleteComment,
     isAddingComment,
   } = useComments(propertyId);
-  const { user } = useAuth();
+  const { userId, displayName, isAnonymous, setDisplayName } = useIdentity();
   
   const [newComment, setNewComment] = useState('');
   const [replyToId, setReplyToId] = useState<string | null>(null);
+  const [isEditingName, setIsEditingName] = useState(false);
+  const [nameDraft, setNameDraft] = useState('');
   const scrollViewRef = useRef<ScrollView>(null);
 
   // Subscribe to realtime updates
   useCommentsRealtimeSubscription(propertyId);
 
-  // Get user ID and name
-  const getUserInfo = () => {
-    if (user?.email) {
-      const name = user.email.split('@')[0];
-      return { id: user.email, name };
-    }
-    return getAnonUserInfo();
-  };
-
   // Build threaded comment structure
   const buildCommentTree = (comments: PropertyComment[]): PropertyComment[] => {
     const topLevel = comments.filter(c => !c.parentId);
@@ -56,11 +48,15 @@ export function PropertyComments({ propertyId }: PropertyCommentsProps) {
     : null;
 
   const handleSubmitComment = async () => {
-    if (!newComment.trim() || isAddingComment) return;
+    if (!newComment.trim() || isAddingComment || !userId) return;
     
     try {
-      const userInfo = getUserInfo();
-      await addComment(propertyId, newComment.trim(), userInfo.id, userInfo.name, replyToId || undefined);
+      addComment({
+        content: newComment.trim(),
+        userId,
+        userName: displayName || userId,
+        parentId: replyToId || undefined,
+      });
       setNewComment('');
       setReplyToId(null);
       
@@ -89,7 +85,10 @@ export function PropertyComments({ propertyId }: PropertyCommentsProps) {
     deleteComment(commentId);
   };
 
-  const userInfo = getUserInfo();
+  const handleSaveName = () => {
+    setDisplayName(nameDraft);
+    setIsEditingName(false);
+  };
 
   return (
     <View className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
@@ -115,7 +114,7 @@ export function PropertyComments({ propertyId }: PropertyCommentsProps) {
             <CommentItem
               key={comment.id}
               comment={comment}
-              userId={userInfo.id}
+              userId={userId || ''}
               onReply={handleReply}
               onEdit={handleEdit}
               onDelete={handleDelete}
@@ -140,6 +139,42 @@ export function PropertyComments({ propertyId }: PropertyCommentsProps) {
         </View>
       )}
 
+      {/* Anonymous display name */}
+      {isAnonymous && (
+        <View className="flex-row items-center gap-2 mb-2">
+          {isEditingName ? (
+            <>
+              <TextInput
+                value={nameDraft}
+                onChangeText={setNameDraft}
+                onSubmitEditing={handleSaveName}
+                placeholder="Your name"
+                placeholderTextColor="#9ca3af"
+                className="flex-1 bg-gray-50 dark:bg-gray-700 rounded px-2 py-1 text-xs text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600"
+                autoFocus
+              />
+              <Pressable onPress={handleSaveName}>
+                <Text className="text-xs text-blue-600 dark:text-blue-400 font-semibold">Save</Text>
+              </Pressable>
+            </>
+          ) : (
+            <>
+              <Text className="text-xs text-gray-500 dark:text-gray-400">
+                Commenting as {displayName}
+              </Text>
+              <Pressable
+                onPress={() => {
+                  setNameDraft(displayName || '');
+                  setIsEditingName(true);
+                }}
+              >
+                <Text className="text-xs text-blue-600 dark:text-blue-400 font-semibold">Change</Text>
+              </Pressable>
+            </>
+          )}
+        </View>
+      )}
+
       {/* New comment input */}
       <View className="flex-row gap-2">
         <TextInput
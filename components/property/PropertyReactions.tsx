@@ -2,8 +2,7 @@ import { View, Text, Pressable, Platform } from 'react-native';
 import { useState } from 'react';
 import { useReactions } from '../../lib/query/useReactions';
 import { useReactionsRealtimeSubscription } from '../../lib/query/useRealtimeSubscriptions';
-import { useAuth } from '../../lib/query/useAuth';
-import { getAnonId } from '../../lib/utils/anonUser';
+import { useIdentity } from '../../lib/query/useIdentity';
 
 interface PropertyReactionsProps {
   propertyId: string;
@@ -13,7 +12,7 @@ const AVAILABLE_EMOJIS = ['❤️', '👍', '⭐', '🔥', '😍'];
 
 export function PropertyReactions({ propertyId }: PropertyReactionsProps) {
   const { reactions, addReaction, isAddingReaction } = useReactions(propertyId);
-  const { user } = useAuth();
+  const { userId } = useIdentity();
   const [error, setError] = useState<string | null>(null);
 
   // Subscribe to realtime updates
@@ -21,12 +20,6 @@ export function PropertyReactions({ propertyId }: PropertyReactionsProps) {
 
   const propertyReactions = reactions;
 
-  // Get user ID (authenticated or anonymous)
-  const getUserId = () => {
-    if (user?.email) return user.email;
-    return getAnonId();
-  };
-
   // Count reactions by emoji
   const reactionCounts = AVAILABLE_EMOJIS.reduce((acc, emoji) => {
     acc[emoji] = propertyReactions.filter(r => r.emoji === emoji).length;
@@ -34,14 +27,13 @@ export function PropertyReactions({ propertyId }: PropertyReactionsProps) {
   }, {} as Record<string, number>);
 
   // Check if current user has reacted with each emoji
-  const userId = getUserId();
   const userReactions = AVAILABLE_EMOJIS.reduce((acc, emoji) => {
     acc[emoji] = propertyReactions.some(r => r.userId === userId && r.emoji === emoji);
     return acc;
   }, {} as Record<string, boolean>);
 
   const handleReaction = (emoji: string) => {
-    if (isAddingReaction) return;
+    if (isAddingReaction || !userId) return;
     
     setError(null);
     
@@ -0,0 +1,52 @@
+import { View, Text, Pressable, Linking } from 'react-native';
+import { PropertyLink } from '../../lib/store/propertyLinkStore';
+import { getPropertySources } from '../../lib/utils/sources';
+
+interface PropertySourcesProps {
+  property: PropertyLink;
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString('sv-SE', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Sites a property is listed on, with when each was first/last seen and its asking price there
+ */
+export function PropertySources({ property }: PropertySourcesProps) {
+  const sources = getPropertySources(property);
+  const currency = property.propertyData?.currency || 'kr';
+
+  return (
+    <View className="gap-3">
+      {sources.map((source, index) => (
+        <View
+          key={source.url}
+          className={`flex-row items-center justify-between gap-3 ${index > 0 ? 'border-t border-gray-100 pt-3' : ''}`}
+        >
+          <View className="flex-1 min-w-0">
+            <View className="flex-row items-center gap-2">
+              <Text className="text-base font-semibold text-gray-900">{source.siteName}</Text>
+              {index === 0 && (
+                <Text className="text-[10px] font-semibold text-blue-700 bg-blue-50 px-1.5 py-0.5 rounded">
+                  PRIMARY
+                </Text>
+              )}
+            </View>
+            <Text className="text-xs text-gray-500 mt-0.5">
+              First seen {formatDate(source.firstSeen)} · Last seen {formatDate(source.lastSeen)}
+            </Text>
+          </View>
+          {source.price != null && (
+            <Text className="text-sm font-semibold text-gray-900">
+              {source.price.toLocaleString('sv-SE')} {currency}
+            </Text>
+          )}
+          <Pressable onPress={() => Linking.openURL(source.url)} className="bg-gray-100 px-3 py-1.5 rounded-lg">
+            <Text className="text-sm font-semibold text-blue-600">Open</Text>
+          </Pressable>
+        </View>
+      ))}
+    </View>
+  );
+}
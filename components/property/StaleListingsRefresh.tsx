@@ -0,0 +1,157 @@
+import { View, Text, Pressable } from 'react-native';
+import { useState } from 'react';
+import { PropertyLink } from '../../lib/store/propertyLinkStore';
+import { isListingStale, STALE_AFTER_DAYS } from '../../lib/enrichment/refresh';
+import { ListingRefresh } from '../../lib/enrichment/orchestrator';
+import { useListingRefresh } from '../../lib/query/useEnrichment';
+import { ListingChanges } from './ListingChanges';
+
+interface StaleListingsRefreshProps {
+  properties: PropertyLink[];
+}
+
+interface RefreshResult {
+  property: PropertyLink;
+  refresh: ListingRefresh;
+}
+
+/**
+ * Bulk "refresh stale listings" action for the property list.
+ * Fetches every stale listing, then lets the user review all changes before saving.
+ */
+export function StaleListingsRefresh({ properties }: StaleListingsRefreshProps) {
+  const { previewRefreshAsync, applyRefreshAsync } = useListingRefresh();
+  const [results, setResults] = useState<RefreshResult[] | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [failedCount, setFailedCount] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  // Unticked fields per property id; everything else is applied
+  const [rejectedFields, setRejectedFields] = useState<Record<string, string[]>>({});
+
+  const staleProperties = properties.filter(
+    (property) => !property.id.startsWith('temp-') && isListingStale(property)
+  );
+
+  if (staleProperties.length === 0 && !results && !progress) return null;
+
+  const handleRefresh = async () => {
+    const collected: RefreshResult[] = [];
+    let failed = 0;
+    setResults(null);
+    setRejectedFields({});
+    setProgress({ done: 0, total: staleProperties.length });
+
+    // One at a time so the crawler isn't flooded
+    for (const property of staleProperties) {
+      try {
+        collected.push({ property, refresh: await previewRefreshAsync(property) });
+      } catch {
+        failed++;
+      }
+      setProgress({ done: collected.length + failed, total: staleProperties.length });
+    }
+
+    setFailedCount(failed);
+    setProgress(null);
+    setResults(collected);
+  };
+
+  const acceptedFieldsFor = ({ property, refresh }: RefreshResult) =>
+    refresh.changes
+      .map((change) => change.field)
+      .filter((field) => !rejectedFields[property.id]?.includes(field));
+
+  const toggleField = (propertyId: string, field: string) =>
+    setRejectedFields((rejected) => {
+      const fields = rejected[propertyId] || [];
+      return {
+        ...rejected,
+        [propertyId]: fields.includes(field) ? fields.filter((f) => f !== field) : [...fields, field],
+      };
+    });
+
+  const handleSave = async () => {
+    if (!results) return;
+    setIsSaving(true);
+    try {
+      // Unchanged listings are saved too, so they stop counting as stale
+      await Promise.all(
+        results.map((result) => applyRefreshAsync({ ...result, acceptedFields: acceptedFieldsFor(result) }))
+      );
+      setResults(null);
+    } catch (err) {
+      console.error('Failed to save refreshed listings:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const changed = results?.filter((result) => result.refresh.changes.length > 0) || [];
+
+  return (
+    <View className="bg-white rounded-xl shadow-md p-4 mb-4">
+      {!results ? (
+        <View className="flex-row items-center justify-between gap-3">
+          <Text className="flex-1 text-sm text-gray-600">
+            {progress
+              ? `Hämtar annonser… ${progress.done}/${progress.total}`
+              : `${staleProperties.length} annonser har inte uppdaterats på ${STALE_AFTER_DAYS} dagar`}
+          </Text>
+          <Pressable
+            onPress={handleRefresh}
+            disabled={!!progress}
+            className="bg-gray-100 px-4 py-2 rounded-lg"
+            style={{ opacity: progress ? 0.5 : 1 }}
+          >
+            <Text className="text-gray-800 font-semibold text-sm">Uppdatera alla</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <View>
+          <Text className="text-base font-semibold text-gray-900 mb-1">
+            {changed.length > 0
+              ? `${changed.length} annonser har ändrats`
+              : 'Inga ändringar hittades'}
+          </Text>
+          {failedCount > 0 && (
+            <Text className="text-xs text-red-600 mb-2">
+              {failedCount} annonser kunde inte hämtas
+            </Text>
+          )}
+
+          {changed.map(({ property, refresh }) => (
+            <View key={property.id} className="border-t border-gray-100 pt-3 mt-3">
+              <Text className="text-sm font-semibold text-gray-900 mb-2" numberOfLines={1}>
+                {property.title || property.url}
+              </Text>
+              <ListingChanges
+                changes={refresh.changes}
+                acceptedFields={acceptedFieldsFor({ property, refresh })}
+                onToggleField={(field) => toggleField(property.id, field)}
+              />
+            </View>
+          ))}
+
+          <View className="flex-row gap-3 mt-4">
+            <Pressable
+              onPress={handleSave}
+              disabled={isSaving || results.length === 0}
+              className="flex-1 bg-blue-600 py-2 rounded-lg"
+              style={{ opacity: isSaving || results.length === 0 ? 0.5 : 1 }}
+            >
+              <Text className="text-white font-semibold text-center">
+                {isSaving ? 'Sparar…' : changed.length > 0 ? 'Spara ändringar' : 'Markera som uppdaterade'}
+              </Text>
+            </Pressable>
+            <Pressable
+              onPress={() => setResults(null)}
+              className="flex-1 bg-gray-100 py-2 rounded-lg"
+            >
+              <Text className="text-gray-700 font-semibold text-center">Avbryt</Text>
+            </Pressable>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
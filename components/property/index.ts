@@ -1,3 +1,9 @@
 export { PropertyReactions } from './PropertyReactions';
 export { PropertyComments } from './PropertyComments';
 export { CommentItem } from './CommentItem';
+export { ListingChanges } from './ListingChanges';
+export { StaleListingsRefresh } from './StaleListingsRefresh';
+export { PriceHistoryChart } from './PriceHistoryChart';
+export { DuplicateListingPrompt } from './DuplicateListingPrompt';
+export { PropertySources } from './PropertySources';
+export { NearbyAmenities, AMENITY_LABELS } from './NearbyAmenities';
@@ -0,0 +1,66 @@
+import { View, Text, Pressable } from 'react-native';
+import { useSpaceInvites } from '../../lib/query/useSpaceInvites';
+import { SpaceInvite } from '../../lib/types/space';
+
+interface SpaceInviteListProps {
+  spaceId: string;
+}
+
+const STATUS_LABELS: Record<SpaceInvite['status'] | 'expired', { label: string; className: string }> = {
+  pending: { label: 'Väntar', className: 'bg-yellow-100 text-yellow-800' },
+  accepted: { label: 'Accepterad', className: 'bg-green-100 text-green-800' },
+  revoked: { label: 'Återkallad', className: 'bg-gray-100 text-gray-600' },
+  expired: { label: 'Utgången', className: 'bg-gray-100 text-gray-600' },
+};
+
+/**
+ * Invites to a space with their pending/accepted/revoked state
+ */
+export function SpaceInviteList({ spaceId }: SpaceInviteListProps) {
+  const { invites, isLoading, revokeInvite } = useSpaceInvites(spaceId);
+
+  if (isLoading) {
+    return <Text className="text-sm text-gray-500">Laddar inbjudningar...</Text>;
+  }
+
+  if (invites.length === 0) {
+    return <Text className="text-sm text-gray-500">Inga inbjudningar skickade än.</Text>;
+  }
+
+  return (
+    <View className="gap-2">
+      {invites.map((invite) => {
+        const isExpired =
+          invite.status === 'pending' && new Date(invite.expiresAt).getTime() < Date.now();
+        const status = STATUS_LABELS[isExpired ? 'expired' : invite.status];
+
+        return (
+          <View
+            key={invite.id}
+            className="flex-row items-center justify-between px-3 py-2 border border-gray-200 rounded-lg"
+          >
+            <View className="flex-1 mr-2">
+              <Text className="text-sm font-medium text-gray-900" numberOfLines={1}>
+                {invite.email || 'Delbar länk'}
+              </Text>
+              <Text className="text-xs text-gray-500">
+                {invite.status === 'accepted' && invite.acceptedAt
+                  ? `Accepterad ${new Date(invite.acceptedAt).toLocaleDateString('sv-SE')}`
+                  : `Giltig till ${new Date(invite.expiresAt).toLocaleDateString('sv-SE')}`}
+                {!invite.email && invite.acceptedCount > 0 && ` · ${invite.acceptedCount} har gått med`}
+              </Text>
+            </View>
+            <Text className={`text-xs font-semibold px-2 py-1 rounded-full ${status.className}`}>
+              {status.label}
+            </Text>
+            {invite.status === 'pending' && !isExpired && (
+              <Pressable onPress={() => revokeInvite(invite.id)} className="ml-2 px-2 py-1">
+                <Text className="text-xs text-red-600">Återkalla</Text>
+              </Pressable>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
@@ -0,0 +1,110 @@
+import { View, Text, Pressable, TextInput, ScrollView } from 'react-native';
+import { useState } from 'react';
+import { useSpaces } from '../../lib/query/useSpaces';
+import { useAuth } from '../../lib/query/useAuth';
+
+interface SpaceSwitcherProps {
+  // Hide the "Ny grupp" form, e.g. on the compare tab
+  allowCreate?: boolean;
+}
+
+/**
+ * Chip row for picking the active shared space.
+ * The open list ("Alla") is always available; own spaces require sign-in.
+ */
+export function SpaceSwitcher({ allowCreate = true }: SpaceSwitcherProps) {
+  const { user } = useAuth();
+  const {
+    spaces,
+    activeSpaceId,
+    setActiveSpace,
+    createSpace,
+    isCreatingSpace,
+  } = useSpaces();
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = () => {
+    if (!name.trim() || isCreatingSpace) return;
+    setError(null);
+    createSpace(name, {
+      onSuccess: () => {
+        setName('');
+        setIsCreating(false);
+      },
+      onError: (err: any) => setError(err?.message || 'Kunde inte skapa gruppen'),
+    });
+  };
+
+  const chipClass = (isActive: boolean) =>
+    `px-3 py-1.5 rounded-full border ${
+      isActive ? 'bg-blue-600 border-blue-600' : 'bg-white border-gray-300'
+    }`;
+
+  const chipTextClass = (isActive: boolean) =>
+    `text-sm font-medium ${isActive ? 'text-white' : 'text-gray-700'}`;
+
+  return (
+    <View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View className="flex-row gap-2 items-center">
+          <Pressable onPress={() => setActiveSpace(null)} className={chipClass(!activeSpaceId)}>
+            <Text className={chipTextClass(!activeSpaceId)}>Alla</Text>
+          </Pressable>
+
+          {spaces.map((space) => {
+            const isActive = space.id === activeSpaceId;
+            return (
+              <Pressable
+                key={space.id}
+                onPress={() => setActiveSpace(space.id)}
+                className={chipClass(isActive)}
+              >
+                <Text className={chipTextClass(isActive)}>{space.name}</Text>
+              </Pressable>
+            );
+          })}
+
+          {allowCreate && user && !isCreating && (
+            <Pressable
+              onPress={() => setIsCreating(true)}
+              className="px-3 py-1.5 rounded-full border border-dashed border-gray-400"
+            >
+              <Text className="text-sm text-gray-600">+ Ny grupp</Text>
+            </Pressable>
+          )}
+        </View>
+      </ScrollView>
+
+      {isCreating && (
+        <View className="flex-row gap-2 mt-3">
+          <TextInput
+            value={name}
+            onChangeText={setName}
+            onSubmitEditing={handleCreate}
+            placeholder="T.ex. Jag & partner"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-white"
+            autoFocus
+          />
+          <Pressable
+            onPress={handleCreate}
+            disabled={!name.trim() || isCreatingSpace}
+            className={`px-4 py-2 rounded-lg ${
+              !name.trim() || isCreatingSpace ? 'bg-gray-300' : 'bg-blue-600'
+            }`}
+          >
+            <Text className="text-white font-semibold">
+              {isCreatingSpace ? 'Skapar...' : 'Skapa'}
+            </Text>
+          </Pressable>
+          <Pressable onPress={() => setIsCreating(false)} className="px-3 py-2">
+            <Text className="text-gray-600">Avbryt</Text>
+          </Pressable>
+        </View>
+      )}
+
+      {error && <Text className="mt-2 text-sm text-red-600">{error}</Text>}
+    </View>
+  );
+}
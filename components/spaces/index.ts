@@ -0,0 +1,2 @@
+export { SpaceSwitcher } from './SpaceSwitcher';
+export { SpaceInviteList } from './SpaceInviteList';
@@ -0,0 +1,48 @@
+import { supabase } from './supabaseClient';
+
+/**
+ * Anonymous Activity API - Server operations for re-attributing anonymous activity
+ */
+
+export interface ClaimedAnonActivity {
+  reactions: number;
+  comments: number;
+  properties: number;
+}
+
+/**
+ * Mint a new anon ID bound to the device secret (only its hash is stored)
+ */
+export async function createAnonIdentity(secret: string): Promise<string> {
+  const { data, error } = await supabase.rpc('create_anon_identity', { create_secret: secret });
+
+  if (error) {
+    console.error('Failed to create anonymous identity:', error);
+    throw error;
+  }
+
+  return data as string;
+}
+
+/**
+ * Move reactions, comments and properties made under an anon ID to the signed-in
+ * user, given the secret the ID was minted with
+ */
+export async function claimAnonActivity(
+  anonId: string,
+  secret: string,
+  userName?: string
+): Promise<ClaimedAnonActivity> {
+  const { data, error } = await supabase.rpc('claim_anon_activity', {
+    claim_anon_id: anonId,
+    claim_secret: secret,
+    claim_user_name: userName || null,
+  });
+
+  if (error) {
+    console.error('Failed to claim anonymous activity:', error);
+    throw error;
+  }
+
+  return data as ClaimedAnonActivity;
+}
@@ -6,12 +6,14 @@ import { ComparisonSession } from '../types/property';
  */
 
 /**
- * Fetch all saved comparison sessions
+ * Fetch all saved comparison sessions in a space (null = personal sessions)
  */
-export async function fetchComparisonSessions(): Promise<ComparisonSession[]> {
-  const { data, error } = await supabase
-    .from('comparison_sessions')
-    .select('*')
+export async function fetchComparisonSessions(
+  spaceId: string | null = null
+): Promise<ComparisonSession[]> {
+  const query = supabase.from('comparison_sessions').select('*');
+
+  const { data, error } = await (spaceId ? query.eq('space_id', spaceId) : query.is('space_id', null))
     .order('updated_at', { ascending: false });
 
   if (error) {
@@ -24,6 +26,7 @@ export async function fetchComparisonSessions(): Promise<ComparisonSession[]> {
     name: item.name,
     propertyIds: item.property_ids,
     sharedBy: item.shared_by,
+    spaceId: item.space_id ?? null,
     userAnnotations: item.user_annotations,
     createdAt: item.created_at,
     updatedAt: item.updated_at,
@@ -50,6 +53,7 @@ export async function fetchComparisonSession(sessionId: string): Promise<Compari
     name: data.name,
     propertyIds: data.property_ids,
     sharedBy: data.shared_by,
+    spaceId: data.space_id ?? null,
     userAnnotations: data.user_annotations,
     createdAt: data.created_at,
     updatedAt: data.updated_at,
@@ -67,6 +71,7 @@ export async function saveComparisonSession(
     name: session.name,
     property_ids: session.propertyIds,
     shared_by: session.sharedBy,
+    space_id: session.spaceId ?? null,
     user_annotations: session.userAnnotations || {},
     created_at: session.createdAt || new Date().toISOString(),
     updated_at: new Date().toISOString(),
@@ -88,6 +93,7 @@ export async function saveComparisonSession(
     name: data.name,
     propertyIds: data.property_ids,
     sharedBy: data.shared_by,
+    spaceId: data.space_id ?? null,
     userAnnotations: data.user_annotations,
     createdAt: data.created_at,
     updatedAt: data.updated_at,
@@ -0,0 +1,224 @@
+import type { PropertyLinkData } from '../store/propertyLinkStore';
+import type { GeocodePrecision, GeocodeSource } from '../types/property';
+import { hasValidCoordinates } from '../utils/coordinates';
+
+/**
+ * Geocoding API - resolves where a saved listing is on the map
+ *
+ * Order: coordinates published by the listing (OG/JSON-LD), then the crawler's
+ * /go/geocode-address for the listing URL, then free-text geocoding of the address.
+ * When nothing resolves the property is left unpinned rather than placed at random.
+ *
+ * Environment: EXPO_PUBLIC_GEOCODE_API_URL, EXPO_PUBLIC_NOMINATIM_URL
+ *
+ * The public Nominatim allows one request per second and wants the app to
+ * identify itself, so address lookups are queued and spaced out.
+ */
+
+const GEOCODE_BASE_URL =
+  process.env.EXPO_PUBLIC_GEOCODE_API_URL || 'https://qv7xxqjd4d.execute-api.eu-north-1.amazonaws.com';
+const NOMINATIM_BASE_URL = process.env.EXPO_PUBLIC_NOMINATIM_URL || 'https://nominatim.openstreetmap.org';
+const NOMINATIM_MIN_INTERVAL_MS = 1000;
+// Browsers identify the app through the Referer and don't let scripts set a User-Agent
+const NOMINATIM_HEADERS: Record<string, string> =
+  process.env.EXPO_OS === 'web' ? {} : { 'User-Agent': 'Hem/1.0 (property search app)' };
+
+/**
+ * Geocoded location of a listing URL (/go/geocode-address)
+ */
+export interface GeocodeData {
+  latitude?: number;
+  longitude?: number;
+  address?: string;
+  city?: string;
+  postalCode?: string;
+  country?: string;
+  formattedAddress?: string;
+}
+
+export interface ResolvedLocation {
+  latitude: number;
+  longitude: number;
+  geocodeSource: GeocodeSource;
+  geocodePrecision: GeocodePrecision;
+}
+
+export interface LocationCandidate {
+  url: string;
+  /** Coordinates published by the listing itself */
+  latitude?: number;
+  longitude?: number;
+  propertyData?: Pick<PropertyLinkData, 'address' | 'postalCode' | 'city' | 'country'>;
+}
+
+/**
+ * Fetch geocoding data for a property listing URL
+ *
+ * @param url - The property listing URL
+ * @returns Geocoded location data including coordinates and formatted address
+ *
+ * @example
+ * const data = await fetchGeocodeData('https://www.bjurfors.se/sv/tillsalu/...');
+ * console.log(data.latitude, data.longitude);
+ */
+export async function fetchGeocodeData(url: string): Promise<GeocodeData | null> {
+  try {
+    const response = await fetch(`${GEOCODE_BASE_URL}/go/geocode-address`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ url }),
+    });
+
+    if (!response.ok) {
+      console.warn(`Geocoding failed with HTTP ${response.status}`);
+      return null;
+    }
+
+    const data = await response.json();
+
+    return {
+      latitude: data.latitude,
+      longitude: data.longitude,
+      address: data.address,
+      city: data.city,
+      postalCode: data.postalCode || data.postal_code,
+      country: data.country,
+      formattedAddress: data.formattedAddress || data.formatted_address,
+    };
+  } catch (error) {
+    console.warn('Failed to fetch geocode data:', error);
+    return null;
+  }
+}
+
+// Nominatim `addresstype` → how precise the hit is
+const NOMINATIM_PRECISION: Record<string, GeocodePrecision> = {
+  house: 'address',
+  building: 'address',
+  road: 'street',
+  postcode: 'postal_code',
+  neighbourhood: 'city',
+  quarter: 'city',
+  suburb: 'city',
+  city_district: 'city',
+  village: 'city',
+  town: 'city',
+  city: 'city',
+  municipality: 'city',
+};
+
+let nominatimQueue: Promise<unknown> = Promise.resolve();
+let lastNominatimRequestAt = 0;
+
+/**
+ * Fetch from Nominatim one request at a time, at most one per second
+ */
+function fetchNominatim(url: string): Promise<Response> {
+  const request = nominatimQueue.then(async () => {
+    const wait = lastNominatimRequestAt + NOMINATIM_MIN_INTERVAL_MS - Date.now();
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    lastNominatimRequestAt = Date.now();
+    return fetch(url, { headers: NOMINATIM_HEADERS });
+  });
+  nominatimQueue = request.catch(() => undefined);
+  return request;
+}
+
+/**
+ * Geocode free text ("Bockgränd 14, 216 19 Limhamn") with Nominatim
+ *
+ * @returns Coordinates and precision of the best hit, or null when nothing matched
+ */
+export async function geocodeAddress(
+  query: string
+): Promise<{ latitude: number; longitude: number; precision: GeocodePrecision } | null> {
+  const params = new URLSearchParams({
+    q: query,
+    format: 'jsonv2',
+    limit: '1',
+    countrycodes: 'se',
+    'accept-language': 'sv',
+  });
+
+  try {
+    const response = await fetchNominatim(`${NOMINATIM_BASE_URL}/search?${params}`);
+    if (!response.ok) {
+      console.warn(`Address geocoding failed with HTTP ${response.status}`);
+      return null;
+    }
+
+    const [hit] = (await response.json()) as { lat: string; lon: string; addresstype?: string }[];
+    if (!hit) return null;
+
+    const location = { latitude: Number(hit.lat), longitude: Number(hit.lon) };
+    if (!hasValidCoordinates(location)) return null;
+
+    // Anything coarser than a town (county, country) is too vague to pin
+    const precision = hit.addresstype ? NOMINATIM_PRECISION[hit.addresstype] : undefined;
+    return precision ? { ...location, precision } : null;
+  } catch (error) {
+    console.warn('Failed to geocode address:', error);
+    return null;
+  }
+}
+
+/**
+ * Free-text queries to try for a listing, most precise first
+ */
+export function buildAddressQueries(propertyData: LocationCandidate['propertyData']): string[] {
+  const { address, postalCode, city } = propertyData || {};
+  const place = [postalCode, city].filter(Boolean).join(' ');
+  const queries = [
+    address && place ? `${address}, ${place}` : undefined,
+    address && !place ? address : undefined,
+    city,
+  ];
+  return queries.filter((query, index): query is string => !!query && queries.indexOf(query) === index);
+}
+
+/**
+ * Resolve coordinates for a listing, recording where they came from
+ *
+ * @param candidate - Listing URL plus anything the OG stage already found
+ * @param geocode - Pending /go/geocode-address call, when the caller started it early
+ * @returns The first location that resolves, or null to leave the property unpinned
+ */
+export async function resolvePropertyLocation(
+  candidate: LocationCandidate,
+  geocode?: Promise<GeocodeData | null>
+): Promise<ResolvedLocation | null> {
+  if (hasValidCoordinates(candidate)) {
+    return {
+      latitude: candidate.latitude,
+      longitude: candidate.longitude,
+      geocodeSource: 'listing',
+      geocodePrecision: 'exact',
+    };
+  }
+
+  const geocoded = await (geocode ?? fetchGeocodeData(candidate.url)).catch(() => null);
+  if (geocoded && hasValidCoordinates(geocoded)) {
+    return {
+      latitude: geocoded.latitude,
+      longitude: geocoded.longitude,
+      geocodeSource: 'crawler',
+      geocodePrecision: 'address',
+    };
+  }
+
+  for (const query of buildAddressQueries(candidate.propertyData)) {
+    const hit = await geocodeAddress(query);
+    if (hit) {
+      return {
+        latitude: hit.latitude,
+        longitude: hit.longitude,
+        geocodeSource: 'address',
+        geocodePrecision: hit.precision,
+      };
+    }
+  }
+
+  return null;
+}
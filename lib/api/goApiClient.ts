@@ -30,6 +30,9 @@ export interface OGMetadataResponse {
   // OG data (all extracted meta tags)
   og?: Record<string, string[]>;
 
+  // Parsed <script type="application/ld+json"> blocks, when the page has any
+  jsonLd?: unknown[];
+
   // Error field
   error?: string;
 }
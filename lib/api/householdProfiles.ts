@@ -0,0 +1,118 @@
+import { supabase } from './supabaseClient';
+import { HouseholdMember, HouseholdProfile } from '../types/household';
+
+/**
+ * Household Profiles API - one profile per space, or per user on the open list
+ */
+
+// Row shape returned by the `household_profiles` table
+interface HouseholdProfilesRow {
+  id: string;
+  space_id: string | null;
+  owner_id: string;
+  members: HouseholdMember[] | null;
+  children: number;
+  savings: number;
+  other_loans_monthly: number;
+  car_costs_monthly: number;
+  municipal_tax_rate: number | null;
+  interest_rate: number | null;
+  stress_test_rate: number | null;
+  updated_by: string;
+  updated_at: string;
+}
+
+function rowToHouseholdProfile(row: HouseholdProfilesRow): HouseholdProfile {
+  return {
+    id: row.id,
+    spaceId: row.space_id,
+    ownerId: row.owner_id,
+    members: row.members || [],
+    children: row.children,
+    // NUMERIC columns come back as strings
+    savings: Number(row.savings),
+    otherLoansMonthly: Number(row.other_loans_monthly),
+    carCostsMonthly: Number(row.car_costs_monthly),
+    municipalTaxRate: row.municipal_tax_rate != null ? Number(row.municipal_tax_rate) : undefined,
+    interestRate: row.interest_rate != null ? Number(row.interest_rate) : undefined,
+    stressTestRate: row.stress_test_rate != null ? Number(row.stress_test_rate) : undefined,
+    updatedBy: row.updated_by,
+    updatedAt: row.updated_at,
+  };
+}
+
+export interface SaveHouseholdProfileInput {
+  id?: string;                  // Set to update the existing profile
+  ownerId: string;
+  members: HouseholdMember[];
+  children: number;
+  savings: number;
+  otherLoansMonthly: number;
+  carCostsMonthly: number;
+  municipalTaxRate?: number;
+  interestRate?: number;
+  stressTestRate?: number;
+  updatedBy: string;
+  spaceId?: string | null;
+}
+
+/**
+ * Fetch the household profile of a space, or the user's own one on the open list
+ *
+ * @returns The profile, or null if none has been saved yet
+ */
+export async function fetchHouseholdProfile(
+  spaceId: string | null,
+  ownerId: string
+): Promise<HouseholdProfile | null> {
+  const query = supabase.from('household_profiles').select('*');
+
+  const { data, error } = await (spaceId
+    ? query.eq('space_id', spaceId)
+    : query.is('space_id', null).eq('owner_id', ownerId)
+  ).maybeSingle();
+
+  if (error) {
+    console.error('Failed to fetch household profile:', error);
+    throw error;
+  }
+
+  return data ? rowToHouseholdProfile(data as HouseholdProfilesRow) : null;
+}
+
+/**
+ * Create the household profile, or update it when it has an id
+ */
+export async function saveHouseholdProfile(input: SaveHouseholdProfileInput): Promise<HouseholdProfile> {
+  const row = {
+    owner_id: input.ownerId,
+    members: input.members.map((member) => ({
+      name: member.name.trim(),
+      grossMonthlyIncome: member.grossMonthlyIncome,
+    })),
+    children: input.children,
+    savings: input.savings,
+    other_loans_monthly: input.otherLoansMonthly,
+    car_costs_monthly: input.carCostsMonthly,
+    municipal_tax_rate: input.municipalTaxRate ?? null,
+    interest_rate: input.interestRate ?? null,
+    stress_test_rate: input.stressTestRate ?? null,
+    updated_by: input.updatedBy,
+    updated_at: new Date().toISOString(),
+    space_id: input.spaceId ?? null,
+  };
+
+  const { data, error } = await (input.id
+    ? supabase.from('household_profiles').update(row).eq('id', input.id)
+    : supabase.from('household_profiles').insert(row)
+  )
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Failed to save household profile:', error);
+    throw error;
+  }
+
+  return rowToHouseholdProfile(data as HouseholdProfilesRow);
+}
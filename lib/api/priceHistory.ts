@@ -0,0 +1,44 @@
+import { supabase } from './supabaseClient';
+import { PricePoint } from '../types/property';
+
+/**
+ * Price History API - Read access to property_price_history (rows are written by a DB trigger)
+ */
+
+interface PriceHistoryRow {
+  id: string;
+  property_id: number;
+  price: number | string | null;
+  monthly_fee: number | string | null;
+  recorded_at: string;
+}
+
+function rowToPricePoint(row: PriceHistoryRow): PricePoint {
+  return {
+    id: row.id,
+    propertyId: row.property_id.toString(),
+    price: row.price != null ? Number(row.price) : undefined,
+    monthlyFee: row.monthly_fee != null ? Number(row.monthly_fee) : undefined,
+    recordedAt: row.recorded_at,
+  };
+}
+
+/**
+ * Fetch price history for one or more properties, oldest first
+ */
+export async function fetchPriceHistory(propertyIds: string[]): Promise<PricePoint[]> {
+  if (propertyIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('property_price_history')
+    .select('*')
+    .in('property_id', propertyIds)
+    .order('recorded_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch price history:', error);
+    throw error;
+  }
+
+  return (data || []).map((row: PriceHistoryRow) => rowToPricePoint(row));
+}
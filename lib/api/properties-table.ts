@@ -38,12 +38,12 @@ export interface Property {
 }
 
 /**
- * Fetch all properties from the properties table with valid coordinates
+ * Fetch all properties in a space (null = the open list) with valid coordinates
  */
-export async function fetchPropertiesFromTable(): Promise<Property[]> {
-  const { data, error } = await supabase
-    .from('properties')
-    .select('*')
+export async function fetchPropertiesFromTable(spaceId: string | null = null): Promise<Property[]> {
+  const query = supabase.from('properties').select('*');
+
+  const { data, error } = await (spaceId ? query.eq('space_id', spaceId) : query.is('space_id', null))
     .not('latitude', 'is', null)
     .not('longitude', 'is', null)
     .order('created_at', { ascending: false });
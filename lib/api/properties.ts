@@ -1,6 +1,12 @@
 import { supabase } from './supabaseClient';
 import { goApiClient } from './goApiClient';
 import { PropertyLink, PropertyLinkData, FinancialData } from '../store/propertyLinkStore';
+import { getAnonId, getAnonOwnerSecret, asAnonOwner } from '../utils/anonUser';
+import { getPropertySources, upsertSource, SourceSighting } from '../utils/sources';
+import { GeocodePrecision, GeocodeSource, PropertySource } from '../types/property';
+import { normalizeListingTitle, cleanText } from '../enrichment/titleNormalizer';
+import { extractSiteData } from '../enrichment/sites';
+import { resolvePropertyLocation } from './geocoding';
 
 /**
  * Properties API - All server operations for property management
@@ -11,12 +17,16 @@ import { PropertyLink, PropertyLinkData, FinancialData } from '../store/property
 export interface AddPropertyInput {
   url: string;
   sharedBy: string;
+  // Resolved from the listing when left out
   latitude?: number;
   longitude?: number;
+  geocodeSource?: GeocodeSource;
+  geocodePrecision?: GeocodePrecision;
+  spaceId?: string | null;
 }
 
 // Row shape returned by the `properties` table
-interface PropertiesRow {
+export interface PropertiesRow {
   id: number;
   url: string;
   title?: string;
@@ -28,6 +38,8 @@ interface PropertiesRow {
   municipality?: string;
   latitude?: string | number;
   longitude?: string | number;
+  geocode_source?: GeocodeSource | null;
+  geocode_precision?: GeocodePrecision | null;
   price?: number;
   price_per_sqm?: number;
   property_type?: string;
@@ -46,61 +58,109 @@ interface PropertiesRow {
   agent_name?: string;
   listing_date?: string;
   enrichment_status?: Record<string, unknown>;
+  sources?: PropertySource[];
   shared_by?: string;
+  anon_id?: string | null;
+  space_id?: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
-function rowToPropertyLink(row: PropertiesRow): PropertyLink {
+// PropertyLinkData fields without a column of their own, kept in enrichment_status.details
+const DETAIL_FIELDS = [
+  'rooms', 'bathrooms', 'areaUnit', 'postalCode', 'country',
+  'operatingCost', 'parking', 'features', 'source', 'publishedDate', 'brokerOffice',
+] as const;
+
+type PropertyDetails = Partial<PropertyLinkData>;
+
+/**
+ * Pick the fields stored in enrichment_status.details. Floor, elevator and balcony
+ * only land here when they are descriptive text the typed columns can't hold.
+ */
+function toPropertyDetails(pd: PropertyLinkData): PropertyDetails {
+  const details: Record<string, unknown> = {};
+  for (const field of DETAIL_FIELDS) {
+    if (pd[field] !== undefined) details[field] = pd[field];
+  }
+  if (typeof pd.floor === 'string') details.floor = pd.floor;
+  if (typeof pd.elevator === 'string') details.elevator = pd.elevator;
+  if (typeof pd.balcony === 'string') details.balcony = pd.balcony;
+  return details as PropertyDetails;
+}
+
+/**
+ * Map the listing columns and enrichment_status of a `properties` row to PropertyLinkData
+ */
+export function rowToPropertyData(row: PropertiesRow): PropertyLinkData {
+  const enrichment = (row.enrichment_status || {}) as Record<string, unknown>;
+  const details = (enrichment.details || {}) as PropertyDetails;
+
+  return {
+    ...details,
+    price: row.price,
+    address: row.address,
+    city: row.municipality,
+    bedrooms: row.rooms,
+    area: row.area_sqm,
+    monthlyFee: row.monthly_fee,
+    floor: row.floor ?? details.floor,
+    totalFloors: row.total_floors,
+    propertyType: row.property_type,
+    tenureType: row.tenure_type,
+    buildYear: row.year_built,
+    elevator: row.has_elevator ?? details.elevator,
+    balcony: row.has_balcony ?? details.balcony,
+    energyClass: row.energy_class,
+    enrichmentStatus: enrichment.enrichmentStatus as PropertyLinkData['enrichmentStatus'],
+    lastEnriched: enrichment.lastEnriched as string | undefined,
+    enrichmentStartedAt: enrichment.enrichmentStartedAt as string | undefined,
+    currency: enrichment.currency as string | undefined,
+  };
+}
+
+/**
+ * Map a `properties` row to the app's PropertyLink shape (also used by realtime handlers)
+ */
+export function rowToPropertyLink(row: PropertiesRow): PropertyLink {
   const enrichment = (row.enrichment_status || {}) as Record<string, unknown>;
+  const details = (enrichment.details || {}) as PropertyDetails;
 
   const hasPropertyData =
     row.address || row.municipality || row.price || row.rooms ||
-    row.area_sqm || enrichment.enrichmentStatus;
-
-  const propertyData: PropertyLinkData | undefined = hasPropertyData
-    ? {
-        price: row.price,
-        address: row.address,
-        city: row.municipality,
-        bedrooms: row.rooms,
-        area: row.area_sqm,
-        monthlyFee: row.monthly_fee,
-        floor: row.floor,
-        propertyType: row.property_type,
-        buildYear: row.year_built,
-        elevator: row.has_elevator,
-        balcony: row.has_balcony,
-        energyClass: row.energy_class,
-        enrichmentStatus: enrichment.enrichmentStatus as PropertyLinkData['enrichmentStatus'],
-        lastEnriched: enrichment.lastEnriched as string | undefined,
-        currency: enrichment.currency as string | undefined,
-      }
-    : undefined;
+    row.area_sqm || enrichment.enrichmentStatus || Object.keys(details).length > 0;
+
+  const propertyData = hasPropertyData ? rowToPropertyData(row) : undefined;
 
   return {
     id: row.id.toString(),
     url: row.url,
+    // Missing when a realtime UPDATE payload leaves the column out
+    sources: row.sources,
     title: row.title,
     description: row.description,
     image: row.image_url,
     images: row.images,
     sharedBy: row.shared_by || 'anon',
+    anonId: row.anon_id ?? undefined,
     sharedAt: row.created_at || new Date().toISOString(),
+    spaceId: row.space_id ?? null,
     latitude: row.latitude != null ? Number(row.latitude) : undefined,
     longitude: row.longitude != null ? Number(row.longitude) : undefined,
+    geocodeSource: row.geocode_source ?? undefined,
+    geocodePrecision: row.geocode_precision ?? undefined,
     propertyData,
     financialData: enrichment.financialData as FinancialData | undefined,
   };
 }
 
 /**
- * Fetch all properties from Supabase
+ * Fetch all properties in a space from Supabase (null = the open list)
  */
-export async function fetchProperties(): Promise<PropertyLink[]> {
-  const { data, error } = await supabase
-    .from('properties')
-    .select('*')
+export async function fetchProperties(spaceId: string | null = null): Promise<PropertyLink[]> {
+  const query = supabase.from('properties').select('*');
+
+  const { data, error } = await (spaceId ? query.eq('space_id', spaceId) : query.is('space_id', null))
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -116,9 +176,12 @@ export async function fetchProperties(): Promise<PropertyLink[]> {
  */
 export async function fetchPropertyMetadata(url: string): Promise<{
   title?: string;
+  siteName?: string;
   description?: string;
   image?: string;
   images?: string[];
+  latitude?: number;
+  longitude?: number;
   propertyData?: PropertyLinkData;
 }> {
   try {
@@ -159,14 +222,31 @@ export async function fetchPropertyMetadata(url: string): Promise<{
       };
     }
 
+    // Decode entities, strip broker branding and read hints for missing OG fields
+    const { title, hints } = normalizeListingTitle(ogResponse.title, url);
+    // Site-specific OG keys and JSON-LD from the site registry
+    const site = extractSiteData(url, ogResponse);
+    if (site.failures.length > 0) {
+      console.warn('⚠️ Could not parse site fields:', site.failures);
+    }
+
     // Convert OG response to PropertyLinkData format
     const propertyData: PropertyLinkData = {
-      price: ogResponse.price,
-      currency: ogResponse.currency || 'SEK',
-      address: ogResponse.address,
-      city: ogResponse.city,
-      area: ogResponse.area,
-      bedrooms: ogResponse.bedrooms,
+      price: site.propertyData.price ?? ogResponse.price,
+      currency: site.propertyData.currency || ogResponse.currency || 'SEK',
+      address: site.propertyData.address ?? cleanText(ogResponse.address) ?? hints.address,
+      city: site.propertyData.city ?? cleanText(ogResponse.city) ?? hints.city,
+      area: site.propertyData.area ?? ogResponse.area ?? hints.area,
+      bedrooms: site.propertyData.bedrooms ?? ogResponse.bedrooms,
+      rooms: site.propertyData.rooms ?? hints.rooms,
+      propertyType: site.propertyData.propertyType ?? hints.propertyType,
+      postalCode: site.propertyData.postalCode,
+      country: site.propertyData.country,
+      bathrooms: site.propertyData.bathrooms,
+      buildYear: site.propertyData.buildYear,
+      energyClass: site.propertyData.energyClass,
+      brokerOffice: site.propertyData.brokerOffice,
+      source: site.propertyData.source,
       enrichmentStatus: 'og_only',
       lastEnriched: new Date().toISOString(),
     };
@@ -181,8 +261,11 @@ export async function fetchPropertyMetadata(url: string): Promise<{
     }
 
     return {
-      title: ogResponse.title || urlObj.hostname.replace('www.', ''),
-      description: ogResponse.description || '',
+      title: title || urlObj.hostname.replace('www.', ''),
+      siteName: cleanText(ogResponse.siteName) ?? site.site?.name,
+      latitude: site.latitude,
+      longitude: site.longitude,
+      description: cleanText(ogResponse.description) || '',
       image: ogResponse.image || '',
       images: images.length > 0 ? images : undefined,
       propertyData: Object.keys(propertyData).length > 0 ? propertyData : undefined
@@ -220,29 +303,41 @@ export interface InsertPropertyWithMetadataInput {
   sharedBy: string;
   latitude?: number;
   longitude?: number;
+  geocodeSource?: GeocodeSource;
+  geocodePrecision?: GeocodePrecision;
   title?: string;
   description?: string;
   image?: string;
   images?: string[];
+  siteName?: string;
   propertyData?: PropertyLinkData;
+  spaceId?: string | null;
 }
 
 export async function insertPropertyWithMetadata(
   input: InsertPropertyWithMetadataInput
 ): Promise<PropertyLink> {
   const pd = input.propertyData;
+  const url = input.url.trim();
 
   const { data, error } = await supabase
     .from('properties')
     .insert({
-      url: input.url,
+      url,
+      site_name: input.siteName,
+      sources: upsertSource([], { url, siteName: input.siteName, price: pd?.price }),
       title: input.title,
       description: input.description,
       image_url: input.image,
       images: input.images,
       shared_by: input.sharedBy,
+      space_id: input.spaceId ?? null,
+      // Lets the device claim the property after signing in
+      anon_id: input.sharedBy === 'anon' ? await getAnonId() : null,
       latitude: input.latitude,
       longitude: input.longitude,
+      geocode_source: input.geocodeSource,
+      geocode_precision: input.geocodePrecision,
       address: pd?.address,
       municipality: pd?.city,
       price: pd?.price,
@@ -250,13 +345,20 @@ export async function insertPropertyWithMetadata(
       area_sqm: pd?.area,
       monthly_fee: pd?.monthlyFee,
       floor: typeof pd?.floor === 'number' ? pd.floor : undefined,
+      total_floors: pd?.totalFloors,
       property_type: pd?.propertyType,
+      tenure_type: pd?.tenureType,
       year_built: pd?.buildYear,
       has_elevator: typeof pd?.elevator === 'boolean' ? pd.elevator : undefined,
       has_balcony: typeof pd?.balcony === 'boolean' ? pd.balcony : undefined,
       energy_class: pd?.energyClass,
       enrichment_status: pd
-        ? { enrichmentStatus: pd.enrichmentStatus, lastEnriched: pd.lastEnriched, currency: pd.currency }
+        ? {
+            enrichmentStatus: pd.enrichmentStatus,
+            lastEnriched: pd.lastEnriched,
+            currency: pd.currency,
+            details: toPropertyDetails(pd),
+          }
         : {},
     })
     .select()
@@ -276,18 +378,30 @@ export async function insertPropertyWithMetadata(
 export async function addProperty(input: AddPropertyInput): Promise<PropertyLink> {
   const metadata = await fetchPropertyMetadata(input.url);
   const pd = metadata.propertyData;
+  const url = input.url.trim();
+  const location =
+    input.latitude != null && input.longitude != null
+      ? input
+      : await resolvePropertyLocation({ url: input.url, ...metadata });
 
   const { data, error } = await supabase
     .from('properties')
     .insert({
-      url: input.url,
+      url,
+      site_name: metadata.siteName,
+      sources: upsertSource([], { url, siteName: metadata.siteName, price: pd?.price }),
       title: metadata.title,
       description: metadata.description,
       image_url: metadata.image,
       images: metadata.images,
       shared_by: input.sharedBy,
-      latitude: input.latitude,
-      longitude: input.longitude,
+      space_id: input.spaceId ?? null,
+      // Lets the device claim the property after signing in
+      anon_id: input.sharedBy === 'anon' ? await getAnonId() : null,
+      latitude: location?.latitude,
+      longitude: location?.longitude,
+      geocode_source: location?.geocodeSource,
+      geocode_precision: location?.geocodePrecision,
       address: pd?.address,
       municipality: pd?.city,
       price: pd?.price,
@@ -295,13 +409,20 @@ export async function addProperty(input: AddPropertyInput): Promise<PropertyLink
       area_sqm: pd?.area,
       monthly_fee: pd?.monthlyFee,
       floor: typeof pd?.floor === 'number' ? pd.floor : undefined,
+      total_floors: pd?.totalFloors,
       property_type: pd?.propertyType,
+      tenure_type: pd?.tenureType,
       year_built: pd?.buildYear,
       has_elevator: typeof pd?.elevator === 'boolean' ? pd.elevator : undefined,
       has_balcony: typeof pd?.balcony === 'boolean' ? pd.balcony : undefined,
       energy_class: pd?.energyClass,
       enrichment_status: pd
-        ? { enrichmentStatus: pd.enrichmentStatus, lastEnriched: pd.lastEnriched, currency: pd.currency }
+        ? {
+            enrichmentStatus: pd.enrichmentStatus,
+            lastEnriched: pd.lastEnriched,
+            currency: pd.currency,
+            details: toPropertyDetails(pd),
+          }
         : {},
     })
     .select()
@@ -333,6 +454,9 @@ export async function updateProperty(
   if (updates.images !== undefined) payload.images = updates.images;
   if (updates.latitude !== undefined) payload.latitude = updates.latitude;
   if (updates.longitude !== undefined) payload.longitude = updates.longitude;
+  if (updates.geocodeSource !== undefined) payload.geocode_source = updates.geocodeSource;
+  if (updates.geocodePrecision !== undefined) payload.geocode_precision = updates.geocodePrecision;
+  if (updates.sources !== undefined) payload.sources = updates.sources;
 
   if (pd) {
     if (pd.address !== undefined) payload.address = pd.address;
@@ -342,28 +466,105 @@ export async function updateProperty(
     if (pd.area !== undefined) payload.area_sqm = pd.area;
     if (pd.monthlyFee !== undefined) payload.monthly_fee = pd.monthlyFee;
     if (typeof pd.floor === 'number') payload.floor = pd.floor;
+    if (pd.totalFloors !== undefined) payload.total_floors = pd.totalFloors;
     if (pd.propertyType !== undefined) payload.property_type = pd.propertyType;
+    if (pd.tenureType !== undefined) payload.tenure_type = pd.tenureType;
     if (pd.buildYear !== undefined) payload.year_built = pd.buildYear;
     if (typeof pd.elevator === 'boolean') payload.has_elevator = pd.elevator;
     if (typeof pd.balcony === 'boolean') payload.has_balcony = pd.balcony;
     if (pd.energyClass !== undefined) payload.energy_class = pd.energyClass;
-    payload.enrichment_status = {
-      enrichmentStatus: pd.enrichmentStatus,
-      lastEnriched: pd.lastEnriched,
-      currency: pd.currency,
-      ...(fd ? { financialData: fd } : {}),
-    };
   }
 
-  const { data, error } = await supabase
+  // Undefined fields drop out when serialized, so the stored values stay
+  const enrichmentPatch =
+    pd || fd
+      ? {
+          ...(pd
+            ? {
+                enrichmentStatus: pd.enrichmentStatus,
+                lastEnriched: pd.lastEnriched,
+                enrichmentStartedAt: pd.enrichmentStartedAt,
+                currency: pd.currency,
+                details: toPropertyDetails(pd),
+              }
+            : {}),
+          ...(fd ? { financialData: fd } : {}),
+        }
+      : null;
+
+  const anonSecret = await getAnonOwnerSecret();
+  let row: PropertiesRow | null = null;
+
+  if (Object.keys(payload).length > 0 || !enrichmentPatch) {
+    const { data, error } = await asAnonOwner(
+      supabase.from('properties').update(payload).eq('id', id),
+      anonSecret
+    )
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to update property:', error);
+      throw error;
+    }
+    row = data as PropertiesRow;
+  }
+
+  if (enrichmentPatch) {
+    row = await mergeEnrichmentStatus(id, enrichmentPatch, anonSecret);
+  }
+
+  return rowToPropertyLink(row as PropertiesRow);
+}
+
+/**
+ * Merge a patch into enrichment_status on the server, so concurrent updates
+ * (enrichment status, financial data) don't overwrite each other
+ */
+async function mergeEnrichmentStatus(
+  id: string,
+  patch: Record<string, unknown>,
+  anonSecret: string | null
+): Promise<PropertiesRow> {
+  const { data, error } = await asAnonOwner(
+    supabase.rpc('merge_enrichment_status', { merge_property_id: id, merge_patch: patch }),
+    anonSecret
+  ).single();
+
+  if (error) {
+    console.error('Failed to update property:', error);
+    throw error;
+  }
+
+  return data as PropertiesRow;
+}
+
+/**
+ * Record another site listing an existing property instead of inserting a duplicate
+ */
+export async function addPropertySource(id: string, sighting: SourceSighting): Promise<PropertyLink> {
+  const { data: existing, error: fetchError } = await supabase
     .from('properties')
-    .update(payload)
+    .select('*')
     .eq('id', id)
+    .single();
+
+  if (fetchError) {
+    console.error('Failed to fetch property:', fetchError);
+    throw fetchError;
+  }
+
+  const sources = upsertSource(getPropertySources(rowToPropertyLink(existing as PropertiesRow)), sighting);
+
+  const { data, error } = await asAnonOwner(
+    supabase.from('properties').update({ sources }).eq('id', id),
+    await getAnonOwnerSecret()
+  )
     .select()
     .single();
 
   if (error) {
-    console.error('Failed to update property:', error);
+    console.error('Failed to add property source:', error);
     throw error;
   }
 
@@ -374,10 +575,10 @@ export async function updateProperty(
  * Delete a property
  */
 export async function deleteProperty(id: string): Promise<void> {
-  const { error } = await supabase
-    .from('properties')
-    .delete()
-    .eq('id', id);
+  const { error } = await asAnonOwner(
+    supabase.from('properties').delete().eq('id', id),
+    await getAnonOwnerSecret()
+  );
 
   if (error) {
     console.error('Failed to delete property:', error);
@@ -392,21 +593,10 @@ export async function updateFinancialData(
   id: string,
   financialData: FinancialData
 ): Promise<void> {
-  const { data: existing } = await supabase
-    .from('properties')
-    .select('enrichment_status')
-    .eq('id', id)
-    .single();
-
-  const { error } = await supabase
-    .from('properties')
-    .update({
-      enrichment_status: {
-        ...(existing?.enrichment_status || {}),
-        financialData,
-      },
-    })
-    .eq('id', id);
+  const { error } = await asAnonOwner(
+    supabase.rpc('merge_enrichment_status', { merge_property_id: id, merge_patch: { financialData } }),
+    await getAnonOwnerSecret()
+  );
 
   if (error) {
     console.error('Failed to update financial data:', error);
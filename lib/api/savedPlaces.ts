@@ -0,0 +1,94 @@
+import { supabase } from './supabaseClient';
+import { SavedPlace, SavedPlaceKind } from '../types/savedPlace';
+
+/**
+ * Saved Places API - important places of a household, per space
+ */
+
+// Row shape returned by the `saved_places` table
+interface SavedPlacesRow {
+  id: string;
+  space_id: string | null;
+  name: string;
+  kind: SavedPlaceKind;
+  latitude: number;
+  longitude: number;
+  created_by: string;
+  created_at: string;
+}
+
+function rowToSavedPlace(row: SavedPlacesRow): SavedPlace {
+  return {
+    id: row.id,
+    spaceId: row.space_id,
+    name: row.name,
+    kind: row.kind,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+export interface CreateSavedPlaceInput {
+  name: string;
+  kind: SavedPlaceKind;
+  latitude: number;
+  longitude: number;
+  createdBy: string;
+  spaceId?: string | null;
+}
+
+/**
+ * Fetch the saved places of a space (null = the open list), oldest first
+ */
+export async function fetchSavedPlaces(spaceId: string | null = null): Promise<SavedPlace[]> {
+  const query = supabase.from('saved_places').select('*');
+
+  const { data, error } = await (spaceId ? query.eq('space_id', spaceId) : query.is('space_id', null))
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch saved places:', error);
+    throw error;
+  }
+
+  return ((data || []) as SavedPlacesRow[]).map(rowToSavedPlace);
+}
+
+/**
+ * Save a point on the map as an important place
+ */
+export async function createSavedPlace(input: CreateSavedPlaceInput): Promise<SavedPlace> {
+  const { data, error } = await supabase
+    .from('saved_places')
+    .insert({
+      name: input.name.trim(),
+      kind: input.kind,
+      latitude: input.latitude,
+      longitude: input.longitude,
+      created_by: input.createdBy,
+      space_id: input.spaceId ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Failed to create saved place:', error);
+    throw error;
+  }
+
+  return rowToSavedPlace(data as SavedPlacesRow);
+}
+
+/**
+ * Delete a saved place
+ */
+export async function deleteSavedPlace(id: string): Promise<void> {
+  const { error } = await supabase.from('saved_places').delete().eq('id', id);
+
+  if (error) {
+    console.error('Failed to delete saved place:', error);
+    throw error;
+  }
+}
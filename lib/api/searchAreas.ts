@@ -0,0 +1,94 @@
+import { supabase } from './supabaseClient';
+import { AreaPoint, SearchArea } from '../types/searchArea';
+import { getAnonId, getAnonOwnerSecret, asAnonOwner } from '../utils/anonUser';
+
+/**
+ * Search Areas API - named polygons drawn on the map, per space
+ */
+
+// Row shape returned by the `search_areas` table
+interface SearchAreasRow {
+  id: string;
+  space_id: string | null;
+  name: string;
+  polygon: AreaPoint[];
+  created_by: string;
+  anon_id: string | null;
+  created_at: string;
+}
+
+function rowToSearchArea(row: SearchAreasRow): SearchArea {
+  return {
+    id: row.id,
+    spaceId: row.space_id,
+    name: row.name,
+    polygon: row.polygon,
+    createdBy: row.created_by,
+    anonId: row.anon_id ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+export interface CreateSearchAreaInput {
+  name: string;
+  polygon: AreaPoint[];
+  createdBy: string;
+  spaceId?: string | null;
+}
+
+/**
+ * Fetch the search areas of a space (null = the open list), oldest first
+ */
+export async function fetchSearchAreas(spaceId: string | null = null): Promise<SearchArea[]> {
+  const query = supabase.from('search_areas').select('*');
+
+  const { data, error } = await (spaceId ? query.eq('space_id', spaceId) : query.is('space_id', null))
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch search areas:', error);
+    throw error;
+  }
+
+  return ((data || []) as SearchAreasRow[]).map(rowToSearchArea);
+}
+
+/**
+ * Save a drawn polygon as a named search area
+ */
+export async function createSearchArea(input: CreateSearchAreaInput): Promise<SearchArea> {
+  const { data, error } = await supabase
+    .from('search_areas')
+    .insert({
+      name: input.name.trim(),
+      polygon: input.polygon,
+      created_by: input.createdBy,
+      // Lets the device delete the area while signed out
+      anon_id: input.createdBy === 'anon' ? await getAnonId() : null,
+      space_id: input.spaceId ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Failed to create search area:', error);
+    throw error;
+  }
+
+  return rowToSearchArea(data as SearchAreasRow);
+}
+
+/**
+ * Delete a search area
+ */
+export async function deleteSearchArea(id: string): Promise<void> {
+  const { error } = await asAnonOwner(
+    supabase.from('search_areas').delete().eq('id', id),
+    await getAnonOwnerSecret()
+  );
+
+  if (error) {
+    console.error('Failed to delete search area:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,252 @@
+import { supabase } from './supabaseClient';
+import {
+  Space,
+  SpaceMember,
+  SpaceInvite,
+  CreatedSpaceInvite,
+  SpaceInvitePreview,
+} from '../types/space';
+
+/**
+ * Spaces API - All server operations for shared spaces, their members and invites
+ */
+
+// ============ SPACES ============
+
+// Row shape returned by the `spaces` table
+interface SpacesRow {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Row shape returned by the `space_members` table
+interface SpaceMembersRow {
+  space_id: string;
+  user_id: string;
+  display_name?: string | null;
+  role: SpaceMember['role'];
+  joined_at: string;
+}
+
+// Row shape returned by the `space_invites` table
+interface SpaceInvitesRow {
+  id: string;
+  space_id: string;
+  email?: string | null;
+  status: SpaceInvite['status'];
+  invited_by: string;
+  accepted_by?: string | null;
+  expires_at: string;
+  accepted_at?: string | null;
+  created_at: string;
+  // Embedded count from space_invite_acceptances
+  space_invite_acceptances?: { count: number }[];
+}
+
+function rowToSpace(row: SpacesRow): Space {
+  return {
+    id: row.id,
+    name: row.name,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function rowToSpaceMember(row: SpaceMembersRow): SpaceMember {
+  return {
+    spaceId: row.space_id,
+    userId: row.user_id,
+    displayName: row.display_name ?? undefined,
+    role: row.role,
+    joinedAt: row.joined_at,
+  };
+}
+
+/**
+ * Fetch all spaces the current user is a member of (RLS filters the rest)
+ */
+export async function fetchSpaces(): Promise<Space[]> {
+  const { data, error } = await supabase
+    .from('spaces')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch spaces:', error);
+    throw error;
+  }
+
+  return (data || []).map((item: SpacesRow) => rowToSpace(item));
+}
+
+/**
+ * Create a new space - the creator is added as owner by a database trigger
+ */
+export async function createSpace(name: string): Promise<Space> {
+  const { data, error } = await supabase
+    .from('spaces')
+    .insert({ name: name.trim() })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Failed to create space:', error);
+    throw error;
+  }
+
+  return rowToSpace(data as SpacesRow);
+}
+
+/**
+ * Fetch the members of a space
+ */
+export async function fetchSpaceMembers(spaceId: string): Promise<SpaceMember[]> {
+  const { data, error } = await supabase
+    .from('space_members')
+    .select('*')
+    .eq('space_id', spaceId)
+    .order('joined_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch space members:', error);
+    throw error;
+  }
+
+  return (data || []).map((item: SpaceMembersRow) => rowToSpaceMember(item));
+}
+
+/**
+ * Remove a user from a space (leaving, or an owner removing a member)
+ */
+export async function removeSpaceMember(spaceId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('space_members')
+    .delete()
+    .eq('space_id', spaceId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Failed to remove space member:', error);
+    throw error;
+  }
+}
+
+// ============ INVITES ============
+
+function rowToSpaceInvite(row: SpaceInvitesRow): SpaceInvite {
+  return {
+    id: row.id,
+    spaceId: row.space_id,
+    email: row.email ?? undefined,
+    status: row.status,
+    invitedBy: row.invited_by,
+    acceptedBy: row.accepted_by ?? undefined,
+    expiresAt: row.expires_at,
+    acceptedAt: row.accepted_at ?? undefined,
+    acceptedCount: row.space_invite_acceptances?.[0]?.count ?? 0,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Fetch all invites to a space, newest first
+ */
+export async function fetchSpaceInvites(spaceId: string): Promise<SpaceInvite[]> {
+  const { data, error } = await supabase
+    .from('space_invites')
+    .select('*, space_invite_acceptances(count)')
+    .eq('space_id', spaceId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Failed to fetch space invites:', error);
+    throw error;
+  }
+
+  return (data || []).map((item: SpaceInvitesRow) => rowToSpaceInvite(item));
+}
+
+/**
+ * Create a signed, expiring invite - pass an email for a personal invite or
+ * leave it out for a shareable link
+ */
+export async function createSpaceInvite(
+  spaceId: string,
+  email?: string
+): Promise<CreatedSpaceInvite> {
+  const { data, error } = await supabase
+    .rpc('create_space_invite', { target_space_id: spaceId, invite_email: email || null })
+    .single();
+
+  if (error) {
+    console.error('Failed to create space invite:', error);
+    throw error;
+  }
+
+  const row = data as { invite_id: string; token: string; expires_at: string };
+  return {
+    inviteId: row.invite_id,
+    token: row.token,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * Revoke a pending invite
+ */
+export async function revokeSpaceInvite(inviteId: string): Promise<void> {
+  const { error } = await supabase
+    .from('space_invites')
+    .update({ status: 'revoked' })
+    .eq('id', inviteId);
+
+  if (error) {
+    console.error('Failed to revoke space invite:', error);
+    throw error;
+  }
+}
+
+/**
+ * Look up the space behind an invite token (null when the token is invalid)
+ */
+export async function fetchSpaceInvitePreview(token: string): Promise<SpaceInvitePreview | null> {
+  const { data, error } = await supabase
+    .rpc('get_space_invite', { invite_token: token })
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to fetch space invite:', error);
+    throw error;
+  }
+
+  if (!data) return null;
+
+  const row = data as { space_id: string; space_name: string; status: SpaceInvite['status']; expires_at: string };
+  return {
+    spaceId: row.space_id,
+    spaceName: row.space_name,
+    status: row.status,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * Join the space behind an invite token - returns the space id
+ */
+export async function acceptSpaceInvite(token: string, displayName?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('accept_space_invite', {
+    invite_token: token,
+    member_display_name: displayName || null,
+  });
+
+  if (error) {
+    console.error('Failed to accept space invite:', error);
+    throw error;
+  }
+
+  return data as string;
+}
@@ -0,0 +1,86 @@
+/**
+ * Maps the raw string values returned by /go/auto-crawl into typed property fields.
+ *
+ * The LLM returns every keyword from PROPERTY_KEYWORDS as a free-form string
+ * ("6 992 kr/mån", "Ja", "3 av 5"); swedishParser turns those into typed values
+ * and reports the ones it couldn't interpret.
+ */
+
+import type { PropertyLinkData } from '../store/propertyLinkStore';
+import { cleanValue, parseCoordinate, parseListingFields, ParseFailure } from './swedishParser';
+
+export interface MappedEnrichment {
+  propertyData: PropertyLinkData;
+  title?: string;
+  description?: string;
+  latitude?: number;
+  longitude?: number;
+  /** Values the LLM returned that couldn't be parsed into their typed field */
+  failures: ParseFailure[];
+}
+
+/**
+ * Features arrive as a JSON array or a comma/semicolon/newline separated list.
+ */
+function parseFeatures(value: string | undefined): string[] | undefined {
+  const cleaned = cleanValue(value);
+  if (!cleaned) return undefined;
+
+  let items: unknown[] | undefined;
+  if (cleaned.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(cleaned);
+      if (Array.isArray(parsed)) items = parsed;
+    } catch {
+      // Fall through to delimiter splitting
+    }
+  }
+
+  const features = (items ?? String(value).split(/[,;\n•]/))
+    .map((item) => cleanValue(String(item)))
+    .filter((item): item is string => !!item);
+
+  return features.length > 0 ? features : undefined;
+}
+
+/**
+ * Drop undefined values so spreading the result never erases existing data.
+ */
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as T;
+}
+
+/**
+ * Convert auto-crawl `extractedData` into typed PropertyLinkData.
+ *
+ * @param extractedData - Raw keyword → string map from the Go API
+ * @returns Typed property data plus listing title/description and coordinates, if found
+ */
+export function mapExtractedData(extractedData: Record<string, string>): MappedEnrichment {
+  const get = (key: string) => cleanValue(extractedData[key]);
+  const { data, failures } = parseListingFields(extractedData);
+
+  const propertyData = compact<PropertyLinkData>({
+    ...data,
+    currency: get('currency')?.toUpperCase().replace(/^KR$/, 'SEK'),
+    address: get('address') ?? get('street'),
+    city: get('city'),
+    postalCode: get('postalCode'),
+    country: get('country'),
+    propertyType: get('propertyType'),
+    features: parseFeatures(extractedData.features),
+    source: get('source'),
+    publishedDate: get('publishedDate'),
+  });
+
+  return compact<MappedEnrichment>({
+    propertyData,
+    title: get('title'),
+    description: get('description'),
+    latitude: parseCoordinate(extractedData.latitude, 90),
+    longitude: parseCoordinate(extractedData.longitude, 180),
+    failures,
+  });
+}
@@ -0,0 +1,270 @@
+/**
+ * Enrichment orchestrator - runs the LLM stage for a saved property
+ *
+ * Flow:
+ * 1. Mark the property `llm_processing` (realtime + PropertyEnrichmentBadge pick this up)
+ * 2. POST /go/auto-crawl and keep polling while the Go API answers `processing`
+ * 3. Map `extractedData` into PropertyLinkData and persist it as `llm_complete`,
+ *    or mark the property `llm_failed` so the OG data stays usable
+ *
+ * Properties listed on several sites are extracted from every source; the richest
+ * extraction wins and the others fill in fields it lacks.
+ *
+ * Stored listings are refreshed in two steps: fetchListingRefresh previews the
+ * changed fields, applyListingRefresh writes them once the user confirms.
+ */
+
+import { goApiClient, AutoCrawlResponse } from '../api/goApiClient';
+import { updateProperty, fetchPropertyMetadata } from '../api/properties';
+import { PropertyLink } from '../store/propertyLinkStore';
+import { PropertySource } from '../types/property';
+import { getPropertySources, pickRichestSource, upsertSource } from '../utils/sources';
+import { listingCoordinateUpdate } from '../utils/coordinates';
+import { mapExtractedData, MappedEnrichment } from './mapExtractedData';
+import { diffListing, pickAcceptedUpdates, FieldChange } from './refresh';
+
+const POLL_INTERVAL_MS = 3000;
+const MAX_POLL_ATTEMPTS = 40; // ~2 minutes
+
+export interface EnrichPropertyOptions {
+  signal?: AbortSignal;
+  /** Called with the persisted `llm_processing` property before polling starts */
+  onProcessing?: (property: PropertyLink) => void;
+}
+
+function isProcessing(response: AutoCrawlResponse): boolean {
+  return response.method === 'processing' || response.status === 'processing';
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Enrichment aborted'));
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new Error('Enrichment aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Call /go/auto-crawl until the extraction is no longer processing
+ */
+async function pollAutoCrawl(url: string, signal?: AbortSignal): Promise<AutoCrawlResponse> {
+  for (let attempt = 1; attempt <= MAX_POLL_ATTEMPTS; attempt++) {
+    const response = await goApiClient.enrichPropertyData(url);
+    if (!isProcessing(response)) return response;
+
+    console.log(`⏳ Enrichment still processing (${attempt}/${MAX_POLL_ATTEMPTS}) for`, url);
+    await wait(POLL_INTERVAL_MS, signal);
+  }
+
+  throw new Error(`Enrichment timed out after ${MAX_POLL_ATTEMPTS} attempts`);
+}
+
+/**
+ * Run the LLM extraction for a listing URL and map the result
+ */
+async function extractListing(url: string, signal?: AbortSignal): Promise<MappedEnrichment> {
+  const response = await pollAutoCrawl(url, signal);
+  if (response.status === 'failed' || response.error) {
+    throw new Error(response.error || 'Enrichment failed');
+  }
+
+  const mapped = mapExtractedData(response.extractedData || {});
+  if (mapped.failures.length > 0) {
+    console.warn('⚠️ Could not parse enriched fields:', mapped.failures);
+  }
+  return mapped;
+}
+
+interface SourcesExtraction {
+  mapped: MappedEnrichment;
+  /** Sources with lastSeen and price updated for every listing that could be read */
+  sources: PropertySource[];
+}
+
+/**
+ * Run the LLM extraction for every source of a property and merge the results
+ */
+async function extractSources(property: PropertyLink, signal?: AbortSignal): Promise<SourcesExtraction> {
+  const sources = getPropertySources(property);
+  let lastError: unknown;
+
+  const results = await Promise.all(
+    sources.map((source) =>
+      extractListing(source.url, signal).then(
+        (mapped) => ({ source, mapped, propertyData: mapped.propertyData }),
+        (error) => {
+          lastError = error;
+          console.error(`Failed to extract ${source.url}:`, error);
+          return null;
+        }
+      )
+    )
+  );
+
+  const succeeded = results.filter((result): result is NonNullable<typeof result> => result !== null);
+  const richest = pickRichestSource(succeeded);
+  if (!richest) throw lastError;
+
+  // Fields the richest source lacks come from the others, earlier sources first
+  const propertyData = Object.assign(
+    {},
+    ...succeeded.filter((result) => result !== richest).reverse().map((result) => result.propertyData),
+    richest.propertyData
+  );
+
+  const seenAt = new Date().toISOString();
+  return {
+    mapped: { ...richest.mapped, propertyData },
+    sources: succeeded.reduce(
+      (acc, result) => upsertSource(acc, { url: result.source.url, price: result.propertyData.price }, seenAt),
+      sources
+    ),
+  };
+}
+
+/**
+ * Run LLM enrichment for a saved property and persist the result
+ *
+ * Extracted values are merged over the stored property data. Title, description
+ * and coordinates are only filled in when the property doesn't have them yet.
+ *
+ * @returns The updated property (status `llm_complete` or `llm_failed`)
+ */
+export async function enrichProperty(
+  property: PropertyLink,
+  options: EnrichPropertyOptions = {}
+): Promise<PropertyLink> {
+  const { signal, onProcessing } = options;
+
+  if (!goApiClient.isConfigured()) {
+    console.warn('⚠️ Go API not configured, skipping enrichment');
+    return property;
+  }
+
+  const processing = await updateProperty(property.id, {
+    propertyData: { enrichmentStatus: 'llm_processing', enrichmentStartedAt: new Date().toISOString() },
+  });
+  onProcessing?.(processing);
+
+  let mapped: MappedEnrichment;
+  let sources: PropertySource[];
+  try {
+    ({ mapped, sources } = await extractSources(property, signal));
+  } catch (error) {
+    console.error('Failed to enrich property:', error);
+    return updateProperty(property.id, {
+      propertyData: { enrichmentStatus: 'llm_failed', lastEnriched: new Date().toISOString() },
+    });
+  }
+
+  return updateProperty(property.id, {
+    ...(!property.title && mapped.title ? { title: mapped.title } : {}),
+    ...(!property.description && mapped.description ? { description: mapped.description } : {}),
+    ...listingCoordinateUpdate(property, mapped),
+    sources,
+    propertyData: {
+      ...property.propertyData,
+      ...mapped.propertyData,
+      enrichmentStatus: 'llm_complete',
+      lastEnriched: new Date().toISOString(),
+    },
+  });
+}
+
+// ============ REFRESH ============
+
+function definedOnly<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+export interface ListingRefresh {
+  /** What would be written back; nothing is persisted until applyListingRefresh */
+  updates: Partial<PropertyLink>;
+  changes: FieldChange[];
+  /** False when only the OG stage succeeded */
+  llmSucceeded: boolean;
+}
+
+/**
+ * Re-run OG + LLM extraction for a stored property and diff it against the stored data
+ *
+ * Unlike enrichProperty, fresh OG title/description/image replace the stored ones
+ * (the listing may have been edited). Fields neither stage found keep their value.
+ */
+export async function fetchListingRefresh(
+  property: PropertyLink,
+  options: { signal?: AbortSignal } = {}
+): Promise<ListingRefresh> {
+  if (!goApiClient.isConfigured()) {
+    throw new Error('Go API URL not configured. Set EXPO_PUBLIC_CRAWLER_API_URL in .env');
+  }
+
+  const [metadata, extraction] = await Promise.all([
+    fetchPropertyMetadata(property.url),
+    extractSources(property, options.signal).catch((error) => {
+      console.error('Failed to refresh LLM data:', error);
+      return null;
+    }),
+  ]);
+  const mapped = extraction?.mapped;
+
+  // fetchPropertyMetadata falls back to placeholders instead of throwing
+  const og = metadata.propertyData?.enrichmentStatus === 'og_only' ? metadata : null;
+  if (!og && !mapped) {
+    throw new Error('Could not fetch the listing');
+  }
+
+  const ogData = { ...og?.propertyData };
+  delete ogData.enrichmentStatus;
+  delete ogData.lastEnriched;
+
+  const updates: Partial<PropertyLink> = {
+    title: og?.title || mapped?.title,
+    description: og?.description || mapped?.description,
+    image: og?.image || undefined,
+    images: og?.images,
+    ...listingCoordinateUpdate(property, mapped),
+    sources: extraction?.sources,
+    propertyData: { ...definedOnly(ogData), ...mapped?.propertyData },
+  };
+
+  return {
+    updates,
+    changes: diffListing(property, updates),
+    llmSucceeded: !!mapped,
+  };
+}
+
+/**
+ * Write the accepted fields of a previewed refresh back and mark the property as
+ * freshly enriched. Rejected fields keep their stored value.
+ *
+ * @param acceptedFields FieldChange.field values the user accepted in the review
+ */
+export async function applyListingRefresh(
+  property: PropertyLink,
+  refresh: ListingRefresh,
+  acceptedFields: readonly string[]
+): Promise<PropertyLink> {
+  const updates = pickAcceptedUpdates(refresh.updates, acceptedFields);
+
+  return updateProperty(property.id, {
+    ...definedOnly({ ...updates, propertyData: undefined }),
+    propertyData: {
+      ...property.propertyData,
+      ...updates.propertyData,
+      enrichmentStatus: refresh.llmSucceeded ? 'llm_complete' : property.propertyData?.enrichmentStatus ?? 'og_only',
+      lastEnriched: new Date().toISOString(),
+    },
+  });
+}
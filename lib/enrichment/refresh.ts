@@ -0,0 +1,150 @@
+/**
+ * Refresh helpers - staleness checks and field diffs for re-enriched listings.
+ *
+ * A refresh never erases data: fields the new extraction didn't find keep their
+ * stored value and are left out of the diff. All functions are pure and testable.
+ */
+
+import type { PropertyLink, PropertyLinkData } from '../store/propertyLinkStore';
+
+// Listings not enriched within this window are offered for a bulk refresh
+export const STALE_AFTER_DAYS = 7;
+
+// Enrichment polling gives up after ~2 minutes; a listing still marked as processing
+// long after that was left behind by a closed tab or a crash
+export const PROCESSING_TIMEOUT_MINUTES = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Top-level PropertyLink fields compared on refresh
+const LINK_FIELDS: { key: 'title' | 'description' | 'image'; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'description', label: 'Description' },
+  { key: 'image', label: 'Image' },
+];
+
+// PropertyLinkData fields compared on refresh (enrichment bookkeeping is skipped)
+const DATA_FIELDS: { key: keyof PropertyLinkData; label: string }[] = [
+  { key: 'price', label: 'Price' },
+  { key: 'monthlyFee', label: 'Monthly fee' },
+  { key: 'operatingCost', label: 'Operating cost' },
+  { key: 'address', label: 'Address' },
+  { key: 'city', label: 'City' },
+  { key: 'postalCode', label: 'Postal code' },
+  { key: 'area', label: 'Area' },
+  { key: 'rooms', label: 'Rooms' },
+  { key: 'bedrooms', label: 'Bedrooms' },
+  { key: 'bathrooms', label: 'Bathrooms' },
+  { key: 'floor', label: 'Floor' },
+  { key: 'totalFloors', label: 'Total floors' },
+  { key: 'buildYear', label: 'Built' },
+  { key: 'propertyType', label: 'Type' },
+  { key: 'elevator', label: 'Elevator' },
+  { key: 'balcony', label: 'Balcony' },
+  { key: 'parking', label: 'Parking' },
+  { key: 'energyClass', label: 'Energy class' },
+  { key: 'features', label: 'Features' },
+];
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return JSON.stringify(a ?? []) === JSON.stringify(b ?? []);
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.trim() === b.trim();
+  }
+  return a === b;
+}
+
+/**
+ * Whether a listing should be re-enriched: never enriched, or enriched before the cutoff.
+ * Properties that are still being enriched are not stale until the processing timeout.
+ */
+export function isListingStale(
+  property: PropertyLink,
+  now: number = Date.now(),
+  maxAgeDays: number = STALE_AFTER_DAYS
+): boolean {
+  if (property.propertyData?.enrichmentStatus === 'llm_processing') {
+    const startedAt = Date.parse(property.propertyData.enrichmentStartedAt ?? '');
+    // Marked as processing before start times were recorded - stuck
+    if (Number.isNaN(startedAt)) return true;
+    return now - startedAt > PROCESSING_TIMEOUT_MINUTES * MINUTE_MS;
+  }
+
+  const lastEnriched = property.propertyData?.lastEnriched;
+  if (!lastEnriched) return true;
+
+  const enrichedAt = Date.parse(lastEnriched);
+  if (Number.isNaN(enrichedAt)) return true;
+
+  return now - enrichedAt > maxAgeDays * DAY_MS;
+}
+
+/**
+ * List the fields a refresh would change. Fields missing from `next` are ignored.
+ */
+export function diffListing(current: PropertyLink, next: Partial<PropertyLink>): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const { key, label } of LINK_FIELDS) {
+    const after = next[key];
+    if (after === undefined || after === '' || isSameValue(current[key], after)) continue;
+    changes.push({ field: key, label, before: current[key], after });
+  }
+
+  const currentData = current.propertyData || {};
+  const nextData = next.propertyData || {};
+  for (const { key, label } of DATA_FIELDS) {
+    const after = nextData[key];
+    if (after === undefined || isSameValue(currentData[key], after)) continue;
+    changes.push({ field: `propertyData.${key}`, label, before: currentData[key], after });
+  }
+
+  return changes;
+}
+
+/**
+ * Keep the reviewed fields the user accepted. Fields the review doesn't show
+ * (images, sources, coordinates, ...) are kept as they are.
+ *
+ * @param acceptedFields FieldChange.field values, e.g. 'title' or 'propertyData.price'
+ */
+export function pickAcceptedUpdates(
+  updates: Partial<PropertyLink>,
+  acceptedFields: readonly string[]
+): Partial<PropertyLink> {
+  const picked: Partial<PropertyLink> = { ...updates };
+  for (const { key } of LINK_FIELDS) {
+    if (!acceptedFields.includes(key)) delete picked[key];
+  }
+
+  if (updates.propertyData) {
+    const propertyData = { ...updates.propertyData };
+    for (const { key } of DATA_FIELDS) {
+      if (!acceptedFields.includes(`propertyData.${key}`)) delete propertyData[key];
+    }
+    picked.propertyData = propertyData;
+  }
+
+  return picked;
+}
+
+/**
+ * Format a diffed value for display ("—" for missing, "Yes"/"No" for booleans)
+ */
+export function formatChangeValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return value.toLocaleString('sv-SE');
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+}
@@ -0,0 +1,11 @@
+import { SiteDefinition } from './types';
+
+// "Killevägen 7, Käglinge, Malmö" - coordinates are published as place:location tags
+export const bjurfors: SiteDefinition = {
+  name: 'Bjurfors',
+  hosts: ['bjurfors.se'],
+  ogFields: {
+    latitude: ['place:location:latitude'],
+    longitude: ['place:location:longitude'],
+  },
+};
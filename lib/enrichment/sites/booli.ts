@@ -0,0 +1,13 @@
+import { SiteDefinition } from './types';
+
+// Price is published as OG product tags as well as in JSON-LD
+export const booli: SiteDefinition = {
+  name: 'Booli',
+  hosts: ['booli.se'],
+  ogFields: {
+    price: ['product:price:amount'],
+    currency: ['product:price:currency'],
+  },
+  jsonLd: true,
+  titleStrip: [/\s*-\s*Booli$/i],
+};
@@ -0,0 +1,48 @@
+import { SiteDefinition } from './types';
+
+/**
+ * Broker sites whose only site-specific handling is their og:title branding
+ */
+
+// "Till salu - Birger Jarlsgatan 62 - Limhamn - Hallonqvist fastighetsbyrå AB"
+export const hallonqvist: SiteDefinition = {
+  name: 'Hallonqvist',
+  hosts: ['hallonqvist.se'],
+  titleStrip: [/\s*-\s*Hallonqvist fastighetsbyrå AB$/i],
+};
+
+// "Notar - Rimfrostgatan 2B, Malmö"
+export const notar: SiteDefinition = {
+  name: 'Notar',
+  hosts: ['notar.se'],
+  titleStrip: [/^Notar\s*-\s*/i],
+};
+
+// "Kroksbäcksgatan 4, Malmö, Nya Bellevue - Croisette"
+export const croisette: SiteDefinition = {
+  name: 'Croisette',
+  hosts: ['croisette.se'],
+  titleStrip: [/\s*-\s*Croisette$/i],
+  cityPosition: 'first',
+};
+
+// "… - Solbergagatan 27, Riseberga - Husie | Bülow & Lind"
+export const bulowlind: SiteDefinition = {
+  name: 'Bülow & Lind',
+  hosts: ['bulowlind.se'],
+  titleStrip: [/\s*\|\s*Bülow & Lind$/i],
+};
+
+// "Tomt 13 - Drivhusgatan 21 - Myresjöhus"
+export const myresjohus: SiteDefinition = {
+  name: 'Myresjöhus',
+  hosts: ['myresjohus.se'],
+  titleStrip: [/\s*-\s*Myresjöhus$/i],
+};
+
+// "Sjönära tomter till salu | Bygg eget hus | Husbacka Strand | Östhammar | Peab Bostad"
+export const peabbostad: SiteDefinition = {
+  name: 'Peab Bostad',
+  hosts: ['peabbostad.se'],
+  titleStrip: [/\s*\|\s*Peab Bostad$/i],
+};
@@ -0,0 +1,7 @@
+import { SiteDefinition } from './types';
+
+// "Skansbogatan 2A, Malmö - Villa, 3 rum, 98 m²" - the title carries most of the listing
+export const erikolsson: SiteDefinition = {
+  name: 'Erik Olsson',
+  hosts: ['erikolsson.se'],
+};
@@ -0,0 +1,8 @@
+import { SiteDefinition } from './types';
+
+// og:title is only the municipality ("Umeå"); the address is in the OG address tags
+export const fastighetsbyran: SiteDefinition = {
+  name: 'Fastighetsbyrån',
+  hosts: ['fastighetsbyran.com'],
+  titleStrip: [/\s*\|\s*Fastighetsbyrån$/i],
+};
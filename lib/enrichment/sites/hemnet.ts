@@ -0,0 +1,9 @@
+import { SiteDefinition } from './types';
+
+// Listing pages carry a schema.org Residence with an Offer; OG tags only have title/image
+export const hemnet: SiteDefinition = {
+  name: 'Hemnet',
+  hosts: ['hemnet.se'],
+  jsonLd: true,
+  titleStrip: [/\s*-\s*Hemnet$/i],
+};
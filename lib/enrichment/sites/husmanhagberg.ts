@@ -0,0 +1,8 @@
+import { SiteDefinition } from './types';
+
+// og:title is the listing URL, so the address comes from the OG address tags and JSON-LD
+export const husmanhagberg: SiteDefinition = {
+  name: 'HusmanHagberg',
+  hosts: ['husmanhagberg.se'],
+  jsonLd: true,
+};
@@ -0,0 +1,133 @@
+/**
+ * Site registry - per-site extractors keyed by hostname
+ *
+ * Each entry declares which OG keys and JSON-LD hold the listing fields and how to
+ * clean its og:title. Adding a broker means adding a SiteDefinition, registering it
+ * in SITES and dropping a recorded fixture in __tests__/enrichment/fixtures/sites.
+ */
+
+import type { PropertyLinkData } from '../../store/propertyLinkStore';
+import { cleanValue, parseCoordinate, parseListingFields } from '../swedishParser';
+import { mapJsonLd } from './jsonLd';
+import { JsonLdNode, OgFieldMap, RawListing, SiteDefinition, SiteExtraction } from './types';
+import { hemnet } from './hemnet';
+import { booli } from './booli';
+import { svenskfast } from './svenskfast';
+import { husmanhagberg } from './husmanhagberg';
+import { bjurfors } from './bjurfors';
+import { lansfast } from './lansfast';
+import { fastighetsbyran } from './fastighetsbyran';
+import { erikolsson } from './erikolsson';
+import { hallonqvist, notar, croisette, bulowlind, myresjohus, peabbostad } from './brokers';
+
+export type { SiteDefinition, SiteExtraction, JsonLdNode, RawListing } from './types';
+
+export const SITES: SiteDefinition[] = [
+  hemnet,
+  booli,
+  svenskfast,
+  husmanhagberg,
+  bjurfors,
+  lansfast,
+  fastighetsbyran,
+  erikolsson,
+  hallonqvist,
+  notar,
+  croisette,
+  bulowlind,
+  myresjohus,
+  peabbostad,
+];
+
+// OG keys most Swedish broker sites (Vitec, Mspecs templates) publish
+export const DEFAULT_OG_FIELDS: OgFieldMap = {
+  address: ['street-address'],
+  postalCode: ['postal-code'],
+  city: ['locality'],
+  country: ['country-name'],
+  brokerOffice: ['office-name'],
+  latitude: ['latitude'],
+  longitude: ['longitude'],
+};
+
+// Text fields copied as-is; numeric ones go through parseListingFields
+const TEXT_FIELDS = ['address', 'postalCode', 'city', 'country', 'propertyType', 'energyClass', 'brokerOffice'] as const;
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Registry entry for a listing URL, matching subdomains ("maklare.hemnet.se")
+ */
+export function findSite(url: string): SiteDefinition | undefined {
+  const host = hostOf(url);
+  if (!host) return undefined;
+  return SITES.find((site) => site.hosts.some((siteHost) => host === siteHost || host.endsWith(`.${siteHost}`)));
+}
+
+/**
+ * Read the fields a site declares from its OG tags
+ */
+function readOgFields(og: Record<string, string[] | undefined>, fields: OgFieldMap): RawListing {
+  const raw: RawListing = {};
+  for (const [field, keys] of Object.entries(fields) as [keyof RawListing, string[]][]) {
+    for (const key of keys) {
+      const value = og[key]?.map((item) => cleanValue(item)).find(Boolean);
+      if (value) {
+        raw[field] = value;
+        break;
+      }
+    }
+  }
+  return raw;
+}
+
+/**
+ * Extract listing fields from a crawled page using the site's registry entry
+ *
+ * OG keys come from the site entry merged over DEFAULT_OG_FIELDS; JSON-LD, when the
+ * site opts in, wins over OG since it is typed. Unknown sites get the default OG keys.
+ *
+ * @param url - Listing URL, used to pick the registry entry
+ * @param page - `og` tags and `jsonLd` blocks from /go/crawler-og
+ */
+export function extractSiteData(
+  url: string,
+  page: { og?: Record<string, string[] | undefined>; jsonLd?: unknown[] }
+): SiteExtraction {
+  const site = findSite(url);
+  const ogRaw = readOgFields(page.og || {}, { ...DEFAULT_OG_FIELDS, ...site?.ogFields });
+
+  let jsonLdRaw: RawListing = {};
+  if (site?.jsonLd && page.jsonLd?.length) {
+    const mapper = typeof site.jsonLd === 'function' ? site.jsonLd : mapJsonLd;
+    jsonLdRaw = mapper(page.jsonLd as JsonLdNode[]);
+  }
+
+  const raw: RawListing = { ...ogRaw, ...jsonLdRaw };
+  const { data, failures } = parseListingFields(raw);
+
+  const propertyData: Partial<PropertyLinkData> = { ...data };
+  for (const field of TEXT_FIELDS) {
+    const value = cleanValue(raw[field]);
+    if (value) propertyData[field] = value;
+  }
+  const currency = cleanValue(raw.currency);
+  if (currency) propertyData.currency = currency.toUpperCase().replace(/^KR$/, 'SEK');
+  if (site) propertyData.source = site.name;
+
+  const latitude = parseCoordinate(raw.latitude, 90);
+  const longitude = parseCoordinate(raw.longitude, 180);
+
+  return {
+    site,
+    propertyData,
+    ...(latitude != null && longitude != null ? { latitude, longitude } : {}),
+    failures,
+  };
+}
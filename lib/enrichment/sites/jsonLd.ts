@@ -0,0 +1,88 @@
+import { JsonLdNode, RawListing } from './types';
+
+/**
+ * Generic schema.org mapper - Residence/Apartment/House nodes with PostalAddress,
+ * GeoCoordinates, QuantitativeValue floor size and an Offer price
+ */
+
+// schema.org residence types → the Swedish property types used elsewhere in the app
+const RESIDENCE_TYPES: Record<string, string> = {
+  Apartment: 'Lägenhet',
+  SingleFamilyResidence: 'Villa',
+  House: 'Villa',
+  Residence: '',
+  Accommodation: '',
+};
+
+function asNode(value: unknown): JsonLdNode | undefined {
+  if (Array.isArray(value)) return asNode(value[0]);
+  return value && typeof value === 'object' ? (value as JsonLdNode) : undefined;
+}
+
+function asText(value: unknown): string | undefined {
+  if (value == null) return undefined;
+  if (typeof value === 'string' || typeof value === 'number') return String(value);
+  // { "@type": "Country", "name": "SE" } and { "value": 74 }
+  const node = asNode(value);
+  return node ? asText(node.name ?? node.value) : undefined;
+}
+
+function types(node: JsonLdNode): string[] {
+  const type = node['@type'];
+  return (Array.isArray(type) ? type : [type]).filter((t): t is string => typeof t === 'string');
+}
+
+/**
+ * Flatten @graph blocks and nested mainEntity/about/itemOffered/offers into one list of nodes
+ */
+export function flattenJsonLd(nodes: unknown[]): JsonLdNode[] {
+  const result: JsonLdNode[] = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    const node = asNode(value);
+    if (!node) return;
+    result.push(node);
+    visit(node['@graph']);
+    visit(node.mainEntity);
+    visit(node.about);
+    visit(node.itemOffered);
+    visit(node.offers);
+  };
+  visit(nodes);
+  return result;
+}
+
+/**
+ * Map the residence and offer found in JSON-LD to raw listing strings
+ */
+export function mapJsonLd(nodes: JsonLdNode[]): RawListing {
+  const flat = flattenJsonLd(nodes);
+  const residence = flat.find((node) => types(node).some((type) => type in RESIDENCE_TYPES)) ?? {};
+  const offer = asNode(residence.offers) ?? flat.find((node) => types(node).includes('Offer')) ?? {};
+  const address = asNode(residence.address) ?? {};
+  const geo = asNode(residence.geo) ?? {};
+
+  const propertyType = types(residence).map((type) => RESIDENCE_TYPES[type]).find(Boolean);
+
+  const raw: RawListing = {
+    address: asText(address.streetAddress),
+    postalCode: asText(address.postalCode),
+    city: asText(address.addressLocality),
+    country: asText(address.addressCountry),
+    latitude: asText(geo.latitude),
+    longitude: asText(geo.longitude),
+    area: asText(residence.floorSize),
+    rooms: asText(residence.numberOfRooms),
+    bedrooms: asText(residence.numberOfBedrooms),
+    bathrooms: asText(residence.numberOfBathroomsTotal),
+    buildYear: asText(residence.yearBuilt),
+    propertyType,
+    price: asText(offer.price),
+    currency: asText(offer.priceCurrency),
+  };
+
+  return Object.fromEntries(Object.entries(raw).filter(([, value]) => value)) as RawListing;
+}
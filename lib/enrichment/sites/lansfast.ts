@@ -0,0 +1,8 @@
+import { SiteDefinition } from './types';
+
+// "Villa till salu i Malmö - Björkbogatan 47 | Länsförsäkringar Fastighetsförmedling"
+export const lansfast: SiteDefinition = {
+  name: 'Länsförsäkringar Fastighetsförmedling',
+  hosts: ['lansfast.se'],
+  titleStrip: [/\s*\|\s*Länsförsäkringar Fastighetsförmedling$/i],
+};
@@ -0,0 +1,11 @@
+import { SiteDefinition } from './types';
+
+// "Bockgränd 14, Limhamn | Svensk Fastighetsförmedling"
+export const svenskfast: SiteDefinition = {
+  name: 'Svensk Fastighetsförmedling',
+  hosts: ['svenskfast.se'],
+  ogFields: {
+    city: ['locality', 'office-city'],
+  },
+  titleStrip: [/\s*\|\s*Svensk Fastighetsförmedling$/i],
+};
@@ -0,0 +1,39 @@
+import type { PropertyLinkData } from '../../store/propertyLinkStore';
+import type { ParseFailure } from '../swedishParser';
+
+/** PropertyLinkData field (or coordinate) a raw listing value belongs to */
+export type ListingKey = keyof PropertyLinkData | 'latitude' | 'longitude';
+
+/** Raw strings keyed by the field they belong to, before parsing */
+export type RawListing = Partial<Record<ListingKey, string>>;
+
+/** Field → OG keys to read it from, first non-empty wins */
+export type OgFieldMap = Partial<Record<ListingKey, string[]>>;
+
+/** A schema.org node from a <script type="application/ld+json"> block */
+export type JsonLdNode = Record<string, unknown>;
+
+export interface SiteDefinition {
+  /** Display name, used as the listing source */
+  name: string;
+  /** Hostnames without www; subdomains match too */
+  hosts: string[];
+  /** OG keys for this site, merged over DEFAULT_OG_FIELDS */
+  ogFields?: OgFieldMap;
+  /** Read schema.org JSON-LD (true = generic mapper, or a site-specific one) */
+  jsonLd?: boolean | ((nodes: JsonLdNode[]) => RawListing);
+  /** Broker branding removed from og:title */
+  titleStrip?: RegExp[];
+  /** Where the city sits in "Street 1, District, City" titles (default last) */
+  cityPosition?: 'first' | 'last';
+}
+
+export interface SiteExtraction {
+  /** Matched registry entry, undefined for unknown sites */
+  site?: SiteDefinition;
+  propertyData: Partial<PropertyLinkData>;
+  latitude?: number;
+  longitude?: number;
+  /** Values that were present but couldn't be parsed */
+  failures: ParseFailure[];
+}
@@ -0,0 +1,297 @@
+/**
+ * Parsers for Swedish listing strings ("4 250 kr/mån", "3 rum", "72,5 m²", "våning 3 av 5").
+ *
+ * Handles space/nbsp thousand separators, decimal commas, "kr/mån" vs "kr/år",
+ * "tr"/"BV" floors and ja/nej answers. All functions are pure and testable.
+ */
+
+import type { PropertyLinkData } from '../store/propertyLinkStore';
+
+// Values the LLM and broker sites use for "not found"
+const EMPTY_VALUES = new Set([
+  '', '-', '–', 'n/a', 'na', 'null', 'undefined', 'none', 'unknown',
+  'saknas', 'uppgift saknas', 'ej angivet', 'ingen uppgift',
+]);
+
+const TRUE_VALUES = new Set(['ja', 'yes', 'true', 'finns', 'x', '✓']);
+const FALSE_VALUES = new Set(['nej', 'no', 'false', 'finns ej', 'finns inte', 'ingen', 'saknas']);
+
+// HTML entities broker sites leave in OG tags (numeric ones are decoded generically)
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  aring: 'å', auml: 'ä', ouml: 'ö', Aring: 'Å', Auml: 'Ä', Ouml: 'Ö',
+  eacute: 'é', Eacute: 'É', uuml: 'ü', Uuml: 'Ü', sup2: '²',
+};
+
+// Ground floor spellings: "BV", "bottenvåning", "entréplan", "markplan"
+const GROUND_FLOOR_PATTERN = /\b(bv|bottenv[åa]n(?:ing)?|entr[ée]plan|markplan|gatuplan)\b/i;
+
+export interface ParsedFloor {
+  floor: number;
+  totalFloors?: number;
+}
+
+export interface ParseFailure {
+  field: keyof PropertyLinkData;
+  value: string;
+}
+
+export interface ParsedListingFields {
+  data: Partial<PropertyLinkData>;
+  failures: ParseFailure[];
+}
+
+/**
+ * Decode numeric (&#246; &#xF6;) and common named (&amp; &ouml;) HTML entities
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code] ?? entity;
+  });
+}
+
+/**
+ * Trim a value, decode HTML entities and treat placeholders ("N/A", "Uppgift saknas") as missing.
+ */
+export function cleanValue(value: string | null | undefined): string | undefined {
+  if (value == null) return undefined;
+  const trimmed = decodeHtmlEntities(String(value)).replace(/\s+/g, ' ').trim();
+  return EMPTY_VALUES.has(trimmed.toLowerCase()) ? undefined : trimmed;
+}
+
+/**
+ * Convert a numeric token with Swedish formatting to a number.
+ * "3 495 000" → 3495000, "72,5" → 72.5, "1.250.000" → 1250000
+ */
+function toNumber(token: string): number | undefined {
+  let normalized = token.replace(/\s/g, '');
+
+  // Dots as thousand separators ("1.250.000") vs a decimal point ("72.5")
+  if (/^\d{1,3}(\.\d{3})+$/.test(normalized)) {
+    normalized = normalized.replace(/\./g, '');
+  }
+  normalized = normalized.replace(',', '.');
+
+  const number = parseFloat(normalized);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+// Digits with optional space/nbsp thousand groups and a decimal part
+const NUMBER = String.raw`\d{1,3}(?:[\s.]\d{3})+(?!\d)(?:,\d+)?|\d+(?:[.,]\d+)?`;
+
+/**
+ * Parse the first number in a string using Swedish formatting.
+ */
+export function parseSwedishNumber(value: string | null | undefined): number | undefined {
+  const cleaned = cleanValue(value);
+  if (!cleaned) return undefined;
+
+  const match = cleaned.match(new RegExp(`-?(?:${NUMBER})`));
+  if (!match) return undefined;
+
+  const number = toNumber(match[0].replace(/^-/, ''));
+  if (number === undefined) return undefined;
+  return match[0].startsWith('-') ? -number : number;
+}
+
+/**
+ * Parse a plain amount ("3 495 000 kr", "2,1 milj kr"). Returns undefined when the
+ * string contains other text than the amount, so titles don't yield street numbers.
+ */
+export function parsePrice(value: string | null | undefined): number | undefined {
+  const cleaned = cleanValue(value);
+  if (!cleaned) return undefined;
+
+  const match = cleaned.match(
+    new RegExp(`^(?:pris:?|utgångspris:?|accepterat pris:?)?\\s*(${NUMBER})\\s*(milj(?:oner)?\\.?|mkr|tkr)?\\s*(kr|sek|:-)?\\.?$`, 'i')
+  );
+  if (!match) return undefined;
+
+  const amount = toNumber(match[1]);
+  if (amount === undefined) return undefined;
+
+  const scale = match[2]?.toLowerCase();
+  if (scale?.startsWith('milj') || scale === 'mkr') return Math.round(amount * 1_000_000);
+  if (scale === 'tkr') return Math.round(amount * 1_000);
+  return amount;
+}
+
+/**
+ * Parse a recurring cost and normalise it to the requested period.
+ * "4 250 kr/mån" → 4250/month, "36 000 kr/år" → 3000/month.
+ * Amounts without a period are assumed to already be in `period`.
+ */
+export function parsePeriodicCost(
+  value: string | null | undefined,
+  period: 'month' | 'year'
+): number | undefined {
+  const cleaned = cleanValue(value);
+  if (!cleaned) return undefined;
+
+  const match = cleaned.match(
+    new RegExp(`(${NUMBER})\\s*(?:kr|sek|:-)?\\s*(?:/|per|i)?\\s*(mån(?:ad)?|month|mo|år|year|yr)?`, 'i')
+  );
+  if (!match) return undefined;
+
+  const amount = toNumber(match[1]);
+  if (amount === undefined) return undefined;
+
+  const unit = match[2]?.toLowerCase();
+  const sourcePeriod = !unit ? period : /^(år|year|yr)$/.test(unit) ? 'year' : 'month';
+
+  if (sourcePeriod === period) return amount;
+  return Math.round(period === 'month' ? amount / 12 : amount * 12);
+}
+
+/**
+ * Parse living area in m² ("72,5 m²", "98 kvm", "72.5 m2").
+ * Bare numbers are accepted; other text must carry an area unit.
+ */
+export function parseArea(value: string | null | undefined): number | undefined {
+  const cleaned = cleanValue(value);
+  if (!cleaned) return undefined;
+
+  const withUnit = cleaned.match(new RegExp(`(${NUMBER})\\s*(?:m²|m2|kvm|sqm|kvadratmeter)`, 'i'));
+  if (withUnit) return toNumber(withUnit[1]);
+
+  const bare = cleaned.match(new RegExp(`^(${NUMBER})$`));
+  return bare ? toNumber(bare[1]) : undefined;
+}
+
+/**
+ * Parse a room count ("3 rum", "2,5 rok", "4 r.o.k", "3rum").
+ * Bare numbers are accepted; other text must mention rooms.
+ */
+export function parseRooms(value: string | null | undefined): number | undefined {
+  const cleaned = cleanValue(value);
+  if (!cleaned) return undefined;
+
+  const withUnit = cleaned.match(/(\d+(?:[.,]5)?)\s*(?:rum\b|rok\b|r\.o\.k\.?|rooms?\b|sovrum\b)/i);
+  if (withUnit) return toNumber(withUnit[1]);
+
+  const bare = cleaned.match(/^(\d+(?:[.,]5)?)$/);
+  return bare ? toNumber(bare[1]) : undefined;
+}
+
+/**
+ * Parse a floor ("våning 3 av 5", "3 tr", "3/5", "BV", "Bottenvåning").
+ * Ground floor ("BV") is 0; half floors ("½ tr", "1 ½ tr") are kept as .5.
+ */
+export function parseFloor(value: string | null | undefined): ParsedFloor | undefined {
+  const cleaned = cleanValue(value);
+  if (!cleaned) return undefined;
+
+  const totalMatch = cleaned.match(/(?:\bav|\/|\bof)\s*(\d+)/i);
+  const total = totalMatch ? { totalFloors: parseInt(totalMatch[1], 10) } : {};
+
+  if (GROUND_FLOOR_PATTERN.test(cleaned)) return { floor: 0, ...total };
+
+  const digits =
+    cleaned.match(/(?:våning|vån\.?|plan|floor)\s*(-?\d+)/i)?.[1] ??
+    cleaned.match(/(-?\d+)\s*(?:½\s*)?(?:tr\b|trappor?\b|av\b|of\b|\/)/i)?.[1] ??
+    cleaned.match(/^(-?\d+)$/)?.[1];
+  const half = /½\s*(?:tr\b|trappor?\b)/i.test(cleaned) ? 0.5 : 0;
+
+  if (digits == null && !half) return undefined;
+  return { floor: (digits != null ? parseInt(digits, 10) : 0) + half, ...total };
+}
+
+/**
+ * Parse ja/nej style answers ("Ja", "Nej", "Finns", "Hiss: ja").
+ * Returns undefined when the text isn't a yes/no answer.
+ */
+export function parseYesNo(value: string | null | undefined): boolean | undefined {
+  const cleaned = cleanValue(value);
+  if (!cleaned) return undefined;
+
+  const answer = cleaned.replace(/^[^:]+:\s*/, '').replace(/[.!]$/, '').toLowerCase();
+  if (TRUE_VALUES.has(answer)) return true;
+  if (FALSE_VALUES.has(answer)) return false;
+  return undefined;
+}
+
+/**
+ * Parse a build year ("1962", "Byggt 1962", "1929/2015" → first year).
+ * Years after next year are rejected.
+ */
+export function parseBuildYear(value: string | null | undefined): number | undefined {
+  const cleaned = cleanValue(value);
+  const match = cleaned?.match(/\b(1[6-9]\d{2}|20\d{2})\b/);
+  if (!match) return undefined;
+
+  const year = parseInt(match[1], 10);
+  return year <= new Date().getFullYear() + 1 ? year : undefined;
+}
+
+/**
+ * Coordinates are plain decimals ("55.5882"), never thousand-grouped.
+ */
+export function parseCoordinate(value: string | undefined, limit: number): number | undefined {
+  const match = cleanValue(value)?.match(/-?\d+(?:[.,]\d+)?/);
+  const number = match ? parseFloat(match[0].replace(',', '.')) : undefined;
+  return number != null && Math.abs(number) <= limit && number !== 0 ? number : undefined;
+}
+
+// Numeric fields and the parser for each; a value that doesn't parse is a failure
+const NUMERIC_PARSERS = {
+  price: parsePrice,
+  area: parseArea,
+  rooms: parseRooms,
+  bedrooms: parseRooms,
+  bathrooms: parseSwedishNumber,
+  monthlyFee: (value: string) => parsePeriodicCost(value, 'month'),
+  operatingCost: (value: string) => parsePeriodicCost(value, 'year'),
+  buildYear: parseBuildYear,
+} satisfies Partial<Record<keyof PropertyLinkData, (value: string) => number | undefined>>;
+
+const YES_NO_FIELDS = ['elevator', 'balcony', 'parking'] as const;
+
+/**
+ * Parse the numeric and yes/no fields of a raw listing record.
+ *
+ * Fields that are present but can't be parsed are reported in `failures`.
+ * Floor and yes/no fields fall back to the trimmed text (PropertyLinkData allows
+ * strings there), so "Balkong i söderläge" is kept as-is rather than dropped.
+ *
+ * @param raw - Keyword → string map, e.g. auto-crawl `extractedData`
+ */
+export function parseListingFields(raw: Record<string, string | undefined>): ParsedListingFields {
+  const data: Partial<PropertyLinkData> = {};
+  const failures: ParseFailure[] = [];
+
+  for (const field of Object.keys(NUMERIC_PARSERS) as (keyof typeof NUMERIC_PARSERS)[]) {
+    const value = cleanValue(raw[field]);
+    if (!value) continue;
+
+    const parsed = NUMERIC_PARSERS[field](value);
+    if (parsed === undefined) {
+      failures.push({ field, value });
+    } else {
+      data[field] = parsed;
+    }
+  }
+
+  const floorValue = cleanValue(raw.floor);
+  if (floorValue) {
+    const parsed = parseFloor(floorValue);
+    if (parsed) {
+      data.floor = parsed.floor;
+      if (parsed.totalFloors != null) data.totalFloors = parsed.totalFloors;
+    } else {
+      data.floor = floorValue;
+      failures.push({ field: 'floor', value: floorValue });
+    }
+  }
+
+  for (const field of YES_NO_FIELDS) {
+    const value = cleanValue(raw[field]);
+    if (!value) continue;
+    data[field] = parseYesNo(value) ?? value;
+  }
+
+  return { data, failures };
+}
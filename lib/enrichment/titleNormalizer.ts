@@ -0,0 +1,130 @@
+/**
+ * OG title normaliser - broker sites put HTML entities ("Sj&#246;stad"), "Till salu"
+ * prefixes and their own branding ("| Svensk Fastighetsförmedling") into og:title.
+ * Titles are cleaned with the site registry's rules, and address/area/type hints are read from
+ * titles like "Skansbogatan 2A, Malmö - Villa, 3 rum, 98 m²".
+ */
+
+import { PropertyLinkData } from '../store/propertyLinkStore';
+import { decodeHtmlEntities, parseArea, parseRooms } from './swedishParser';
+import { findSite } from './sites';
+
+export type TitleHints = Pick<PropertyLinkData, 'address' | 'city' | 'propertyType' | 'rooms' | 'area'>;
+
+export interface NormalizedTitle {
+  title?: string;
+  hints: TitleHints;
+}
+
+// "Till salu - Birger Jarlsgatan 62 - Limhamn"
+const FOR_SALE_PREFIX = /^(?:till salu|nu till salu|ny till salu)\s*[-–|:]\s*/i;
+
+const PROPERTY_TYPES = [
+  'Bostadsrätt', 'Lägenhet', 'Villa', 'Radhus', 'Parhus', 'Kedjehus', 'Fritidshus',
+  'Tomt', 'Gård', 'Äganderätt',
+];
+const PROPERTY_TYPE = new RegExp(`^(${PROPERTY_TYPES.join('|')})$`, 'i');
+// "Villa till salu i Malmö" → type + city
+const TYPE_FOR_SALE_IN = new RegExp(`^(${PROPERTY_TYPES.join('|')}) till salu i\\s+(.+)$`, 'i');
+const TYPE_FOR_SALE_PREFIX = new RegExp(`^(?:${PROPERTY_TYPES.join('|')}) till salu i\\s+[^-–|]+?\\s*[-–|]\\s*`, 'i');
+
+// Street name followed by a house number: "Skansbogatan 2A", "Sjöblads väg 31-211"
+const STREET_ADDRESS = /^(\p{Lu}[\p{L}.' -]*?\s\d+\s?[A-Za-z]?)(?:-\d+)?$/u;
+// "Fårabäcksvägen 96A i Husie"
+const STREET_ADDRESS_IN = /^(\p{Lu}[\p{L}.' -]*?\s\d+\s?[A-Za-z]?) i (\p{Lu}[\p{L} -]+)$/u;
+const STARTS_WITH_TYPE = new RegExp(`^(?:${PROPERTY_TYPES.join('|')})\\b`, 'i');
+
+/**
+ * Decode entities and collapse whitespace; empty text becomes undefined
+ */
+export function cleanText(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  const cleaned = decodeHtmlEntities(text).replace(/\s+/g, ' ').trim();
+  return cleaned || undefined;
+}
+
+function isStreetAddress(segment: string): boolean {
+  // "Tomt 13" looks like a street address but is a plot number
+  return STREET_ADDRESS.test(segment) && !STARTS_WITH_TYPE.test(segment);
+}
+
+/**
+ * Read address, city, type, rooms and area from the dash/comma separated parts of a title
+ */
+export function extractTitleHints(title: string, cityPosition: 'first' | 'last' = 'last'): TitleHints {
+  const hints: TitleHints = {};
+  const groups = title
+    // Keep number ranges together: "Sjöblads väg 31 - 211" is one address
+    .replace(/(\d)\s+-\s+(\d)/g, '$1-$2')
+    .split(/\s+[-–|]\s+/)
+    .map((group) => group.trim())
+    .filter(Boolean);
+
+  for (const group of groups) {
+    const typeForSale = group.match(TYPE_FOR_SALE_IN);
+    if (typeForSale) {
+      hints.propertyType ??= typeForSale[1];
+      hints.city ??= typeForSale[2].trim();
+      continue;
+    }
+
+    const streetIn = group.match(STREET_ADDRESS_IN);
+    if (streetIn && !hints.address) {
+      hints.address = streetIn[1].trim();
+      hints.city ??= streetIn[2].trim();
+      continue;
+    }
+
+    const parts = group.split(',').map((part) => part.trim()).filter(Boolean);
+    const addressIndex = parts.findIndex(isStreetAddress);
+
+    if (addressIndex !== -1 && !hints.address) {
+      hints.address = parts[addressIndex].match(STREET_ADDRESS)![1].trim();
+      // "Killevägen 7, Käglinge, Malmö" → the last part is the city
+      const places = parts.slice(addressIndex + 1);
+      if (places.length > 0) hints.city ??= cityPosition === 'first' ? places[0] : places[places.length - 1];
+      continue;
+    }
+
+    for (const part of parts) {
+      if (PROPERTY_TYPE.test(part)) hints.propertyType ??= part;
+      else if (/\brum\b/i.test(part)) hints.rooms ??= parseRooms(part);
+      else if (/m²|m2|kvm/i.test(part)) hints.area ??= parseArea(part);
+    }
+  }
+
+  // A lone district next to the address ("Birger Jarlsgatan 62 - Limhamn")
+  if (hints.address && !hints.city) {
+    const addressGroup = groups.findIndex((group) => group.startsWith(hints.address!));
+    const next = addressGroup !== -1 ? groups[addressGroup + 1] : undefined;
+    if (next && !next.includes(',') && !PROPERTY_TYPE.test(next) && !/\d/.test(next)) {
+      hints.city = next;
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(hints).filter(([, value]) => value !== undefined)
+  ) as TitleHints;
+}
+
+/**
+ * Clean an og:title for display and pull listing hints out of it
+ *
+ * Titles that are just a URL or a locale code ("sv_SE") are dropped.
+ */
+export function normalizeListingTitle(rawTitle: string | undefined, url: string): NormalizedTitle {
+  let title = cleanText(rawTitle);
+  if (!title || /^https?:\/\//i.test(title) || /^[a-z]{2}_[A-Z]{2}$/.test(title)) {
+    return { title: undefined, hints: {} };
+  }
+
+  const site = findSite(url);
+  for (const pattern of site?.titleStrip || []) title = title.replace(pattern, '');
+  title = title.replace(FOR_SALE_PREFIX, '').trim();
+
+  // Hints are read before the "Villa till salu i Malmö - " prefix is dropped
+  const hints = extractTitleHints(title, site?.cityPosition);
+  title = title.replace(TYPE_FOR_SALE_PREFIX, '').trim();
+
+  return { title: title || undefined, hints };
+}
@@ -38,6 +38,25 @@ export function formatNumberSE(value: number): string {
   return new Intl.NumberFormat('sv-SE').format(value);
 }
 
+/**
+ * How the loan is paid down. Every method pays at least what amorteringskrav requires.
+ * - requirement: only the amorteringskrav minimum, stepping 2% → 1% → 0% as LTV falls
+ * - straight: rak amortering, the same principal every month so the loan is repaid over the term
+ * - annuity: the same total payment every month, principal share growing as interest falls
+ */
+export type AmortizationMethod = 'requirement' | 'straight' | 'annuity';
+
+/**
+ * Part of the loan at its own rate. Banks let borrowers split the loan between
+ * rörlig ränta (3-month) and fixed periods; when a binding period ends the part
+ * rolls over to whatever rate applies then.
+ */
+export interface LoanTranche {
+  sharePercent: number;         // Of the total loan
+  annualInterestRate: number;
+  bindingYears: number;         // 0 = rörlig
+}
+
 // Swedish mortgage parameters
 export interface SwedishMortgageParams {
   purchasePrice: number;
@@ -45,35 +64,98 @@ export interface SwedishMortgageParams {
   annualInterestRate: number;
   loanTermYears: number;
   propertyType: 'villa' | 'brf';  // Affects maintenance costs
+  amortizationMethod?: AmortizationMethod;  // Default 'requirement'
+  tranches?: LoanTranche[];     // Replaces annualInterestRate when set
 }
 
 export interface MortgageResult {
-  monthlyPayment: number;
-  monthlyInterest: number;
-  monthlyAmortization: number;
+  monthlyPayment: number;       // First month
+  monthlyInterest: number;      // First month
+  monthlyAmortization: number;  // First month
   amortizationPercent: number;
   amortizationReason: string;
-  totalPayments: number;
-  totalInterest: number;
+  totalPayments: number;        // Over the loan term
+  totalInterest: number;        // Over the loan term
+  firstYearInterest: number;    // Basis for ränteavdrag
+  balanceAfterTerm: number;     // Left to pay when only the requirement is amortized
   ltv: number;
 }
 
+export interface AmortizationScheduleParams {
+  principal: number;
+  propertyValue: number;        // Value the LTV is measured against (purchase price)
+  annualInterestRate: number;
+  loanTermYears: number;
+  method?: AmortizationMethod;
+  grossAnnualIncome?: number;   // For the debt-to-income rule
+  tranches?: LoanTranche[];     // Replaces annualInterestRate when set
+  rateIncrease?: number;        // Added to each tranche once its binding ends (0.02 = +2 pp)
+}
+
+export interface AmortizationScheduleRow {
+  month: number;                // 1-based
+  year: number;                 // 1-based
+  openingBalance: number;
+  interest: number;
+  amortization: number;
+  payment: number;
+  closingBalance: number;
+  ltv: number;                  // Closing balance / property value (%)
+  requiredPercent: number;      // Amorteringskrav in force this month
+}
+
+export interface AmortizationYearSummary {
+  year: number;
+  interest: number;
+  amortization: number;
+  payment: number;
+  closingBalance: number;
+  ltv: number;                  // At year end
+  requiredPercent: number;      // At the start of the year
+}
+
+export interface CostTimelineYear {
+  year: number;
+  averageRate: number;          // Blended rate over the year (%)
+  interest: number;
+  amortization: number;
+  monthlyPayment: number;       // Average over the year
+  closingBalance: number;
+}
+
+export interface RateScenarioResult {
+  rateIncrease: number;
+  current: CostTimelineYear[];  // Rates stay where they are
+  stressed: CostTimelineYear[]; // Each tranche moves up when its binding ends
+  currentInterest: number;      // Over the timeline
+  stressedInterest: number;
+  peakMonthlyPayment: number;   // Highest yearly average in the stressed case
+}
+
 export interface AmortizationResult {
   monthlyAmortization: number;
   yearlyAmortizationPercent: number;  // 0%, 1%, 2%, or 3%
   reason: string;  // Explanation: "LTV 72% → 2% yearly" or "LTV < 50% → no requirement"
 }
 
+export interface InterestDeductionSettings {
+  enabled: boolean;
+  borrowerShares: number[];     // Percent of the interest each borrower pays, sums to 100
+}
+
 export interface SwedishTotalCostParams {
   purchasePrice: number;
   downPaymentPercent: number;
   annualInterestRate: number;
   loanTermYears: number;
   propertyType: 'villa' | 'brf';
+  amortizationMethod?: AmortizationMethod;
+  tranches?: LoanTranche[];
   propertyTaxAnnual?: number;
   insuranceAnnual?: number;
   brfMonthly?: number;          // BRF-avgift (if brf property type)
   maintenanceRate?: number;     // Default 0.01 for villa, 0 for brf (included in BRF fee)
+  interestDeduction?: InterestDeductionSettings;  // Default one borrower, enabled
 }
 
 export interface TotalCostResult {
@@ -86,6 +168,26 @@ export interface TotalCostResult {
   monthlyMaintenance: number;
   totalMonthly: number;
   totalAnnual: number;
+  monthlyInterestDeduction: number;  // Ränteavdrag, first year averaged per month
+  netMonthly: number;                // Total monthly after ränteavdrag
+}
+
+export interface InterestDeductionParams {
+  annualInterest: number;
+  borrowerShares?: number[];    // Default one borrower paying everything
+}
+
+export interface BorrowerDeduction {
+  sharePercent: number;
+  interest: number;
+  deduction: number;
+}
+
+export interface InterestDeductionResult {
+  annualDeduction: number;
+  monthlyDeduction: number;
+  effectiveRate: number;        // Deduction / interest (%)
+  borrowers: BorrowerDeduction[];
 }
 
 export interface SwedishAffordabilityParams {
@@ -97,6 +199,35 @@ export interface SwedishAffordabilityParams {
   grossAnnualIncome?: number;    // For amorteringskrav 3rd rule
 }
 
+export interface LivingCostNorms {
+  adult: number;                // Per adult and month
+  child: number;                // Per child and month
+  household: number;            // Shared household costs per month
+}
+
+export interface KalpParams {
+  adultGrossMonthlyIncomes: number[];  // One entry per adult
+  children: number;
+  municipalTaxRate?: number;    // Kommunalskatt as a decimal, default 0.32
+  otherLoansMonthly?: number;   // Payments on car loans, CSN, credit cards
+  carCostsMonthly?: number;
+  housingOperatingCost?: number; // BRF fee or villa running costs per month
+  loanAmount?: number;          // The mortgage to test; 0 gives the surplus before housing
+  propertyValue?: number;       // For amorteringskrav; default assumes 85% LTV
+  stressTestRate: number;       // Kalkylränta (%)
+  livingCostNorms?: Partial<LivingCostNorms>;
+}
+
+export interface KalpResult {
+  netMonthlyIncome: number;
+  livingCosts: number;
+  otherCosts: number;           // Other loans and car
+  housingCost: number;          // Operating cost plus the loan at the kalkylränta
+  monthlySurplus: number;       // Kvar att leva på after all of the above
+  maxLoan: number;              // Largest loan that leaves a surplus of at least 0
+  passes: boolean;
+}
+
 export interface AffordabilityResult {
   housingCostRatio: number;
   totalDebtRatio: number;
@@ -162,9 +293,10 @@ export function calculateAmorteringskrav(params: {
  * Calculate monthly mortgage payment for Swedish market (with amorteringskrav).
  *
  * Swedish mortgage payment includes:
- * - Interest component (PMT formula)
- * - Mandatory amortization (amorteringskrav: 0-3% yearly based on LTV)
+ * - Interest on the outstanding balance
+ * - Amortization per the chosen method, never below amorteringskrav (0-3% yearly based on LTV)
  *
+ * Monthly figures are for the first month; totals follow the full schedule.
  * Enforces 85% LTV cap (bolånetak).
  *
  * @param params - Swedish mortgage parameters
@@ -198,40 +330,258 @@ export function calculateMortgagePayment(params: SwedishMortgageParams): Mortgag
     throw new Error('Loan term must be positive');
   }
 
-  // Calculate interest-only payment using PMT formula
-  const monthlyRate = annualInterestRate / 12;
-  const numPayments = loanTermYears * 12;
-
-  let monthlyInterest: number;
-  if (annualInterestRate === 0) {
-    monthlyInterest = 0;  // 0% interest edge case
-  } else {
-    const factor = Math.pow(1 + monthlyRate, numPayments);
-    monthlyInterest = principal * (monthlyRate * factor) / (factor - 1);
-  }
+  const schedule = generateAmortizationSchedule({
+    principal,
+    propertyValue: purchasePrice,
+    annualInterestRate,
+    loanTermYears,
+    method: params.amortizationMethod,
+    tranches: params.tranches,
+  });
 
-  // Calculate mandatory amortization (amorteringskrav)
+  // The requirement as it stands at purchase, for the explanation
   const amortization = calculateAmorteringskrav({
     principal,
     purchasePrice
   });
 
-  const monthlyPayment = monthlyInterest + amortization.monthlyAmortization;
-  const totalPayments = monthlyPayment * numPayments;
-  const totalInterest = totalPayments - principal;
+  const firstMonth = schedule[0];
+  const totalPayments = schedule.reduce((sum, row) => sum + row.payment, 0);
+  const totalInterest = schedule.reduce((sum, row) => sum + row.interest, 0);
+  const firstYearInterest = schedule
+    .filter((row) => row.year === 1)
+    .reduce((sum, row) => sum + row.interest, 0);
 
   return {
-    monthlyPayment: roundCurrency(monthlyPayment),
-    monthlyInterest: roundCurrency(monthlyInterest),
-    monthlyAmortization: amortization.monthlyAmortization,
+    monthlyPayment: firstMonth.payment,
+    monthlyInterest: firstMonth.interest,
+    monthlyAmortization: firstMonth.amortization,
     amortizationPercent: amortization.yearlyAmortizationPercent,
     amortizationReason: amortization.reason,
     totalPayments: roundCurrency(totalPayments),
     totalInterest: roundCurrency(totalInterest),
+    firstYearInterest: roundCurrency(firstYearInterest),
+    balanceAfterTerm: schedule[schedule.length - 1].closingBalance,
     ltv: roundPercentage(ltv)
   };
 }
 
+/**
+ * Monthly amortization the method calls for, before the amorteringskrav floor
+ */
+function methodAmortization(
+  method: AmortizationMethod,
+  balance: number,
+  monthlyRate: number,
+  monthsLeft: number,
+  straightAmount: number
+): number {
+  switch (method) {
+    case 'straight':
+      return straightAmount;
+    case 'annuity': {
+      // Re-derived from the remaining balance, so extra required amortization lowers later payments
+      if (monthlyRate === 0) return balance / monthsLeft;
+      const factor = Math.pow(1 + monthlyRate, monthsLeft);
+      const payment = balance * (monthlyRate * factor) / (factor - 1);
+      return payment - balance * monthlyRate;
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Month-by-month repayment plan.
+ *
+ * Amorteringskrav is re-evaluated every month against the current LTV, so the
+ * requirement steps down from 2% to 1% below 70% LTV and ends below 50%. The
+ * required amount is a percentage of the original loan (amorteringsgrundande
+ * belopp), as banks calculate it. Debt above 4.5x gross income adds 1%.
+ *
+ * @param params - Loan, property value, rate and amortization method
+ * @returns One row per month over the loan term
+ */
+export function generateAmortizationSchedule(params: AmortizationScheduleParams): AmortizationScheduleRow[] {
+  const { principal, propertyValue, annualInterestRate, loanTermYears, grossAnnualIncome } = params;
+  const method = params.method ?? 'requirement';
+
+  if (principal < 0 || propertyValue <= 0) {
+    throw new Error('Loan must be non-negative and property value positive');
+  }
+  if (loanTermYears <= 0) {
+    throw new Error('Loan term must be positive');
+  }
+
+  if (params.tranches) {
+    validateTranches(params.tranches);
+  }
+
+  const numPayments = Math.round(loanTermYears * 12);
+  const straightAmount = principal / numPayments;
+  const rows: AmortizationScheduleRow[] = [];
+  let balance = principal;
+
+  for (let month = 1; month <= numPayments; month++) {
+    const requirement = calculateAmorteringskrav({
+      principal: balance,
+      purchasePrice: propertyValue,
+      grossAnnualIncome,
+      totalDebt: balance,
+    });
+    const requiredMonthly = (principal * requirement.yearlyAmortizationPercent) / 100 / 12;
+
+    const monthlyRate = (params.tranches
+      ? trancheRateForMonth(params.tranches, month, params.rateIncrease)
+      : annualInterestRate) / 12;
+    const interest = balance * monthlyRate;
+    const planned = methodAmortization(method, balance, monthlyRate, numPayments - month + 1, straightAmount);
+    const amortization = Math.min(balance, Math.max(planned, requiredMonthly));
+    const closingBalance = balance - amortization;
+
+    rows.push({
+      month,
+      year: Math.ceil(month / 12),
+      openingBalance: roundCurrency(balance),
+      interest: roundCurrency(interest),
+      amortization: roundCurrency(amortization),
+      payment: roundCurrency(interest + amortization),
+      closingBalance: roundCurrency(closingBalance),
+      ltv: roundPercentage((closingBalance / propertyValue) * 100),
+      requiredPercent: requirement.yearlyAmortizationPercent,
+    });
+
+    balance = closingBalance;
+  }
+
+  return rows;
+}
+
+/**
+ * Roll a monthly schedule up into one row per year, for tables and charts
+ */
+export function summarizeScheduleByYear(rows: AmortizationScheduleRow[]): AmortizationYearSummary[] {
+  const years: AmortizationYearSummary[] = [];
+
+  for (const row of rows) {
+    let summary = years[years.length - 1];
+    if (!summary || summary.year !== row.year) {
+      summary = {
+        year: row.year,
+        interest: 0,
+        amortization: 0,
+        payment: 0,
+        closingBalance: 0,
+        ltv: 0,
+        requiredPercent: row.requiredPercent,
+      };
+      years.push(summary);
+    }
+    summary.interest = roundCurrency(summary.interest + row.interest);
+    summary.amortization = roundCurrency(summary.amortization + row.amortization);
+    summary.payment = roundCurrency(summary.payment + row.payment);
+    summary.closingBalance = row.closingBalance;
+    summary.ltv = row.ltv;
+  }
+
+  return years;
+}
+
+/**
+ * Check that tranches cover the whole loan with sensible rates and binding periods
+ *
+ * @throws Error if there are no tranches or the shares don't add up to 100%
+ */
+export function validateTranches(tranches: LoanTranche[]): void {
+  if (tranches.length === 0) {
+    throw new Error('A loan needs at least one tranche');
+  }
+  if (tranches.some((tranche) => tranche.annualInterestRate < 0 || tranche.bindingYears < 0 || tranche.sharePercent <= 0)) {
+    throw new Error('Tranche shares must be positive and rates and binding periods non-negative');
+  }
+  const totalShare = tranches.reduce((sum, tranche) => sum + tranche.sharePercent, 0);
+  if (Math.abs(totalShare - 100) > 0.01) {
+    throw new Error(`Tranche shares must add up to 100% (got ${totalShare}%)`);
+  }
+}
+
+/**
+ * Weighted rate of the tranches as they are when the loan is taken
+ */
+export function blendedInterestRate(tranches: LoanTranche[]): number {
+  return tranches.reduce((sum, tranche) => sum + (tranche.annualInterestRate * tranche.sharePercent) / 100, 0);
+}
+
+/**
+ * Weighted yearly rate in a given month. Amortization is spread over the tranches
+ * by share, so the shares hold for the whole loan.
+ */
+function trancheRateForMonth(tranches: LoanTranche[], month: number, rateIncrease = 0): number {
+  return tranches.reduce((sum, tranche) => {
+    const bindingEnded = month > tranche.bindingYears * 12;
+    const rate = tranche.annualInterestRate + (bindingEnded ? rateIncrease : 0);
+    return sum + (rate * tranche.sharePercent) / 100;
+  }, 0);
+}
+
+/**
+ * Cost timeline at today's rates and with rates up by `rateIncrease` once each
+ * binding period ends ("rates +2 pp after binding"). Rörlig parts move at once.
+ *
+ * @param params - Mortgage, with tranches or a single rörlig rate
+ * @param rateIncrease - Rate change after binding, as a decimal (0.02 = +2 pp)
+ * @param years - Years of the timeline, default 10
+ * @returns Year-by-year cost in both cases and the interest over the timeline
+ */
+export function calculateRateScenario(
+  params: SwedishMortgageParams,
+  rateIncrease: number,
+  years = 10
+): RateScenarioResult {
+  const { purchasePrice, downPaymentPercent, annualInterestRate, loanTermYears, amortizationMethod } = params;
+  const tranches = params.tranches ?? [{ sharePercent: 100, annualInterestRate, bindingYears: 0 }];
+
+  const timeline = (increase: number): CostTimelineYear[] => {
+    const schedule = generateAmortizationSchedule({
+      principal: purchasePrice * (1 - downPaymentPercent / 100),
+      propertyValue: purchasePrice,
+      annualInterestRate,
+      loanTermYears,
+      method: amortizationMethod,
+      tranches,
+      rateIncrease: increase,
+    });
+    return summarizeScheduleByYear(schedule)
+      .slice(0, years)
+      .map((summary) => ({
+        year: summary.year,
+        averageRate: roundPercentage(
+          (Array.from({ length: 12 }, (_, index) =>
+            trancheRateForMonth(tranches, (summary.year - 1) * 12 + index + 1, increase)
+          ).reduce((sum, rate) => sum + rate, 0) / 12) * 100
+        ),
+        interest: summary.interest,
+        amortization: summary.amortization,
+        monthlyPayment: roundCurrency(summary.payment / 12),
+        closingBalance: summary.closingBalance,
+      }));
+  };
+
+  const current = timeline(0);
+  const stressed = timeline(rateIncrease);
+  const totalInterest = (rows: CostTimelineYear[]) =>
+    roundCurrency(rows.reduce((sum, row) => sum + row.interest, 0));
+
+  return {
+    rateIncrease,
+    current,
+    stressed,
+    currentInterest: totalInterest(current),
+    stressedInterest: totalInterest(stressed),
+    peakMonthlyPayment: Math.max(0, ...stressed.map((row) => row.monthlyPayment)),
+  };
+}
+
 /**
  * Calculate total monthly cost of homeownership (Swedish market).
  *
@@ -248,10 +598,13 @@ export function calculateTotalCost(params: SwedishTotalCostParams): TotalCostRes
     annualInterestRate,
     loanTermYears,
     propertyType,
+    amortizationMethod,
+    tranches,
     propertyTaxAnnual = 0,
     insuranceAnnual = 0,
     brfMonthly = 0,
-    maintenanceRate
+    maintenanceRate,
+    interestDeduction
   } = params;
 
   // Calculate mortgage payment (includes amortization)
@@ -260,7 +613,9 @@ export function calculateTotalCost(params: SwedishTotalCostParams): TotalCostRes
     downPaymentPercent,
     annualInterestRate,
     loanTermYears,
-    propertyType
+    propertyType,
+    amortizationMethod,
+    tranches
   });
 
   // Monthly costs
@@ -281,6 +636,13 @@ export function calculateTotalCost(params: SwedishTotalCostParams): TotalCostRes
     monthlyBRF +
     monthlyMaintenance;
 
+  const monthlyInterestDeduction = interestDeduction?.enabled === false
+    ? 0
+    : calculateInterestDeduction({
+        annualInterest: mortgage.firstYearInterest,
+        borrowerShares: interestDeduction?.borrowerShares
+      }).monthlyDeduction;
+
   return {
     monthlyMortgage: mortgage.monthlyPayment,
     monthlyInterest: mortgage.monthlyInterest,
@@ -290,7 +652,58 @@ export function calculateTotalCost(params: SwedishTotalCostParams): TotalCostRes
     monthlyBRF,
     monthlyMaintenance,
     totalMonthly: roundCurrency(totalMonthly),
-    totalAnnual: roundCurrency(totalMonthly * 12)
+    totalAnnual: roundCurrency(totalMonthly * 12),
+    monthlyInterestDeduction,
+    netMonthly: roundCurrency(totalMonthly - monthlyInterestDeduction)
+  };
+}
+
+// Ränteavdrag: 30% of interest up to 100 000 kr per person and year, 21% above
+const INTEREST_DEDUCTION_RATE = 0.3;
+const INTEREST_DEDUCTION_REDUCED_RATE = 0.21;
+const INTEREST_DEDUCTION_LIMIT = 100000;
+
+/**
+ * Calculate the tax reduction on mortgage interest (ränteavdrag).
+ *
+ * The 100 000 kr limit applies per borrower, so co-borrowers splitting the
+ * interest keep more of it at the full 30%.
+ *
+ * @param params - Yearly interest and each borrower's share of it
+ * @returns Yearly and monthly deduction, in total and per borrower
+ * @throws Error if the shares don't add up to 100%
+ */
+export function calculateInterestDeduction(params: InterestDeductionParams): InterestDeductionResult {
+  const { annualInterest } = params;
+  const borrowerShares = params.borrowerShares?.length ? params.borrowerShares : [100];
+
+  if (borrowerShares.some((share) => share < 0)) {
+    throw new Error('Borrower shares must be non-negative');
+  }
+  const totalShare = borrowerShares.reduce((sum, share) => sum + share, 0);
+  if (Math.abs(totalShare - 100) > 0.01) {
+    throw new Error(`Borrower shares must add up to 100% (got ${totalShare}%)`);
+  }
+
+  const borrowers = borrowerShares.map((sharePercent) => {
+    const interest = (annualInterest * sharePercent) / 100;
+    const deduction =
+      Math.min(interest, INTEREST_DEDUCTION_LIMIT) * INTEREST_DEDUCTION_RATE +
+      Math.max(0, interest - INTEREST_DEDUCTION_LIMIT) * INTEREST_DEDUCTION_REDUCED_RATE;
+    return {
+      sharePercent,
+      interest: roundCurrency(interest),
+      deduction: roundCurrency(deduction),
+    };
+  });
+
+  const annualDeduction = borrowers.reduce((sum, borrower) => sum + borrower.deduction, 0);
+
+  return {
+    annualDeduction: roundCurrency(annualDeduction),
+    monthlyDeduction: roundCurrency(annualDeduction / 12),
+    effectiveRate: annualInterest > 0 ? roundPercentage((annualDeduction / annualInterest) * 100) : 0,
+    borrowers,
   };
 }
 
@@ -334,3 +747,140 @@ export function calculateAffordability(params: SwedishAffordabilityParams): Affo
     reasoning: `At ${stressTestRate}% kalkylränta: housing ${housingRatio.toFixed(1)}%, total debt ${totalDebtRatio.toFixed(1)}%`
   };
 }
+
+// ============ KALP (KVAR ATT LEVA PÅ) ============
+
+/**
+ * Monthly living costs banks reserve per person, roughly Konsumentverket's
+ * reference costs plus clothes, leisure and household goods. Banks differ, so
+ * callers can override them.
+ */
+export const DEFAULT_LIVING_COST_NORMS: LivingCostNorms = {
+  adult: 10000,
+  child: 3800,
+  household: 1200,
+};
+
+export const DEFAULT_MUNICIPAL_TAX_RATE = 0.32;
+
+// Kalkylränta banks test affordability at when none is given
+export const DEFAULT_STRESS_TEST_RATE = 7;
+
+// Statlig inkomstskatt: 20% on yearly income above the skiktgräns
+const STATE_TAX_THRESHOLD = 643100;
+const STATE_TAX_RATE = 0.2;
+
+/**
+ * Estimate net income after kommunalskatt and statlig skatt.
+ *
+ * Grundavdrag and jobbskatteavdrag are left out, so the estimate is a little
+ * low - on the safe side, as in a bank's calculation.
+ *
+ * @param grossMonthlyIncome - Salary before tax
+ * @param municipalTaxRate - Kommunalskatt as a decimal
+ * @returns Monthly income after tax
+ */
+export function estimateNetMonthlyIncome(
+  grossMonthlyIncome: number,
+  municipalTaxRate = DEFAULT_MUNICIPAL_TAX_RATE
+): number {
+  const annual = grossMonthlyIncome * 12;
+  const stateTax = Math.max(0, annual - STATE_TAX_THRESHOLD) * STATE_TAX_RATE;
+  return roundCurrency((annual * (1 - municipalTaxRate) - stateTax) / 12);
+}
+
+/**
+ * Monthly cost of a loan at the kalkylränta, with the amortization the
+ * amorteringskrav would demand for it
+ */
+function stressedLoanCost(loan: number, propertyValue: number, stressTestRate: number, grossAnnualIncome: number): number {
+  if (loan <= 0) return 0;
+  const { yearlyAmortizationPercent } = calculateAmorteringskrav({
+    principal: loan,
+    purchasePrice: propertyValue,
+    grossAnnualIncome,
+    totalDebt: loan,
+  });
+  return (loan * (stressTestRate + yearlyAmortizationPercent)) / 100 / 12;
+}
+
+/**
+ * KALP (kvar att leva på) - how Swedish banks decide how much a household can borrow.
+ *
+ * Net income must cover living costs per adult and child, other loans, car
+ * costs and the housing cost with the mortgage at the kalkylränta plus
+ * amorteringskrav. What is left is the monthly surplus; the maximum loan is the
+ * one that leaves exactly nothing.
+ *
+ * @param params - Household, costs and the loan to test
+ * @returns Surplus for the tested loan and the maximum loan
+ * @throws Error if there is no adult in the household
+ */
+export function calculateKalp(params: KalpParams): KalpResult {
+  const {
+    adultGrossMonthlyIncomes,
+    children,
+    municipalTaxRate = DEFAULT_MUNICIPAL_TAX_RATE,
+    otherLoansMonthly = 0,
+    carCostsMonthly = 0,
+    housingOperatingCost = 0,
+    loanAmount = 0,
+    stressTestRate,
+  } = params;
+
+  if (adultGrossMonthlyIncomes.length === 0) {
+    throw new Error('A household needs at least one adult');
+  }
+  if (children < 0 || stressTestRate < 0) {
+    throw new Error('Children and kalkylränta must be non-negative');
+  }
+
+  const norms = { ...DEFAULT_LIVING_COST_NORMS, ...params.livingCostNorms };
+  const grossAnnualIncome = adultGrossMonthlyIncomes.reduce((sum, income) => sum + income, 0) * 12;
+  const netMonthlyIncome = adultGrossMonthlyIncomes.reduce(
+    (sum, income) => sum + estimateNetMonthlyIncome(income, municipalTaxRate),
+    0
+  );
+  const livingCosts =
+    norms.household + norms.adult * adultGrossMonthlyIncomes.length + norms.child * children;
+  const otherCosts = otherLoansMonthly + carCostsMonthly;
+  const available = netMonthlyIncome - livingCosts - otherCosts - housingOperatingCost;
+
+  // Without a property, value the loan at the bolånetak
+  const valueFor = (loan: number) => params.propertyValue ?? loan / 0.85;
+  const housingCost =
+    housingOperatingCost + stressedLoanCost(loanAmount, valueFor(loanAmount), stressTestRate, grossAnnualIncome);
+
+  // Cost grows with the loan (and steps up with amorteringskrav), so search for the largest that fits
+  let maxLoan = 0;
+  if (available > 0) {
+    let low = 0;
+    let high = params.propertyValue ? params.propertyValue * 0.85 : (available * 12 * 100) / Math.max(stressTestRate, 1);
+    if (stressedLoanCost(high, valueFor(high), stressTestRate, grossAnnualIncome) <= available) {
+      low = high;
+    } else {
+      for (let i = 0; i < 60; i++) {
+        const mid = (low + high) / 2;
+        if (stressedLoanCost(mid, valueFor(mid), stressTestRate, grossAnnualIncome) <= available) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+    }
+    // Banks quote loan promises in even thousands
+    maxLoan = Math.floor(low / 1000) * 1000;
+  }
+
+  const monthlySurplus = roundCurrency(netMonthlyIncome - livingCosts - otherCosts - housingCost);
+
+  return {
+    netMonthlyIncome: roundCurrency(netMonthlyIncome),
+    livingCosts,
+    otherCosts,
+    housingCost: roundCurrency(housingCost),
+    monthlySurplus,
+    maxLoan,
+    passes: monthlySurplus >= 0,
+  };
+}
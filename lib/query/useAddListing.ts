@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { PropertyLink } from '../store/propertyLinkStore';
+import { fetchPropertyMetadata, insertPropertyWithMetadata } from '../api/properties';
+import { fetchGeocodeData, resolvePropertyLocation } from '../api/geocoding';
+import { DuplicateMatch, findListingDuplicate, findUrlDuplicate } from '../utils/duplicates';
+import { SourceSighting } from '../utils/sources';
+import { useProperties, propertiesQueryKey } from './useProperties';
+import { useActiveSpaceId } from './useSpaces';
+import { useIdentity } from './useIdentity';
+import { useEnrichProperty } from './useEnrichment';
+
+export interface PendingDuplicate {
+  match: DuplicateMatch;
+  source: SourceSighting;
+}
+
+/**
+ * Add a pasted listing link to the active space
+ * Shared by the property list and both maps so they run the same duplicate checks:
+ * a saved URL points to the existing property, and the same home on another site
+ * can be saved as an alternate source instead of a second card. Render `duplicate`
+ * with DuplicateListingPrompt and show `error` / `notice` next to the input.
+ */
+export function useAddListing() {
+  const queryClient = useQueryClient();
+  const { sharedBy } = useIdentity();
+  const { activeSpaceId } = useActiveSpaceId();
+  const { properties, addSourceAsync, isAddingSource } = useProperties();
+  const { enrichProperty } = useEnrichProperty();
+  const [duplicate, setDuplicate] = useState<PendingDuplicate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [addingCount, setAddingCount] = useState(0);
+
+  const addListing = async (url: string, checkDuplicates = true) => {
+    const trimmedUrl = url.trim();
+    if (!trimmedUrl) return;
+    setError(null);
+    setNotice(null);
+    setDuplicate(null);
+
+    // 0. Same listing URL already saved — point to it instead of adding it again
+    const urlMatch = findUrlDuplicate(trimmedUrl, properties);
+    if (urlMatch) {
+      setDuplicate({ match: urlMatch, source: { url: trimmedUrl } });
+      return;
+    }
+
+    const tempId = `temp-${Date.now()}`;
+    // Pin the space now so switching mid-add doesn't move the card
+    const spaceId = activeSpaceId;
+    const listKey = propertiesQueryKey(spaceId);
+    setAddingCount((count) => count + 1);
+
+    // 1. Show card immediately in the list
+    queryClient.setQueryData<PropertyLink[]>(listKey, (old) => [
+      {
+        id: tempId,
+        url: trimmedUrl,
+        title: undefined,
+        sharedBy,
+        sharedAt: new Date().toISOString(),
+        spaceId,
+      },
+      ...(old || []),
+    ]);
+
+    // 2. Start geocode in parallel
+    const geocodePromise = fetchGeocodeData(trimmedUrl).catch(() => null);
+
+    try {
+      // 3. Fetch OG metadata — card populates when this resolves
+      const metadata = await fetchPropertyMetadata(trimmedUrl);
+
+      // 4. Update card with OG data
+      queryClient.setQueryData<PropertyLink[]>(listKey, (old) =>
+        (old || []).map((p) =>
+          p.id === tempId
+            ? {
+                ...p,
+                title: metadata.title,
+                description: metadata.description,
+                image: metadata.image,
+                images: metadata.images,
+                propertyData: metadata.propertyData,
+              }
+            : p
+        )
+      );
+
+      // 5. Same home cross-posted on another site — ask before adding a second card
+      const listingMatch = checkDuplicates
+        ? findListingDuplicate({ url: trimmedUrl, propertyData: metadata.propertyData }, properties)
+        : null;
+      if (listingMatch) {
+        queryClient.setQueryData<PropertyLink[]>(listKey, (old) =>
+          (old || []).filter((p) => p.id !== tempId)
+        );
+        setDuplicate({
+          match: listingMatch,
+          source: { url: trimmedUrl, siteName: metadata.siteName, price: metadata.propertyData?.price },
+        });
+        return;
+      }
+
+      // 6. Resolve coordinates: the listing's own, then the geocode, then the address text
+      const location = await resolvePropertyLocation({ url: trimmedUrl, ...metadata }, geocodePromise);
+
+      // 7. Save to DB with pre-fetched metadata — unresolved properties stay unpinned
+      const saved = await insertPropertyWithMetadata({
+        url: trimmedUrl,
+        sharedBy,
+        ...location,
+        title: metadata.title,
+        description: metadata.description,
+        image: metadata.image,
+        images: metadata.images,
+        siteName: metadata.siteName,
+        propertyData: metadata.propertyData,
+        spaceId,
+      });
+
+      // 8. Replace temp entry with real DB entry
+      queryClient.setQueryData<PropertyLink[]>(listKey, (old) =>
+        (old || []).map((p) => (p.id === tempId ? saved : p))
+      );
+
+      // 9. Run LLM enrichment in the background — the badge tracks its status
+      enrichProperty(saved);
+    } catch (err: any) {
+      console.error('Error adding property:', err);
+      queryClient.setQueryData<PropertyLink[]>(listKey, (old) =>
+        (old || []).filter((p) => p.id !== tempId)
+      );
+      setError(err.message || 'Failed to add property');
+    } finally {
+      setAddingCount((count) => count - 1);
+    }
+  };
+
+  // Save the pasted link as another source of the matching property
+  const mergeDuplicate = async () => {
+    if (!duplicate) return;
+    try {
+      await addSourceAsync({ id: duplicate.match.property.id, source: duplicate.source });
+      setDuplicate(null);
+      setNotice('Länken sparades som alternativ källa');
+    } catch (err: any) {
+      setError(err.message || 'Kunde inte spara länken');
+    }
+  };
+
+  return {
+    addListing,
+    isAdding: addingCount > 0,
+    error,
+    notice,
+
+    duplicate,
+    mergeDuplicate,
+    isMergingDuplicate: isAddingSource,
+    addDuplicateAnyway: () => duplicate && addListing(duplicate.source.url, false),
+    dismissDuplicate: () => setDuplicate(null),
+  };
+}
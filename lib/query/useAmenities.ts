@@ -0,0 +1,100 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { asyncStorage } from '../store/persistence';
+import { Amenity } from '../types/amenity';
+import { parseAmenities } from '../utils/amenities';
+
+// 'app-' prefix so clearAllStorage() removes the imported dataset too
+const AMENITIES_STORAGE_KEY = 'app-amenities';
+
+const NO_AMENITIES: Amenity[] = [];
+
+// Kept as one asyncStorage value: localStorage allows about 5 MB and Android's
+// AsyncStorage about 2 MB per value, and 10 000 amenities stay well under both
+const MAX_AMENITIES = 10_000;
+
+export type AmenityImportSource = { url: string } | { file: Blob };
+
+async function readImportSource(source: AmenityImportSource): Promise<unknown> {
+  if ('file' in source) return JSON.parse(await source.file.text());
+
+  let response: Response;
+  try {
+    response = await fetch(source.url);
+  } catch {
+    throw new Error('Could not download the file - check the link');
+  }
+  if (!response.ok) throw new Error(`Download failed (${response.status})`);
+  return response.json();
+}
+
+/**
+ * The imported amenity dataset (schools, grocery stores, transit, parks).
+ * Stored on the device only - it's the same for every space.
+ */
+export function useAmenities() {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['amenities'],
+    queryFn: async (): Promise<Amenity[]> => {
+      const stored = await asyncStorage.getItem(AMENITIES_STORAGE_KEY);
+      if (!stored) return [];
+      try {
+        return JSON.parse(stored) as Amenity[];
+      } catch (error) {
+        console.warn('Ignoring unreadable stored amenities:', error);
+        return [];
+      }
+    },
+    staleTime: Infinity, // Only changes through an import below
+  });
+
+  // Downloads or reads the file here, so every failure ends up in importError
+  const importMutation = useMutation({
+    mutationFn: async (source: AmenityImportSource) => {
+      let data: unknown;
+      try {
+        data = await readImportSource(source);
+      } catch (error) {
+        throw error instanceof SyntaxError ? new Error('The file is not valid JSON') : error;
+      }
+
+      const amenities = parseAmenities(data);
+      if (amenities.length === 0) {
+        throw new Error('No schools, grocery stores, transit stops or parks found in the file');
+      }
+      if (amenities.length > MAX_AMENITIES) {
+        throw new Error(
+          `The file has ${amenities.length.toLocaleString()} places - at most ${MAX_AMENITIES.toLocaleString()} can be stored. Export a smaller area.`
+        );
+      }
+      await asyncStorage.setItem(AMENITIES_STORAGE_KEY, JSON.stringify(amenities));
+      return amenities;
+    },
+    onSuccess: (amenities) => {
+      queryClient.setQueryData(['amenities'], amenities);
+    },
+    onError: (err) => {
+      console.error('Failed to import amenities:', err);
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => asyncStorage.removeItem(AMENITIES_STORAGE_KEY),
+    onMutate: () => {
+      queryClient.setQueryData(['amenities'], []);
+    },
+  });
+
+  return {
+    amenities: query.data || NO_AMENITIES,
+    isLoading: query.isLoading,
+
+    importAmenities: importMutation.mutate,
+    importAmenitiesAsync: importMutation.mutateAsync,
+    isImportingAmenities: importMutation.isPending,
+    importError: importMutation.error,
+
+    clearAmenities: () => clearMutation.mutate(),
+  };
+}
@@ -1,8 +1,40 @@
 import { useEffect } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, QueryClient } from '@tanstack/react-query';
 import { supabase } from '../api/supabaseClient';
+import { claimAnonActivity } from '../api/anonActivity';
+import { getMintedAnonIdentity } from '../utils/anonUser';
 import { User, Session } from '@supabase/supabase-js';
 
+// Every mounted useAuth() gets the auth events - claim once per account and app run
+const claimedUserIds = new Set<string>();
+
+/**
+ * Claim what this device did anonymously (reactions, comments, properties)
+ * for the account that signed in. Safe to repeat - nothing left to claim.
+ */
+function claimAnonActivityFor(user: User, queryClient: QueryClient) {
+  if (!user.email || claimedUserIds.has(user.id)) return;
+  claimedUserIds.add(user.id);
+
+  getMintedAnonIdentity()
+    .then((identity) =>
+      // A device without a minted ID has nothing to claim
+      identity ? claimAnonActivity(identity.id, identity.secret, user.user_metadata?.full_name) : null
+    )
+    .then((claimed) => {
+      if (claimed && (claimed.reactions || claimed.comments || claimed.properties)) {
+        console.log('🔑 Claimed anonymous activity:', claimed);
+        queryClient.invalidateQueries({ queryKey: ['properties'] });
+        queryClient.invalidateQueries({ queryKey: ['reactions'] });
+        queryClient.invalidateQueries({ queryKey: ['comments'] });
+      }
+    })
+    .catch((err) => {
+      claimedUserIds.delete(user.id); // Try again on the next auth event
+      console.error('Failed to claim anonymous activity:', err);
+    });
+}
+
 /**
  * React Query hook for authentication
  * Manages auth state and listens to Supabase auth changes
@@ -47,6 +79,15 @@ export function useAuth() {
         // Clear all queries on sign out
         if (!session) {
           queryClient.clear();
+          claimedUserIds.clear(); // Anything done signed out is claimable again
+        }
+
+        // Covers password sign-in, email confirmation, OAuth, magic links and a
+        // restored session alike. Deferred: Supabase calls made inside the
+        // callback wait on the auth lock it holds.
+        const user = session?.user;
+        if (user && (_event === 'SIGNED_IN' || _event === 'INITIAL_SESSION')) {
+          setTimeout(() => claimAnonActivityFor(user, queryClient), 0);
         }
       }
     );
@@ -90,6 +131,19 @@ export function useAuth() {
     },
   });
 
+  // Anonymous sign in - gives visitors an auth user id (e.g. to join a space via invite)
+  const signInAnonymouslyMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.auth.signInAnonymously();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['session'], data.session);
+      queryClient.setQueryData(['user'], data.user);
+    },
+  });
+
   // Sign out mutation
   const signOutMutation = useMutation({
     mutationFn: async () => {
@@ -122,6 +176,10 @@ export function useAuth() {
     isSigningUp: signUpMutation.isPending,
     signUpError: signUpMutation.error,
 
+    signInAnonymously: signInAnonymouslyMutation.mutate,
+    signInAnonymouslyAsync: signInAnonymouslyMutation.mutateAsync,
+    isSigningInAnonymously: signInAnonymouslyMutation.isPending,
+
     signOut: signOutMutation.mutate,
     signOutAsync: signOutMutation.mutateAsync,
     isSigningOut: signOutMutation.isPending,
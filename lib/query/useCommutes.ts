@@ -0,0 +1,42 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { PropertyLink } from '../store/propertyLinkStore';
+import { PlaceCommute } from '../types/savedPlace';
+import { estimatePropertyCommutes, getRoutingProvider } from '../utils/commute';
+import { useSavedPlaces } from './useSavedPlaces';
+
+const NO_COMMUTES: Record<string, PlaceCommute[]> = {};
+
+/**
+ * Commute estimates from each property to the saved places of the active space,
+ * keyed by property id. Estimates only change when a pin or place moves, so
+ * they're never refetched on their own.
+ */
+export function useCommutes(properties: PropertyLink[]) {
+  const { savedPlaces, isLoading: isPlacesLoading } = useSavedPlaces();
+  const provider = getRoutingProvider();
+
+  // Only what the estimate depends on, so unrelated property edits don't recompute
+  const propertyKey = useMemo(
+    () => properties.map((property) => `${property.id}:${property.latitude},${property.longitude}`),
+    [properties]
+  );
+  const placeKey = useMemo(
+    () => savedPlaces.map((place) => `${place.id}:${place.latitude},${place.longitude}`),
+    [savedPlaces]
+  );
+
+  const query = useQuery({
+    queryKey: ['commutes', provider.name, placeKey, propertyKey],
+    queryFn: () => estimatePropertyCommutes(properties, savedPlaces, provider),
+    enabled: !isPlacesLoading && savedPlaces.length > 0 && properties.length > 0,
+    staleTime: Infinity,
+  });
+
+  return {
+    commutes: query.data || NO_COMMUTES,
+    savedPlaces,
+    isLoading: query.isLoading || isPlacesLoading,
+    error: query.error,
+  };
+}
@@ -7,8 +7,18 @@ import {
   deleteComparisonSession,
 } from '../api/comparisonSessions';
 import { useProperties } from './useProperties';
+import { useActiveSpaceId } from './useSpaces';
+import { useIdentity } from './useIdentity';
+import { useCommutes } from './useCommutes';
+import { useAmenities } from './useAmenities';
 import { PropertyLink } from '../store/propertyLinkStore';
-import { ComparisonMetrics, ProsCons, PropertyComparison } from '../types/property';
+import { ComparisonMetrics, LoanCostMetrics, ProsCons, PropertyComparison } from '../types/property';
+import { PlaceCommute } from '../types/savedPlace';
+import { Amenity, AmenityCategory } from '../types/amenity';
+import { fastestEstimate } from '../utils/commute';
+import { summarizeAmenities } from '../utils/amenities';
+import { hasValidCoordinates } from '../utils/coordinates';
+import { calculateRateScenario } from '../financial/calculations';
 
 /**
  * React Query hook for property comparison
@@ -17,27 +27,35 @@ import { ComparisonMetrics, ProsCons, PropertyComparison } from '../types/proper
 export function useComparison() {
   const queryClient = useQueryClient();
   const { properties } = useProperties();
+  const { activeSpaceId, isLoading: isSpaceLoading } = useActiveSpaceId();
+  const { sharedBy } = useIdentity();
   
   // Local UI state - selected property IDs
   const [selectedPropertyIds, setSelectedPropertyIds] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
 
-  // Load saved sessions from React Query
+  // Load saved sessions for the active space from React Query
   const savedSessionsQuery = useQuery({
-    queryKey: ['comparison-sessions'],
-    queryFn: fetchComparisonSessions,
+    queryKey: ['comparison-sessions', activeSpaceId],
+    queryFn: () => fetchComparisonSessions(activeSpaceId),
+    enabled: !isSpaceLoading,
   });
 
+  const selectedProperties = useMemo(
+    () => properties.filter((p) => selectedPropertyIds.includes(p.id)),
+    [selectedPropertyIds, properties]
+  );
+  const { commutes } = useCommutes(selectedProperties);
+  const { amenities } = useAmenities();
+
   // Calculate comparison data based on selected properties
   const comparisonData = useMemo<PropertyComparison[]>(() => {
-    const selectedProperties = properties.filter((p) => selectedPropertyIds.includes(p.id));
-    
     return selectedProperties.map((property) => ({
       property,
-      metrics: calculateMetrics(property, selectedProperties),
-      prosCons: generateProsCons(property, selectedProperties),
+      metrics: calculateMetrics(property, selectedProperties, commutes),
+      prosCons: generateProsCons(property, selectedProperties, commutes, amenities),
     }));
-  }, [selectedPropertyIds, properties]);
+  }, [selectedProperties, commutes, amenities]);
 
   // Actions for managing selected properties
   const addPropertyToComparison = (propertyId: string) => {
@@ -73,17 +91,13 @@ export function useComparison() {
 
   // Save session mutation
   const saveSessionMutation = useMutation({
-    mutationFn: (name?: string) => {
-      const userEmail = typeof window !== 'undefined' && typeof window.localStorage !== 'undefined'
-        ? window.localStorage.getItem('user-email') || 'anon'
-        : 'anon';
-
-      return saveComparisonSession({
+    mutationFn: (name?: string) =>
+      saveComparisonSession({
         name,
         propertyIds: selectedPropertyIds,
-        sharedBy: userEmail,
-      });
-    },
+        sharedBy,
+        spaceId: activeSpaceId,
+      }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['comparison-sessions'] });
     },
@@ -127,10 +141,50 @@ export function useComparison() {
   };
 }
 
+/**
+ * Total of the quickest commute to every saved place, undefined without estimates
+ */
+function totalCommuteMinutes(commutes: PlaceCommute[] | undefined): number | undefined {
+  const fastest = (commutes || []).map(fastestEstimate);
+  if (fastest.length === 0 || fastest.some((estimate) => !estimate)) return undefined;
+  return fastest.reduce((sum, estimate) => sum + (estimate?.minutes || 0), 0);
+}
+
+// Rate rise tested when a property's calculation doesn't pick one
+const DEFAULT_RATE_INCREASE = 0.02;
+
+/**
+ * Ten-year financing cost from the saved calculation, if the property has one
+ */
+function loanCost(property: PropertyLink): LoanCostMetrics | undefined {
+  const financialData = property.financialData;
+  if (!financialData?.mortgage) return undefined;
+
+  try {
+    const scenario = calculateRateScenario(
+      financialData.mortgage,
+      financialData.rateScenario?.rateIncrease ?? DEFAULT_RATE_INCREASE
+    );
+    return {
+      monthlyPayment: scenario.current[0]?.monthlyPayment ?? 0,
+      stressedMonthlyPayment: scenario.peakMonthlyPayment,
+      rateIncrease: scenario.rateIncrease,
+      interest: scenario.currentInterest,
+      stressedInterest: scenario.stressedInterest,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Calculate metrics for a property compared to others
  */
-function calculateMetrics(property: PropertyLink, allProperties: PropertyLink[]): ComparisonMetrics {
+function calculateMetrics(
+  property: PropertyLink,
+  allProperties: PropertyLink[],
+  commutes: Record<string, PlaceCommute[]> = {}
+): ComparisonMetrics {
   const pricePerSqm =
     property.propertyData?.price && property.propertyData?.area
       ? property.propertyData.price / property.propertyData.area
@@ -175,6 +229,20 @@ function calculateMetrics(property: PropertyLink, allProperties: PropertyLink[])
     ? energyClassMap[property.propertyData.energyClass.toUpperCase()] || 0
     : undefined;
 
+  // Commute to saved places (only properties with a pin have estimates)
+  const propertiesWithCommute = allProperties.filter((p) => totalCommuteMinutes(commutes[p.id]) !== undefined);
+  const sortedByCommute = [...propertiesWithCommute].sort(
+    (a, b) => (totalCommuteMinutes(commutes[a.id]) || 0) - (totalCommuteMinutes(commutes[b.id]) || 0)
+  );
+  const commuteRank = sortedByCommute.findIndex((p) => p.id === property.id) + 1;
+
+  // Financing, for properties with a saved calculation
+  const loanCosts = allProperties
+    .map((p) => ({ id: p.id, cost: loanCost(p) }))
+    .filter((entry): entry is { id: string; cost: LoanCostMetrics } => !!entry.cost)
+    .sort((a, b) => a.cost.stressedInterest - b.cost.stressedInterest);
+  const loanCostRank = loanCosts.findIndex((entry) => entry.id === property.id) + 1;
+
   return {
     pricePerSqm,
     priceRank,
@@ -182,13 +250,22 @@ function calculateMetrics(property: PropertyLink, allProperties: PropertyLink[])
     bedroomRank,
     pricePerSqmRank,
     energyEfficiencyScore,
+    commutes: commutes[property.id],
+    commuteRank: commuteRank || undefined,
+    loanCost: loanCosts.find((entry) => entry.id === property.id)?.cost,
+    loanCostRank: loanCostRank || undefined,
   };
 }
 
 /**
  * Generate pros and cons for a property compared to others
  */
-function generateProsCons(property: PropertyLink, allProperties: PropertyLink[]): ProsCons {
+function generateProsCons(
+  property: PropertyLink,
+  allProperties: PropertyLink[],
+  commutes: Record<string, PlaceCommute[]> = {},
+  amenities: Amenity[] = []
+): ProsCons {
   const pros: string[] = [];
   const cons: string[] = [];
   const data = property.propertyData;
@@ -197,7 +274,7 @@ function generateProsCons(property: PropertyLink, allProperties: PropertyLink[])
     return { pros, cons };
   }
 
-  const metrics = calculateMetrics(property, allProperties);
+  const metrics = calculateMetrics(property, allProperties, commutes);
 
   // Price analysis
   if (metrics.priceRank === 1) {
@@ -259,6 +336,47 @@ function generateProsCons(property: PropertyLink, allProperties: PropertyLink[])
     }
   }
 
+  // Commute, when more than one property could be estimated
+  const commuteCount = allProperties.filter((p) => totalCommuteMinutes(commutes[p.id]) !== undefined).length;
+  if (metrics.commuteRank && commuteCount > 1) {
+    if (metrics.commuteRank === 1) {
+      pros.push('Shortest commute to your saved places');
+    } else if (metrics.commuteRank === commuteCount) {
+      cons.push('Longest commute to your saved places');
+    }
+  }
+
+  // Financing, when more than one property has a calculation
+  const loanCostCount = allProperties.filter((p) => loanCost(p)).length;
+  if (metrics.loanCostRank && loanCostCount > 1) {
+    if (metrics.loanCostRank === 1) {
+      pros.push('Lowest interest cost if rates rise');
+    } else if (metrics.loanCostRank === loanCostCount) {
+      cons.push('Highest interest cost if rates rise');
+    }
+  }
+
+  // Nearby amenities from the imported dataset; categories it lacks say nothing
+  if (amenities.length > 0 && hasValidCoordinates(property)) {
+    const nearby = summarizeAmenities(property, amenities);
+    const closeWithin = (category: AmenityCategory, km: number) => (nearby[category].nearestKm ?? Infinity) <= km;
+
+    if (closeWithin('transit', 0.4)) {
+      pros.push('Close to public transport');
+    } else if ((nearby.transit.nearestKm ?? 0) > 1) {
+      cons.push('Far from public transport');
+    }
+    if (closeWithin('grocery', 0.5)) {
+      pros.push('Grocery store within walking distance');
+    }
+    if (closeWithin('school', 1)) {
+      pros.push('School nearby');
+    }
+    if (closeWithin('park', 0.5)) {
+      pros.push('Park nearby');
+    }
+  }
+
   // Location-based
   if (data.city) {
     pros.push(`Located in ${data.city}`);
@@ -0,0 +1,114 @@
+import { useMutation, useQueryClient, QueryClient } from '@tanstack/react-query';
+import {
+  enrichProperty,
+  fetchListingRefresh,
+  applyListingRefresh,
+  ListingRefresh,
+} from '../enrichment/orchestrator';
+import { PropertyLink, EnrichmentStatus } from '../store/propertyLinkStore';
+
+/**
+ * Replace a property in every cached property list (all spaces)
+ */
+function setCachedProperty(
+  queryClient: QueryClient,
+  id: string,
+  update: (property: PropertyLink) => PropertyLink
+) {
+  queryClient.setQueriesData<PropertyLink[]>({ queryKey: ['properties'] }, (old) =>
+    old?.map((property) => (property.id === id ? update(property) : property))
+  );
+}
+
+function withStatus(property: PropertyLink, enrichmentStatus: EnrichmentStatus): PropertyLink {
+  return {
+    ...property,
+    propertyData: {
+      ...property.propertyData,
+      enrichmentStatus,
+      ...(enrichmentStatus === 'llm_processing' ? { enrichmentStartedAt: new Date().toISOString() } : {}),
+    },
+  };
+}
+
+/**
+ * React Query hook for the LLM enrichment stage
+ * Runs the orchestrator for a saved property and keeps the cached lists in step
+ * (processing → complete/failed) even before the realtime UPDATE arrives.
+ */
+export function useEnrichProperty() {
+  const queryClient = useQueryClient();
+
+  const enrichMutation = useMutation({
+    mutationFn: (property: PropertyLink) =>
+      enrichProperty(property, {
+        onProcessing: (processing) => setCachedProperty(queryClient, processing.id, () => processing),
+      }),
+    onMutate: (property) => {
+      setCachedProperty(queryClient, property.id, (p) => withStatus(p, 'llm_processing'));
+    },
+    onError: (err, property) => {
+      setCachedProperty(queryClient, property.id, (p) => withStatus(p, 'llm_failed'));
+      console.error('Failed to enrich property:', err);
+    },
+    onSuccess: (enriched) => {
+      setCachedProperty(queryClient, enriched.id, () => enriched);
+      queryClient.invalidateQueries({ queryKey: ['properties-table'] });
+      queryClient.invalidateQueries({ queryKey: ['price-history'] });
+    },
+  });
+
+  return {
+    enrichProperty: enrichMutation.mutate,
+    enrichPropertyAsync: enrichMutation.mutateAsync,
+    isEnriching: enrichMutation.isPending,
+  };
+}
+
+/**
+ * React Query hook for refreshing stored listings
+ * - previewRefresh: re-runs OG + LLM extraction and returns the changed fields (no writes)
+ * - applyRefresh: writes the accepted fields of a previewed refresh back and bumps lastEnriched
+ */
+export function useListingRefresh() {
+  const queryClient = useQueryClient();
+
+  const previewMutation = useMutation({
+    mutationFn: (property: PropertyLink) => fetchListingRefresh(property),
+    onError: (err) => {
+      console.error('Failed to refresh listing:', err);
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: ({
+      property,
+      refresh,
+      acceptedFields,
+    }: {
+      property: PropertyLink;
+      refresh: ListingRefresh;
+      acceptedFields: readonly string[];
+    }) => applyListingRefresh(property, refresh, acceptedFields),
+    onError: (err) => {
+      console.error('Failed to apply listing refresh:', err);
+    },
+    onSuccess: (updated) => {
+      setCachedProperty(queryClient, updated.id, () => updated);
+      queryClient.invalidateQueries({ queryKey: ['properties-table'] });
+      // A refreshed price is logged to property_price_history by a DB trigger
+      queryClient.invalidateQueries({ queryKey: ['price-history'] });
+    },
+  });
+
+  return {
+    previewRefresh: previewMutation.mutate,
+    previewRefreshAsync: previewMutation.mutateAsync,
+    isFetchingRefresh: previewMutation.isPending,
+    refreshError: previewMutation.error,
+
+    applyRefresh: applyMutation.mutate,
+    applyRefreshAsync: applyMutation.mutateAsync,
+    isApplyingRefresh: applyMutation.isPending,
+  };
+}
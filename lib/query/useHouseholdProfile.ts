@@ -0,0 +1,57 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { fetchHouseholdProfile, saveHouseholdProfile, SaveHouseholdProfileInput } from '../api/householdProfiles';
+import { HouseholdProfile } from '../types/household';
+import { fetchDeviceHouseholdProfile, saveDeviceHouseholdProfile } from '../utils/deviceHouseholdProfile';
+import { useActiveSpaceId } from './useSpaces';
+import { useIdentity } from './useIdentity';
+
+export const householdProfileQueryKey = (spaceId: string | null, ownerId?: string) =>
+  ['household-profile', spaceId, ownerId] as const;
+
+/**
+ * React Query hook for the household profile of the active space
+ * (the user's own profile on the open list, kept on the device while signed out)
+ */
+export function useHouseholdProfile() {
+  const queryClient = useQueryClient();
+  const { activeSpaceId, isLoading: isSpaceLoading } = useActiveSpaceId();
+  const { userId, sharedBy, isAnonymous, isLoading: isIdentityLoading } = useIdentity();
+  const onDevice = !activeSpaceId && isAnonymous;
+  const queryKey = householdProfileQueryKey(activeSpaceId, userId);
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => (onDevice ? fetchDeviceHouseholdProfile() : fetchHouseholdProfile(activeSpaceId, userId!)),
+    enabled: !isSpaceLoading && !!userId,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (input: Omit<SaveHouseholdProfileInput, 'id' | 'ownerId' | 'updatedBy' | 'spaceId'>) => {
+      const profile: SaveHouseholdProfileInput = {
+        ...input,
+        id: query.data?.id,
+        ownerId: userId!,
+        updatedBy: sharedBy,
+        spaceId: activeSpaceId,
+      };
+      return onDevice ? saveDeviceHouseholdProfile(profile) : saveHouseholdProfile(profile);
+    },
+    onSuccess: (profile) => {
+      queryClient.setQueryData<HouseholdProfile | null>(queryKey, profile);
+    },
+    onError: (err) => {
+      console.error('Failed to save household profile:', err);
+    },
+  });
+
+  return {
+    profile: query.data ?? null,
+    isLoading: query.isLoading || isSpaceLoading || isIdentityLoading,
+    error: query.error,
+    refetch: query.refetch,
+
+    saveHouseholdProfile: saveMutation.mutate,
+    saveHouseholdProfileAsync: saveMutation.mutateAsync,
+    isSavingHouseholdProfile: saveMutation.isPending,
+  };
+}
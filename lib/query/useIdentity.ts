@@ -0,0 +1,83 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../api/supabaseClient';
+import { getAnonUserInfo, setAnonDisplayName, AnonIdentity } from '../utils/anonUser';
+import { useAuth } from './useAuth';
+import type { PropertyLink } from '../store/propertyLinkStore';
+
+/**
+ * React Query hook for "who am I" across signed-in and anonymous users
+ * - userId: email when signed in, otherwise the persisted per-device anon ID
+ * - sharedBy: value for `shared_by` columns (email or 'anon', as RLS expects)
+ * - displayName: user metadata name / email prefix, or the anon display name
+ */
+export function useIdentity() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const anonQuery = useQuery({
+    queryKey: ['anon-identity'],
+    queryFn: getAnonUserInfo,
+    staleTime: Infinity, // Only changes through setDisplayName below
+  });
+
+  const setDisplayNameMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await setAnonDisplayName(name);
+      if (user) {
+        const { error } = await supabase.auth.updateUser({ data: { full_name: name.trim() } });
+        if (error) throw error;
+      }
+    },
+    onMutate: async (name) => {
+      await queryClient.cancelQueries({ queryKey: ['anon-identity'] });
+      const previousIdentity = queryClient.getQueryData<AnonIdentity>(['anon-identity']);
+
+      if (previousIdentity) {
+        queryClient.setQueryData<AnonIdentity>(['anon-identity'], {
+          ...previousIdentity,
+          name: name.trim() || previousIdentity.name,
+          hasCustomName: !!name.trim(),
+        });
+      }
+
+      return { previousIdentity };
+    },
+    onError: (err, name, context) => {
+      if (context?.previousIdentity) {
+        queryClient.setQueryData(['anon-identity'], context.previousIdentity);
+      }
+      console.error('Failed to set display name:', err);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['anon-identity'] });
+      if (user) {
+        queryClient.invalidateQueries({ queryKey: ['user'] });
+      }
+    },
+  });
+
+  const anonIdentity = anonQuery.data;
+  const userName = user?.user_metadata?.full_name as string | undefined;
+
+  // sharedBy is 'anon' for every signed-out user, so those are told apart by device
+  const isOwnProperty = (link: Pick<PropertyLink, 'sharedBy' | 'anonId'>) =>
+    user?.email ? link.sharedBy === user.email : !!anonIdentity?.id && link.anonId === anonIdentity.id;
+
+  return {
+    // Identity
+    userId: user?.email || anonIdentity?.id,
+    anonId: anonIdentity?.id,
+    sharedBy: user?.email || 'anon',
+    displayName: user
+      ? userName || user.email?.split('@')[0] || anonIdentity?.name
+      : anonIdentity?.name,
+    isAnonymous: !user?.email,
+    isLoading: anonQuery.isLoading,
+    isOwnProperty,
+
+    // Actions
+    setDisplayName: setDisplayNameMutation.mutate,
+    setDisplayNameAsync: setDisplayNameMutation.mutateAsync,
+    isSettingDisplayName: setDisplayNameMutation.isPending,
+  };
+}
@@ -0,0 +1,53 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchPriceHistory } from '../api/priceHistory';
+import { getPriceChange, getPriceSeries, groupPriceHistory, PriceChange } from '../utils/priceHistory';
+
+/**
+ * React Query hook for a single property's price history (detail screen chart)
+ * Invalidate with ['price-history'] when a price may have changed.
+ */
+export function usePriceHistory(propertyId: string | undefined) {
+  const query = useQuery({
+    queryKey: ['price-history', propertyId],
+    queryFn: () => fetchPriceHistory([propertyId!]),
+    enabled: !!propertyId,
+  });
+
+  const history = query.data || [];
+
+  return {
+    history,
+    priceSeries: getPriceSeries(history, 'price'),
+    monthlyFeeSeries: getPriceSeries(history, 'monthlyFee'),
+    priceChange: getPriceChange(history),
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+/**
+ * React Query hook for the latest price change of many properties (list cards, map markers)
+ * Returns a map of property ID → change; properties whose price never changed are absent.
+ */
+export function usePriceChanges(propertyIds: string[]) {
+  const ids = propertyIds.filter((id) => !id.startsWith('temp-')).sort();
+
+  const query = useQuery({
+    queryKey: ['price-history', 'changes', ids],
+    queryFn: async () => {
+      const grouped = groupPriceHistory(await fetchPriceHistory(ids));
+      const changes: Record<string, PriceChange> = {};
+      for (const [id, history] of Object.entries(grouped)) {
+        const change = getPriceChange(history);
+        if (change) changes[id] = change;
+      }
+      return changes;
+    },
+    enabled: ids.length > 0,
+  });
+
+  return {
+    priceChanges: query.data || {},
+    isLoading: query.isLoading,
+  };
+}
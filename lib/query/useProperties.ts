@@ -5,32 +5,55 @@ import {
   updateProperty,
   deleteProperty,
   updateFinancialData,
+  addPropertySource,
   AddPropertyInput,
 } from '../api/properties';
 import { PropertyLink, FinancialData } from '../store/propertyLinkStore';
+import { useActiveSpaceId } from './useSpaces';
+import { useEnrichProperty } from './useEnrichment';
+import { findUrlDuplicate } from '../utils/duplicates';
+import { getPropertySources, upsertSource, SourceSighting } from '../utils/sources';
+
+/**
+ * Query key for the property list of a space (null = the open list).
+ * Invalidate with ['properties'] to hit every space at once.
+ */
+export const propertiesQueryKey = (spaceId: string | null) => ['properties', spaceId] as const;
 
 /**
  * React Query hook for property management
- * Handles fetching, adding, updating, and deleting properties with optimistic updates
+ * Handles fetching, adding, updating, and deleting properties with optimistic updates.
+ * Scoped to the active shared space.
  */
 export function useProperties() {
   const queryClient = useQueryClient();
+  const { activeSpaceId, isLoading: isSpaceLoading } = useActiveSpaceId();
+  const queryKey = propertiesQueryKey(activeSpaceId);
+  const { enrichProperty } = useEnrichProperty();
 
-  // Fetch all properties
+  // Fetch all properties in the active space
   const query = useQuery({
-    queryKey: ['properties'],
-    queryFn: fetchProperties,
+    queryKey,
+    queryFn: () => fetchProperties(activeSpaceId),
+    enabled: !isSpaceLoading,
   });
 
   // Add property mutation with optimistic updates
   const addMutation = useMutation({
-    mutationFn: addProperty,
+    mutationFn: (input: AddPropertyInput) => {
+      // The same listing URL (ignoring tracking params) is never inserted twice
+      const duplicate = findUrlDuplicate(input.url, queryClient.getQueryData<PropertyLink[]>(queryKey) || []);
+      if (duplicate) {
+        return Promise.reject(new Error(`Already saved as "${duplicate.property.title || duplicate.property.url}"`));
+      }
+      return addProperty({ spaceId: activeSpaceId, ...input });
+    },
     onMutate: async (newPropertyInput: AddPropertyInput) => {
       // Cancel outgoing refetches
-      await queryClient.cancelQueries({ queryKey: ['properties'] });
+      await queryClient.cancelQueries({ queryKey });
 
       // Snapshot previous value
-      const previousProperties = queryClient.getQueryData<PropertyLink[]>(['properties']);
+      const previousProperties = queryClient.getQueryData<PropertyLink[]>(queryKey);
 
       // Optimistically create a temporary property
       const tempProperty: PropertyLink = {
@@ -39,12 +62,13 @@ export function useProperties() {
         title: 'Loading...',
         sharedBy: newPropertyInput.sharedBy,
         sharedAt: new Date().toISOString(),
+        spaceId: activeSpaceId,
         latitude: newPropertyInput.latitude,
         longitude: newPropertyInput.longitude,
       };
 
       // Optimistically update to the new value
-      queryClient.setQueryData<PropertyLink[]>(['properties'], (old) => 
+      queryClient.setQueryData<PropertyLink[]>(queryKey, (old) => 
         [tempProperty, ...(old || [])]
       );
 
@@ -53,13 +77,15 @@ export function useProperties() {
     onError: (err, newProperty, context) => {
       // Rollback on error
       if (context?.previousProperties) {
-        queryClient.setQueryData(['properties'], context.previousProperties);
+        queryClient.setQueryData(queryKey, context.previousProperties);
       }
       console.error('Failed to add property:', err);
     },
-    onSuccess: () => {
+    onSuccess: (saved) => {
       // Refetch to get the real data
       queryClient.invalidateQueries({ queryKey: ['properties'] });
+      // Start the LLM stage; status updates flow through the cache and realtime
+      enrichProperty(saved);
     },
   });
 
@@ -68,10 +94,10 @@ export function useProperties() {
     mutationFn: ({ id, updates }: { id: string; updates: Partial<PropertyLink> }) =>
       updateProperty(id, updates),
     onMutate: async ({ id, updates }) => {
-      await queryClient.cancelQueries({ queryKey: ['properties'] });
-      const previousProperties = queryClient.getQueryData<PropertyLink[]>(['properties']);
+      await queryClient.cancelQueries({ queryKey });
+      const previousProperties = queryClient.getQueryData<PropertyLink[]>(queryKey);
 
-      queryClient.setQueryData<PropertyLink[]>(['properties'], (old) =>
+      queryClient.setQueryData<PropertyLink[]>(queryKey, (old) =>
         (old || []).map((property) =>
           property.id === id ? { ...property, ...updates } : property
         )
@@ -81,7 +107,7 @@ export function useProperties() {
     },
     onError: (err, variables, context) => {
       if (context?.previousProperties) {
-        queryClient.setQueryData(['properties'], context.previousProperties);
+        queryClient.setQueryData(queryKey, context.previousProperties);
       }
       console.error('Failed to update property:', err);
     },
@@ -94,10 +120,10 @@ export function useProperties() {
   const deleteMutation = useMutation({
     mutationFn: deleteProperty,
     onMutate: async (id: string) => {
-      await queryClient.cancelQueries({ queryKey: ['properties'] });
-      const previousProperties = queryClient.getQueryData<PropertyLink[]>(['properties']);
+      await queryClient.cancelQueries({ queryKey });
+      const previousProperties = queryClient.getQueryData<PropertyLink[]>(queryKey);
 
-      queryClient.setQueryData<PropertyLink[]>(['properties'], (old) =>
+      queryClient.setQueryData<PropertyLink[]>(queryKey, (old) =>
         (old || []).filter((property) => property.id !== id)
       );
 
@@ -105,7 +131,7 @@ export function useProperties() {
     },
     onError: (err, id, context) => {
       if (context?.previousProperties) {
-        queryClient.setQueryData(['properties'], context.previousProperties);
+        queryClient.setQueryData(queryKey, context.previousProperties);
       }
       console.error('Failed to delete property:', err);
     },
@@ -114,15 +140,43 @@ export function useProperties() {
     },
   });
 
+  // Merge a duplicate listing into an existing property as another source
+  const addSourceMutation = useMutation({
+    mutationFn: ({ id, source }: { id: string; source: SourceSighting }) => addPropertySource(id, source),
+    onMutate: async ({ id, source }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previousProperties = queryClient.getQueryData<PropertyLink[]>(queryKey);
+
+      queryClient.setQueryData<PropertyLink[]>(queryKey, (old) =>
+        (old || []).map((property) =>
+          property.id === id
+            ? { ...property, sources: upsertSource(getPropertySources(property), source) }
+            : property
+        )
+      );
+
+      return { previousProperties };
+    },
+    onError: (err, variables, context) => {
+      if (context?.previousProperties) {
+        queryClient.setQueryData(queryKey, context.previousProperties);
+      }
+      console.error('Failed to add property source:', err);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['properties'] });
+    },
+  });
+
   // Update financial data mutation
   const updateFinancialMutation = useMutation({
     mutationFn: ({ id, financialData }: { id: string; financialData: FinancialData }) =>
       updateFinancialData(id, financialData),
     onMutate: async ({ id, financialData }) => {
-      await queryClient.cancelQueries({ queryKey: ['properties'] });
-      const previousProperties = queryClient.getQueryData<PropertyLink[]>(['properties']);
+      await queryClient.cancelQueries({ queryKey });
+      const previousProperties = queryClient.getQueryData<PropertyLink[]>(queryKey);
 
-      queryClient.setQueryData<PropertyLink[]>(['properties'], (old) =>
+      queryClient.setQueryData<PropertyLink[]>(queryKey, (old) =>
         (old || []).map((property) =>
           property.id === id ? { ...property, financialData } : property
         )
@@ -132,7 +186,7 @@ export function useProperties() {
     },
     onError: (err, variables, context) => {
       if (context?.previousProperties) {
-        queryClient.setQueryData(['properties'], context.previousProperties);
+        queryClient.setQueryData(queryKey, context.previousProperties);
       }
       console.error('Failed to update financial data:', err);
     },
@@ -144,7 +198,7 @@ export function useProperties() {
   return {
     // Query state
     properties: query.data || [],
-    isLoading: query.isLoading,
+    isLoading: query.isLoading || isSpaceLoading,
     error: query.error,
     refetch: query.refetch,
 
@@ -161,6 +215,10 @@ export function useProperties() {
     deletePropertyAsync: deleteMutation.mutateAsync,
     isDeletingProperty: deleteMutation.isPending,
 
+    addSource: addSourceMutation.mutate,
+    addSourceAsync: addSourceMutation.mutateAsync,
+    isAddingSource: addSourceMutation.isPending,
+
     updateFinancialData: updateFinancialMutation.mutate,
     updateFinancialDataAsync: updateFinancialMutation.mutateAsync,
     isUpdatingFinancialData: updateFinancialMutation.isPending,
@@ -1,19 +1,23 @@
 import { useQuery } from '@tanstack/react-query';
 import { fetchPropertiesFromTable, Property } from '../api/properties-table';
+import { useActiveSpaceId } from './useSpaces';
 
 /**
  * React Query hook for fetching properties from the properties table
  * (separate from property_links table)
  */
 export function usePropertiesTable() {
+  const { activeSpaceId, isLoading: isSpaceLoading } = useActiveSpaceId();
+
   const query = useQuery({
-    queryKey: ['properties-table'],
-    queryFn: fetchPropertiesFromTable,
+    queryKey: ['properties-table', activeSpaceId],
+    queryFn: () => fetchPropertiesFromTable(activeSpaceId),
+    enabled: !isSpaceLoading,
   });
 
   return {
     properties: query.data || [],
-    isLoading: query.isLoading,
+    isLoading: query.isLoading || isSpaceLoading,
     error: query.error,
     refetch: query.refetch,
   };
@@ -0,0 +1,53 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { asyncStorage } from '../store/persistence';
+import { countActiveFilters, PropertyFilters } from '../utils/propertyFilters';
+
+// 'app-' prefix so clearAllStorage() resets the filters too
+const FILTERS_STORAGE_KEY = 'app-property-filters';
+
+/**
+ * Persisted property filters, shared by the map and the property list.
+ * One query key, so changing a filter on one screen applies everywhere.
+ */
+export function usePropertyFilters() {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['property-filters'],
+    queryFn: async (): Promise<PropertyFilters> => {
+      const stored = await asyncStorage.getItem(FILTERS_STORAGE_KEY);
+      if (!stored) return {};
+      try {
+        return JSON.parse(stored) as PropertyFilters;
+      } catch (error) {
+        console.warn('Ignoring unreadable stored filters:', error);
+        return {};
+      }
+    },
+    staleTime: Infinity, // Only changes through setFilters below
+  });
+
+  const setMutation = useMutation({
+    mutationFn: async (filters: PropertyFilters) => {
+      if (countActiveFilters(filters) > 0) {
+        await asyncStorage.setItem(FILTERS_STORAGE_KEY, JSON.stringify(filters));
+      } else {
+        await asyncStorage.removeItem(FILTERS_STORAGE_KEY);
+      }
+      return filters;
+    },
+    onMutate: (filters) => {
+      queryClient.setQueryData(['property-filters'], filters);
+    },
+  });
+
+  const filters = query.data ?? {};
+
+  return {
+    filters,
+    isLoading: query.isLoading,
+    activeFilterCount: countActiveFilters(filters),
+    setFilters: setMutation.mutate,
+    clearFilters: () => setMutation.mutate({}),
+  };
+}
@@ -1,8 +1,11 @@
 import { useEffect, useRef } from 'react';
 import { useQueryClient, QueryClient } from '@tanstack/react-query';
 import { supabase } from '../api/supabaseClient';
-import { PropertyLink } from '../store/propertyLinkStore';
+import { PropertyLink, PropertyLinkData } from '../store/propertyLinkStore';
 import { PropertyReaction, PropertyComment } from '../types/property';
+import { rowToPropertyLink, rowToPropertyData, PropertiesRow } from '../api/properties';
+import { propertiesQueryKey } from './useProperties';
+import { canonicalizeUrl } from '../utils/duplicates';
 
 /**
  * Low-level factory: creates a Supabase Realtime channel, runs `setup` to register
@@ -29,9 +32,90 @@ function useSupabaseChannel(
   }, [channelName, ...deps]);
 }
 
+type Columns = readonly (keyof PropertiesRow)[];
+
+// Columns each field is read from in rowToPropertyLink / rowToPropertyData.
+// Fields not listed come from enrichment_status.
+const LINK_COLUMNS: { [K in keyof PropertyLink]?: Columns } = {
+  url: ['url'],
+  sources: ['sources'],
+  title: ['title'],
+  description: ['description'],
+  image: ['image_url'],
+  images: ['images'],
+  sharedBy: ['shared_by'],
+  anonId: ['anon_id'],
+  sharedAt: ['created_at'],
+  spaceId: ['space_id'],
+  latitude: ['latitude'],
+  longitude: ['longitude'],
+  geocodeSource: ['geocode_source'],
+  geocodePrecision: ['geocode_precision'],
+};
+
+const PROPERTY_DATA_COLUMNS: { [K in keyof PropertyLinkData]?: Columns } = {
+  price: ['price'],
+  address: ['address'],
+  city: ['municipality'],
+  bedrooms: ['rooms'],
+  area: ['area_sqm'],
+  monthlyFee: ['monthly_fee'],
+  floor: ['floor', 'enrichment_status'],
+  totalFloors: ['total_floors'],
+  propertyType: ['property_type'],
+  tenureType: ['tenure_type'],
+  buildYear: ['year_built'],
+  elevator: ['has_elevator', 'enrichment_status'],
+  balcony: ['has_balcony', 'enrichment_status'],
+  energyClass: ['energy_class'],
+};
+
+/**
+ * Overlay a realtime payload on the cached value. Realtime leaves out unchanged
+ * TOASTed columns (large jsonb such as enrichment_status and sources), and those
+ * map to undefined - the cached values stay then. A field whose columns are all
+ * in the payload is taken as is, so a column set to NULL clears the cached value.
+ */
+function mergePayload<T extends object>(
+  cached: T,
+  updated: T,
+  row: PropertiesRow,
+  columns: { [K in keyof T]?: Columns }
+): T {
+  const merged = { ...cached } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(updated)) {
+    const sources = columns[key as keyof T] ?? ['enrichment_status'];
+    if (value !== undefined || sources.every((column) => column in row)) merged[key] = value;
+  }
+  return merged as T;
+}
+
+function mergePropertyUpdate(cached: PropertyLink, row: PropertiesRow): PropertyLink {
+  const updated = rowToPropertyLink(row);
+  return {
+    ...mergePayload(cached, updated, row, LINK_COLUMNS),
+    propertyData:
+      cached.propertyData || updated.propertyData
+        ? mergePayload(cached.propertyData ?? {}, rowToPropertyData(row), row, PROPERTY_DATA_COLUMNS)
+        : undefined,
+  };
+}
+
+// Only compared when the payload has both columns and the cache has listing data,
+// otherwise a missing side would count as a change
+function pricesDiffer(cached: PropertyLink, row: PropertiesRow): boolean {
+  if (!cached.propertyData || !('price' in row) || !('monthly_fee' in row)) return false;
+  return (
+    (cached.propertyData.price ?? null) !== (row.price ?? null) ||
+    (cached.propertyData.monthlyFee ?? null) !== (row.monthly_fee ?? null)
+  );
+}
+
 /**
  * Hook to subscribe to Supabase Realtime updates for properties
- * Optimistically updates React Query cache on INSERT/UPDATE/DELETE events
+ * Optimistically updates React Query cache on INSERT/UPDATE/DELETE events.
+ * RLS limits events to the open list and the user's own spaces; each row lands
+ * in the cached list of the space it belongs to.
  */
 export function usePropertyRealtimeSubscription() {
   useSupabaseChannel(
@@ -42,73 +126,56 @@ export function usePropertyRealtimeSubscription() {
           'postgres_changes',
           { event: 'UPDATE', schema: 'public', table: 'properties' },
           (payload) => {
-            const n = payload.new;
-            const enrichment = (n.enrichment_status || {}) as Record<string, unknown>;
-            queryClient.setQueryData<PropertyLink[]>(['properties'], (old) => {
-              if (!old) return old;
-              return old.map((property) => {
-                if (property.id === n.id.toString()) {
-                  return {
-                    ...property,
-                    title: n.title || property.title,
-                    description: n.description || property.description,
-                    image: n.image_url || property.image,
-                    images: n.images || property.images,
-                    latitude: n.latitude != null ? Number(n.latitude) : property.latitude,
-                    longitude: n.longitude != null ? Number(n.longitude) : property.longitude,
-                    propertyData: property.propertyData
-                      ? {
-                          ...property.propertyData,
-                          price: n.price ?? property.propertyData.price,
-                          address: n.address ?? property.propertyData.address,
-                          city: n.municipality ?? property.propertyData.city,
-                          bedrooms: n.rooms ?? property.propertyData.bedrooms,
-                          area: n.area_sqm ?? property.propertyData.area,
-                          monthlyFee: n.monthly_fee ?? property.propertyData.monthlyFee,
-                          enrichmentStatus: (enrichment.enrichmentStatus as PropertyLink['propertyData']) ?? property.propertyData.enrichmentStatus,
-                        }
-                      : property.propertyData,
-                    financialData: (enrichment.financialData as PropertyLink['financialData']) || property.financialData,
-                  };
-                }
-                return property;
-              });
-            });
+            const row = payload.new as PropertiesRow;
+            const id = row.id.toString();
+            let priceChanged = false;
+            let moved: PropertyLink | undefined;
+            const cachedLists = queryClient.getQueriesData<PropertyLink[]>({ queryKey: ['properties'] });
+            for (const [queryKey, old] of cachedLists) {
+              const cached = old?.find((property) => property.id === id);
+              if (!old || !cached) continue;
+              priceChanged ||= pricesDiffer(cached, row);
+              const merged = mergePropertyUpdate(cached, row);
+              // A row that left this space goes to the cached list of its new one
+              const listSpaceId = (queryKey[1] as string | null | undefined) ?? null;
+              if (merged.spaceId !== listSpaceId) {
+                moved = merged;
+                queryClient.setQueryData<PropertyLink[]>(
+                  queryKey,
+                  old.filter((property) => property.id !== id)
+                );
+              } else {
+                queryClient.setQueryData<PropertyLink[]>(
+                  queryKey,
+                  old.map((property) => (property.id === id ? merged : property))
+                );
+              }
+            }
+            if (moved) {
+              const property = moved;
+              queryClient.setQueryData<PropertyLink[]>(propertiesQueryKey(property.spaceId ?? null), (old) =>
+                old && !old.some((p) => p.id === id) ? [property, ...old] : old
+              );
+            }
+            // The DB trigger has logged a new price_history row
+            if (priceChanged) {
+              queryClient.invalidateQueries({ queryKey: ['price-history'] });
+            }
           }
         )
         .on(
           'postgres_changes',
           { event: 'INSERT', schema: 'public', table: 'properties' },
           (payload) => {
-            const n = payload.new;
-            const enrichment = (n.enrichment_status || {}) as Record<string, unknown>;
-            queryClient.setQueryData<PropertyLink[]>(['properties'], (old) => {
-              const newProperty: PropertyLink = {
-                id: n.id.toString(),
-                url: n.url,
-                title: n.title,
-                description: n.description,
-                image: n.image_url,
-                images: n.images,
-                sharedBy: n.shared_by || 'anon',
-                sharedAt: n.created_at || new Date().toISOString(),
-                latitude: n.latitude != null ? Number(n.latitude) : undefined,
-                longitude: n.longitude != null ? Number(n.longitude) : undefined,
-                propertyData: n.address || n.price || n.rooms
-                  ? {
-                      price: n.price,
-                      address: n.address,
-                      city: n.municipality,
-                      bedrooms: n.rooms,
-                      area: n.area_sqm,
-                      monthlyFee: n.monthly_fee,
-                      enrichmentStatus: enrichment.enrichmentStatus as PropertyLink['propertyData'],
-                    }
-                  : undefined,
-                financialData: enrichment.financialData as PropertyLink['financialData'],
-              };
+            const newProperty = rowToPropertyLink(payload.new as PropertiesRow);
+            const url = canonicalizeUrl(newProperty.url);
+            queryClient.setQueryData<PropertyLink[]>(propertiesQueryKey(newProperty.spaceId ?? null), (old) => {
               if (old?.some((p) => p.id === newProperty.id)) return old;
-              return [newProperty, ...(old || [])];
+              // Drop the optimistic card for this listing if the insert event beats the save
+              const rest = (old || []).filter(
+                (p) => !(p.id.startsWith('temp-') && canonicalizeUrl(p.url) === url)
+              );
+              return [newProperty, ...rest];
             });
           }
         )
@@ -116,7 +183,7 @@ export function usePropertyRealtimeSubscription() {
           'postgres_changes',
           { event: 'DELETE', schema: 'public', table: 'properties' },
           (payload) => {
-            queryClient.setQueryData<PropertyLink[]>(['properties'], (old) => {
+            queryClient.setQueriesData<PropertyLink[]>({ queryKey: ['properties'] }, (old) => {
               if (!old) return old;
               return old.filter((property) => property.id !== payload.old.id.toString());
             });
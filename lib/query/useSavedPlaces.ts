@@ -0,0 +1,76 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { fetchSavedPlaces, createSavedPlace, deleteSavedPlace, CreateSavedPlaceInput } from '../api/savedPlaces';
+import { SavedPlace } from '../types/savedPlace';
+import { createDeviceSavedPlace, deleteDeviceSavedPlace, fetchDeviceSavedPlaces } from '../utils/deviceSavedPlaces';
+import { useActiveSpaceId } from './useSpaces';
+import { useIdentity } from './useIdentity';
+
+export const savedPlacesQueryKey = (spaceId: string | null, onDevice = false) =>
+  ['saved-places', spaceId, onDevice] as const;
+
+/**
+ * React Query hook for the saved places of the active space
+ * On the open list they belong to the signed-in user, or stay on the device
+ * while signed out.
+ * Deleting is optimistic; new places appear once saved (they need a server id).
+ */
+export function useSavedPlaces() {
+  const queryClient = useQueryClient();
+  const { activeSpaceId, isLoading: isSpaceLoading } = useActiveSpaceId();
+  const { isAnonymous } = useIdentity();
+  const onDevice = !activeSpaceId && isAnonymous;
+  const queryKey = savedPlacesQueryKey(activeSpaceId, onDevice);
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => (onDevice ? fetchDeviceSavedPlaces() : fetchSavedPlaces(activeSpaceId)),
+    enabled: !isSpaceLoading,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (input: Omit<CreateSavedPlaceInput, 'spaceId'>) =>
+      onDevice ? createDeviceSavedPlace(input) : createSavedPlace({ spaceId: activeSpaceId, ...input }),
+    onSuccess: (place) => {
+      queryClient.setQueryData<SavedPlace[]>(queryKey, (old) => [...(old || []), place]);
+    },
+    onError: (err) => {
+      console.error('Failed to create saved place:', err);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => (onDevice ? deleteDeviceSavedPlace(id) : deleteSavedPlace(id)),
+    onMutate: async (id: string) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previousPlaces = queryClient.getQueryData<SavedPlace[]>(queryKey);
+
+      queryClient.setQueryData<SavedPlace[]>(queryKey, (old) => (old || []).filter((place) => place.id !== id));
+
+      return { previousPlaces };
+    },
+    onError: (err, id, context) => {
+      if (context?.previousPlaces) {
+        queryClient.setQueryData(queryKey, context.previousPlaces);
+      }
+      console.error('Failed to delete saved place:', err);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-places'] });
+    },
+  });
+
+  return {
+    savedPlaces: query.data || [],
+    isLoading: query.isLoading || isSpaceLoading,
+    error: query.error,
+    refetch: query.refetch,
+
+    createSavedPlace: createMutation.mutate,
+    createSavedPlaceAsync: createMutation.mutateAsync,
+    isCreatingSavedPlace: createMutation.isPending,
+
+    deleteSavedPlace: deleteMutation.mutate,
+    deleteSavedPlaceAsync: deleteMutation.mutateAsync,
+    isDeletingSavedPlace: deleteMutation.isPending,
+  };
+}
@@ -0,0 +1,69 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { fetchSearchAreas, createSearchArea, deleteSearchArea, CreateSearchAreaInput } from '../api/searchAreas';
+import { SearchArea } from '../types/searchArea';
+import { useActiveSpaceId } from './useSpaces';
+
+export const searchAreasQueryKey = (spaceId: string | null) => ['search-areas', spaceId] as const;
+
+/**
+ * React Query hook for the search areas of the active space
+ * Deleting is optimistic; new areas appear once saved (they need a server id).
+ */
+export function useSearchAreas() {
+  const queryClient = useQueryClient();
+  const { activeSpaceId, isLoading: isSpaceLoading } = useActiveSpaceId();
+  const queryKey = searchAreasQueryKey(activeSpaceId);
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => fetchSearchAreas(activeSpaceId),
+    enabled: !isSpaceLoading,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (input: Omit<CreateSearchAreaInput, 'spaceId'>) =>
+      createSearchArea({ spaceId: activeSpaceId, ...input }),
+    onSuccess: (area) => {
+      queryClient.setQueryData<SearchArea[]>(queryKey, (old) => [...(old || []), area]);
+    },
+    onError: (err) => {
+      console.error('Failed to create search area:', err);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteSearchArea,
+    onMutate: async (id: string) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previousAreas = queryClient.getQueryData<SearchArea[]>(queryKey);
+
+      queryClient.setQueryData<SearchArea[]>(queryKey, (old) => (old || []).filter((area) => area.id !== id));
+
+      return { previousAreas };
+    },
+    onError: (err, id, context) => {
+      if (context?.previousAreas) {
+        queryClient.setQueryData(queryKey, context.previousAreas);
+      }
+      console.error('Failed to delete search area:', err);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['search-areas'] });
+    },
+  });
+
+  return {
+    searchAreas: query.data || [],
+    isLoading: query.isLoading || isSpaceLoading,
+    error: query.error,
+    refetch: query.refetch,
+
+    createSearchArea: createMutation.mutate,
+    createSearchAreaAsync: createMutation.mutateAsync,
+    isCreatingSearchArea: createMutation.isPending,
+
+    deleteSearchArea: deleteMutation.mutate,
+    deleteSearchAreaAsync: deleteMutation.mutateAsync,
+    isDeletingSearchArea: deleteMutation.isPending,
+  };
+}
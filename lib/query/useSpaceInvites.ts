@@ -0,0 +1,132 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchSpaceInvites,
+  createSpaceInvite,
+  revokeSpaceInvite,
+  fetchSpaceInvitePreview,
+  acceptSpaceInvite,
+} from '../api/spaces';
+import { SpaceInvite } from '../types/space';
+import { createInviteLink } from '../utils/inviteLink';
+import { useAuth } from './useAuth';
+import { useActiveSpaceId } from './useSpaces';
+
+/**
+ * React Query hook for the invites of a space
+ * Handles listing, creating (email or shareable link) and revoking invites
+ */
+export function useSpaceInvites(spaceId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['space-invites', spaceId],
+    queryFn: () => fetchSpaceInvites(spaceId as string),
+    enabled: !!spaceId,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async ({ email }: { email?: string } = {}) => {
+      if (!spaceId) throw new Error('Välj en grupp att bjuda in till');
+      const invite = await createSpaceInvite(spaceId, email);
+      return { ...invite, link: createInviteLink(invite.token) };
+    },
+    onError: (err) => {
+      console.error('Failed to create invite:', err);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['space-invites', spaceId] });
+    },
+  });
+
+  // Revoke invite mutation with optimistic updates
+  const revokeMutation = useMutation({
+    mutationFn: revokeSpaceInvite,
+    onMutate: async (inviteId: string) => {
+      await queryClient.cancelQueries({ queryKey: ['space-invites', spaceId] });
+      const previousInvites = queryClient.getQueryData<SpaceInvite[]>(['space-invites', spaceId]);
+
+      queryClient.setQueryData<SpaceInvite[]>(['space-invites', spaceId], (old) =>
+        (old || []).map((invite) =>
+          invite.id === inviteId ? { ...invite, status: 'revoked' } : invite
+        )
+      );
+
+      return { previousInvites };
+    },
+    onError: (err, inviteId, context) => {
+      if (context?.previousInvites) {
+        queryClient.setQueryData(['space-invites', spaceId], context.previousInvites);
+      }
+      console.error('Failed to revoke invite:', err);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['space-invites', spaceId] });
+    },
+  });
+
+  return {
+    // Query state
+    invites: query.data || [],
+    isLoading: query.isLoading,
+    error: query.error,
+
+    // Mutations
+    createInvite: createMutation.mutate,
+    createInviteAsync: createMutation.mutateAsync,
+    isCreatingInvite: createMutation.isPending,
+
+    revokeInvite: revokeMutation.mutate,
+    isRevokingInvite: revokeMutation.isPending,
+  };
+}
+
+/**
+ * React Query hook for the invitee side of an invite link
+ * Previews the space and joins it, signing in anonymously when there is no session
+ */
+export function useSpaceInvite(token: string | undefined) {
+  const queryClient = useQueryClient();
+  const { session, signInAnonymouslyAsync } = useAuth();
+  const { setActiveSpace } = useActiveSpaceId();
+
+  const query = useQuery({
+    queryKey: ['space-invite', token],
+    queryFn: () => fetchSpaceInvitePreview(token as string),
+    enabled: !!token,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async ({ displayName }: { displayName?: string } = {}) => {
+      if (!token) throw new Error('Ogiltig inbjudan');
+      if (!session) {
+        await signInAnonymouslyAsync();
+      }
+      return acceptSpaceInvite(token, displayName);
+    },
+    onError: (err) => {
+      console.error('Failed to accept invite:', err);
+    },
+    onSuccess: (spaceId) => {
+      setActiveSpace(spaceId);
+      queryClient.invalidateQueries({ queryKey: ['spaces'] });
+      queryClient.invalidateQueries({ queryKey: ['space-invite', token] });
+    },
+  });
+
+  const preview = query.data ?? null;
+  const isExpired = !!preview && new Date(preview.expiresAt).getTime() < Date.now();
+
+  return {
+    // Query state
+    preview,
+    isExpired,
+    isLoading: query.isLoading,
+    error: query.error,
+
+    // Mutations
+    acceptInvite: acceptMutation.mutate,
+    acceptInviteAsync: acceptMutation.mutateAsync,
+    isAcceptingInvite: acceptMutation.isPending,
+    acceptError: acceptMutation.error,
+  };
+}
@@ -0,0 +1,144 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchSpaces,
+  createSpace,
+  fetchSpaceMembers,
+  removeSpaceMember,
+} from '../api/spaces';
+import { asyncStorage } from '../store/persistence';
+import { Space } from '../types/space';
+import { useAuth } from './useAuth';
+
+// 'app-' prefix so clearAllStorage() resets the selection too
+const ACTIVE_SPACE_STORAGE_KEY = 'app-active-space';
+
+/**
+ * Persisted id of the space the user is currently looking at.
+ * `null` means the open list (properties without a space). A stored space the
+ * user can no longer read (signed out, removed from it) also falls back to the
+ * open list.
+ */
+export function useActiveSpaceId() {
+  const queryClient = useQueryClient();
+  const { session, isLoading: isAuthLoading } = useAuth();
+  const user = session?.user;
+
+  const query = useQuery({
+    queryKey: ['active-space'],
+    queryFn: async () => (await asyncStorage.getItem(ACTIVE_SPACE_STORAGE_KEY)) || null,
+    staleTime: Infinity, // Only changes through setActiveSpace below
+  });
+  const storedSpaceId = query.data ?? null;
+
+  // Same query as useSpaces, only needed to check a stored space
+  const spacesQuery = useQuery({
+    queryKey: ['spaces', user?.id],
+    queryFn: fetchSpaces,
+    enabled: !!user && !!storedSpaceId,
+  });
+  const isStoredSpaceReadable = !!user && !!spacesQuery.data?.some((space) => space.id === storedSpaceId);
+
+  const setMutation = useMutation({
+    mutationFn: async (spaceId: string | null) => {
+      if (spaceId) {
+        await asyncStorage.setItem(ACTIVE_SPACE_STORAGE_KEY, spaceId);
+      } else {
+        await asyncStorage.removeItem(ACTIVE_SPACE_STORAGE_KEY);
+      }
+      return spaceId;
+    },
+    onMutate: (spaceId) => {
+      queryClient.setQueryData(['active-space'], spaceId);
+    },
+  });
+
+  return {
+    activeSpaceId: isStoredSpaceReadable ? storedSpaceId : null,
+    isLoading: query.isLoading || isAuthLoading || (!!user && !!storedSpaceId && spacesQuery.isLoading),
+    setActiveSpace: setMutation.mutate,
+  };
+}
+
+/**
+ * React Query hook for shared spaces
+ * Lists the user's spaces, tracks the active one and handles create/leave
+ */
+export function useSpaces() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { activeSpaceId, setActiveSpace, isLoading: isActiveSpaceLoading } = useActiveSpaceId();
+
+  // Spaces require an account - anonymous visitors only see the open list
+  const query = useQuery({
+    queryKey: ['spaces', user?.id],
+    queryFn: fetchSpaces,
+    enabled: !!user,
+  });
+
+  const spaces = query.data || [];
+  const activeSpace = spaces.find((space) => space.id === activeSpaceId) ?? null;
+
+  const createMutation = useMutation({
+    mutationFn: createSpace,
+    onSuccess: (space) => {
+      queryClient.setQueryData<Space[]>(['spaces', user?.id], (old) => [...(old || []), space]);
+      setActiveSpace(space.id);
+    },
+    onError: (err) => {
+      console.error('Failed to create space:', err);
+    },
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: (spaceId: string) => {
+      if (!user) throw new Error('Must be signed in to leave a space');
+      return removeSpaceMember(spaceId, user.id);
+    },
+    onSuccess: (_data, spaceId) => {
+      if (spaceId === activeSpaceId) {
+        setActiveSpace(null);
+      }
+      queryClient.invalidateQueries({ queryKey: ['spaces'] });
+    },
+    onError: (err) => {
+      console.error('Failed to leave space:', err);
+    },
+  });
+
+  return {
+    // Query state
+    spaces,
+    activeSpace,
+    activeSpaceId,
+    isLoading: query.isLoading || isActiveSpaceLoading,
+    error: query.error,
+    refetch: query.refetch,
+
+    // Actions
+    setActiveSpace,
+
+    createSpace: createMutation.mutate,
+    createSpaceAsync: createMutation.mutateAsync,
+    isCreatingSpace: createMutation.isPending,
+
+    leaveSpace: leaveMutation.mutate,
+    isLeavingSpace: leaveMutation.isPending,
+  };
+}
+
+/**
+ * Hook to list the members of a space
+ */
+export function useSpaceMembers(spaceId: string | null | undefined) {
+  const query = useQuery({
+    queryKey: ['space-members', spaceId],
+    queryFn: () => fetchSpaceMembers(spaceId as string),
+    enabled: !!spaceId,
+  });
+
+  return {
+    members: query.data || [],
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
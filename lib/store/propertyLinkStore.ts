@@ -22,7 +22,14 @@
  * ```
  */
 
-import type { PropertyReaction, PropertyComment } from '../types/property';
+import type {
+  PropertyReaction,
+  PropertyComment,
+  PropertySource,
+  GeocodeSource,
+  GeocodePrecision,
+} from '../types/property';
+import type { AmortizationMethod, InterestDeductionSettings, KalpResult, LoanTranche } from '../financial/calculations';
 
 // ============ TYPE EXPORTS (still valid) ============
 
@@ -44,8 +51,10 @@ export interface PropertyLinkData {
   areaUnit?: string;
   rooms?: number;         // total rooms
   floor?: string | number;
+  totalFloors?: number;
   buildYear?: number;
   propertyType?: string;  // apartment, house, villa, etc.
+  tenureType?: string;    // bostadsrätt, äganderätt, hyresrätt
 
   // Financial (LLM)
   monthlyFee?: number;    // avgift
@@ -62,11 +71,13 @@ export interface PropertyLinkData {
 
   // Metadata
   source?: string;        // hemnet, blocket, etc.
+  brokerOffice?: string;  // office-name OG tag
   publishedDate?: string;
 
   // Enrichment tracking
   enrichmentStatus?: EnrichmentStatus;
   lastEnriched?: string;  // ISO timestamp
+  enrichmentStartedAt?: string;  // ISO timestamp, set with llm_processing
 }
 
 export interface FinancialData {
@@ -77,6 +88,8 @@ export interface FinancialData {
     annualInterestRate: number;
     loanTermYears: number;
     propertyType: 'villa' | 'brf';
+    amortizationMethod?: AmortizationMethod;  // Default 'requirement'
+    tranches?: LoanTranche[];     // Rörlig/fixed split; annualInterestRate is then the blended rate
   };
 
   // Swedish total cost inputs
@@ -86,12 +99,22 @@ export interface FinancialData {
     annualInterestRate: number;
     loanTermYears: number;
     propertyType: 'villa' | 'brf';
+    amortizationMethod?: AmortizationMethod;
+    tranches?: LoanTranche[];
     propertyTaxAnnual?: number;
     insuranceAnnual?: number;
     brfMonthly?: number;          // BRF-avgift (replaces hoaMonthly)
     maintenanceRate?: number;     // Default 0.01 for villa, 0 for brf
   };
 
+  // Rate change tested once binding periods end (0.02 = +2 pp)
+  rateScenario?: {
+    rateIncrease: number;
+  };
+
+  // Ränteavdrag settings (default one borrower, enabled)
+  interestDeduction?: InterestDeductionSettings;
+
   // Swedish affordability inputs (kalkylränta)
   affordability?: {
     grossMonthlyIncome: number;
@@ -100,6 +123,11 @@ export interface FinancialData {
     stressTestRate: number;       // Kalkylränta (typically 5-7%)
     totalDebt?: number;            // For amorteringskrav 3rd rule
     grossAnnualIncome?: number;    // For amorteringskrav 3rd rule
+    // KALP household (grossMonthlyIncome is the sum of adultIncomes)
+    adultIncomes?: number[];
+    children?: number;
+    municipalTaxRate?: number;
+    carCostsMonthly?: number;
   };
 
   // Calculated results (cached)
@@ -108,12 +136,19 @@ export interface FinancialData {
     monthlyInterest?: number;
     monthlyAmortization?: number;
     amortizationPercent?: number;
+    totalInterest?: number;        // Over the loan term, from the schedule
+    balanceAfterTerm?: number;
     totalMonthly?: number;
+    firstYearInterest?: number;
+    monthlyInterestDeduction?: number;  // Ränteavdrag, first year averaged per month
+    netMonthlyPayment?: number;    // Mortgage payment after ränteavdrag
+    netTotalMonthly?: number;      // Total monthly cost after ränteavdrag
     housingCostRatio?: number;     // Housing cost / income (%)
     totalDebtRatio?: number;       // Total debt / income (%)
     canAffordConservative?: boolean; // ≤ 50% threshold
     canAffordStandard?: boolean;   // ≤ 60% threshold
     ltv?: number;                  // Loan-to-value ratio
+    kalp?: KalpResult;             // Kvar att leva på at the kalkylränta
     calculatedAt: string;          // ISO timestamp
   };
 }
@@ -121,14 +156,19 @@ export interface FinancialData {
 export interface PropertyLink {
   id: string;
   url: string;
+  sources?: PropertySource[]; // Sites listing this home, primary listing first
   title?: string;
   description?: string;
   image?: string;         // Primary image (for backward compatibility)
   images?: string[];      // All images from property listing
   sharedBy: string;
+  anonId?: string;        // Device that shared it signed out ('anon' is the same for everyone)
   sharedAt: string;
+  spaceId?: string | null; // Owning shared space (null = open list)
   latitude?: number;
   longitude?: number;
+  geocodeSource?: GeocodeSource;       // Where the coordinates came from (unset = unknown or unpinned)
+  geocodePrecision?: GeocodePrecision;
   propertyData?: PropertyLinkData;
   financialData?: FinancialData;
 }
@@ -0,0 +1,22 @@
+// Amenity types - points of interest from an imported GeoJSON/OSM extract
+
+export type AmenityCategory = 'school' | 'grocery' | 'transit' | 'park';
+
+export interface Amenity {
+  id: string;
+  category: AmenityCategory;
+  name?: string;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * What a property has around it in one category
+ */
+export interface AmenityCategorySummary {
+  count: number;                 // within the nearby radius
+  nearestKm?: number;            // straight line, undefined when the dataset has none
+  nearestName?: string;
+}
+
+export type AmenitySummary = Record<AmenityCategory, AmenityCategorySummary>;
@@ -0,0 +1,45 @@
+// Household profile types - income, savings and preferred rates used for affordability
+
+export interface HouseholdMember {
+  name: string;
+  grossMonthlyIncome: number;   // Salary before tax
+}
+
+export interface HouseholdProfile {
+  id: string;
+  spaceId: string | null;
+  ownerId: string;              // userId (email on the server); tells open-list profiles apart
+  members: HouseholdMember[];
+  children: number;
+  savings: number;              // Available for the kontantinsats
+  otherLoansMonthly: number;
+  carCostsMonthly: number;
+  municipalTaxRate?: number;    // Decimal, default DEFAULT_MUNICIPAL_TAX_RATE
+  interestRate?: number;        // Preferred mortgage rate as a decimal
+  stressTestRate?: number;      // Kalkylränta in percent
+  updatedBy: string;            // sharedBy identity
+  updatedAt: string;
+}
+
+// ============ BUDGET ============
+
+export type BudgetStatus = 'within' | 'over' | 'unknown';
+
+/**
+ * Whether the household can buy one property
+ */
+export interface PropertyBudget {
+  status: BudgetStatus;
+  loanNeeded: number;           // Price minus savings
+  // Why the property is over budget
+  reason?: 'down-payment' | 'kalp';
+  monthlySurplus?: number;      // Kvar att leva på with the loan needed
+}
+
+/**
+ * What the household can afford before picking a property
+ */
+export interface AffordabilitySummary {
+  maxLoan: number;
+  maxPrice: number;             // Limited by the maximum loan and by savings as 15% kontantinsats
+}
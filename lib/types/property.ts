@@ -1,4 +1,5 @@
 import { PropertyLinkData, PropertyLink } from '../store/propertyLinkStore';
+import { PlaceCommute } from './savedPlace';
 
 // Extended property data with comparison-specific fields
 export interface ExtendedPropertyData extends PropertyLinkData {
@@ -47,6 +48,7 @@ export interface ComparisonSession {
   updatedAt: string;
   userAnnotations?: UserAnnotations;
   sharedBy: string;
+  spaceId?: string | null; // Owning shared space (null = personal session)
 }
 
 export interface UserAnnotations {
@@ -68,6 +70,19 @@ export interface ComparisonMetrics {
   bedroomRank: number;
   pricePerSqmRank: number;
   energyEfficiencyScore?: number; // Calculated from energyClass
+  commutes?: PlaceCommute[]; // To the saved places of the space
+  commuteRank?: number; // 1 = shortest total commute
+  loanCost?: LoanCostMetrics; // From the property's financial calculation
+  loanCostRank?: number; // 1 = least interest if rates rise
+}
+
+// Financing cost over the next ten years, at today's rates and after binding ends
+export interface LoanCostMetrics {
+  monthlyPayment: number; // First year, today's rates
+  stressedMonthlyPayment: number; // Highest year with rates up after binding
+  rateIncrease: number; // Decimal, 0.02 = +2 pp
+  interest: number;
+  stressedInterest: number;
 }
 
 export interface ProsCons {
@@ -95,3 +110,27 @@ export interface PropertyComment {
   updatedAt: string;
   replies?: PropertyComment[];
 }
+
+// Price history (property_price_history table)
+export interface PricePoint {
+  id: string;
+  propertyId: string;
+  price?: number;
+  monthlyFee?: number;
+  recordedAt: string;
+}
+
+// A site a property is listed on (properties.sources)
+export interface PropertySource {
+  siteName: string;
+  url: string;
+  firstSeen: string;
+  lastSeen: string;
+  price?: number;       // Asking price on this site, last time it was checked
+}
+
+// Where a property's coordinates came from (properties.geocode_source)
+export type GeocodeSource = 'listing' | 'crawler' | 'address' | 'user';
+
+// How precise a property's coordinates are (properties.geocode_precision)
+export type GeocodePrecision = 'exact' | 'address' | 'street' | 'postal_code' | 'city';
@@ -0,0 +1,35 @@
+// Saved place types - important places (work, school, family) for commute estimates
+
+export type SavedPlaceKind = 'work' | 'school' | 'family' | 'other';
+
+export interface SavedPlace {
+  id: string;
+  spaceId: string | null;
+  name: string;
+  kind: SavedPlaceKind;
+  latitude: number;
+  longitude: number;
+  createdBy: string;     // sharedBy identity
+  createdAt: string;
+}
+
+// ============ COMMUTE ESTIMATES ============
+
+export type CommuteMode = 'walk' | 'bike' | 'transit';
+
+export interface CommuteEstimate {
+  mode: CommuteMode;
+  minutes: number;
+  distanceKm: number;    // travelled distance, longer than the straight line
+}
+
+/**
+ * How far a property is from one saved place
+ */
+export interface PlaceCommute {
+  placeId: string;
+  placeName: string;
+  kind: SavedPlaceKind;
+  straightLineKm: number;
+  estimates: CommuteEstimate[];  // one per mode the routing provider could estimate
+}
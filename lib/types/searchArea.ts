@@ -0,0 +1,14 @@
+// Search area types - named neighbourhoods drawn on the map
+
+/** [longitude, latitude], the GeoJSON order */
+export type AreaPoint = [number, number];
+
+export interface SearchArea {
+  id: string;
+  spaceId: string | null;
+  name: string;
+  polygon: AreaPoint[];  // open ring, first point not repeated
+  createdBy: string;     // sharedBy identity
+  anonId?: string;       // device that drew it while signed out
+  createdAt: string;
+}
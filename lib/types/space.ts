@@ -0,0 +1,49 @@
+// Shared space types - private groups that own property links
+
+export type SpaceRole = 'owner' | 'member';
+
+export interface Space {
+  id: string;
+  name: string;
+  createdBy: string;   // auth user id
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SpaceMember {
+  spaceId: string;
+  userId: string;      // auth user id
+  displayName?: string;
+  role: SpaceRole;
+  joinedAt: string;
+}
+
+export type SpaceInviteStatus = 'pending' | 'accepted' | 'revoked';
+
+export interface SpaceInvite {
+  id: string;
+  spaceId: string;
+  email?: string;      // undefined for shareable links
+  status: SpaceInviteStatus;
+  invitedBy: string;   // auth user id
+  acceptedBy?: string;
+  expiresAt: string;
+  acceptedAt?: string;
+  acceptedCount: number;  // People who joined through it; can be many for a shareable link
+  createdAt: string;
+}
+
+// Result of creating an invite - the token is only returned once
+export interface CreatedSpaceInvite {
+  inviteId: string;
+  token: string;
+  expiresAt: string;
+}
+
+// What an invitee sees before joining
+export interface SpaceInvitePreview {
+  spaceId: string;
+  spaceName: string;
+  status: SpaceInviteStatus;
+  expiresAt: string;
+}
@@ -0,0 +1,171 @@
+import type { Amenity, AmenityCategory, AmenitySummary } from '../types/amenity';
+import { isValidLatitude, isValidLongitude } from './coordinates';
+import { LatLng, straightLineDistanceKm } from './commute';
+
+/**
+ * Amenity helpers - nearby schools, grocery stores, transit stops and parks
+ *
+ * Amenities come from a file the user imports once (a GeoJSON FeatureCollection,
+ * e.g. from osmtogeojson or an Overpass "Export", or raw Overpass JSON), so
+ * nothing depends on a live POI API.
+ */
+
+export const AMENITY_CATEGORIES: AmenityCategory[] = ['school', 'grocery', 'transit', 'park'];
+
+// Counted as "nearby" - about a 12 minute walk
+export const NEARBY_RADIUS_KM = 1;
+
+type OsmTags = Record<string, string | undefined>;
+
+/**
+ * Map OpenStreetMap tags to a category, undefined for everything else
+ */
+export function categoryFromOsmTags(tags: OsmTags): AmenityCategory | undefined {
+  if (tags.amenity === 'school' || tags.amenity === 'kindergarten' || tags.amenity === 'college') return 'school';
+  if (['supermarket', 'convenience', 'grocery', 'greengrocer'].includes(tags.shop || '')) return 'grocery';
+  if (
+    tags.highway === 'bus_stop' ||
+    tags.public_transport === 'platform' ||
+    tags.public_transport === 'station' ||
+    ['station', 'halt', 'tram_stop', 'subway_entrance'].includes(tags.railway || '')
+  ) {
+    return 'transit';
+  }
+  if (tags.leisure === 'park' || tags.leisure === 'playground' || tags.leisure === 'nature_reserve') return 'park';
+  return undefined;
+}
+
+function isCategory(value: unknown): value is AmenityCategory {
+  return AMENITY_CATEGORIES.includes(value as AmenityCategory);
+}
+
+/**
+ * A point for any geometry: the point itself, or the average of the vertices of
+ * a line or area (close enough for parks and school grounds)
+ */
+function representativePoint(geometry: GeoJSON.Geometry | null): LatLng | undefined {
+  if (!geometry) return undefined;
+  let positions: GeoJSON.Position[];
+  switch (geometry.type) {
+    case 'Point':
+      positions = [geometry.coordinates];
+      break;
+    case 'MultiPoint':
+    case 'LineString':
+      positions = geometry.coordinates;
+      break;
+    case 'Polygon':
+    case 'MultiLineString':
+      positions = geometry.coordinates.flat();
+      break;
+    case 'MultiPolygon':
+      positions = geometry.coordinates.flat(2);
+      break;
+    default:
+      return undefined;
+  }
+  if (positions.length === 0) return undefined;
+  const longitude = positions.reduce((sum, [lng]) => sum + lng, 0) / positions.length;
+  const latitude = positions.reduce((sum, [, lat]) => sum + lat, 0) / positions.length;
+  return { latitude, longitude };
+}
+
+function toAmenity(
+  id: string,
+  category: AmenityCategory | undefined,
+  name: string | undefined,
+  point: LatLng | undefined
+): Amenity | undefined {
+  if (!category || !point || !isValidLatitude(point.latitude) || !isValidLongitude(point.longitude)) {
+    return undefined;
+  }
+  return { id, category, name: name || undefined, ...point };
+}
+
+/**
+ * Read amenities from an imported file. Features are classified by a `category`
+ * property when present, otherwise by their OSM tags; anything else is skipped.
+ *
+ * @throws Error when the data is neither GeoJSON nor Overpass JSON
+ */
+export function parseAmenities(data: unknown): Amenity[] {
+  const input = data as { type?: string; features?: unknown; elements?: unknown };
+  let amenities: (Amenity | undefined)[];
+
+  if (input?.type === 'FeatureCollection' && Array.isArray(input.features)) {
+    amenities = (input.features as GeoJSON.Feature[]).map((feature, index) => {
+      // osmtogeojson nests tags, Overpass Turbo exports flatten them
+      const properties = (feature.properties || {}) as OsmTags & { tags?: OsmTags; category?: string };
+      const tags = { ...properties, ...properties.tags };
+      return toAmenity(
+        String(feature.id ?? properties['@id'] ?? properties.id ?? index),
+        isCategory(properties.category) ? properties.category : categoryFromOsmTags(tags),
+        tags.name,
+        representativePoint(feature.geometry)
+      );
+    });
+  } else if (Array.isArray(input?.elements)) {
+    // Overpass JSON; ways and relations need "out center"
+    type OverpassElement = {
+      type: string;
+      id: number;
+      lat?: number;
+      lon?: number;
+      center?: { lat: number; lon: number };
+      tags?: OsmTags;
+    };
+    amenities = (input.elements as OverpassElement[]).map((element) => {
+      const lat = element.lat ?? element.center?.lat;
+      const lon = element.lon ?? element.center?.lon;
+      return toAmenity(
+        `${element.type}/${element.id}`,
+        categoryFromOsmTags(element.tags || {}),
+        element.tags?.name,
+        lat !== undefined && lon !== undefined ? { latitude: lat, longitude: lon } : undefined
+      );
+    });
+  } else {
+    throw new Error('Unsupported amenity file: expected a GeoJSON FeatureCollection or Overpass JSON');
+  }
+
+  return amenities.filter((amenity): amenity is Amenity => amenity !== undefined);
+}
+
+/**
+ * Count within the radius and nearest distance per category around a point
+ */
+export function summarizeAmenities(
+  point: LatLng,
+  amenities: Amenity[],
+  radiusKm: number = NEARBY_RADIUS_KM
+): AmenitySummary {
+  const summary = Object.fromEntries(
+    AMENITY_CATEGORIES.map((category) => [category, { count: 0 }])
+  ) as AmenitySummary;
+
+  for (const amenity of amenities) {
+    const distanceKm = straightLineDistanceKm(point, amenity);
+    const entry = summary[amenity.category];
+    if (distanceKm <= radiusKm) entry.count += 1;
+    if (entry.nearestKm === undefined || distanceKm < entry.nearestKm) {
+      entry.nearestKm = distanceKm;
+      entry.nearestName = amenity.name;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Amenities as GeoJSON points for the map layer
+ */
+export function amenitiesToGeoJson(amenities: Amenity[]): GeoJSON.FeatureCollection<GeoJSON.Point> {
+  return {
+    type: 'FeatureCollection',
+    features: amenities.map((amenity) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [amenity.longitude, amenity.latitude] },
+      properties: { id: amenity.id, category: amenity.category, name: amenity.name ?? '' },
+    })),
+  };
+}
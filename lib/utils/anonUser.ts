@@ -1,21 +1,106 @@
+import * as Crypto from 'expo-crypto';
+import { asyncStorage } from '../store/persistence';
+import { createAnonIdentity } from '../api/anonActivity';
+
+/**
+ * Per-device anonymous identity
+ * Persisted with asyncStorage (localStorage on web, AsyncStorage on native) so the
+ * same ID is used for reactions, comments, comparison sessions and properties until
+ * the user signs in and claims the activity.
+ */
+
+// Keys predate the 'app-' prefix on purpose: clearAllStorage() must not orphan activity
 const ANON_ID_KEY = 'anon-user-id';
+const ANON_NAME_KEY = 'anon-user-name';
+const ANON_SECRET_KEY = 'anon-user-secret';
+
+export const DEFAULT_ANON_NAME = 'Anonymous User';
+
+export interface AnonIdentity {
+  id: string;
+  name: string;
+  hasCustomName: boolean;
+}
+
+// Proves the device owns its anon ID when claiming activity. Only its hash is
+// stored server side - the ID itself is public.
+function generateAnonSecret(): string {
+  // Throws when the platform has no secure random source
+  return Array.from(Crypto.getRandomBytes(32), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Mint an anon ID on the server, bound to a fresh secret. The secret is stored
+ * first so an ID never exists on the device without it.
+ */
+async function createAnonIdentityOnDevice(): Promise<string> {
+  const secret = generateAnonSecret();
+  await asyncStorage.setItem(ANON_SECRET_KEY, secret);
+  const anonId = await createAnonIdentity(secret);
+  await asyncStorage.setItem(ANON_ID_KEY, anonId);
+  return anonId;
+}
+
+// Shared in-flight lookup so concurrent first calls don't mint two IDs
+let anonIdPromise: Promise<string> | null = null;
+
+/**
+ * The device's anon ID. IDs stored without a secret predate minting on the server
+ * and can't be claimed, so they are replaced by a minted one.
+ */
+export function getAnonId(): Promise<string> {
+  if (!anonIdPromise) {
+    anonIdPromise = (async () => {
+      const identity = await getMintedAnonIdentity();
+      return identity ? identity.id : createAnonIdentityOnDevice();
+    })().catch((error) => {
+      anonIdPromise = null;
+      throw error;
+    });
+  }
+  return anonIdPromise;
+}
+
+/**
+ * The stored anon ID and the secret it was minted with, without minting one
+ *
+ * @returns null when the device has no minted ID (nothing to claim)
+ */
+export async function getMintedAnonIdentity(): Promise<{ id: string; secret: string } | null> {
+  const [id, secret] = await Promise.all([asyncStorage.getItem(ANON_ID_KEY), asyncStorage.getItem(ANON_SECRET_KEY)]);
+  return id && secret ? { id, secret } : null;
+}
+
+/**
+ * Open rows added while signed out can only be changed by the device that added
+ * them, which proves it with the secret its anon ID was minted with (checked by
+ * is_anon_owner() in the RLS policies)
+ */
+export async function getAnonOwnerSecret(): Promise<string | null> {
+  return (await getMintedAnonIdentity())?.secret ?? null;
+}
+
+export function asAnonOwner<T extends { setHeader(name: string, value: string): T }>(
+  query: T,
+  secret: string | null
+): T {
+  return secret ? query.setHeader('x-anon-secret', secret) : query;
+}
 
-function generateAnonId(): string {
-  return `anon-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+export async function getAnonDisplayName(): Promise<string | null> {
+  return (await asyncStorage.getItem(ANON_NAME_KEY)) || null;
 }
 
-export function getAnonId(): string {
-  if (typeof window !== 'undefined' && typeof window.localStorage !== 'undefined') {
-    let anonId = window.localStorage.getItem(ANON_ID_KEY);
-    if (!anonId) {
-      anonId = generateAnonId();
-      window.localStorage.setItem(ANON_ID_KEY, anonId);
-    }
-    return anonId;
+export async function setAnonDisplayName(name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (trimmed) {
+    await asyncStorage.setItem(ANON_NAME_KEY, trimmed);
+  } else {
+    await asyncStorage.removeItem(ANON_NAME_KEY);
   }
-  return generateAnonId();
 }
 
-export function getAnonUserInfo(): { id: string; name: string } {
-  return { id: getAnonId(), name: 'Anonymous User' };
+export async function getAnonUserInfo(): Promise<AnonIdentity> {
+  const [id, name] = await Promise.all([getAnonId(), getAnonDisplayName()]);
+  return { id, name: name || DEFAULT_ANON_NAME, hasCustomName: !!name };
 }
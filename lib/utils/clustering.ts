@@ -0,0 +1,131 @@
+/**
+ * Marker clustering helpers - group nearby properties on the map and label the
+ * groups with a count and price range.
+ *
+ * The web map clusters with MapLibre's GeoJSON source; react-native-maps has no
+ * clustering, so the native map groups points in a grid sized from the visible region.
+ */
+
+export interface ClusterablePoint {
+  latitude: number;
+  longitude: number;
+  price?: number;
+}
+
+/** Visible area of a map, as react-native-maps reports it */
+export interface MapRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+export interface MapCluster<T extends ClusterablePoint> {
+  id: string;
+  /** Average position of the points */
+  latitude: number;
+  longitude: number;
+  points: T[];
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+export interface ClusterOptions {
+  /** Grid cells across the visible width */
+  cellsAcross?: number;
+  /** Below this longitude span every point is shown on its own */
+  minClusterDelta?: number;
+}
+
+/**
+ * Group points into grid cells sized from the visible region.
+ * Cells are aligned to a power-of-two grid so groups stay put while panning.
+ *
+ * @returns One cluster per occupied cell; a cluster with one point is a plain marker
+ */
+export function clusterPoints<T extends ClusterablePoint>(
+  points: T[],
+  region: Pick<MapRegion, 'longitudeDelta'>,
+  options: ClusterOptions = {}
+): MapCluster<T>[] {
+  const { cellsAcross = 6, minClusterDelta = 0.01 } = options;
+
+  if (region.longitudeDelta < minClusterDelta) {
+    return points.map((point, index) => toCluster(`point-${index}`, [point]));
+  }
+
+  const cellSize = Math.pow(2, Math.round(Math.log2(region.longitudeDelta / cellsAcross)));
+  const cells = new Map<string, T[]>();
+
+  for (const point of points) {
+    const key = `${Math.floor(point.longitude / cellSize)}:${Math.floor(point.latitude / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(point);
+    } else {
+      cells.set(key, [point]);
+    }
+  }
+
+  return [...cells.entries()].map(([key, cellPoints]) => toCluster(`cell-${key}`, cellPoints));
+}
+
+function toCluster<T extends ClusterablePoint>(id: string, points: T[]): MapCluster<T> {
+  const prices = points.map((point) => point.price).filter((price): price is number => !!price);
+
+  return {
+    id,
+    latitude: points.reduce((sum, point) => sum + point.latitude, 0) / points.length,
+    longitude: points.reduce((sum, point) => sum + point.longitude, 0) / points.length,
+    points,
+    minPrice: prices.length > 0 ? Math.min(...prices) : undefined,
+    maxPrice: prices.length > 0 ? Math.max(...prices) : undefined,
+  };
+}
+
+/**
+ * Region that fits all points of a cluster, for zooming in on it
+ */
+export function getClusterRegion(cluster: MapCluster<ClusterablePoint>, padding = 1.5): MapRegion {
+  const lats = cluster.points.map((point) => point.latitude);
+  const lngs = cluster.points.map((point) => point.longitude);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const minLng = Math.min(...lngs);
+  const maxLng = Math.max(...lngs);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    // Points on the same spot still zoom in to street level
+    latitudeDelta: Math.max((maxLat - minLat) * padding, 0.005),
+    longitudeDelta: Math.max((maxLng - minLng) * padding, 0.005),
+  };
+}
+
+/**
+ * Short price for map labels: "850 tkr", "3,3 mkr"
+ */
+export function formatCompactPrice(price: number): string {
+  if (price >= 1_000_000) {
+    return `${(price / 1_000_000).toLocaleString('sv-SE', { maximumFractionDigits: 1 })} mkr`;
+  }
+  return `${Math.round(price / 1_000).toLocaleString('sv-SE')} tkr`;
+}
+
+/**
+ * Price range of a cluster: "2,1–4,5 mkr", or a single price when they round the same
+ *
+ * @returns null when no property in the cluster has a price
+ */
+export function formatPriceRange(minPrice?: number, maxPrice?: number): string | null {
+  if (!minPrice || !maxPrice) return null;
+
+  const min = formatCompactPrice(minPrice);
+  const max = formatCompactPrice(maxPrice);
+  if (min === max) return min;
+
+  // Drop the repeated unit: "2,1–4,5 mkr" rather than "2,1 mkr–4,5 mkr"
+  const [minValue, minUnit] = min.split(' ');
+  return minUnit === max.split(' ')[1] ? `${minValue}–${max}` : `${min}–${max}`;
+}
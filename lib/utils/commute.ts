@@ -0,0 +1,196 @@
+import type { AreaPoint } from '../types/searchArea';
+import type { CommuteEstimate, CommuteMode, PlaceCommute, SavedPlace } from '../types/savedPlace';
+import { hasValidCoordinates } from './coordinates';
+
+/**
+ * Commute helpers - distance and travel time from a property to saved places
+ *
+ * Travel times come from a pluggable RoutingProvider. The default estimates
+ * from straight-line distance and typical speeds, so it works offline and in
+ * tests; a provider backed by a routing service can be swapped in with
+ * setRoutingProvider().
+ */
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export const COMMUTE_MODES: CommuteMode[] = ['walk', 'bike', 'transit'];
+
+export interface RoutingProvider {
+  /** Part of the cache key, so results of different providers aren't mixed */
+  name: string;
+  /** Resolves null when the mode can't be estimated between the points */
+  estimate(from: LatLng, to: LatLng, mode: CommuteMode): Promise<CommuteEstimate | null>;
+}
+
+export interface SpeedProfile {
+  speedKmh: number;
+  // Streets and lines aren't straight - travelled distance per straight-line km
+  detourFactor: number;
+  // Fixed time on top, e.g. walking to the stop and waiting
+  overheadMinutes: number;
+}
+
+export const DEFAULT_SPEED_PROFILES: Record<CommuteMode, SpeedProfile> = {
+  walk: { speedKmh: 5, detourFactor: 1.25, overheadMinutes: 0 },
+  bike: { speedKmh: 16, detourFactor: 1.25, overheadMinutes: 2 },
+  transit: { speedKmh: 25, detourFactor: 1.4, overheadMinutes: 10 },
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle (haversine) distance in kilometres
+ */
+export function straightLineDistanceKm(from: LatLng, to: LatLng): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Offline provider: straight-line distance times a detour factor at a typical speed
+ */
+export function createSpeedBasedRoutingProvider(
+  profiles: Record<CommuteMode, SpeedProfile> = DEFAULT_SPEED_PROFILES
+): RoutingProvider {
+  return {
+    name: 'speed-based',
+    estimate: async (from, to, mode) => {
+      const profile = profiles[mode];
+      const distanceKm = straightLineDistanceKm(from, to) * profile.detourFactor;
+      const minutes = profile.overheadMinutes + (distanceKm / profile.speedKmh) * 60;
+      return { mode, distanceKm, minutes: Math.round(minutes) };
+    },
+  };
+}
+
+let routingProvider: RoutingProvider = createSpeedBasedRoutingProvider();
+
+export function getRoutingProvider(): RoutingProvider {
+  return routingProvider;
+}
+
+/**
+ * Replace the routing provider used by the app (e.g. at startup)
+ */
+export function setRoutingProvider(provider: RoutingProvider): void {
+  routingProvider = provider;
+}
+
+/**
+ * Distance and travel times from a point to each saved place, in the order given.
+ * Modes the provider can't estimate (or fails on) are left out.
+ */
+export async function estimateCommutes(
+  from: LatLng,
+  places: SavedPlace[],
+  provider: RoutingProvider = getRoutingProvider(),
+  modes: CommuteMode[] = COMMUTE_MODES
+): Promise<PlaceCommute[]> {
+  return Promise.all(
+    places.map(async (place) => {
+      const results = await Promise.all(
+        modes.map((mode) =>
+          provider.estimate(from, place, mode).catch((error) => {
+            console.error('Failed to estimate commute:', error);
+            return null;
+          })
+        )
+      );
+      return {
+        placeId: place.id,
+        placeName: place.name,
+        kind: place.kind,
+        straightLineKm: straightLineDistanceKm(from, place),
+        estimates: results.filter((estimate): estimate is CommuteEstimate => estimate !== null),
+      };
+    })
+  );
+}
+
+/**
+ * Commutes for every pinned property, keyed by property id.
+ * Unpinned properties are left out.
+ */
+export async function estimatePropertyCommutes(
+  properties: { id: string; latitude?: number; longitude?: number }[],
+  places: SavedPlace[],
+  provider: RoutingProvider = getRoutingProvider()
+): Promise<Record<string, PlaceCommute[]>> {
+  const entries = await Promise.all(
+    properties
+      .filter((property) => hasValidCoordinates(property))
+      .map(async (property) => [property.id, await estimateCommutes(property as LatLng, places, provider)] as const)
+  );
+  return Object.fromEntries(entries);
+}
+
+/**
+ * The quickest way to a place, if any mode could be estimated
+ */
+export function fastestEstimate(commute: PlaceCommute): CommuteEstimate | undefined {
+  return commute.estimates.reduce<CommuteEstimate | undefined>(
+    (best, estimate) => (!best || estimate.minutes < best.minutes ? estimate : best),
+    undefined
+  );
+}
+
+/**
+ * Straight-line radius reachable within the time, using the speed model
+ */
+export function reachableRadiusKm(
+  minutes: number,
+  mode: CommuteMode,
+  profiles: Record<CommuteMode, SpeedProfile> = DEFAULT_SPEED_PROFILES
+): number {
+  const profile = profiles[mode];
+  const travelMinutes = Math.max(0, minutes - profile.overheadMinutes);
+  return (travelMinutes / 60) * profile.speedKmh / profile.detourFactor;
+}
+
+/**
+ * Approximate reachable area around a place as a circle polygon, for the map overlay.
+ * Returns an open ring like search areas; empty when nothing is reachable in time.
+ */
+export function reachableAreaPolygon(
+  center: LatLng,
+  minutes: number,
+  mode: CommuteMode,
+  steps = 48
+): AreaPoint[] {
+  const radiusKm = reachableRadiusKm(minutes, mode);
+  if (radiusKm <= 0) return [];
+
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const lngDelta = latDelta / Math.cos(toRadians(center.latitude));
+  return Array.from({ length: steps }, (_, i) => {
+    const angle = (2 * Math.PI * i) / steps;
+    return [center.longitude + lngDelta * Math.cos(angle), center.latitude + latDelta * Math.sin(angle)];
+  });
+}
+
+/**
+ * "850 m" below a kilometre, otherwise "3,2 km"
+ */
+export function formatDistance(km: number): string {
+  if (km < 1) return `${Math.round(km * 100) * 10} m`;
+  return `${km.toFixed(km < 10 ? 1 : 0).replace('.', ',')} km`;
+}
+
+/**
+ * "25 min", or "1 h 5 min" from an hour
+ */
+export function formatCommuteTime(minutes: number): string {
+  const rounded = Math.max(1, Math.round(minutes));
+  if (rounded < 60) return `${rounded} min`;
+  const rest = rounded % 60;
+  return rest > 0 ? `${Math.floor(rounded / 60)} h ${rest} min` : `${Math.floor(rounded / 60)} h`;
+}
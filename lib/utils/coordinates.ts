@@ -3,6 +3,10 @@
  * Ensures that latitude and longitude values are valid before rendering
  */
 
+import type { PropertyLink } from '../store/propertyLinkStore';
+
+type PinFields = Pick<PropertyLink, 'latitude' | 'longitude' | 'geocodeSource' | 'geocodePrecision'>;
+
 /**
  * Validates if a value is a valid coordinate number
  * @param value - The value to check
@@ -45,3 +49,38 @@ export const DEFAULT_COORDINATES = {
   latitude: -13.3048,
   longitude: -71.9589,
 } as const;
+
+/**
+ * Whether a property's pin was placed or dragged by a user. These are treated as
+ * verified: listing refreshes and enrichment never move them.
+ */
+export function isUserVerified(property: Pick<PropertyLink, 'geocodeSource'>): boolean {
+  return property.geocodeSource === 'user';
+}
+
+/**
+ * Pin fields for a user placing or moving a property on the map
+ */
+export function userPin(latitude: number, longitude: number): PinFields {
+  return { latitude, longitude, geocodeSource: 'user', geocodePrecision: 'exact' };
+}
+
+/**
+ * Coordinates read from the listing during enrichment, when they improve on what the
+ * property has: unpinned properties and pins geocoded from the URL or address get the
+ * listing's own. User-verified pins are left alone.
+ */
+export function listingCoordinateUpdate(
+  property: PinFields,
+  found: { latitude?: number; longitude?: number } | undefined
+): PinFields {
+  if (!found || !hasValidCoordinates(found) || isUserVerified(property)) return {};
+  if (property.geocodeSource === 'listing' && hasValidCoordinates(property)) return {};
+
+  return {
+    latitude: found.latitude,
+    longitude: found.longitude,
+    geocodeSource: 'listing',
+    geocodePrecision: 'exact',
+  };
+}
@@ -0,0 +1,46 @@
+import { asyncStorage } from '../store/persistence';
+import { HouseholdProfile } from '../types/household';
+import type { SaveHouseholdProfileInput } from '../api/householdProfiles';
+
+/**
+ * Household profile of a signed-out user on the open list
+ * Incomes and savings are personal, and the server can't tell one anonymous
+ * user from another - so the profile stays on this device only.
+ */
+
+// 'app-' prefix so clearAllStorage() removes it too
+const DEVICE_HOUSEHOLD_PROFILE_KEY = 'app-household-profile';
+
+export async function fetchDeviceHouseholdProfile(): Promise<HouseholdProfile | null> {
+  const stored = await asyncStorage.getItem(DEVICE_HOUSEHOLD_PROFILE_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as HouseholdProfile;
+  } catch (error) {
+    console.warn('Ignoring unreadable household profile:', error);
+    return null;
+  }
+}
+
+export async function saveDeviceHouseholdProfile(input: SaveHouseholdProfileInput): Promise<HouseholdProfile> {
+  const profile: HouseholdProfile = {
+    id: input.id ?? `device-${Date.now()}`,
+    spaceId: null,
+    ownerId: input.ownerId,
+    members: input.members.map((member) => ({
+      name: member.name.trim(),
+      grossMonthlyIncome: member.grossMonthlyIncome,
+    })),
+    children: input.children,
+    savings: input.savings,
+    otherLoansMonthly: input.otherLoansMonthly,
+    carCostsMonthly: input.carCostsMonthly,
+    municipalTaxRate: input.municipalTaxRate,
+    interestRate: input.interestRate,
+    stressTestRate: input.stressTestRate,
+    updatedBy: input.updatedBy,
+    updatedAt: new Date().toISOString(),
+  };
+  await asyncStorage.setItem(DEVICE_HOUSEHOLD_PROFILE_KEY, JSON.stringify(profile));
+  return profile;
+}
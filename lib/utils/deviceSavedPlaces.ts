@@ -0,0 +1,44 @@
+import { asyncStorage } from '../store/persistence';
+import { SavedPlace } from '../types/savedPlace';
+import type { CreateSavedPlaceInput } from '../api/savedPlaces';
+
+/**
+ * Saved places of a signed-out user on the open list
+ * They point at a home, a workplace or a school, and the server can't tell one
+ * anonymous user from another - so they stay on this device only.
+ */
+
+// 'app-' prefix so clearAllStorage() removes them too
+const DEVICE_SAVED_PLACES_KEY = 'app-saved-places';
+
+export async function fetchDeviceSavedPlaces(): Promise<SavedPlace[]> {
+  const stored = await asyncStorage.getItem(DEVICE_SAVED_PLACES_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored) as SavedPlace[];
+  } catch (error) {
+    console.warn('Ignoring unreadable saved places:', error);
+    return [];
+  }
+}
+
+export async function createDeviceSavedPlace(input: Omit<CreateSavedPlaceInput, 'spaceId'>): Promise<SavedPlace> {
+  const place: SavedPlace = {
+    id: `device-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    spaceId: null,
+    name: input.name.trim(),
+    kind: input.kind,
+    latitude: input.latitude,
+    longitude: input.longitude,
+    createdBy: input.createdBy,
+    createdAt: new Date().toISOString(),
+  };
+  const places = await fetchDeviceSavedPlaces();
+  await asyncStorage.setItem(DEVICE_SAVED_PLACES_KEY, JSON.stringify([...places, place]));
+  return place;
+}
+
+export async function deleteDeviceSavedPlace(id: string): Promise<void> {
+  const places = await fetchDeviceSavedPlaces();
+  await asyncStorage.setItem(DEVICE_SAVED_PLACES_KEY, JSON.stringify(places.filter((place) => place.id !== id)));
+}
@@ -0,0 +1,189 @@
+import type { PropertyLink, PropertyLinkData } from '../store/propertyLinkStore';
+
+/**
+ * Duplicate listing detection - the same home is often posted on Hemnet, Booli and
+ * the broker's own site. Matches on canonical URL first, then on address + area + price.
+ */
+
+// Known click and campaign trackers (plus utm_*). Generic names such as ref or
+// source are left alone - some sites use them to pick the listing.
+const TRACKING_PARAMS = ['fbclid', 'gclid', 'dclid', 'msclkid', 'igshid', 'mc_cid', 'mc_eid', '_ga', '_gl'];
+
+// Area may be rounded differently per site (e.g. 74 vs 74.5 m²)
+const AREA_TOLERANCE_SQM = 2;
+const AREA_TOLERANCE_RATIO = 0.03;
+// Prices differ between sites that haven't picked up a price change yet
+const PRICE_TOLERANCE_RATIO = 0.1;
+const STREET_SIMILARITY_THRESHOLD = 0.85;
+
+export type DuplicateField = 'url' | 'address' | 'area' | 'price';
+
+export interface DuplicateMatch {
+  property: PropertyLink;
+  reason: 'url' | 'listing';
+  matchedOn: DuplicateField[];
+}
+
+export interface DuplicateCandidate {
+  url: string;
+  propertyData?: PropertyLinkData;
+}
+
+/**
+ * Canonical form of a listing URL: https, no www, no tracking params, no fragment,
+ * no trailing slash and sorted query params. Unparseable input is returned trimmed.
+ * Only for matching - properties and sources keep the URL as it was pasted.
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !key.toLowerCase().startsWith('utm_') && !TRACKING_PARAMS.includes(key.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const port = parsed.port ? `:${parsed.port}` : '';
+  const path = parsed.pathname.replace(/\/+$/, '');
+
+  return `https://${host}${port}${path}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Street part of an address, lowercased without diacritics or apartment numbers,
+ * with the house letter joined to the number ("Skånsbogatan 2 A, Malmö" → "skansbogatan 2a")
+ */
+export function normalizeAddress(address: string): string {
+  return address
+    .split(',')[0]
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\b(lgh|lagenhet|lagenhetsnummer)\.?\s*\d+/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/(\d+)\s+([a-z])\b/g, '$1$2')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function splitStreet(address: string): { name: string; number?: string } {
+  const normalized = normalizeAddress(address);
+  const match = normalized.match(/^(.*?)\s*(\d+[a-z]?)(?:\s.*)?$/);
+  return match ? { name: match[1], number: match[2] } : { name: normalized };
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s/g, '');
+  const pairs: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) pairs.push(compact.slice(i, i + 2));
+  return pairs;
+}
+
+/**
+ * Dice coefficient over character bigrams (1 = identical, 0 = nothing in common)
+ */
+export function stringSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const pairsA = bigrams(a);
+  const pairsB = bigrams(b);
+  if (pairsA.length === 0 || pairsB.length === 0) return 0;
+
+  const remaining = [...pairsB];
+  let shared = 0;
+  for (const pair of pairsA) {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (pairsA.length + pairsB.length);
+}
+
+/**
+ * Whether two addresses point at the same building: house numbers must agree,
+ * street names may differ by a typo or missing diacritic
+ */
+export function isSameAddress(a: string, b: string): boolean {
+  const streetA = splitStreet(a);
+  const streetB = splitStreet(b);
+  if (!streetA.name || !streetB.name) return false;
+  if (streetA.number !== streetB.number) return false;
+  return stringSimilarity(streetA.name, streetB.name) >= STREET_SIMILARITY_THRESHOLD;
+}
+
+function isSameArea(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(AREA_TOLERANCE_SQM, Math.max(a, b) * AREA_TOLERANCE_RATIO);
+}
+
+function isSamePrice(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(a, b) * PRICE_TOLERANCE_RATIO;
+}
+
+/**
+ * All URLs a property is known under, canonicalised
+ */
+function knownUrls(property: PropertyLink): string[] {
+  return [property.url, ...(property.sources || []).map((source) => source.url)].map(canonicalizeUrl);
+}
+
+/**
+ * Existing property already saved under the same canonical URL (listing or any source)
+ */
+export function findUrlDuplicate(url: string, properties: PropertyLink[]): DuplicateMatch | null {
+  const canonical = canonicalizeUrl(url);
+  const property = properties.find(
+    (p) => !p.id.startsWith('temp-') && knownUrls(p).includes(canonical)
+  );
+  return property ? { property, reason: 'url', matchedOn: ['url'] } : null;
+}
+
+/**
+ * Existing property that looks like the same home: the address must match and every
+ * area/price known on both sides must agree, with at least one of them to go on
+ */
+export function findListingDuplicate(
+  candidate: DuplicateCandidate,
+  properties: PropertyLink[]
+): DuplicateMatch | null {
+  const address = candidate.propertyData?.address;
+  if (!address) return null;
+
+  for (const property of properties) {
+    if (property.id.startsWith('temp-')) continue;
+    const existing = property.propertyData;
+    if (!existing?.address || !isSameAddress(address, existing.address)) continue;
+
+    const matchedOn: DuplicateField[] = ['address'];
+    const area = candidate.propertyData?.area;
+    const price = candidate.propertyData?.price;
+
+    if (area != null && existing.area != null) {
+      if (!isSameArea(area, existing.area)) continue;
+      matchedOn.push('area');
+    }
+    if (price != null && existing.price != null) {
+      if (!isSamePrice(price, existing.price)) continue;
+      matchedOn.push('price');
+    }
+
+    if (matchedOn.length > 1) return { property, reason: 'listing', matchedOn };
+  }
+
+  return null;
+}
+
+/**
+ * URL match first, then a fuzzy listing match
+ */
+export function findDuplicate(
+  candidate: DuplicateCandidate,
+  properties: PropertyLink[]
+): DuplicateMatch | null {
+  return findUrlDuplicate(candidate.url, properties) ?? findListingDuplicate(candidate, properties);
+}
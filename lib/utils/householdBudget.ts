@@ -0,0 +1,133 @@
+import type { PropertyLink } from '../store/propertyLinkStore';
+import type { Property } from '../api/properties-table';
+import type { AffordabilitySummary, HouseholdProfile, PropertyBudget } from '../types/household';
+import {
+  calculateKalp,
+  DEFAULT_MUNICIPAL_TAX_RATE,
+  DEFAULT_STRESS_TEST_RATE,
+  type KalpParams,
+} from '../financial/calculations';
+
+/**
+ * Household budget - what the saved household profile can afford.
+ *
+ * A property is within budget when the savings cover the 15% kontantinsats and
+ * the rest of the price passes KALP at the household's kalkylränta, with the
+ * avgift and driftkostnad as running costs. Shared by the property list and
+ * the map (web + native).
+ */
+
+// Bolånetak: at least 15% of the price must be paid in cash
+const MIN_DOWN_PAYMENT = 0.15;
+
+export type HouseholdKalpParams = Pick<
+  KalpParams,
+  'adultGrossMonthlyIncomes' | 'children' | 'municipalTaxRate' | 'otherLoansMonthly' | 'carCostsMonthly' | 'stressTestRate'
+>;
+
+/**
+ * KALP parameters for the household, without the loan and housing costs
+ *
+ * @returns null while no member has an income - nothing can be judged then
+ */
+export function householdKalpParams(profile: HouseholdProfile): HouseholdKalpParams | null {
+  const adultGrossMonthlyIncomes = profile.members.map((member) => member.grossMonthlyIncome || 0);
+  if (!adultGrossMonthlyIncomes.some((income) => income > 0)) return null;
+
+  return {
+    adultGrossMonthlyIncomes,
+    children: profile.children,
+    municipalTaxRate: profile.municipalTaxRate ?? DEFAULT_MUNICIPAL_TAX_RATE,
+    otherLoansMonthly: profile.otherLoansMonthly,
+    carCostsMonthly: profile.carCostsMonthly,
+    stressTestRate: profile.stressTestRate ?? DEFAULT_STRESS_TEST_RATE,
+  };
+}
+
+/**
+ * Monthly running cost of a listing: avgift plus driftkostnad (listed per year)
+ */
+export function monthlyRunningCost(propertyData?: { monthlyFee?: number; operatingCost?: number }): number {
+  return (propertyData?.monthlyFee ?? 0) + (propertyData?.operatingCost ?? 0) / 12;
+}
+
+/**
+ * Whether the household can buy a property at its asking price
+ */
+export function evaluatePropertyBudget(
+  profile: HouseholdProfile,
+  property: { price?: number; monthlyCost?: number }
+): PropertyBudget {
+  const { price } = property;
+  const kalpParams = householdKalpParams(profile);
+  if (!price || price <= 0 || !kalpParams) {
+    return { status: 'unknown', loanNeeded: 0 };
+  }
+
+  const loanNeeded = Math.max(0, price - profile.savings);
+  if (profile.savings < price * MIN_DOWN_PAYMENT) {
+    return { status: 'over', loanNeeded, reason: 'down-payment' };
+  }
+
+  const kalp = calculateKalp({
+    ...kalpParams,
+    housingOperatingCost: property.monthlyCost ?? 0,
+    loanAmount: loanNeeded,
+    propertyValue: price,
+  });
+
+  return kalp.passes
+    ? { status: 'within', loanNeeded, monthlySurplus: kalp.monthlySurplus }
+    : { status: 'over', loanNeeded, reason: 'kalp', monthlySurplus: kalp.monthlySurplus };
+}
+
+/**
+ * Budget per property link id, for the list cards and map pins
+ */
+export function evaluatePropertyLinkBudgets(
+  profile: HouseholdProfile | null,
+  links: PropertyLink[]
+): Record<string, PropertyBudget> {
+  if (!profile) return {};
+  return Object.fromEntries(
+    links.map((link) => [
+      link.id,
+      evaluatePropertyBudget(profile, {
+        price: link.propertyData?.price,
+        monthlyCost: monthlyRunningCost(link.propertyData),
+      }),
+    ])
+  );
+}
+
+/**
+ * Budget per property from the properties table, keyed by id like priceChanges
+ */
+export function evaluateTablePropertyBudgets(
+  profile: HouseholdProfile | null,
+  properties: Property[]
+): Record<string, PropertyBudget> {
+  if (!profile) return {};
+  return Object.fromEntries(
+    properties.map((property) => [
+      property.id.toString(),
+      evaluatePropertyBudget(profile, { price: property.price, monthlyCost: property.monthlyFee }),
+    ])
+  );
+}
+
+/**
+ * Maximum loan and price before picking a property, running costs left out
+ *
+ * @returns null while no member has an income
+ */
+export function calculateAffordabilitySummary(profile: HouseholdProfile): AffordabilitySummary | null {
+  const kalpParams = householdKalpParams(profile);
+  if (!kalpParams) return null;
+
+  const { maxLoan } = calculateKalp(kalpParams);
+  return {
+    maxLoan,
+    maxPrice: Math.floor(Math.min(maxLoan + profile.savings, profile.savings / MIN_DOWN_PAYMENT)),
+  };
+}
@@ -0,0 +1,11 @@
+import * as Linking from 'expo-linking';
+
+const INVITE_PATH = 'invite';
+
+/**
+ * Build the deep link for an invite token.
+ * Web: https://<host>/invite/<token>, native: my-expo-app://invite/<token>
+ */
+export function createInviteLink(token: string): string {
+  return Linking.createURL(`${INVITE_PATH}/${encodeURIComponent(token)}`);
+}
@@ -0,0 +1,74 @@
+import type { PricePoint } from '../types/property';
+
+/**
+ * Price history helpers - turn raw history rows into chart series and price changes.
+ * History rows are logged when either price or monthly fee changes, so a series for
+ * one of them skips rows where only the other moved.
+ */
+
+export type PriceField = 'price' | 'monthlyFee';
+
+export interface PriceSeriesPoint {
+  value: number;
+  recordedAt: string;
+}
+
+export interface PriceChange {
+  currentPrice: number;
+  previousPrice: number;
+  /** First price we saw for the listing */
+  originalPrice: number;
+  change: number;
+  changePercent: number;
+  direction: 'up' | 'down';
+  changedAt: string;
+}
+
+/**
+ * Values of one field over time, oldest first, with repeated values collapsed
+ */
+export function getPriceSeries(history: PricePoint[], field: PriceField = 'price'): PriceSeriesPoint[] {
+  const sorted = [...history].sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+  const series: PriceSeriesPoint[] = [];
+
+  for (const point of sorted) {
+    const value = point[field];
+    if (value == null) continue;
+    if (series.length > 0 && series[series.length - 1].value === value) continue;
+    series.push({ value, recordedAt: point.recordedAt });
+  }
+
+  return series;
+}
+
+/**
+ * Latest asking price change, or null if the price never changed
+ */
+export function getPriceChange(history: PricePoint[]): PriceChange | null {
+  const series = getPriceSeries(history, 'price');
+  if (series.length < 2) return null;
+
+  const current = series[series.length - 1];
+  const previous = series[series.length - 2];
+  const change = current.value - previous.value;
+
+  return {
+    currentPrice: current.value,
+    previousPrice: previous.value,
+    originalPrice: series[0].value,
+    change,
+    changePercent: previous.value !== 0 ? Math.round((change / previous.value) * 1000) / 10 : 0,
+    direction: change < 0 ? 'down' : 'up',
+    changedAt: current.recordedAt,
+  };
+}
+
+/**
+ * Group history rows by property ID
+ */
+export function groupPriceHistory(points: PricePoint[]): Record<string, PricePoint[]> {
+  return points.reduce((acc, point) => {
+    (acc[point.propertyId] ||= []).push(point);
+    return acc;
+  }, {} as Record<string, PricePoint[]>);
+}
@@ -0,0 +1,301 @@
+import type { PropertyLink } from '../store/propertyLinkStore';
+import type { Property } from '../api/properties-table';
+import type { SearchArea } from '../types/searchArea';
+import { findSearchAreas } from './searchAreas';
+
+/**
+ * Property filters - shared by the map (web + native) and the property list.
+ * Filters are plain data so they can be stored in asyncStorage and encoded in the
+ * URL on web. Properties missing a value are kept, so half-enriched listings
+ * don't disappear from the map - except for search areas, which need a pin.
+ */
+
+export type PropertyTypeKey = 'lagenhet' | 'villa' | 'radhus' | 'parhus' | 'fritidshus' | 'tomt';
+export type TenureTypeKey = 'bostadsratt' | 'aganderatt' | 'hyresratt';
+
+export const PROPERTY_TYPE_OPTIONS: { key: PropertyTypeKey; label: string }[] = [
+  { key: 'lagenhet', label: 'Lägenhet' },
+  { key: 'villa', label: 'Villa' },
+  { key: 'radhus', label: 'Radhus' },
+  { key: 'parhus', label: 'Par-/kedjehus' },
+  { key: 'fritidshus', label: 'Fritidshus' },
+  { key: 'tomt', label: 'Tomt' },
+];
+
+export const TENURE_TYPE_OPTIONS: { key: TenureTypeKey; label: string }[] = [
+  { key: 'bostadsratt', label: 'Bostadsrätt' },
+  { key: 'aganderatt', label: 'Äganderätt' },
+  { key: 'hyresratt', label: 'Hyresrätt' },
+];
+
+export const ENERGY_CLASSES = ['A', 'B', 'C', 'D', 'E', 'F', 'G'] as const;
+
+export interface PropertyFilters {
+  minPrice?: number;
+  maxPrice?: number;
+  minRooms?: number;
+  minArea?: number;
+  maxArea?: number;
+  maxMonthlyFee?: number;
+  propertyTypes?: PropertyTypeKey[];
+  tenureTypes?: TenureTypeKey[];
+  hasElevator?: boolean;
+  hasBalcony?: boolean;
+  energyClasses?: string[];
+  minBuiltYear?: number;
+  maxBuiltYear?: number;
+  /** Only properties inside one of these saved search areas */
+  searchAreaIds?: string[];
+}
+
+/**
+ * The fields filters look at, read from either property shape
+ */
+export interface FilterableProperty {
+  price?: number;
+  rooms?: number;
+  area?: number;
+  monthlyFee?: number;
+  propertyType?: PropertyTypeKey;
+  tenureType?: TenureTypeKey;
+  elevator?: boolean;
+  balcony?: boolean;
+  energyClass?: string;
+  builtYear?: number;
+  latitude?: number;
+  longitude?: number;
+}
+
+// Listing wording → filter key, checked in order ("radhus" before "hus")
+const PROPERTY_TYPE_PATTERNS: [RegExp, PropertyTypeKey][] = [
+  [/lägenhet|lagenhet|apartment|bostadsrätt|flat/i, 'lagenhet'],
+  [/radhus|townhouse/i, 'radhus'],
+  [/parhus|kedjehus/i, 'parhus'],
+  [/fritidshus|sommarhus|stuga/i, 'fritidshus'],
+  [/tomt|plot/i, 'tomt'],
+  [/villa|house|hus/i, 'villa'],
+];
+
+const TENURE_TYPE_PATTERNS: [RegExp, TenureTypeKey][] = [
+  [/bostadsrätt|bostadsratt|\bbrf\b/i, 'bostadsratt'],
+  [/äganderätt|aganderatt|freehold/i, 'aganderatt'],
+  [/hyresrätt|hyresratt|rental/i, 'hyresratt'],
+];
+
+function matchPattern<T>(value: string | undefined, patterns: [RegExp, T][]): T | undefined {
+  if (!value) return undefined;
+  return patterns.find(([pattern]) => pattern.test(value))?.[1];
+}
+
+/**
+ * Elevator/balcony may be a boolean column or descriptive text ("Ja", "Nej, men planerad")
+ */
+function toFeatureFlag(value: string | boolean | undefined): boolean | undefined {
+  if (typeof value === 'boolean' || value === undefined) return value;
+  if (/^\s*(nej|no|saknas)/i.test(value)) return false;
+  if (/^\s*(ja|yes|finns)/i.test(value)) return true;
+  return undefined;
+}
+
+export function fromPropertyLink(link: PropertyLink): FilterableProperty {
+  const pd = link.propertyData;
+  return {
+    price: pd?.price,
+    rooms: pd?.rooms ?? pd?.bedrooms,
+    area: pd?.area,
+    monthlyFee: pd?.monthlyFee,
+    propertyType: matchPattern(pd?.propertyType, PROPERTY_TYPE_PATTERNS),
+    // Listings often only say "Bostadsrätt" as the type
+    tenureType:
+      matchPattern(pd?.tenureType, TENURE_TYPE_PATTERNS) ??
+      matchPattern(pd?.propertyType, TENURE_TYPE_PATTERNS),
+    elevator: toFeatureFlag(pd?.elevator),
+    balcony: toFeatureFlag(pd?.balcony),
+    energyClass: pd?.energyClass?.trim().charAt(0).toUpperCase() || undefined,
+    builtYear: pd?.buildYear,
+    latitude: link.latitude,
+    longitude: link.longitude,
+  };
+}
+
+export function fromTableProperty(property: Property): FilterableProperty {
+  return {
+    price: property.price,
+    rooms: property.rooms,
+    area: property.areaSqm,
+    monthlyFee: property.monthlyFee,
+    propertyType: matchPattern(property.propertyType, PROPERTY_TYPE_PATTERNS),
+    tenureType:
+      matchPattern(property.tenureType, TENURE_TYPE_PATTERNS) ??
+      matchPattern(property.propertyType, TENURE_TYPE_PATTERNS),
+    elevator: property.hasElevator,
+    balcony: property.hasBalcony,
+    energyClass: property.energyClass?.trim().charAt(0).toUpperCase() || undefined,
+    builtYear: property.yearBuilt,
+    latitude: property.latitude,
+    longitude: property.longitude,
+  };
+}
+
+function inRange(value: number | undefined, min?: number, max?: number): boolean {
+  if (value == null) return true;
+  return (min == null || value >= min) && (max == null || value <= max);
+}
+
+function inList<T>(value: T | undefined, list?: T[]): boolean {
+  if (value == null || !list || list.length === 0) return true;
+  return list.includes(value);
+}
+
+/**
+ * Whether the property lies in one of the selected search areas. Selections of
+ * areas that no longer exist (or haven't loaded) don't filter anything.
+ */
+function inSearchAreas(property: FilterableProperty, ids: string[] | undefined, areas: SearchArea[]): boolean {
+  const selected = areas.filter((area) => ids?.includes(area.id));
+  return selected.length === 0 || findSearchAreas(property, selected).length > 0;
+}
+
+/**
+ * Whether a property passes every active filter
+ *
+ * @param searchAreas - Saved areas of the space, for the searchAreaIds filter
+ */
+export function matchesFilters(
+  property: FilterableProperty,
+  filters: PropertyFilters,
+  searchAreas: SearchArea[] = []
+): boolean {
+  return (
+    inSearchAreas(property, filters.searchAreaIds, searchAreas) &&
+    inRange(property.price, filters.minPrice, filters.maxPrice) &&
+    inRange(property.rooms, filters.minRooms) &&
+    inRange(property.area, filters.minArea, filters.maxArea) &&
+    inRange(property.monthlyFee, undefined, filters.maxMonthlyFee) &&
+    inRange(property.builtYear, filters.minBuiltYear, filters.maxBuiltYear) &&
+    inList(property.propertyType, filters.propertyTypes) &&
+    inList(property.tenureType, filters.tenureTypes) &&
+    inList(property.energyClass, filters.energyClasses) &&
+    (!filters.hasElevator || property.elevator !== false) &&
+    (!filters.hasBalcony || property.balcony !== false)
+  );
+}
+
+export function filterPropertyLinks(
+  links: PropertyLink[],
+  filters: PropertyFilters,
+  searchAreas: SearchArea[] = []
+): PropertyLink[] {
+  return links.filter((link) => matchesFilters(fromPropertyLink(link), filters, searchAreas));
+}
+
+export function filterTableProperties(
+  properties: Property[],
+  filters: PropertyFilters,
+  searchAreas: SearchArea[] = []
+): Property[] {
+  return properties.filter((property) => matchesFilters(fromTableProperty(property), filters, searchAreas));
+}
+
+/**
+ * Number of filters in use, for the "Filter (3)" button
+ */
+export function countActiveFilters(filters: PropertyFilters): number {
+  return Object.values(filters).filter((value) =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined && value !== false
+  ).length;
+}
+
+// ============ URL ENCODING ============
+
+// Short query param names, e.g. /map?minPrice=2000000&type=lagenhet,radhus&elevator=1
+const NUMBER_PARAMS = {
+  minPrice: 'minPrice',
+  maxPrice: 'maxPrice',
+  minRooms: 'minRooms',
+  minArea: 'minArea',
+  maxArea: 'maxArea',
+  maxMonthlyFee: 'maxFee',
+  minBuiltYear: 'minYear',
+  maxBuiltYear: 'maxYear',
+} as const;
+
+const LIST_PARAMS = {
+  propertyTypes: 'type',
+  tenureTypes: 'tenure',
+  energyClasses: 'energy',
+  searchAreaIds: 'area',
+} as const;
+
+const FLAG_PARAMS = {
+  hasElevator: 'elevator',
+  hasBalcony: 'balcony',
+} as const;
+
+export const FILTER_PARAM_NAMES: string[] = [
+  ...Object.values(NUMBER_PARAMS),
+  ...Object.values(LIST_PARAMS),
+  ...Object.values(FLAG_PARAMS),
+];
+
+/**
+ * Query params for the filters. Unused filters map to undefined so
+ * router.setParams drops them from the URL.
+ */
+export function filtersToParams(filters: PropertyFilters): Record<string, string | undefined> {
+  const params: Record<string, string | undefined> = {};
+  for (const [field, param] of Object.entries(NUMBER_PARAMS)) {
+    const value = filters[field as keyof typeof NUMBER_PARAMS];
+    params[param] = value != null ? String(value) : undefined;
+  }
+  for (const [field, param] of Object.entries(LIST_PARAMS)) {
+    const value = filters[field as keyof typeof LIST_PARAMS];
+    params[param] = value && value.length > 0 ? value.join(',') : undefined;
+  }
+  for (const [field, param] of Object.entries(FLAG_PARAMS)) {
+    params[param] = filters[field as keyof typeof FLAG_PARAMS] ? '1' : undefined;
+  }
+  return params;
+}
+
+/**
+ * Read filters back from query params, ignoring values that don't parse
+ */
+export function filtersFromParams(params: Record<string, string | string[] | undefined>): PropertyFilters {
+  const read = (name: string) => {
+    const value = params[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+  const filters: PropertyFilters = {};
+
+  for (const [field, param] of Object.entries(NUMBER_PARAMS)) {
+    const value = Number(read(param));
+    if (read(param) && Number.isFinite(value)) filters[field as keyof typeof NUMBER_PARAMS] = value;
+  }
+
+  const list = (param: string) => read(param)?.split(',').filter(Boolean) ?? [];
+  const propertyTypes = list(LIST_PARAMS.propertyTypes).filter((key): key is PropertyTypeKey =>
+    PROPERTY_TYPE_OPTIONS.some((option) => option.key === key)
+  );
+  const tenureTypes = list(LIST_PARAMS.tenureTypes).filter((key): key is TenureTypeKey =>
+    TENURE_TYPE_OPTIONS.some((option) => option.key === key)
+  );
+  const energyClasses = list(LIST_PARAMS.energyClasses)
+    .map((value) => value.toUpperCase())
+    .filter((value) => (ENERGY_CLASSES as readonly string[]).includes(value));
+  if (propertyTypes.length > 0) filters.propertyTypes = propertyTypes;
+  if (tenureTypes.length > 0) filters.tenureTypes = tenureTypes;
+  if (energyClasses.length > 0) filters.energyClasses = energyClasses;
+  const searchAreaIds = list(LIST_PARAMS.searchAreaIds);
+  if (searchAreaIds.length > 0) filters.searchAreaIds = searchAreaIds;
+
+  for (const [field, param] of Object.entries(FLAG_PARAMS)) {
+    if (read(param) === '1') filters[field as keyof typeof FLAG_PARAMS] = true;
+  }
+
+  return filters;
+}
+
+export function hasFilterParams(params: Record<string, string | string[] | undefined>): boolean {
+  return FILTER_PARAM_NAMES.some((name) => params[name] !== undefined);
+}
@@ -0,0 +1,41 @@
+import type { AreaPoint, SearchArea } from '../types/searchArea';
+import { hasValidCoordinates } from './coordinates';
+
+/**
+ * Search area helpers - which drawn neighbourhoods a property is in
+ */
+
+/**
+ * Ray casting point-in-polygon test. Polygons are small enough that treating
+ * longitude/latitude as a flat plane is accurate.
+ */
+export function isPointInPolygon(latitude: number, longitude: number, polygon: AreaPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [lngI, latI] = polygon[i];
+    const [lngJ, latJ] = polygon[j];
+    const crosses =
+      latI > latitude !== latJ > latitude &&
+      longitude < ((lngJ - lngI) * (latitude - latI)) / (latJ - latI) + lngI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Saved areas containing the point, in the order given; none for unpinned properties
+ */
+export function findSearchAreas(
+  point: { latitude?: number; longitude?: number },
+  areas: SearchArea[]
+): SearchArea[] {
+  if (!hasValidCoordinates(point)) return [];
+  return areas.filter((area) => isPointInPolygon(point.latitude, point.longitude, area.polygon));
+}
+
+/**
+ * Close the ring for GeoJSON, which repeats the first point at the end
+ */
+export function toGeoJsonRing(polygon: AreaPoint[]): AreaPoint[] {
+  return polygon.length > 0 ? [...polygon, polygon[0]] : [];
+}
@@ -0,0 +1,99 @@
+import type { PropertySource } from '../types/property';
+import type { PropertyLink, PropertyLinkData } from '../store/propertyLinkStore';
+import { canonicalizeUrl } from './duplicates';
+
+/**
+ * Property sources - the sites a home is listed on (Hemnet, Booli, the broker's own site).
+ * The primary listing (`PropertyLink.url`) is always the first source.
+ */
+
+export interface SourceSighting {
+  url: string;
+  siteName?: string;
+  price?: number;
+}
+
+/**
+ * Site name from a listing URL ("https://www.hemnet.se/bostad/..." → "hemnet.se")
+ */
+export function siteNameFromUrl(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Record that a listing was seen: updates lastSeen and price of a known source,
+ * or appends a new one. Sources are matched on canonical URL.
+ */
+export function upsertSource(
+  sources: PropertySource[],
+  sighting: SourceSighting,
+  seenAt: string = new Date().toISOString()
+): PropertySource[] {
+  const canonical = canonicalizeUrl(sighting.url);
+  const index = sources.findIndex((source) => canonicalizeUrl(source.url) === canonical);
+
+  if (index === -1) {
+    return [
+      ...sources,
+      {
+        siteName: sighting.siteName || siteNameFromUrl(canonical),
+        url: sighting.url.trim(),
+        firstSeen: seenAt,
+        lastSeen: seenAt,
+        ...(sighting.price != null ? { price: sighting.price } : {}),
+      },
+    ];
+  }
+
+  return sources.map((source, i) =>
+    i === index
+      ? {
+          ...source,
+          siteName: sighting.siteName || source.siteName,
+          lastSeen: seenAt,
+          price: sighting.price ?? source.price,
+        }
+      : source
+  );
+}
+
+/**
+ * Sources of a property, falling back to its listing URL for properties saved
+ * before sources were tracked (or not yet saved)
+ */
+export function getPropertySources(property: PropertyLink): PropertySource[] {
+  if (property.sources && property.sources.length > 0) return property.sources;
+  return [
+    {
+      siteName: siteNameFromUrl(property.url),
+      url: property.url,
+      firstSeen: property.sharedAt,
+      lastSeen: property.propertyData?.lastEnriched || property.sharedAt,
+      price: property.propertyData?.price,
+    },
+  ];
+}
+
+/**
+ * Number of listing fields with a value (lists count when non-empty)
+ */
+export function countListingFields(propertyData?: PropertyLinkData): number {
+  return Object.values(propertyData || {}).filter(
+    (value) => value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)
+  ).length;
+}
+
+/**
+ * The extraction with the most fields filled in; ties go to the earliest (primary) source
+ */
+export function pickRichestSource<T extends { propertyData?: PropertyLinkData }>(results: T[]): T | null {
+  return results.reduce<T | null>(
+    (best, result) =>
+      !best || countListingFields(result.propertyData) > countListingFields(best.propertyData) ? result : best,
+    null
+  );
+}
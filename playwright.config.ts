@@ -15,8 +15,14 @@ export default defineConfig({
     : {
         command: 'yarn web --non-interactive',
         url: 'http://localhost:8081',
-        reuseExistingServer: true,
+        // A dev server you started yourself is reused as is and never sees `env` below -
+        // start it with EXPO_PUBLIC_CRAWLER_API_URL set (e.g. to `yarn mock:crawler`)
+        reuseExistingServer: !process.env.CI,
         timeout: 120_000,
+        // Crawler calls are answered by mockCrawlerRoutes; this host only needs to be set
+        env: {
+          EXPO_PUBLIC_CRAWLER_API_URL: process.env.EXPO_PUBLIC_CRAWLER_API_URL || 'http://crawler.mock',
+        },
       },
   projects: [
     {
@@ -0,0 +1,64 @@
+import { createServer, IncomingMessage } from 'http';
+import { getResponse } from 'msw';
+import { createCrawlerHandlers } from '../__tests__/setup/mocks/crawler';
+
+/**
+ * Crawler mock as a local HTTP server, for running the app against the recorded
+ * listing pages instead of the Go API:
+ *
+ *   yarn mock:crawler
+ *   EXPO_PUBLIC_CRAWLER_API_URL=http://localhost:8787 \
+ *   EXPO_PUBLIC_GEOCODE_API_URL=http://localhost:8787 yarn web
+ *
+ * Answers /go/crawler-og, /go/auto-crawl and /go/geocode-address with the same
+ * MSW handlers the vitest server and Playwright use. Port: MOCK_CRAWLER_PORT.
+ */
+
+const PORT = Number(process.env.MOCK_CRAWLER_PORT) || 8787;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+const handlers = createCrawlerHandlers();
+
+async function readBody(req: IncomingMessage): Promise<string | undefined> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return chunks.length > 0 ? Buffer.concat(chunks).toString('utf8') : undefined;
+}
+
+const server = createServer(async (req, res) => {
+  // Cross-origin POSTs with a JSON body are preflighted
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+
+  const headers = Object.entries(req.headers).flatMap(([name, value]) =>
+    value === undefined ? [] : [[name, Array.isArray(value) ? value.join(', ') : value] as [string, string]]
+  );
+  const response = await getResponse(
+    handlers,
+    new Request(`http://localhost:${PORT}${req.url}`, {
+      method: req.method,
+      headers,
+      body: req.method === 'GET' || req.method === 'HEAD' ? undefined : await readBody(req),
+    })
+  );
+
+  if (!response) {
+    res.writeHead(404, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: `No mock for ${req.method} ${req.url}` }));
+    return;
+  }
+
+  res.writeHead(response.status, Object.fromEntries(response.headers.entries()));
+  res.end(await response.text());
+});
+
+server.listen(PORT, () => {
+  console.log(`Crawler mock listening on http://localhost:${PORT}`);
+});
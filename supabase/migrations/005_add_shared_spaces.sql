@@ -0,0 +1,278 @@
+-- Migration: Add shared spaces
+-- Description: Private groups ("My Partner", "Travel Buddies") that own property links.
+-- Only members of a space can read the properties, comparison sessions and comments in it.
+-- Rows without a space_id keep the original open behaviour so anonymous sharing still works.
+
+-- Create spaces table
+CREATE TABLE IF NOT EXISTS spaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  created_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create space_members table
+CREATE TABLE IF NOT EXISTS space_members (
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (space_id, user_id)
+);
+
+-- Scope existing content tables to a space
+ALTER TABLE properties
+ADD COLUMN IF NOT EXISTS space_id UUID REFERENCES spaces(id) ON DELETE CASCADE;
+
+ALTER TABLE comparison_sessions
+ADD COLUMN IF NOT EXISTS space_id UUID REFERENCES spaces(id) ON DELETE CASCADE;
+
+ALTER TABLE property_comments
+ADD COLUMN IF NOT EXISTS space_id UUID REFERENCES spaces(id) ON DELETE CASCADE;
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_space_members_user_id ON space_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_properties_space_id ON properties(space_id);
+CREATE INDEX IF NOT EXISTS idx_comparison_sessions_space_id ON comparison_sessions(space_id);
+CREATE INDEX IF NOT EXISTS idx_property_comments_space_id ON property_comments(space_id);
+
+-- Membership check used by every policy below.
+-- SECURITY DEFINER so the lookup itself is not subject to space_members RLS (avoids recursion).
+CREATE OR REPLACE FUNCTION is_space_member(target_space_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM space_members
+    WHERE space_id = target_space_id
+      AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_space_owner(target_space_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM space_members
+    WHERE space_id = target_space_id
+      AND user_id = auth.uid()
+      AND role = 'owner'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The creator of a space becomes its owner
+CREATE OR REPLACE FUNCTION add_space_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO space_members (space_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'owner')
+  ON CONFLICT (space_id, user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS add_space_owner_on_insert ON spaces;
+CREATE TRIGGER add_space_owner_on_insert
+  AFTER INSERT ON spaces
+  FOR EACH ROW
+  EXECUTE FUNCTION add_space_owner();
+
+-- Comments inherit the space of the property they belong to, so clients cannot
+-- post a comment into a space they are not part of
+CREATE OR REPLACE FUNCTION set_comment_space_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT space_id INTO NEW.space_id
+  FROM properties
+  WHERE id::text = NEW.property_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_property_comments_space_id ON property_comments;
+CREATE TRIGGER set_property_comments_space_id
+  BEFORE INSERT ON property_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_comment_space_id();
+
+-- A row stays in the space it was created in. Without this an UPDATE could set
+-- space_id to NULL (publishing a private row) or pull an open row into a space.
+CREATE OR REPLACE FUNCTION keep_space_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.space_id IS DISTINCT FROM OLD.space_id THEN
+    RAISE EXCEPTION 'space_id cannot be changed' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS keep_properties_space_id ON properties;
+CREATE TRIGGER keep_properties_space_id
+  BEFORE UPDATE ON properties
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_space_id();
+
+-- Trigger for updated_at on spaces (reuse existing function)
+DROP TRIGGER IF EXISTS update_spaces_updated_at ON spaces;
+CREATE TRIGGER update_spaces_updated_at
+  BEFORE UPDATE ON spaces
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE spaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE space_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE properties ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for spaces
+
+CREATE POLICY "Members can view their spaces"
+  ON spaces
+  FOR SELECT
+  USING (is_space_member(id));
+
+CREATE POLICY "Authenticated users can create spaces"
+  ON spaces
+  FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL AND created_by = auth.uid());
+
+CREATE POLICY "Owners can rename their spaces"
+  ON spaces
+  FOR UPDATE
+  USING (is_space_owner(id))
+  WITH CHECK (is_space_owner(id));
+
+CREATE POLICY "Owners can delete their spaces"
+  ON spaces
+  FOR DELETE
+  USING (is_space_owner(id));
+
+-- RLS Policies for space_members
+
+CREATE POLICY "Members can view fellow members"
+  ON space_members
+  FOR SELECT
+  USING (is_space_member(space_id));
+
+CREATE POLICY "Members can update their own display name"
+  ON space_members
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Members can leave and owners can remove members"
+  ON space_members
+  FOR DELETE
+  USING (user_id = auth.uid() OR is_space_owner(space_id));
+
+-- RLS Policies for properties
+-- Policies are OR'ed, so any existing open policy would keep every space's
+-- properties public. The table predates these migrations and its policy names
+-- aren't known here - drop them all before adding the space-scoped ones.
+
+DO $$
+DECLARE
+  policy RECORD;
+BEGIN
+  FOR policy IN
+    SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = 'properties'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON properties', policy.policyname);
+  END LOOP;
+END $$;
+
+ALTER TABLE properties ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Read open properties or properties in own spaces"
+  ON properties
+  FOR SELECT
+  USING (space_id IS NULL OR is_space_member(space_id));
+
+CREATE POLICY "Insert open properties or into own spaces"
+  ON properties
+  FOR INSERT
+  WITH CHECK (space_id IS NULL OR is_space_member(space_id));
+
+-- Open properties are readable by everyone but only changed by whoever added them
+-- (007 extends this to properties added while signed out)
+CREATE POLICY "Update own open properties or properties in own spaces"
+  ON properties
+  FOR UPDATE
+  USING (
+    CASE
+      WHEN space_id IS NULL THEN shared_by = auth.email()
+      ELSE is_space_member(space_id)
+    END
+  )
+  WITH CHECK (
+    CASE
+      WHEN space_id IS NULL THEN shared_by = auth.email()
+      ELSE is_space_member(space_id)
+    END
+  );
+
+CREATE POLICY "Delete own open properties or properties in own spaces"
+  ON properties
+  FOR DELETE
+  USING (
+    CASE
+      WHEN space_id IS NULL THEN shared_by = auth.email()
+      ELSE is_space_member(space_id)
+    END
+  );
+
+-- RLS Policies for comparison_sessions (tighten read access to space members)
+
+DROP POLICY IF EXISTS "Users can view their own comparison sessions" ON comparison_sessions;
+CREATE POLICY "Users can view their own comparison sessions"
+  ON comparison_sessions
+  FOR SELECT
+  USING (
+    CASE
+      WHEN space_id IS NULL THEN shared_by = auth.email() OR shared_by = 'anon'
+      ELSE is_space_member(space_id)
+    END
+  );
+
+DROP POLICY IF EXISTS "Users can create their own comparison sessions" ON comparison_sessions;
+CREATE POLICY "Users can create their own comparison sessions"
+  ON comparison_sessions
+  FOR INSERT
+  WITH CHECK (
+    (shared_by = auth.email() OR shared_by = 'anon')
+    AND (space_id IS NULL OR is_space_member(space_id))
+  );
+
+-- RLS Policies for property_reactions and property_comments
+-- Visible exactly when their property is (properties RLS applies to the subquery)
+
+DROP POLICY IF EXISTS "Public read access for reactions" ON property_reactions;
+CREATE POLICY "Reactions follow property visibility"
+  ON property_reactions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id::text = property_reactions.property_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Public read access for comments" ON property_comments;
+CREATE POLICY "Comments follow property visibility"
+  ON property_comments
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id::text = property_comments.property_id
+    )
+  );
+
+-- Add comments for documentation
+COMMENT ON TABLE spaces IS 'Private shared spaces (groups of friends) that own property links';
+COMMENT ON TABLE space_members IS 'Membership of users in shared spaces; the creator is added as owner';
+COMMENT ON COLUMN properties.space_id IS 'Owning space (NULL = open list visible to everyone)';
+COMMENT ON COLUMN comparison_sessions.space_id IS 'Owning space (NULL = personal session)';
+COMMENT ON COLUMN property_comments.space_id IS 'Copied from the commented property on insert';
+COMMENT ON FUNCTION keep_space_id IS 'Rejects updates that move a row into, out of or between spaces';
@@ -0,0 +1,210 @@
+-- Migration: Add space invites
+-- Description: Invite friends to a shared space by email or a shareable link.
+-- Tokens have the form '<invite id>.<signature>' where the signature is an HMAC over the
+-- invite id and its expiry, keyed with a secret that never leaves the database.
+-- Tokens are not stored, so a leaked invites table cannot be used to join a space.
+
+-- Supabase keeps extensions in the `extensions` schema; calls below are qualified with it
+CREATE SCHEMA IF NOT EXISTS extensions;
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Signing secret lives in a schema that is not exposed through the API
+CREATE SCHEMA IF NOT EXISTS private;
+
+CREATE TABLE IF NOT EXISTS private.invite_signing_key (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  secret BYTEA NOT NULL DEFAULT extensions.gen_random_bytes(32)
+);
+
+INSERT INTO private.invite_signing_key DEFAULT VALUES ON CONFLICT (id) DO NOTHING;
+
+-- Create space_invites table
+CREATE TABLE IF NOT EXISTS space_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  email TEXT,                     -- NULL for shareable links
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked')),
+  invited_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '7 days',
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_space_invites_space_id ON space_invites(space_id);
+
+-- Who joined through each invite. A shareable link can be used by many people
+-- until it expires or is revoked, so acceptances get their own rows.
+CREATE TABLE IF NOT EXISTS space_invite_acceptances (
+  invite_id UUID NOT NULL REFERENCES space_invites(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  accepted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (invite_id, user_id)
+);
+
+-- Trigger for updated_at (reuse existing function)
+DROP TRIGGER IF EXISTS update_space_invites_updated_at ON space_invites;
+CREATE TRIGGER update_space_invites_updated_at
+  BEFORE UPDATE ON space_invites
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Signature over invite id + expiry
+CREATE OR REPLACE FUNCTION private.sign_space_invite(invite_id UUID, invite_expires_at TIMESTAMPTZ)
+RETURNS TEXT AS $$
+  SELECT encode(
+    extensions.hmac(invite_id::text || ':' || extract(epoch FROM invite_expires_at)::bigint::text, secret, 'sha256'),
+    'hex'
+  )
+  FROM private.invite_signing_key;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, private;
+
+-- Resolve a token to its invite row; NULL when the signature does not match
+CREATE OR REPLACE FUNCTION private.verify_space_invite(invite_token TEXT)
+RETURNS space_invites AS $$
+DECLARE
+  invite space_invites;
+BEGIN
+  IF invite_token IS NULL OR invite_token !~ '^[0-9a-f-]{36}\.[0-9a-f]{64}$' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO invite
+  FROM space_invites
+  WHERE id = split_part(invite_token, '.', 1)::uuid;
+
+  IF invite.id IS NULL
+    OR private.sign_space_invite(invite.id, invite.expires_at) <> split_part(invite_token, '.', 2) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN invite;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, private;
+
+-- Create an invite and return its token (only members can invite)
+CREATE OR REPLACE FUNCTION create_space_invite(target_space_id UUID, invite_email TEXT DEFAULT NULL)
+RETURNS TABLE (invite_id UUID, token TEXT, expires_at TIMESTAMPTZ) AS $$
+DECLARE
+  invite space_invites;
+BEGIN
+  IF NOT is_space_member(target_space_id) THEN
+    RAISE EXCEPTION 'Not a member of this space' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO space_invites (space_id, email, invited_by)
+  VALUES (target_space_id, NULLIF(lower(trim(invite_email)), ''), auth.uid())
+  RETURNING * INTO invite;
+
+  RETURN QUERY SELECT
+    invite.id,
+    invite.id::text || '.' || private.sign_space_invite(invite.id, invite.expires_at),
+    invite.expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, private;
+
+-- Preview an invite before joining (works for anyone holding the token)
+CREATE OR REPLACE FUNCTION get_space_invite(invite_token TEXT)
+RETURNS TABLE (space_id UUID, space_name TEXT, status TEXT, expires_at TIMESTAMPTZ) AS $$
+DECLARE
+  invite space_invites;
+BEGIN
+  invite := private.verify_space_invite(invite_token);
+  IF invite.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT s.id, s.name, invite.status, invite.expires_at
+  FROM spaces s
+  WHERE s.id = invite.space_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, private;
+
+-- Join the space behind a token. Anonymous users must sign in anonymously first so
+-- they have an auth.uid() to attach the membership to. A personal invite only
+-- works for its own address and is used up; a shareable link stays pending.
+CREATE OR REPLACE FUNCTION accept_space_invite(invite_token TEXT, member_display_name TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  invite space_invites;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Must be signed in to accept an invite' USING ERRCODE = '42501';
+  END IF;
+
+  invite := private.verify_space_invite(invite_token);
+
+  IF invite.id IS NULL THEN
+    RAISE EXCEPTION 'Invalid invite' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Already a member: accepting again is a no-op
+  IF is_space_member(invite.space_id) THEN
+    RETURN invite.space_id;
+  END IF;
+
+  IF invite.status <> 'pending' THEN
+    RAISE EXCEPTION 'Invite is %', invite.status USING ERRCODE = 'P0001';
+  END IF;
+
+  IF invite.expires_at < NOW() THEN
+    RAISE EXCEPTION 'Invite has expired' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF invite.email IS NOT NULL AND invite.email IS DISTINCT FROM lower(auth.email()) THEN
+    RAISE EXCEPTION 'Invite was sent to another email address' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO space_members (space_id, user_id, display_name, role)
+  VALUES (invite.space_id, auth.uid(), NULLIF(trim(member_display_name), ''), 'member')
+  ON CONFLICT (space_id, user_id) DO NOTHING;
+
+  INSERT INTO space_invite_acceptances (invite_id, user_id)
+  VALUES (invite.id, auth.uid())
+  ON CONFLICT (invite_id, user_id) DO NOTHING;
+
+  IF invite.email IS NOT NULL THEN
+    UPDATE space_invites
+    SET status = 'accepted', accepted_by = auth.uid(), accepted_at = NOW()
+    WHERE id = invite.id;
+  END IF;
+
+  RETURN invite.space_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, private;
+
+-- Enable Row Level Security
+ALTER TABLE space_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE space_invite_acceptances ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (inserts go through create_space_invite)
+
+CREATE POLICY "Members can view invites to their spaces"
+  ON space_invites
+  FOR SELECT
+  USING (is_space_member(space_id));
+
+CREATE POLICY "Members can revoke invites to their spaces"
+  ON space_invites
+  FOR UPDATE
+  USING (is_space_member(space_id) AND status = 'pending')
+  WITH CHECK (is_space_member(space_id) AND status = 'revoked');
+
+-- Acceptances are only written by accept_space_invite
+CREATE POLICY "Members can view who joined through invites to their spaces"
+  ON space_invite_acceptances
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM space_invites i
+    WHERE i.id = space_invite_acceptances.invite_id AND is_space_member(i.space_id)
+  ));
+
+-- Add comments for documentation
+COMMENT ON TABLE space_invites IS 'Invites to shared spaces; tokens are HMAC-signed and never stored';
+COMMENT ON COLUMN space_invites.email IS 'Invited email address (NULL = shareable link)';
+COMMENT ON COLUMN space_invites.status IS 'Personal invites become accepted; shareable links stay pending until revoked';
+COMMENT ON TABLE space_invite_acceptances IS 'One row per user who joined through an invite';
+COMMENT ON FUNCTION accept_space_invite IS 'Verifies an invite token and adds the caller to the space';
@@ -0,0 +1,173 @@
+-- Migration: Claim anonymous activity
+-- Description: Lets a user who signs in take over what they did anonymously on this device.
+-- Reactions and comments carry the device's anon ID as user_id; properties only have
+-- shared_by = 'anon', so they now also record the anon ID of the device that added them.
+-- The claim runs as a SECURITY DEFINER function because the rows belong to another
+-- (anonymous) identity, which the regular RLS policies rightly do not let us update.
+-- Anon IDs are public (they are the user_id of reactions and comments), so a claim
+-- also needs the per-device secret. The database mints each anon ID together with the
+-- hash of its secret, so nobody can attach a secret to an ID someone else already uses.
+-- IDs created on devices before this migration have no secret and can't be claimed;
+-- those devices switch to a minted ID.
+-- The same secret, sent as the x-anon-secret request header, lets a signed-out device
+-- change and delete the open properties it added.
+
+-- Remember which device added an anonymous property
+ALTER TABLE properties
+ADD COLUMN IF NOT EXISTS anon_id TEXT CHECK (anon_id IS NULL OR anon_id LIKE 'anon-%');
+
+CREATE INDEX IF NOT EXISTS idx_properties_anon_id ON properties(anon_id) WHERE anon_id IS NOT NULL;
+
+-- Hash of the secret each anon ID was minted with. Lives in the private schema
+-- (see 006), which is not exposed through the API.
+CREATE SCHEMA IF NOT EXISTS private;
+
+CREATE TABLE IF NOT EXISTS private.anon_identities (
+  anon_id TEXT PRIMARY KEY CHECK (anon_id LIKE 'anon-%'),
+  secret_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Mint a fresh random anon ID bound to the device's secret. The ID is new, so no
+-- public row can point at it yet.
+CREATE OR REPLACE FUNCTION create_anon_identity(create_secret TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  new_anon_id TEXT := 'anon-' || encode(extensions.gen_random_bytes(16), 'hex');
+BEGIN
+  IF create_secret IS NULL OR length(create_secret) < 32 THEN
+    RAISE EXCEPTION 'Anonymous secret is too short' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO private.anon_identities (anon_id, secret_hash)
+  VALUES (new_anon_id, encode(extensions.digest(create_secret, 'sha256'), 'hex'));
+
+  RETURN new_anon_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, private;
+
+REVOKE ALL ON FUNCTION create_anon_identity(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_anon_identity(TEXT) TO anon, authenticated;
+
+-- Whether the request carries the secret the given anon ID was minted with.
+-- SECURITY DEFINER so policies can check it without access to the private schema.
+CREATE OR REPLACE FUNCTION is_anon_owner(owner_anon_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM private.anon_identities
+    WHERE anon_id = owner_anon_id
+      AND secret_hash = encode(extensions.digest(
+        NULLIF(current_setting('request.headers', true), '')::json->>'x-anon-secret',
+        'sha256'
+      ), 'hex')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, private;
+
+-- Open properties added while signed out belong to the device that added them
+DROP POLICY IF EXISTS "Update own open properties or properties in own spaces" ON properties;
+CREATE POLICY "Update own open properties or properties in own spaces"
+  ON properties
+  FOR UPDATE
+  USING (
+    CASE
+      WHEN space_id IS NULL THEN shared_by = auth.email() OR (shared_by = 'anon' AND is_anon_owner(anon_id))
+      ELSE is_space_member(space_id)
+    END
+  )
+  WITH CHECK (
+    CASE
+      WHEN space_id IS NULL THEN shared_by = auth.email() OR (shared_by = 'anon' AND is_anon_owner(anon_id))
+      ELSE is_space_member(space_id)
+    END
+  );
+
+DROP POLICY IF EXISTS "Delete own open properties or properties in own spaces" ON properties;
+CREATE POLICY "Delete own open properties or properties in own spaces"
+  ON properties
+  FOR DELETE
+  USING (
+    CASE
+      WHEN space_id IS NULL THEN shared_by = auth.email() OR (shared_by = 'anon' AND is_anon_owner(anon_id))
+      ELSE is_space_member(space_id)
+    END
+  );
+
+-- Re-attribute everything owned by an anon ID to the signed-in user, given the
+-- secret the ID was minted with. An ID that was never minted has nothing to claim.
+CREATE OR REPLACE FUNCTION claim_anon_activity(
+  claim_anon_id TEXT,
+  claim_secret TEXT,
+  claim_user_name TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  claimer TEXT := auth.email();
+  reactions_claimed INTEGER;
+  comments_claimed INTEGER;
+  properties_claimed INTEGER;
+BEGIN
+  IF claimer IS NULL THEN
+    RAISE EXCEPTION 'Must be signed in with an email to claim activity' USING ERRCODE = '42501';
+  END IF;
+
+  IF claim_anon_id IS NULL OR claim_anon_id NOT LIKE 'anon-%' THEN
+    RAISE EXCEPTION 'Invalid anonymous id' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM private.anon_identities WHERE anon_id = claim_anon_id) THEN
+    RETURN jsonb_build_object('reactions', 0, 'comments', 0, 'properties', 0);
+  END IF;
+
+  IF claim_secret IS NULL OR NOT EXISTS (
+    SELECT 1 FROM private.anon_identities
+    WHERE anon_id = claim_anon_id
+      AND secret_hash = encode(extensions.digest(claim_secret, 'sha256'), 'hex')
+  ) THEN
+    RAISE EXCEPTION 'Anonymous id and secret do not match' USING ERRCODE = '42501';
+  END IF;
+
+  -- Drop anonymous reactions the account already has (unique per property/user/emoji)
+  DELETE FROM property_reactions anon_reaction
+  WHERE anon_reaction.user_id = claim_anon_id
+    AND EXISTS (
+      SELECT 1 FROM property_reactions own
+      WHERE own.user_id = claimer
+        AND own.property_id = anon_reaction.property_id
+        AND own.emoji = anon_reaction.emoji
+    );
+
+  UPDATE property_reactions
+  SET user_id = claimer
+  WHERE user_id = claim_anon_id;
+  GET DIAGNOSTICS reactions_claimed = ROW_COUNT;
+
+  UPDATE property_comments
+  SET user_id = claimer,
+      user_name = COALESCE(NULLIF(trim(claim_user_name), ''), claimer)
+  WHERE user_id = claim_anon_id;
+  GET DIAGNOSTICS comments_claimed = ROW_COUNT;
+
+  UPDATE properties
+  SET shared_by = claimer,
+      anon_id = NULL
+  WHERE anon_id = claim_anon_id
+    AND shared_by = 'anon';
+  GET DIAGNOSTICS properties_claimed = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'reactions', reactions_claimed,
+    'comments', comments_claimed,
+    'properties', properties_claimed
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, private;
+
+REVOKE ALL ON FUNCTION claim_anon_activity(TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION claim_anon_activity(TEXT, TEXT, TEXT) TO authenticated;
+
+-- Add comments for documentation
+COMMENT ON COLUMN properties.anon_id IS 'Anon ID of the device that added the property while signed out';
+COMMENT ON TABLE private.anon_identities IS 'SHA-256 of the per-device secret each anon ID was minted with';
+COMMENT ON FUNCTION create_anon_identity IS 'Mints a random anon ID bound to the hash of the device secret';
+COMMENT ON FUNCTION is_anon_owner IS 'True when the x-anon-secret request header matches the secret of the anon ID';
+COMMENT ON FUNCTION claim_anon_activity IS 'Moves reactions, comments and properties from an anon ID to the signed-in user, given its secret';
@@ -0,0 +1,74 @@
+-- Migration: Add property price history
+-- Description: Records asking price and monthly fee (avgift) changes for saved listings.
+-- A trigger on properties writes a row when a property is added and whenever price or
+-- monthly_fee changes, so refreshes, enrichment and edits from any client are captured
+-- without the app having to remember to log them.
+
+-- Create property_price_history table
+CREATE TABLE IF NOT EXISTS property_price_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id BIGINT NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  price NUMERIC,
+  monthly_fee NUMERIC,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_property_price_history_property_id
+  ON property_price_history(property_id, recorded_at);
+
+-- Append a history row with the property's current price and fee
+CREATE OR REPLACE FUNCTION record_property_price()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.price IS NULL AND NEW.monthly_fee IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO property_price_history (property_id, price, monthly_fee)
+  VALUES (NEW.id, NEW.price, NEW.monthly_fee);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_property_price_on_insert ON properties;
+CREATE TRIGGER record_property_price_on_insert
+  AFTER INSERT ON properties
+  FOR EACH ROW
+  EXECUTE FUNCTION record_property_price();
+
+DROP TRIGGER IF EXISTS record_property_price_on_update ON properties;
+CREATE TRIGGER record_property_price_on_update
+  AFTER UPDATE OF price, monthly_fee ON properties
+  FOR EACH ROW
+  WHEN (OLD.price IS DISTINCT FROM NEW.price OR OLD.monthly_fee IS DISTINCT FROM NEW.monthly_fee)
+  EXECUTE FUNCTION record_property_price();
+
+-- Seed a starting point for properties saved before this migration
+INSERT INTO property_price_history (property_id, price, monthly_fee, recorded_at)
+SELECT p.id, p.price, p.monthly_fee, COALESCE(p.updated_at, p.created_at, NOW())
+FROM properties p
+WHERE (p.price IS NOT NULL OR p.monthly_fee IS NOT NULL)
+  AND NOT EXISTS (
+    SELECT 1 FROM property_price_history h WHERE h.property_id = p.id
+  );
+
+-- Enable Row Level Security
+ALTER TABLE property_price_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (rows are only written by the trigger above)
+
+-- History is visible exactly when the property is (properties RLS applies to the subquery)
+CREATE POLICY "Price history follows property visibility"
+  ON property_price_history
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_price_history.property_id
+    )
+  );
+
+-- Add comments for documentation
+COMMENT ON TABLE property_price_history IS 'Asking price and monthly fee over time, one row per change';
+COMMENT ON FUNCTION record_property_price IS 'Logs price/monthly_fee on insert and when either changes';
@@ -0,0 +1,40 @@
+-- Migration: Add property sources
+-- Description: The same home is often listed on Hemnet, Booli and the broker's own site.
+-- Each property keeps a list of sources (site name, URL, first/last seen, asking price on
+-- that site) in a jsonb column on properties, so realtime INSERT/UPDATE payloads carry it.
+-- Replaces enrichment_status.alternateUrls, which held extra URLs without any metadata.
+
+ALTER TABLE properties
+ADD COLUMN IF NOT EXISTS sources JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Backfill: the listing URL plus any alternate URLs merged in before this migration
+UPDATE properties p
+SET sources = (
+  SELECT jsonb_agg(source ORDER BY ordinal)
+  FROM (
+    SELECT 0 AS ordinal, jsonb_strip_nulls(jsonb_build_object(
+      'siteName', COALESCE(p.site_name, regexp_replace(substring(p.url FROM '^[a-z]+://([^/?#]+)'), '^www\.', '')),
+      'url', p.url,
+      'firstSeen', COALESCE(p.created_at, NOW()),
+      'lastSeen', COALESCE(p.updated_at, p.created_at, NOW()),
+      'price', p.price
+    )) AS source
+    UNION ALL
+    SELECT alt.ordinal, jsonb_build_object(
+      'siteName', regexp_replace(substring(alt.url FROM '^[a-z]+://([^/?#]+)'), '^www\.', ''),
+      'url', alt.url,
+      'firstSeen', COALESCE(p.updated_at, p.created_at, NOW()),
+      'lastSeen', COALESCE(p.updated_at, p.created_at, NOW())
+    )
+    FROM jsonb_array_elements_text(COALESCE(p.enrichment_status->'alternateUrls', '[]'::jsonb))
+      WITH ORDINALITY AS alt(url, ordinal)
+  ) AS all_sources
+)
+WHERE p.sources = '[]'::jsonb;
+
+UPDATE properties
+SET enrichment_status = enrichment_status - 'alternateUrls'
+WHERE enrichment_status ? 'alternateUrls';
+
+-- Add comments for documentation
+COMMENT ON COLUMN properties.sources IS 'Sites listing this property: [{siteName, url, firstSeen, lastSeen, price}], primary listing first';
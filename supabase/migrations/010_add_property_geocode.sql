@@ -0,0 +1,14 @@
+-- Migration: Add geocode provenance to properties
+-- Description: Records where a property's coordinates came from and how precise they are,
+-- so the map can tell a broker-supplied pin from a city-level guess. Properties whose
+-- location could not be resolved keep NULL coordinates instead of a made-up position.
+
+ALTER TABLE properties
+ADD COLUMN IF NOT EXISTS geocode_source TEXT
+  CHECK (geocode_source IN ('listing', 'crawler', 'address', 'user')),
+ADD COLUMN IF NOT EXISTS geocode_precision TEXT
+  CHECK (geocode_precision IN ('exact', 'address', 'street', 'postal_code', 'city'));
+
+-- Add comments for documentation
+COMMENT ON COLUMN properties.geocode_source IS 'Where the coordinates came from: listing (OG/JSON-LD), crawler (/go/geocode-address), address (text geocoding) or user (placed on the map)';
+COMMENT ON COLUMN properties.geocode_precision IS 'How precise the coordinates are: exact, address, street, postal_code or city';
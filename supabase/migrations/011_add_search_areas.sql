@@ -0,0 +1,73 @@
+-- Migration: Add search areas
+-- Description: Neighbourhoods drawn on the map ("Limhamn nära havet", "Runt Pildammsparken").
+-- Each area is a named polygon stored as a jsonb ring of [longitude, latitude] points.
+-- Areas belong to a space like properties do; rows without a space_id are on the open list,
+-- where only whoever drew an area can change or delete it.
+-- Point-in-polygon checks run in the app, so no PostGIS is needed.
+
+-- Create search_areas table
+CREATE TABLE IF NOT EXISTS search_areas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id UUID REFERENCES spaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  polygon JSONB NOT NULL CHECK (jsonb_typeof(polygon) = 'array' AND jsonb_array_length(polygon) >= 3),
+  created_by TEXT NOT NULL DEFAULT 'anon',
+  anon_id TEXT CHECK (anon_id IS NULL OR anon_id LIKE 'anon-%'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_search_areas_space_id ON search_areas(space_id);
+
+-- Areas stay in the space they were drawn in (keep_space_id() is defined in 005)
+DROP TRIGGER IF EXISTS keep_search_areas_space_id ON search_areas;
+CREATE TRIGGER keep_search_areas_space_id
+  BEFORE UPDATE ON search_areas
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_space_id();
+
+-- Enable Row Level Security
+ALTER TABLE search_areas ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (same rules as properties; is_anon_owner() is defined in 007)
+
+CREATE POLICY "Read open search areas or search areas in own spaces"
+  ON search_areas
+  FOR SELECT
+  USING (space_id IS NULL OR is_space_member(space_id));
+
+CREATE POLICY "Insert open search areas or into own spaces"
+  ON search_areas
+  FOR INSERT
+  WITH CHECK (space_id IS NULL OR is_space_member(space_id));
+
+CREATE POLICY "Update own open search areas or search areas in own spaces"
+  ON search_areas
+  FOR UPDATE
+  USING (
+    CASE
+      WHEN space_id IS NULL THEN created_by = auth.email() OR (created_by = 'anon' AND is_anon_owner(anon_id))
+      ELSE is_space_member(space_id)
+    END
+  )
+  WITH CHECK (
+    CASE
+      WHEN space_id IS NULL THEN created_by = auth.email() OR (created_by = 'anon' AND is_anon_owner(anon_id))
+      ELSE is_space_member(space_id)
+    END
+  );
+
+CREATE POLICY "Delete own open search areas or search areas in own spaces"
+  ON search_areas
+  FOR DELETE
+  USING (
+    CASE
+      WHEN space_id IS NULL THEN created_by = auth.email() OR (created_by = 'anon' AND is_anon_owner(anon_id))
+      ELSE is_space_member(space_id)
+    END
+  );
+
+-- Add comments for documentation
+COMMENT ON TABLE search_areas IS 'Named neighbourhoods drawn on the map, per space';
+COMMENT ON COLUMN search_areas.anon_id IS 'Anon ID of the device that drew the area while signed out';
+COMMENT ON COLUMN search_areas.polygon IS 'Polygon ring as [[longitude, latitude], ...], not closed (first point is not repeated)';
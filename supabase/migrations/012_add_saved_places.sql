@@ -0,0 +1,51 @@
+-- Migration: Add saved places
+-- Description: Important places of a household ("Jobbet", "Skolan", "Mormor och morfar").
+-- Each property shows the distance and an estimated commute time to these places.
+-- Places in a space are shared with its members. They point at homes, workplaces and
+-- schools, so unlike properties an open-list place (no space_id) is only visible to the
+-- signed-in user who saved it; signed-out users keep theirs on the device.
+
+-- Create saved_places table
+CREATE TABLE IF NOT EXISTS saved_places (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id UUID REFERENCES spaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  kind TEXT NOT NULL DEFAULT 'other' CHECK (kind IN ('work', 'school', 'family', 'other')),
+  latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  created_by TEXT NOT NULL DEFAULT 'anon',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_saved_places_space_id ON saved_places(space_id);
+
+-- Enable Row Level Security
+ALTER TABLE saved_places ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: own places on the open list, or members of the space
+
+CREATE POLICY "Read own open saved places or saved places in own spaces"
+  ON saved_places
+  FOR SELECT
+  USING ((space_id IS NULL AND created_by = auth.email()) OR is_space_member(space_id));
+
+CREATE POLICY "Insert own open saved places or into own spaces"
+  ON saved_places
+  FOR INSERT
+  WITH CHECK ((space_id IS NULL AND created_by = auth.email()) OR is_space_member(space_id));
+
+CREATE POLICY "Update own open saved places or saved places in own spaces"
+  ON saved_places
+  FOR UPDATE
+  USING ((space_id IS NULL AND created_by = auth.email()) OR is_space_member(space_id))
+  WITH CHECK ((space_id IS NULL AND created_by = auth.email()) OR is_space_member(space_id));
+
+CREATE POLICY "Delete own open saved places or saved places in own spaces"
+  ON saved_places
+  FOR DELETE
+  USING ((space_id IS NULL AND created_by = auth.email()) OR is_space_member(space_id));
+
+-- Add comments for documentation
+COMMENT ON TABLE saved_places IS 'Important places (work, school, family) used for commute estimates, per space';
+COMMENT ON COLUMN saved_places.kind IS 'work, school, family or other - picks the icon';
@@ -0,0 +1,64 @@
+-- Migration: Add household profiles
+-- Description: The household's money in one place - income per person, savings for the
+-- kontantinsats, existing loans and preferred rates. The financial calculator starts from
+-- it on every property and the property list and map flag what is within budget.
+-- A space has one shared profile, visible to its members. On the open list (no space_id)
+-- each signed-in user has their own that nobody else can read; incomes and savings are
+-- personal, so a signed-out user's profile stays on the device.
+
+-- Create household_profiles table
+CREATE TABLE IF NOT EXISTS household_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id UUID REFERENCES spaces(id) ON DELETE CASCADE,
+  owner_id TEXT NOT NULL,
+  members JSONB NOT NULL DEFAULT '[]'::jsonb,
+  children INTEGER NOT NULL DEFAULT 0 CHECK (children >= 0),
+  savings NUMERIC NOT NULL DEFAULT 0 CHECK (savings >= 0),
+  other_loans_monthly NUMERIC NOT NULL DEFAULT 0 CHECK (other_loans_monthly >= 0),
+  car_costs_monthly NUMERIC NOT NULL DEFAULT 0 CHECK (car_costs_monthly >= 0),
+  municipal_tax_rate NUMERIC CHECK (municipal_tax_rate BETWEEN 0 AND 1),
+  interest_rate NUMERIC CHECK (interest_rate BETWEEN 0 AND 1),
+  stress_test_rate NUMERIC CHECK (stress_test_rate BETWEEN 0 AND 100),
+  updated_by TEXT NOT NULL DEFAULT 'anon',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One profile per space, and one per user on the open list
+CREATE UNIQUE INDEX IF NOT EXISTS idx_household_profiles_space_id
+  ON household_profiles(space_id) WHERE space_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_household_profiles_open_owner_id
+  ON household_profiles(owner_id) WHERE space_id IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE household_profiles ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: the own profile on the open list, or members of the space
+
+CREATE POLICY "Read own open household profile or the profile of own spaces"
+  ON household_profiles
+  FOR SELECT
+  USING ((space_id IS NULL AND owner_id = auth.email()) OR is_space_member(space_id));
+
+CREATE POLICY "Insert own open household profile or into own spaces"
+  ON household_profiles
+  FOR INSERT
+  WITH CHECK ((space_id IS NULL AND owner_id = auth.email()) OR is_space_member(space_id));
+
+CREATE POLICY "Update own open household profile or the profile of own spaces"
+  ON household_profiles
+  FOR UPDATE
+  USING ((space_id IS NULL AND owner_id = auth.email()) OR is_space_member(space_id))
+  WITH CHECK ((space_id IS NULL AND owner_id = auth.email()) OR is_space_member(space_id));
+
+CREATE POLICY "Delete own open household profile or the profile of own spaces"
+  ON household_profiles
+  FOR DELETE
+  USING ((space_id IS NULL AND owner_id = auth.email()) OR is_space_member(space_id));
+
+-- Add comments for documentation
+COMMENT ON TABLE household_profiles IS 'Household income, savings, loans and preferred rates used for affordability, one per space';
+COMMENT ON COLUMN household_profiles.owner_id IS 'Email of the user the profile belongs to on the open list';
+COMMENT ON COLUMN household_profiles.members IS 'Adults in the household: [{ name, grossMonthlyIncome }]';
+COMMENT ON COLUMN household_profiles.savings IS 'Money available for the kontantinsats';
+COMMENT ON COLUMN household_profiles.interest_rate IS 'Preferred mortgage rate as a decimal (0.035 = 3.5%)';
+COMMENT ON COLUMN household_profiles.stress_test_rate IS 'Kalkylränta in percent';
@@ -0,0 +1,31 @@
+-- Migration: Merge enrichment_status on the server
+-- Description: The client used to read enrichment_status, merge its changes and write the
+-- whole object back, so an enrichment status update and a financial data save running at
+-- the same time could wipe each other out. merge_enrichment_status() merges a patch into
+-- the stored jsonb in a single UPDATE instead: top-level keys are replaced, while `details`
+-- is merged key by key so a partial update keeps the other listing details.
+
+CREATE OR REPLACE FUNCTION merge_enrichment_status(merge_property_id BIGINT, merge_patch JSONB)
+RETURNS SETOF properties
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  UPDATE properties
+  SET enrichment_status = COALESCE(enrichment_status, '{}'::jsonb)
+    || (merge_patch - 'details')
+    || CASE
+         WHEN merge_patch ? 'details' THEN jsonb_build_object(
+           'details', COALESCE(enrichment_status->'details', '{}'::jsonb) || (merge_patch->'details')
+         )
+         ELSE '{}'::jsonb
+       END
+  WHERE id = merge_property_id
+  RETURNING *;
+$$;
+
+-- Runs as the caller, so the properties RLS policies decide which rows it may touch
+GRANT EXECUTE ON FUNCTION merge_enrichment_status(BIGINT, JSONB) TO anon, authenticated;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION merge_enrichment_status(BIGINT, JSONB) IS 'Merges a patch into properties.enrichment_status in one statement; details are merged key by key';
@@ -13,6 +13,9 @@ export default defineConfig({
     env: {
       EXPO_PUBLIC_SUPABASE_URL: 'http://localhost:54321',
       EXPO_PUBLIC_SUPABASE_ANON_KEY: 'test-anon-key',
+      // Served by the crawler mock (__tests__/setup/mocks/crawler.ts)
+      EXPO_PUBLIC_CRAWLER_API_URL: 'http://crawler.mock',
+      EXPO_PUBLIC_GEOCODE_API_URL: 'http://crawler.mock',
     },
 
     // Setup files